@@ -1,17 +1,66 @@
-const express = require('express');
-const path = require('path');
+import express from 'express';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// The API is compiled from src/server by "npm run build"; without it only the site is served
+const api = await import('./dist-ssr/api.js').catch((error) => {
+  if (error.code !== 'ERR_MODULE_NOT_FOUND') throw error;
+  console.warn('API bundle not found in dist-ssr; /api/v1 is unavailable until "npm run build" is run');
+  return null;
+});
+
+app.use('/api/v1', express.json({ limit: '50mb' }), async (req, res, next) => {
+  if (!api) return next();
+  const { status, body, stream } = await api.handleApiRequest({
+    method: req.method,
+    path: req.path,
+    query: req.query,
+    body: req.body,
+  });
+  if (!stream) return res.status(status).json(body);
+
+  // Server-Sent Events, with a comment line now and then so proxies keep the connection open
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  // Listening for the disconnect before subscribing, so a client gone during setup still unsubscribes
+  let closed = false;
+  let stop = null;
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  res.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    stop?.();
+  });
+  stop = await stream((event, data) => {
+    if (!closed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  });
+  if (closed) stop();
+});
+
+// Unknown API paths and malformed JSON get JSON errors, never the app's index.html
+app.use('/api', (req, res) => {
+  res.status(404).json({ error: `No endpoint at ${req.method} ${req.originalUrl}` });
+});
+app.use('/api', (error, req, res, next) => {
+  res.status(error.status || 500).json({ error: error.message });
+});
+
 // Serve static files from the dist directory
 app.use(express.static(path.join(__dirname, 'dist')));
 
-// Handle client-side routing by serving index.html for all routes
-app.get('*', (req, res) => {
+// Handle client-side routing by serving index.html for all other routes
+app.get('/{*splat}', (req, res) => {
   res.sendFile(path.join(__dirname, 'dist', 'index.html'));
 });
 
 app.listen(PORT, () => {
   console.log(`Server is running on http://localhost:${PORT}`);
   console.log('Make sure to run "npm run build" first to create the dist folder');
-});
\ No newline at end of file
+});
@@ -4,6 +4,11 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Projects from "./pages/Projects";
+import ProjectWorkspace from "./pages/ProjectWorkspace";
+import ProjectMolecules from "./pages/ProjectMolecules";
+import ProjectRuns from "./pages/ProjectRuns";
+import MoleculePage from "./pages/MoleculePage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +21,11 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/projects" element={<Projects />} />
+          <Route path="/projects/:id" element={<ProjectWorkspace />} />
+          <Route path="/projects/:id/molecules" element={<ProjectMolecules />} />
+          <Route path="/projects/:id/runs" element={<ProjectRuns />} />
+          <Route path="/molecule/:canonicalSmiles" element={<MoleculePage />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -1,7 +1,4 @@
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { VAEModule } from "./VAEModule";
-import { GANModule } from "./GANModule";
-import { SMILESModule } from "./SMILESModule";
+import { ModuleTabs } from "./ModuleTabs";
 
 export const AIModules = () => {
   return (
@@ -24,34 +21,7 @@ export const AIModules = () => {
         </div>
 
         {/* AI Modules Tabs */}
-        <Tabs defaultValue="vae" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 mb-8">
-            <TabsTrigger value="vae" className="text-lg">
-              <span className="mr-2">🧠</span>
-              VAE Generator
-            </TabsTrigger>
-            <TabsTrigger value="gan" className="text-lg">
-              <span className="mr-2">⚔️</span>
-              GAN Training
-            </TabsTrigger>
-            <TabsTrigger value="smiles" className="text-lg">
-              <span className="mr-2">🧪</span>
-              SMILES Analyzer
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="vae">
-            <VAEModule />
-          </TabsContent>
-
-          <TabsContent value="gan">
-            <GANModule />
-          </TabsContent>
-
-          <TabsContent value="smiles">
-            <SMILESModule />
-          </TabsContent>
-        </Tabs>
+        <ModuleTabs />
 
         {/* Info Footer */}
         <div className="mt-16 text-center">
@@ -0,0 +1,220 @@
+import { ChangeEvent, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+import {
+  ColumnMapping,
+  ImportError,
+  ImportTable,
+  ImportedRecord,
+  applyMapping,
+  detectFormat,
+  guessMapping,
+  readImportTable,
+} from "@/lib/chem/import";
+
+interface BatchImportProps {
+  onImport: (records: ImportedRecord[], fileName: string) => void;
+}
+
+const NO_COLUMN = "none";
+const PREVIEW_ROWS = 5;
+
+export const BatchImport = ({ onImport }: BatchImportProps) => {
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [errors, setErrors] = useState<ImportError[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const readFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const format = detectFormat(file.name);
+    if (!format) {
+      toast({
+        title: "Unsupported File",
+        description: "Choose a .smi, .csv, .tsv or .sdf file",
+        variant: "destructive",
+      });
+      return;
+    }
+    const parsed = readImportTable(await file.text(), format);
+    setFileName(file.name);
+    setTable(parsed);
+    setMapping(guessMapping(parsed));
+    setErrors([]);
+  };
+
+  const toggleExtra = (column: number, checked: boolean) => {
+    const extras = checked ? [...mapping.extras, column].sort((a, b) => a - b) : mapping.extras.filter((k) => k !== column);
+    setMapping({ ...mapping, extras });
+  };
+
+  const selectSmiles = (value: string) => {
+    const smiles = Number(value);
+    setMapping({
+      smiles,
+      id: mapping.id === smiles ? null : mapping.id,
+      extras: mapping.extras.filter((k) => k !== smiles),
+    });
+  };
+
+  const selectId = (value: string) => {
+    const id = value === NO_COLUMN ? null : Number(value);
+    setMapping({ ...mapping, id, extras: mapping.extras.filter((k) => k !== id) });
+  };
+
+  const runImport = () => {
+    const { records, errors } = applyMapping(table, mapping);
+    setErrors(errors);
+    setTable(null);
+    onImport(records, fileName);
+    toast({
+      title: "Import Complete",
+      description: `Imported ${records.length} molecules from ${fileName}${errors.length ? `, ${errors.length} rows skipped` : ""}`,
+      variant: records.length === 0 ? "destructive" : "default",
+    });
+  };
+
+  return (
+    <>
+      <input ref={fileInput} type="file" accept=".smi,.smiles,.txt,.csv,.tsv,.tab,.sdf,.sd,.mol" className="hidden" onChange={readFile} />
+      <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+        <Upload className="w-4 h-4 mr-2" />
+        Upload File
+      </Button>
+
+      {table && mapping && (
+        <Card className="p-4 space-y-4 basis-full">
+          <div>
+            <h4 className="font-semibold">Map Columns</h4>
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {table.rows.length} rows, {table.headers.length} columns
+            </p>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">SMILES Column</label>
+              <Select value={String(mapping.smiles)} onValueChange={selectSmiles}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {table.headers.map((header, k) => (
+                    <SelectItem key={k} value={String(k)}>
+                      {header}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">ID Column</label>
+              <Select value={mapping.id === null ? NO_COLUMN : String(mapping.id)} onValueChange={selectId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COLUMN}>None</SelectItem>
+                  {table.headers.map((header, k) =>
+                    k === mapping.smiles ? null : (
+                      <SelectItem key={k} value={String(k)}>
+                        {header}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {table.headers.length > 2 && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Extra Property Columns</label>
+              <div className="flex flex-wrap gap-4">
+                {table.headers.map((header, k) =>
+                  k === mapping.smiles || k === mapping.id ? null : (
+                    <div key={k} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`import-column-${k}`}
+                        checked={mapping.extras.includes(k)}
+                        onCheckedChange={(checked) => toggleExtra(k, checked === true)}
+                      />
+                      <label htmlFor={`import-column-${k}`} className="text-sm">
+                        {header}
+                      </label>
+                    </div>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  {table.headers.map((header, k) => (
+                    <TableHead key={k} className={k === mapping.smiles ? "text-primary" : ""}>
+                      {header}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                    {table.headers.map((_, k) => (
+                      <TableCell key={k} className="font-mono text-xs max-w-[200px] truncate">
+                        {row.cells[k]}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="scientific" size="sm" onClick={runImport} disabled={table.rows.length === 0}>
+              Import {table.rows.length} Rows
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setTable(null)}>
+              Cancel
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {errors.length > 0 && (
+        <Card className="p-4 basis-full">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-destructive">
+              {errors.length} {errors.length === 1 ? "Row" : "Rows"} Skipped
+            </h4>
+            <Button variant="ghost" size="sm" onClick={() => setErrors([])}>
+              Dismiss
+            </Button>
+          </div>
+          <div className="space-y-1 max-h-40 overflow-y-auto text-sm">
+            {errors.map((error, k) => (
+              <div key={k}>
+                <span className="text-muted-foreground">Line {error.line}:</span> {error.reason}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,288 @@
+import { PointerEvent, useEffect, useId, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronLeft, ChevronRight, Download, RotateCcw } from "lucide-react";
+import { Conformer } from "@/lib/chem/conformer";
+import { writePdb, writeXyz } from "@/lib/chem/coordfile";
+import { cpkColor } from "@/lib/chem/depiction";
+import { vdwRadius } from "@/lib/chem/elements";
+import { writeSdf } from "@/lib/chem/molfile";
+import { downloadFile } from "@/lib/download";
+
+type RenderStyle = "ball-and-stick" | "stick" | "space-filling";
+
+interface ConformerViewerProps {
+  // Ensemble sharing one molecule, lowest energy first
+  conformers: Conformer[];
+  // Title written into exported files
+  name: string;
+}
+
+const WIDTH = 400;
+const HEIGHT = 256;
+const IDENTITY = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+// Radians of rotation per pixel dragged
+const DRAG_SPEED = 0.01;
+
+const STYLES: { value: RenderStyle; label: string }[] = [
+  { value: "ball-and-stick", label: "Ball & Stick" },
+  { value: "stick", label: "Stick" },
+  { value: "space-filling", label: "Space Filling" },
+];
+
+const MIME_TYPES = { xyz: "chemical/x-xyz", pdb: "chemical/x-pdb", sdf: "chemical/x-mdl-sdfile" };
+
+// Row-major 3x3 matrix product
+const multiply = (a: number[], b: number[]) =>
+  Array.from({ length: 9 }, (_, k) => {
+    const row = Math.floor(k / 3);
+    const column = k % 3;
+    return a[row * 3] * b[column] + a[row * 3 + 1] * b[3 + column] + a[row * 3 + 2] * b[6 + column];
+  });
+
+// Drag right turns the molecule about the screen's vertical axis, drag down about its horizontal axis
+const dragRotation = (dx: number, dy: number) => {
+  const [cy, sy] = [Math.cos(dx * DRAG_SPEED), Math.sin(dx * DRAG_SPEED)];
+  const [cx, sx] = [Math.cos(dy * DRAG_SPEED), Math.sin(dy * DRAG_SPEED)];
+  return multiply([cy, 0, sy, 0, 1, 0, -sy, 0, cy], [1, 0, 0, 0, cx, -sx, 0, sx, cx]);
+};
+
+export const ConformerViewer = ({ conformers, name }: ConformerViewerProps) => {
+  const [selected, setSelected] = useState(0);
+  const [style, setStyle] = useState<RenderStyle>("ball-and-stick");
+  const [rotation, setRotation] = useState(IDENTITY);
+  const [zoom, setZoom] = useState(1);
+  const svg = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+  const gradientPrefix = useId().replace(/:/g, "");
+  const conformer = conformers[Math.min(selected, conformers.length - 1)];
+  const { molecule, points } = conformer;
+  const lowest = conformers[0].energy;
+
+  // A new ensemble starts again from its lowest-energy member
+  useEffect(() => setSelected(0), [conformers]);
+
+  // React registers wheel listeners as passive, so page scrolling could not be stopped from onWheel
+  useEffect(() => {
+    const element = svg.current;
+    if (!element) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      setZoom((current) => Math.min(5, Math.max(0.3, current * Math.exp(-event.deltaY * 0.001))));
+    };
+    element.addEventListener("wheel", onWheel, { passive: false });
+    return () => element.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const startDrag = (event: PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drag.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const moveDrag = (event: PointerEvent<SVGSVGElement>) => {
+    if (!drag.current) return;
+    const dx = event.clientX - drag.current.x;
+    const dy = event.clientY - drag.current.y;
+    drag.current = { x: event.clientX, y: event.clientY };
+    setRotation((current) => multiply(dragRotation(dx, dy), current));
+  };
+
+  const endDrag = (event: PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    drag.current = null;
+  };
+
+  // XYZ and PDB hold the conformer on screen; SDF holds the whole ensemble with its energies
+  const exportCoordinates = (format: "xyz" | "pdb" | "sdf") => {
+    const content =
+      format === "xyz"
+        ? writeXyz(molecule, points, name)
+        : format === "pdb"
+          ? writePdb(molecule, points, name)
+          : writeSdf(
+              conformers.map((member, k) => ({
+                molecule: member.molecule,
+                name: `${name} conformer ${k + 1}`,
+                coordinates: member.points,
+                properties: {
+                  UFF_Energy: member.energy.toFixed(3),
+                  UFF_Strain: member.strain.toFixed(3),
+                  Relative_Energy: (member.energy - lowest).toFixed(3),
+                },
+              }))
+            );
+    downloadFile(content, `conformer.${format}`, MIME_TYPES[format]);
+  };
+
+  // Perspective camera on the +z axis, looking at the centroid
+  const n = points.length;
+  const centre = points.reduce((acc, p) => ({ x: acc.x + p.x / n, y: acc.y + p.y / n, z: acc.z + p.z / n }), {
+    x: 0,
+    y: 0,
+    z: 0,
+  });
+  const extent = Math.max(
+    ...points.map((p, i) => Math.hypot(p.x - centre.x, p.y - centre.y, p.z - centre.z) + vdwRadius(molecule.atoms[i].element))
+  );
+  const cameraDistance = extent * 4;
+  const fit = ((Math.min(WIDTH, HEIGHT) / 2 - 8) / extent) * zoom;
+  const view = points.map((p) => {
+    const d = [p.x - centre.x, p.y - centre.y, p.z - centre.z];
+    const [x, y, z] = [0, 1, 2].map((row) => rotation[row * 3] * d[0] + rotation[row * 3 + 1] * d[1] + rotation[row * 3 + 2] * d[2]);
+    const perspective = (fit * cameraDistance) / (cameraDistance - z);
+    return { x: WIDTH / 2 + x * perspective, y: HEIGHT / 2 - y * perspective, z, perspective };
+  });
+
+  const atomRadius = (element: string) =>
+    style === "space-filling" ? vdwRadius(element) : style === "ball-and-stick" ? vdwRadius(element) * 0.25 : 0.15;
+  const bondRadius = style === "stick" ? 0.15 : 0.1;
+
+  // Painter's algorithm: far items first; each half-bond sits just behind its own atom
+  const items: { z: number; node: JSX.Element }[] = molecule.atoms.map((atom) => {
+    const p = view[atom.index];
+    return {
+      z: p.z,
+      node: (
+        <circle
+          key={`a${atom.index}`}
+          cx={p.x}
+          cy={p.y}
+          r={atomRadius(atom.element) * p.perspective}
+          fill={`url(#${gradientPrefix}-${atom.element})`}
+        />
+      ),
+    };
+  });
+  if (style !== "space-filling") {
+    for (const bond of molecule.bonds) {
+      const a = view[bond.begin];
+      const b = view[bond.end];
+      const middle = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      for (const [atom, end] of [
+        [bond.begin, a],
+        [bond.end, b],
+      ] as const) {
+        items.push({
+          z: end.z - 0.01,
+          node: (
+            <line
+              key={`b${bond.index}-${atom}`}
+              x1={end.x}
+              y1={end.y}
+              x2={middle.x}
+              y2={middle.y}
+              stroke={cpkColor(molecule.atoms[atom].element)}
+              strokeWidth={2 * bondRadius * end.perspective}
+              strokeLinecap="round"
+            />
+          ),
+        });
+      }
+    }
+  }
+  items.sort((p, q) => p.z - q.z);
+  const elements = [...new Set(molecule.atoms.map((atom) => atom.element))];
+
+  return (
+    <div className="space-y-3">
+      <div className="relative w-full h-64 bg-gradient-to-br from-background via-background/80 to-muted/30 rounded-lg border border-border overflow-hidden">
+        <svg
+          ref={svg}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-full cursor-grab active:cursor-grabbing touch-none select-none"
+          onPointerDown={startDrag}
+          onPointerMove={moveDrag}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+        >
+          <defs>
+            {elements.map((element) => (
+              <radialGradient key={element} id={`${gradientPrefix}-${element}`} cx="35%" cy="35%" r="65%">
+                <stop offset="0%" stopColor="#ffffff" />
+                <stop offset="40%" stopColor={cpkColor(element)} />
+                <stop offset="100%" stopColor={cpkColor(element)} stopOpacity={0.85} />
+              </radialGradient>
+            ))}
+          </defs>
+          {items.map((item) => item.node)}
+        </svg>
+        <div className="absolute top-2 left-2 flex gap-1">
+          <Badge variant="secondary">UFF {conformer.energy.toFixed(1)} kcal/mol</Badge>
+          <Badge variant="outline">Strain {conformer.strain.toFixed(1)}</Badge>
+        </div>
+        <p className="absolute bottom-2 right-2 text-xs text-muted-foreground">Drag to rotate, scroll to zoom</p>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="outline" size="sm" disabled={selected === 0} onClick={() => setSelected(selected - 1)}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          Conformer {selected + 1} of {conformers.length}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selected >= conformers.length - 1}
+          onClick={() => setSelected(selected + 1)}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {conformers.length > 1 && (
+        <div className="max-h-32 overflow-y-auto rounded-lg border border-border text-xs font-mono">
+          <div className="grid grid-cols-4 gap-2 px-3 py-1 text-muted-foreground border-b border-border">
+            <span>#</span>
+            <span className="text-right">Energy</span>
+            <span className="text-right">Strain</span>
+            <span className="text-right">ΔE</span>
+          </div>
+          {conformers.map((member, k) => (
+            <button
+              key={k}
+              type="button"
+              onClick={() => setSelected(k)}
+              className={`grid grid-cols-4 gap-2 w-full px-3 py-1 text-left hover:bg-muted/50 ${
+                k === selected ? "bg-muted" : ""
+              }`}
+            >
+              <span>{k + 1}</span>
+              <span className="text-right">{member.energy.toFixed(1)}</span>
+              <span className="text-right">{member.strain.toFixed(1)}</span>
+              <span className="text-right">{(member.energy - lowest).toFixed(1)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {STYLES.map(({ value, label }) => (
+          <Button key={value} variant={style === value ? "default" : "outline"} size="sm" onClick={() => setStyle(value)}>
+            {label}
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setRotation(IDENTITY);
+            setZoom(1);
+          }}
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset View
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(["xyz", "pdb", "sdf"] as const).map((format) => (
+          <Button key={format} variant="outline" size="sm" onClick={() => exportCoordinates(format)}>
+            <Download className="w-4 h-4 mr-2" />
+            {format.toUpperCase()}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
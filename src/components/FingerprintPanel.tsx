@@ -0,0 +1,159 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download } from "lucide-react";
+import {
+  FINGERPRINT_LABELS,
+  FingerprintType,
+  bitCount,
+  bitDensity,
+  fingerprintSmiles,
+  toHex,
+  toJSON,
+} from "@/lib/chem/fingerprints";
+import { downloadFile } from "@/lib/download";
+
+interface FingerprintPanelProps {
+  smiles: string;
+}
+
+const BIT_LENGTHS = [512, 1024, 2048, 4096];
+const COLUMNS = 64;
+const CELL = 6;
+
+export const FingerprintPanel = ({ smiles }: FingerprintPanelProps) => {
+  const [type, setType] = useState<FingerprintType | null>(null);
+  const [radius, setRadius] = useState([2]);
+  const [maxPath, setMaxPath] = useState([7]);
+  const [nBits, setNBits] = useState(2048);
+  const [showCounts, setShowCounts] = useState(false);
+
+  const fingerprint = useMemo(
+    () => (type && smiles ? fingerprintSmiles(smiles, type, { nBits, radius: radius[0], maxPath: maxPath[0] }) : null),
+    [type, smiles, nBits, radius, maxPath]
+  );
+  const maxCount = fingerprint ? Math.max(1, ...fingerprint.counts) : 1;
+
+  const fileStem = type ? `${type}_fingerprint` : "fingerprint";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 flex-wrap">
+        {(Object.keys(FINGERPRINT_LABELS) as FingerprintType[]).map((option) => (
+          <Button
+            key={option}
+            variant={type === option ? "default" : "outline"}
+            size="sm"
+            onClick={() => setType(option)}
+          >
+            {FINGERPRINT_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+
+      {type && (
+        <div className="grid md:grid-cols-3 gap-4">
+          {type === "morgan" && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Radius: {radius[0]}</label>
+              <Slider value={radius} onValueChange={setRadius} min={1} max={4} step={1} />
+            </div>
+          )}
+          {type === "rdkit" && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Max Path Length: {maxPath[0]}</label>
+              <Slider value={maxPath} onValueChange={setMaxPath} min={2} max={7} step={1} />
+            </div>
+          )}
+          {type !== "maccs" && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Bit Length</label>
+              <Select value={String(nBits)} onValueChange={(value) => setNBits(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BIT_LENGTHS.map((length) => (
+                    <SelectItem key={length} value={String(length)}>
+                      {length} bits
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="flex items-center space-x-2">
+            <Switch id="fingerprint-counts" checked={showCounts} onCheckedChange={setShowCounts} />
+            <label htmlFor="fingerprint-counts" className="text-sm font-medium">
+              Count Vector
+            </label>
+          </div>
+        </div>
+      )}
+
+      {type && !fingerprint && (
+        <p className="text-sm text-destructive">Enter a valid SMILES string to generate a fingerprint.</p>
+      )}
+
+      {fingerprint && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary">{FINGERPRINT_LABELS[fingerprint.type]}</Badge>
+            <Badge variant="outline">
+              {bitCount(fingerprint)} / {fingerprint.length} bits set
+            </Badge>
+            <Badge variant="outline">Density {(bitDensity(fingerprint) * 100).toFixed(1)}%</Badge>
+            {showCounts && <Badge variant="outline">Max count {maxCount}</Badge>}
+          </div>
+
+          <svg
+            viewBox={`0 0 ${COLUMNS * CELL} ${Math.ceil(fingerprint.length / COLUMNS) * CELL}`}
+            className="w-full border rounded bg-muted/30"
+            role="img"
+            aria-label="Fingerprint bit density"
+          >
+            {Array.from(fingerprint.counts, (count, bit) =>
+              count > 0 ? (
+                <rect
+                  key={bit}
+                  x={(bit % COLUMNS) * CELL}
+                  y={Math.floor(bit / COLUMNS) * CELL}
+                  width={CELL - 1}
+                  height={CELL - 1}
+                  className="fill-primary"
+                  opacity={showCounts ? 0.25 + (0.75 * count) / maxCount : 1}
+                >
+                  <title>
+                    Bit {bit}: {count}
+                  </title>
+                </rect>
+              ) : null
+            )}
+          </svg>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadFile(toHex(fingerprint), `${fileStem}.hex`, "text/plain")}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Hex
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadFile(toJSON(fingerprint, smiles), `${fileStem}.json`, "application/json")}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              JSON
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,24 +1,28 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { useProject } from "@/hooks/use-project";
+import { useJob } from "@/hooks/use-jobs";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { MolecularVisualizer } from "./MolecularVisualizer";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
-
-interface TrainingMetrics {
-  epoch: number;
-  generatorLoss: number;
-  discriminatorLoss: number;
-  fid: number;
-  validity: number;
-  diversity?: number;
-  uniqueness?: number;
-}
+import { PropertyFilter } from "./PropertyFilter";
+import { MoleculeLibrary } from "./MoleculeLibrary";
+import { Download, Filter, Library, Save } from "lucide-react";
+import { MoleculeProperties, describeSmiles, toMoleculeProperties } from "@/lib/chem/descriptors";
+import { DrugLikenessRules, evaluateRules } from "@/lib/chem/rules";
+import { FilterCriteria, applyFilter } from "@/lib/chem/filter";
+import { writeSdf } from "@/lib/chem/molfile";
+import { parseSmiles } from "@/lib/chem/smiles";
+import { downloadFile } from "@/lib/download";
+import { GANTrainingMetrics } from "@/lib/generation";
+import { JobAction, JobStatus, controlJob, isActiveJob } from "@/lib/jobs";
+import { LibraryMolecule, Provenance, describeSave, newRunId, saveToLibrary } from "@/lib/library";
 
 interface GANConfig {
   generatorLayers: number;
@@ -31,20 +35,32 @@ interface GANConfig {
   weightClipping: number;
 }
 
-const mockTrainingData: TrainingMetrics[] = [
-  { epoch: 1, generatorLoss: 2.45, discriminatorLoss: 1.23, fid: 45.2, validity: 0.67, diversity: 0.45, uniqueness: 0.82 },
-  { epoch: 50, generatorLoss: 1.82, discriminatorLoss: 0.95, fid: 32.1, validity: 0.78, diversity: 0.62, uniqueness: 0.89 },
-  { epoch: 100, generatorLoss: 1.34, discriminatorLoss: 0.87, fid: 24.5, validity: 0.85, diversity: 0.71, uniqueness: 0.91 },
-  { epoch: 150, generatorLoss: 0.95, discriminatorLoss: 0.92, fid: 18.7, validity: 0.91, diversity: 0.76, uniqueness: 0.94 },
-  { epoch: 200, generatorLoss: 0.73, discriminatorLoss: 0.88, fid: 15.2, validity: 0.94, diversity: 0.81, uniqueness: 0.96 }
-];
+interface GeneratedSample {
+  id: string;
+  smiles: string;
+  epoch: number;
+  properties: MoleculeProperties;
+  rules: DrugLikenessRules;
+}
+
+const toSample = (id: string, smiles: string, epoch: number): GeneratedSample => {
+  const descriptors = describeSmiles(smiles)!;
+  return { id, smiles, epoch, properties: toMoleculeProperties(descriptors), rules: evaluateRules(descriptors) };
+};
+
+// Converging while the generator loss still drops by more than 0.1 per report, diverging when it rises as much
+const convergence = (history: GANTrainingMetrics[]): 'stable' | 'diverging' | 'converging' => {
+  if (history.length < 2) return 'stable';
+  const improvement = history[history.length - 2].generatorLoss - history[history.length - 1].generatorLoss;
+  return improvement > 0.1 ? 'converging' : improvement < -0.1 ? 'diverging' : 'stable';
+};
 
 export const GANModule = () => {
-  const [isTraining, setIsTraining] = useState(false);
-  const [currentEpoch, setCurrentEpoch] = useState(0);
-  const [metrics, setMetrics] = useState<TrainingMetrics | null>(null);
-  const [trainingHistory, setTrainingHistory] = useState<TrainingMetrics[]>([]);
-  const [convergenceStatus, setConvergenceStatus] = useState<'stable' | 'diverging' | 'converging'>('stable');
+  const [generatedSamples, setGeneratedSamples] = useState<GeneratedSample[]>([]);
+  const [selectedSample, setSelectedSample] = useState<string | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  // Kept rather than the filtered list, so samples from later epochs are filtered too
+  const [filterCriteria, setFilterCriteria] = useState<FilterCriteria | null>(null);
   
   // GAN Configuration
   const [ganConfig, setGanConfig] = useState<GANConfig>({
@@ -62,61 +78,141 @@ export const GANModule = () => {
   const [showMetricsChart, setShowMetricsChart] = useState(false);
   const [selectedMetric, setSelectedMetric] = useState<'loss' | 'fid' | 'validity' | 'diversity'>('loss');
   const [autoOptimize, setAutoOptimize] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryVersion, setLibraryVersion] = useState(0);
   
   const { toast } = useToast();
+  const project = useProject();
 
-  const startTraining = async () => {
-    setIsTraining(true);
-    setCurrentEpoch(0);
-    setTrainingHistory([]);
-    setMetrics(null);
+  // Training runs as a job on the local server; its id is the run id saved samples record
+  const { job, start } = useJob("gan");
+  const isTraining = job !== null && isActiveJob(job);
+  const trainingHistory = (job?.output?.metrics ?? []) as GANTrainingMetrics[];
+  const metrics = trainingHistory[trainingHistory.length - 1] ?? null;
+  const currentEpoch = metrics?.epoch ?? 0;
+  const trainingRun = job?.id ?? null;
+  const convergenceStatus = convergence(trainingHistory);
+  // What the last update showed, so attaching to a job restores its samples without replaying its toasts
+  const seen = useRef<{ id: string; epochs: number; status: JobStatus } | null>(null);
 
-    toast({
-      title: "GAN Training Started",
-      description: "Initializing generator and discriminator networks...",
-    });
+  useEffect(() => {
+    if (!job?.output) return;
+    const history = job.output.metrics as GANTrainingMetrics[];
+    const latest = history[history.length - 1];
+    const previous = seen.current?.id === job.id ? seen.current : null;
+    seen.current = { id: job.id, epochs: history.length, status: job.status };
 
-    // Simulate training process
-    for (let i = 0; i < mockTrainingData.length; i++) {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const currentMetrics = mockTrainingData[i];
-      setCurrentEpoch(currentMetrics.epoch);
-      setMetrics(currentMetrics);
-      setTrainingHistory(prev => [...prev, currentMetrics]);
+    if (latest && history.length !== previous?.epochs) {
+      setGeneratedSamples(job.output.molecules.map((smiles, index) => toSample(`${latest.epoch}-${index}`, smiles, latest.epoch)));
+    }
+    if (!previous) return;
+    if (latest && history.length > previous.epochs) {
+      toast({
+        title: `Epoch ${latest.epoch} Complete`,
+        description: `Generator Loss: ${latest.generatorLoss}, Validity: ${(latest.validity * 100).toFixed(1)}%`,
+      });
+    }
+    if (job.status === previous.status) return;
+    if (job.status === 'completed') {
+      toast({
+        title: "Training Complete",
+        description: "GAN model successfully trained and ready for molecular generation",
+      });
+    } else if (job.status === 'cancelled' || job.status === 'failed') {
+      toast({
+        title: job.status === 'failed' ? "Training Failed" : "Training Stopped",
+        description: job.error ?? "Training process interrupted by user",
+        variant: "destructive",
+      });
+    }
+  }, [job, toast]);
 
-      // Determine convergence status
-      if (i > 0) {
-        const prevMetrics = mockTrainingData[i - 1];
-        const lossImprovement = prevMetrics.generatorLoss - currentMetrics.generatorLoss;
-        if (lossImprovement > 0.1) {
-          setConvergenceStatus('converging');
-        } else if (lossImprovement < -0.1) {
-          setConvergenceStatus('diverging');
-        } else {
-          setConvergenceStatus('stable');
-        }
-      }
+  const startTraining = async () => {
+    try {
+      await start({ kind: "gan", parameters: { ...ganConfig }, save: false, project });
+      setGeneratedSamples([]);
+      setSelectedSample(null);
+      toast({
+        title: "GAN Training Started",
+        description: "Training runs on the job server and continues if you leave or reload the page",
+      });
+    } catch (error) {
+      toast({
+        title: "Training Not Started",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
 
+  const controlTraining = async (action: JobAction) => {
+    try {
+      await controlJob(job.id, action);
+    } catch (error) {
       toast({
-        title: `Epoch ${currentMetrics.epoch} Complete`,
-        description: `Generator Loss: ${currentMetrics.generatorLoss}, Validity: ${(currentMetrics.validity * 100).toFixed(1)}%`,
+        title: "Training Not Updated",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
       });
     }
+  };
 
-    setIsTraining(false);
-    toast({
-      title: "Training Complete",
-      description: "GAN model successfully trained and ready for molecular generation",
-    });
+  const visibleSamples =
+    showFilters && filterCriteria ? applyFilter(generatedSamples, filterCriteria, (sample) => sample).accepted : generatedSamples;
+
+  const saveSamplesToLibrary = async () => {
+    const provenance: Omit<Provenance, "savedAt"> = {
+      source: "gan",
+      run: trainingRun ?? newRunId("gan"),
+      parameters: { ...ganConfig, epoch: generatedSamples[0].epoch },
+      project,
+    };
+    try {
+      const summary = await saveToLibrary(visibleSamples.map((sample) => ({ smiles: sample.smiles })), provenance);
+      setLibraryVersion((version) => version + 1);
+      toast({ title: "Saved to Library", description: describeSave(summary) });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
   };
 
-  const stopTraining = () => {
-    setIsTraining(false);
+  // Library molecules replace the samples on screen, labelled with the epoch they were saved at when known
+  const loadFromLibrary = (molecules: LibraryMolecule[]) => {
+    setGeneratedSamples(
+      molecules.map((molecule, index) => {
+        const saved = molecule.provenance.filter((entry) => entry.source === "gan").pop();
+        return toSample(`library-${index}`, molecule.smiles, Number(saved?.parameters.epoch ?? 0));
+      })
+    );
+    setSelectedSample(null);
+    toast({ title: "Loaded from Library", description: `${molecules.length} molecules shown as samples` });
+  };
+
+  const exportSamples = () => {
+    const entries = visibleSamples.map((sample) => ({
+      molecule: parseSmiles(sample.smiles),
+      name: sample.id,
+      properties: {
+        SMILES: sample.smiles,
+        Epoch: sample.epoch,
+        MolecularWeight: sample.properties.mw,
+        LogP: sample.properties.logp,
+        HBD: sample.properties.hbd,
+        HBA: sample.properties.hba,
+        TPSA: sample.properties.tpsa,
+        QED: sample.properties.qed,
+        SAScore: sample.properties.sas,
+        LipinskiViolations: sample.rules.lipinski.violations,
+      },
+    }));
+    downloadFile(writeSdf(entries), `gan_samples_epoch_${generatedSamples[0].epoch}.sdf`, "chemical/x-mdl-sdfile");
     toast({
-      title: "Training Stopped",
-      description: "Training process interrupted by user",
-      variant: "destructive",
+      title: "Export Complete",
+      description: `Exported ${entries.length} samples to SD file`,
     });
   };
 
@@ -135,6 +231,10 @@ export const GANModule = () => {
           </div>
           
           <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowLibrary(!showLibrary)}>
+              <Library className="w-4 h-4 mr-2" />
+              {showLibrary ? 'Hide Library' : 'Library'}
+            </Button>
             <Badge variant={convergenceStatus === 'converging' ? 'default' : convergenceStatus === 'stable' ? 'secondary' : 'destructive'}>
               {convergenceStatus === 'converging' ? '📈 Converging' : 
                convergenceStatus === 'stable' ? '🔄 Stable' : '📉 Diverging'}
@@ -262,12 +362,28 @@ export const GANModule = () => {
                 variant="scientific"
                 size="lg"
               >
-                {isTraining ? "Training in Progress..." : "Start GAN Training"}
+                {!isTraining
+                  ? "Start GAN Training"
+                  : job.status === 'paused'
+                    ? "Training Paused"
+                    : job.status === 'queued'
+                      ? "Waiting in Queue..."
+                      : "Training in Progress..."}
               </Button>
-              
+
+              {isTraining && (
+                <Button
+                  onClick={() => controlTraining(job.status === 'paused' ? 'resume' : 'pause')}
+                  variant="outline"
+                  size="lg"
+                >
+                  {job.status === 'paused' ? "Resume" : "Pause"}
+                </Button>
+              )}
+
               {isTraining && (
                 <Button 
-                  onClick={stopTraining}
+                  onClick={() => controlTraining('cancel')}
                   variant="destructive"
                   size="lg"
                 >
@@ -391,7 +507,11 @@ export const GANModule = () => {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-sm">Convergence:</span>
-                      <Badge variant={convergenceStatus === 'converging' ? 'default' : convergenceStatus === 'stable' ? 'secondary' : 'destructive'}>
+                      <Button variant="outline" size="sm" onClick={() => setShowLibrary(!showLibrary)}>
+              <Library className="w-4 h-4 mr-2" />
+              {showLibrary ? 'Hide Library' : 'Library'}
+            </Button>
+            <Badge variant={convergenceStatus === 'converging' ? 'default' : convergenceStatus === 'stable' ? 'secondary' : 'destructive'}>
                         {convergenceStatus}
                       </Badge>
                     </div>
@@ -461,6 +581,74 @@ export const GANModule = () => {
           </div>
         </Card>
       )}
+
+      {showLibrary && (
+        <MoleculeLibrary loadLabel="Show as Samples" onLoad={loadFromLibrary} version={libraryVersion} />
+      )}
+
+      {/* Generated Samples */}
+      {generatedSamples.length > 0 && (
+        <Card className="p-6 bg-card border shadow-molecular">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-card-foreground">
+              Generated Samples (Epoch {generatedSamples[0].epoch})
+            </h3>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setShowFilters(!showFilters)}>
+                <Filter className="w-4 h-4 mr-2" />
+                {showFilters ? 'Hide Filters' : 'Show Filters'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={saveSamplesToLibrary}>
+                <Save className="w-4 h-4 mr-2" />
+                Save to Library
+              </Button>
+              <Button variant="outline" size="sm" onClick={exportSamples}>
+                <Download className="w-4 h-4 mr-2" />
+                SDF
+              </Button>
+            </div>
+          </div>
+
+          {showFilters && (
+            <div className="mb-6">
+              <PropertyFilter
+                onFilterChange={setFilterCriteria}
+                moleculeCount={generatedSamples.length}
+                filteredCount={visibleSamples.length}
+              />
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {visibleSamples.map((sample) => (
+              <div key={sample.id} className="space-y-3">
+                <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <code className="text-sm font-mono text-primary block truncate">{sample.smiles}</code>
+                    <div className="grid grid-cols-2 md:grid-cols-7 gap-2 text-xs text-muted-foreground">
+                      <span>MW: {sample.properties.mw.toFixed(1)}</span>
+                      <span>LogP: {sample.properties.logp.toFixed(2)}</span>
+                      <span>HBD: {sample.properties.hbd}</span>
+                      <span>HBA: {sample.properties.hba}</span>
+                      <span>TPSA: {sample.properties.tpsa.toFixed(1)}</span>
+                      <span>QED ≈ {sample.properties.qed.toFixed(2)}</span>
+                      <span>SA: {sample.properties.sas.toFixed(2)}</span>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSelectedSample(selectedSample === sample.id ? null : sample.id)}
+                  >
+                    {selectedSample === sample.id ? 'Hide' : 'View'}
+                  </Button>
+                </div>
+                {selectedSample === sample.id && <MolecularVisualizer smiles={sample.smiles} />}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import heroImage from "@/assets/molecular-structure-hero.jpg";
 
@@ -27,8 +28,8 @@ export const Hero = () => {
               Accelerate pharmaceutical research by 10x using advanced Generative AI models to design, predict, and optimize drug molecules faster than ever before.
             </p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center lg:justify-start">
-              <Button variant="scientific" size="lg" className="text-lg px-8 py-4">
-                Explore Platform
+              <Button asChild variant="scientific" size="lg" className="text-lg px-8 py-4">
+                <Link to="/projects">Explore Platform</Link>
               </Button>
               <Button variant="molecular" size="lg" className="text-lg px-8 py-4">
                 Watch Demo
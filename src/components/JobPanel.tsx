@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useProject } from "@/hooks/use-project";
+import { Pause, Play, Square, Upload } from "lucide-react";
+import { JOB_KIND_LABELS, JobAction, JobStatus, JobView, controlJob, isActiveJob, listJobs, watchJobs } from "@/lib/jobs";
+
+interface JobPanelProps {
+  // Ids of the jobs modules are attached to, marked in the list
+  attached: string[];
+  onOpen: (job: JobView) => void;
+}
+
+// Finished jobs beyond the active ones, until the list is expanded
+const RECENT_FINISHED = 3;
+
+const STATUS_VARIANTS: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "default",
+  paused: "secondary",
+  cancelled: "outline",
+  failed: "destructive",
+  completed: "secondary",
+};
+
+export const JobPanel = ({ attached, onOpen }: JobPanelProps) => {
+  const { toast } = useToast();
+  const project = useProject();
+  const [jobs, setJobs] = useState<Map<string, JobView>>(new Map());
+  const [available, setAvailable] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    let live = true;
+    const update = (job: JobView) => live && setJobs((current) => new Map(current).set(job.id, job));
+    listJobs().then(
+      (found) => {
+        if (!live) return;
+        setAvailable(true);
+        setJobs(new Map(found.map((job) => [job.id, job])));
+      },
+      () => live && setAvailable(false)
+    );
+    const stop = watchJobs((job) => {
+      setAvailable(true);
+      update(job);
+    });
+    return () => {
+      live = false;
+      stop();
+    };
+  }, []);
+
+  const control = async (job: JobView, action: JobAction) => {
+    try {
+      await controlJob(job.id, action);
+    } catch (error) {
+      toast({
+        title: "Job Not Updated",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Newest first, only this project's jobs
+  const mine = [...jobs.values()].filter((job) => job.project === project).sort((a, b) => b.createdAt - a.createdAt);
+  const active = mine.filter(isActiveJob);
+  const finished = mine.filter((job) => !isActiveJob(job));
+  const shown = showAll ? mine : [...active, ...finished.slice(0, RECENT_FINISHED)];
+
+  return (
+    <Card className="p-4 bg-card border shadow-molecular space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-card-foreground">
+          Background Jobs {active.length > 0 && <span className="text-muted-foreground">({active.length} active)</span>}
+        </h3>
+        {mine.length > shown.length || showAll ? (
+          <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+            {showAll ? "Show Recent" : `Show All (${mine.length})`}
+          </Button>
+        ) : null}
+      </div>
+
+      {!available ? (
+        <p className="text-sm text-muted-foreground">
+          The job server is not reachable. Run <code>npm run build</code> and <code>npm start</code> to queue long runs
+          in the background.
+        </p>
+      ) : shown.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No jobs yet. Training runs and batch analyses started below keep running here after you leave or reload.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {shown.map((job) => (
+            <div
+              key={job.id}
+              className={`grid grid-cols-[1fr_auto] gap-2 items-center rounded-lg border p-2 ${
+                attached.includes(job.id) ? "border-primary" : "border-border"
+              }`}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium">{JOB_KIND_LABELS[job.kind]}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{job.id}</span>
+                  <Badge variant={STATUS_VARIANTS[job.status]}>{job.status}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {job.progress.done}/{job.progress.total}
+                  </span>
+                </div>
+                {isActiveJob(job) && <Progress value={(job.progress.done / job.progress.total) * 100} className="h-2" />}
+                {job.error && <p className="text-xs text-destructive">{job.error}</p>}
+              </div>
+              <div className="flex gap-1">
+                {(job.status === "running" || job.status === "queued") && (
+                  <Button variant="outline" size="sm" onClick={() => control(job, "pause")} title="Pause">
+                    <Pause className="w-4 h-4" />
+                  </Button>
+                )}
+                {job.status === "paused" && (
+                  <Button variant="outline" size="sm" onClick={() => control(job, "resume")} title="Resume">
+                    <Play className="w-4 h-4" />
+                  </Button>
+                )}
+                {isActiveJob(job) && (
+                  <Button variant="outline" size="sm" onClick={() => control(job, "cancel")} title="Cancel">
+                    <Square className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => onOpen(job)} title="Open in its module">
+                  <Upload className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
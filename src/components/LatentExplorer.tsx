@@ -0,0 +1,352 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CartesianGrid, Cell, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useProject } from "@/hooks/use-project";
+import { useNavigate } from "react-router-dom";
+import { MoleculeDepiction } from "./MoleculeDepiction";
+import { MoleculeProperties, toMoleculeProperties } from "@/lib/chem/descriptors";
+import { tryParseSmiles } from "@/lib/chem/smiles";
+import { EMPTY_LIBRARY_QUERY, queryLibrary } from "@/lib/library";
+import {
+  DecodedPoint,
+  INTERPOLATION_LABELS,
+  InterpolationMode,
+  LatentResult,
+  LatentTask,
+  PROJECTION_LABELS,
+  ProjectionMethod,
+} from "@/lib/ml/latent";
+import { exploreInWorker } from "@/lib/ml/training";
+import { TrainedVAE } from "@/lib/ml/vae";
+import { moleculePath } from "@/lib/routes";
+
+interface LatentExplorerProps {
+  trained: TrainedVAE;
+}
+
+interface ProjectedPoint {
+  x: number;
+  y: number;
+  canonicalSmiles: string;
+  name: string | null;
+  properties: MoleculeProperties;
+}
+
+const COLOR_PROPERTIES: { key: keyof MoleculeProperties; label: string; digits: number }[] = [
+  { key: "mw", label: "Molecular Weight", digits: 1 },
+  { key: "logp", label: "LogP", digits: 2 },
+  { key: "tpsa", label: "TPSA", digits: 1 },
+  { key: "hbd", label: "H-Bond Donors", digits: 0 },
+  { key: "hba", label: "H-Bond Acceptors", digits: 0 },
+  { key: "qed", label: "QED (approx.)", digits: 2 },
+  { key: "sas", label: "Synthetic Accessibility", digits: 2 },
+];
+
+// Blue for the lowest value through to red for the highest
+const scaleColor = (fraction: number) => `hsl(${Math.round(240 * (1 - fraction))}, 70%, 50%)`;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Decoded structures in a row, each opening its molecule page
+const DecodedStrip = ({ points, label }: { points: DecodedPoint[]; label: (point: DecodedPoint) => string }) => {
+  const navigate = useNavigate();
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {points.map((point, k) => {
+        const { molecule } = point.smiles ? tryParseSmiles(point.smiles) : { molecule: null };
+        return (
+          <button
+            key={k}
+            type="button"
+            disabled={!point.smiles}
+            onClick={() => point.smiles && navigate(moleculePath(point.smiles))}
+            className="shrink-0 w-36 rounded-lg border bg-card p-2 text-left hover:border-primary disabled:hover:border-border"
+          >
+            <div className="h-24 flex items-center justify-center">
+              {molecule ? (
+                <MoleculeDepiction molecule={molecule} className="w-full h-full" />
+              ) : (
+                <Badge variant="destructive">Invalid</Badge>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">{label(point)}</div>
+            <code className="text-xs font-mono text-primary block truncate">{point.smiles ?? point.decoded}</code>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const ProjectionTooltip = ({
+  active,
+  payload,
+  colorBy,
+}: {
+  active?: boolean;
+  payload?: { payload: ProjectedPoint }[];
+  colorBy: (typeof COLOR_PROPERTIES)[number];
+}) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="rounded-lg border bg-background p-2 text-xs shadow-md max-w-64">
+      {point.name && <div className="font-medium">{point.name}</div>}
+      <code className="font-mono text-primary block truncate">{point.canonicalSmiles}</code>
+      <div className="text-muted-foreground">
+        {colorBy.label}: {point.properties[colorBy.key].toFixed(colorBy.digits)}
+      </div>
+    </div>
+  );
+};
+
+export const LatentExplorer = ({ trained }: LatentExplorerProps) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const project = useProject();
+  const [fromSmiles, setFromSmiles] = useState(trained.molecules[0] ?? "");
+  const [toSmiles, setToSmiles] = useState(trained.molecules[1] ?? "");
+  const [mode, setMode] = useState<InterpolationMode>("spherical");
+  const [steps, setSteps] = useState([8]);
+  const [path, setPath] = useState<DecodedPoint[]>([]);
+  const [seedSmiles, setSeedSmiles] = useState(trained.molecules[0] ?? "");
+  const [neighborCount, setNeighborCount] = useState([24]);
+  const [radius, setRadius] = useState([0.5]);
+  const [neighbors, setNeighbors] = useState<{ points: DecodedPoint[]; sampled: number } | null>(null);
+  const [method, setMethod] = useState<ProjectionMethod>("pca");
+  const [colorKey, setColorKey] = useState<keyof MoleculeProperties>("qed");
+  const [projectOnly, setProjectOnly] = useState(true);
+  const [projection, setProjection] = useState<{ points: ProjectedPoint[]; skipped: number } | null>(null);
+  // The task in flight, one at a time, and its progress where it reports any
+  const [running, setRunning] = useState<LatentTask["kind"] | null>(null);
+  const [progress, setProgress] = useState(0);
+  const abort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const explore = async (task: LatentTask): Promise<LatentResult | null> => {
+    abort.current?.abort();
+    const controller = new AbortController();
+    abort.current = controller;
+    setRunning(task.kind);
+    setProgress(0);
+    try {
+      return await exploreInWorker(trained.model, task, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress((done / total) * 100),
+      });
+    } catch (error) {
+      toast({ title: "Exploration Failed", description: errorMessage(error), variant: "destructive" });
+      return null;
+    } finally {
+      if (abort.current === controller) {
+        abort.current = null;
+        setRunning(null);
+      }
+    }
+  };
+
+  const interpolate = async () => {
+    const result = await explore({ kind: "interpolate", from: fromSmiles.trim(), to: toSmiles.trim(), steps: steps[0], mode });
+    if (result?.kind === "interpolate") setPath(result.path);
+  };
+
+  const sampleNeighborhood = async () => {
+    const result = await explore({ kind: "neighborhood", seed: seedSmiles.trim(), count: neighborCount[0], radius: radius[0] });
+    if (result?.kind === "neighborhood") setNeighbors({ points: result.neighbors, sampled: result.sampled });
+  };
+
+  const projectLibrary = async () => {
+    let molecules;
+    try {
+      molecules = await queryLibrary({ ...EMPTY_LIBRARY_QUERY, project: project && projectOnly ? project : null });
+    } catch (error) {
+      toast({ title: "Library Unavailable", description: errorMessage(error), variant: "destructive" });
+      return;
+    }
+    if (molecules.length === 0) {
+      toast({ title: "Library Empty", description: "Save molecules to the library to map them", variant: "destructive" });
+      return;
+    }
+    const result = await explore({ kind: "project", smiles: molecules.map((molecule) => molecule.canonicalSmiles), method });
+    if (result?.kind !== "project") return;
+    const points = molecules.flatMap((molecule, k): ProjectedPoint[] => {
+      const point = result.points[k];
+      return point
+        ? [
+            {
+              x: point[0],
+              y: point[1],
+              canonicalSmiles: molecule.canonicalSmiles,
+              name: molecule.name,
+              properties: toMoleculeProperties(molecule.descriptors),
+            },
+          ]
+        : [];
+    });
+    setProjection({ points, skipped: molecules.length - points.length });
+  };
+
+  const colorBy = COLOR_PROPERTIES.find((property) => property.key === colorKey)!;
+  // A loop rather than spread arguments, which overflow the stack on a large library
+  const range = useMemo(() => {
+    const points = projection?.points ?? [];
+    if (points.length === 0) return { min: 0, max: 0 };
+    return points.reduce(
+      ({ min, max }, point) => ({ min: Math.min(min, point.properties[colorKey]), max: Math.max(max, point.properties[colorKey]) }),
+      { min: Infinity, max: -Infinity }
+    );
+  }, [projection, colorKey]);
+  const fraction = (value: number) => (range.max > range.min ? (value - range.min) / (range.max - range.min) : 0.5);
+
+  return (
+    <div className="space-y-8">
+      {running && (
+        <div>
+          {running === "project" && <Progress value={progress} className="w-full" />}
+          <p className="text-sm text-muted-foreground mt-2 text-center">
+            {running === "project" ? "Encoding and projecting the library…" : "Encoding and decoding…"}
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <h4 className="font-semibold text-card-foreground">Interpolation</h4>
+        <div className="grid md:grid-cols-2 gap-4">
+          <Input value={fromSmiles} onChange={(e) => setFromSmiles(e.target.value)} placeholder="From SMILES" className="font-mono" />
+          <Input value={toSmiles} onChange={(e) => setToSmiles(e.target.value)} placeholder="To SMILES" className="font-mono" />
+        </div>
+        <div className="grid md:grid-cols-3 gap-4 items-end">
+          <Select value={mode} onValueChange={(value) => setMode(value as InterpolationMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(INTERPOLATION_LABELS) as InterpolationMode[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {INTERPOLATION_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Steps: {steps[0]}</label>
+            <Slider value={steps} onValueChange={setSteps} min={3} max={16} step={1} />
+          </div>
+          <Button onClick={interpolate} disabled={Boolean(running) || !fromSmiles.trim() || !toSmiles.trim()}>
+            Interpolate
+          </Button>
+        </div>
+        {path.length > 0 && <DecodedStrip points={path} label={(point) => `t = ${point.position.toFixed(2)}`} />}
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-semibold text-card-foreground">Neighborhood</h4>
+        <Input value={seedSmiles} onChange={(e) => setSeedSmiles(e.target.value)} placeholder="Seed SMILES" className="font-mono" />
+        <div className="grid md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Samples: {neighborCount[0]}</label>
+            <Slider value={neighborCount} onValueChange={setNeighborCount} min={4} max={64} step={4} />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Spread (σ per dimension): {radius[0].toFixed(2)}</label>
+            <Slider value={radius} onValueChange={setRadius} min={0.05} max={2} step={0.05} />
+          </div>
+          <Button onClick={sampleNeighborhood} disabled={Boolean(running) || !seedSmiles.trim()}>
+            Sample Neighborhood
+          </Button>
+        </div>
+        {neighbors && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {neighbors.points.length} distinct valid structures from {neighbors.sampled} samples, nearest first
+            </p>
+            <DecodedStrip points={neighbors.points} label={(point) => `distance ${point.position.toFixed(2)}`} />
+          </>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="font-semibold text-card-foreground">Library Map</h4>
+          {project && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Switch checked={projectOnly} onCheckedChange={setProjectOnly} />
+              This project only
+            </label>
+          )}
+        </div>
+        <div className="grid md:grid-cols-3 gap-4 items-end">
+          <Select value={method} onValueChange={(value) => setMethod(value as ProjectionMethod)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PROJECTION_LABELS) as ProjectionMethod[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {PROJECTION_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={colorKey} onValueChange={(value) => setColorKey(value as keyof MoleculeProperties)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COLOR_PROPERTIES.map((property) => (
+                <SelectItem key={property.key} value={property.key}>
+                  Color by {property.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={projectLibrary} disabled={Boolean(running)}>
+            Map Library
+          </Button>
+        </div>
+        {projection && (
+          <>
+            <ResponsiveContainer width="100%" height={420}>
+              <ScatterChart margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" dataKey="x" name="Component 1" tick={false} />
+                <YAxis type="number" dataKey="y" name="Component 2" tick={false} />
+                <Tooltip content={<ProjectionTooltip colorBy={colorBy} />} />
+                <Scatter
+                  data={projection.points}
+                  className="cursor-pointer"
+                  onClick={(point: { payload: ProjectedPoint }) => navigate(moleculePath(point.payload.canonicalSmiles))}
+                >
+                  {projection.points.map((point) => (
+                    <Cell key={point.canonicalSmiles} fill={scaleColor(fraction(point.properties[colorKey]))} />
+                  ))}
+                </Scatter>
+              </ScatterChart>
+            </ResponsiveContainer>
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <span>{range.min.toFixed(colorBy.digits)}</span>
+              <div
+                className="h-2 flex-1 rounded"
+                style={{ background: `linear-gradient(to right, ${scaleColor(0)}, ${scaleColor(0.5)}, ${scaleColor(1)})` }}
+              />
+              <span>{range.max.toFixed(colorBy.digits)}</span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {projection.points.length} molecules mapped by their latent means
+              {projection.skipped > 0 && `; ${projection.skipped} the model cannot encode are left out`}. Click a
+              point to open the molecule.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ActiveJobsContext, useActiveJobs } from "@/hooks/use-jobs";
+import { useProject } from "@/hooks/use-project";
+import { JobPanel } from "./JobPanel";
+import { VAEModule } from "./VAEModule";
+import { GANModule } from "./GANModule";
+import { SMILESModule } from "./SMILESModule";
+import { JobKind } from "@/lib/jobs";
+import { ModuleTab } from "@/lib/routes";
+
+interface ModuleTabsProps {
+  // Controlled by the owner when given, e.g. from the URL
+  value?: ModuleTab;
+  onValueChange?: (value: ModuleTab) => void;
+}
+
+const JOB_TABS: Record<JobKind, ModuleTab> = { batch: "smiles", vae: "vae", gan: "gan" };
+
+export const ModuleTabs = ({ value, onValueChange }: ModuleTabsProps) => {
+  const [ownTab, setOwnTab] = useState<ModuleTab>("vae");
+  const jobs = useActiveJobs(useProject());
+  const tab = value ?? ownTab;
+
+  const changeTab = (next: ModuleTab) => {
+    setOwnTab(next);
+    onValueChange?.(next);
+  };
+
+  return (
+    <ActiveJobsContext.Provider value={jobs}>
+      <div className="mb-6">
+        <JobPanel
+          attached={Object.values(jobs.active)}
+          onOpen={(job) => {
+            jobs.attach(job.kind, job.id);
+            changeTab(JOB_TABS[job.kind]);
+          }}
+        />
+      </div>
+      <Tabs value={tab} onValueChange={(next) => changeTab(next as ModuleTab)} className="w-full">
+        <TabsList className="grid w-full grid-cols-3 mb-8">
+          <TabsTrigger value="vae" className="text-lg">
+            <span className="mr-2">🧠</span>
+            VAE Generator
+          </TabsTrigger>
+          <TabsTrigger value="gan" className="text-lg">
+            <span className="mr-2">⚔️</span>
+            GAN Training
+          </TabsTrigger>
+          <TabsTrigger value="smiles" className="text-lg">
+            <span className="mr-2">🧪</span>
+            SMILES Analyzer
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="vae">
+          <VAEModule />
+        </TabsContent>
+
+        <TabsContent value="gan">
+          <GANModule />
+        </TabsContent>
+
+        <TabsContent value="smiles">
+          <SMILESModule />
+        </TabsContent>
+      </Tabs>
+    </ActiveJobsContext.Provider>
+  );
+};
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeftRight, GitCompare } from "lucide-react";
+import { MolecularVisualizer } from "./MolecularVisualizer";
+import { MolecularDescriptors, computeDescriptors } from "@/lib/chem/descriptors";
+import { FINGERPRINT_LABELS, FingerprintType, computeFingerprint } from "@/lib/chem/fingerprints";
+import { McsResult, maximumCommonSubstructure } from "@/lib/chem/mcs";
+import { SIMILARITY_METRIC_LABELS, SimilarityMetric, similarity } from "@/lib/chem/similarity";
+import { SmilesParseError, tryParseSmiles } from "@/lib/chem/smiles";
+
+interface MoleculeComparisonProps {
+  initialSmiles?: string;
+}
+
+interface ComparisonResult {
+  smiles: [string, string];
+  descriptors: [MolecularDescriptors, MolecularDescriptors];
+  similarities: { type: FingerprintType; scores: Record<SimilarityMetric, number> }[];
+  mcs: McsResult;
+}
+
+const DELTA_ROWS: { key: keyof MolecularDescriptors; label: string; digits: number }[] = [
+  { key: "molecularWeight", label: "Molecular Weight", digits: 1 },
+  { key: "logp", label: "LogP", digits: 2 },
+  { key: "tpsa", label: "TPSA", digits: 1 },
+  { key: "hbd", label: "H-Bond Donors", digits: 0 },
+  { key: "hba", label: "H-Bond Acceptors", digits: 0 },
+  { key: "rotatableBonds", label: "Rotatable Bonds", digits: 0 },
+  { key: "heavyAtomCount", label: "Heavy Atoms", digits: 0 },
+  { key: "rings", label: "Rings", digits: 0 },
+  { key: "aromaticRings", label: "Aromatic Rings", digits: 0 },
+  { key: "molarRefractivity", label: "Molar Refractivity", digits: 1 },
+  { key: "qed", label: "QED (approx.)", digits: 2 },
+  { key: "sas", label: "SA Score", digits: 2 },
+];
+
+const METRICS: SimilarityMetric[] = ["tanimoto", "dice", "cosine"];
+
+export const MoleculeComparison = ({ initialSmiles = "" }: MoleculeComparisonProps) => {
+  const [first, setFirst] = useState(initialSmiles);
+  const [second, setSecond] = useState("");
+  const [errors, setErrors] = useState<[SmilesParseError | null, SmilesParseError | null]>([null, null]);
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+
+  const compare = () => {
+    const smiles: [string, string] = [first.trim(), second.trim()];
+    const [a, b] = smiles.map(tryParseSmiles);
+    setErrors([a.error, b.error]);
+    if (!a.molecule || !b.molecule) {
+      setResult(null);
+      return;
+    }
+    const similarities = (Object.keys(FINGERPRINT_LABELS) as FingerprintType[]).map((type) => {
+      const fpA = computeFingerprint(a.molecule, type);
+      const fpB = computeFingerprint(b.molecule, type);
+      const scores = Object.fromEntries(METRICS.map((metric) => [metric, similarity(fpA, fpB, metric)]));
+      return { type, scores: scores as Record<SimilarityMetric, number> };
+    });
+    setResult({
+      smiles,
+      descriptors: [computeDescriptors(a.molecule), computeDescriptors(b.molecule)],
+      similarities,
+      mcs: maximumCommonSubstructure(a.molecule, b.molecule),
+    });
+  };
+
+  const swap = () => {
+    setFirst(second);
+    setSecond(first);
+    setResult(null);
+  };
+
+  const inputs: [string, string, (value: string) => void][] = [
+    ["Molecule A", first, setFirst],
+    ["Molecule B", second, setSecond],
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        {inputs.map(([label, value, setValue], side) => (
+          <div key={label}>
+            <label className="text-sm font-medium mb-2 block">{label}</label>
+            <Input
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="Enter SMILES notation"
+              className="font-mono"
+            />
+            {errors[side] && (
+              <p className="text-sm text-destructive mt-2">
+                Character {errors[side].position + 1}: {errors[side].reason}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="scientific" onClick={compare} disabled={!first.trim() || !second.trim()}>
+          <GitCompare className="w-4 h-4 mr-2" />
+          Compare
+        </Button>
+        <Button variant="outline" onClick={swap}>
+          <ArrowLeftRight className="w-4 h-4 mr-2" />
+          Swap
+        </Button>
+      </div>
+
+      {result && (
+        <div className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            <Badge>
+              MCS: {result.mcs.atomCount} atoms, {result.mcs.bondCount} bonds
+            </Badge>
+            {result.descriptors.map((descriptors, side) => (
+              <Badge key={side} variant="outline">
+                {((result.mcs.atomCount / Math.max(1, descriptors.heavyAtomCount)) * 100).toFixed(0)}% of{" "}
+                {side === 0 ? "A" : "B"}
+              </Badge>
+            ))}
+            {!result.mcs.complete && <Badge variant="destructive">MCS search timed out; best found shown</Badge>}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {result.smiles.map((smiles, side) => (
+              <MolecularVisualizer
+                key={side}
+                smiles={smiles}
+                highlightAtoms={result.mcs.pairs.map((pair) => pair[side])}
+              />
+            ))}
+          </div>
+
+          <div>
+            <h4 className="font-semibold mb-2">Descriptor Deltas</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Descriptor</TableHead>
+                  <TableHead className="text-right">A</TableHead>
+                  <TableHead className="text-right">B</TableHead>
+                  <TableHead className="text-right">Δ (B − A)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {DELTA_ROWS.map(({ key, label, digits }) => {
+                  const [a, b] = result.descriptors.map((descriptors) => descriptors[key] as number);
+                  const delta = b - a;
+                  return (
+                    <TableRow key={key}>
+                      <TableCell>{label}</TableCell>
+                      <TableCell className="text-right font-mono">{a.toFixed(digits)}</TableCell>
+                      <TableCell className="text-right font-mono">{b.toFixed(digits)}</TableCell>
+                      <TableCell
+                        className={`text-right font-mono ${delta > 0 ? "text-primary" : delta < 0 ? "text-destructive" : ""}`}
+                      >
+                        {delta > 0 ? "+" : ""}
+                        {delta.toFixed(digits)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div>
+            <h4 className="font-semibold mb-2">Fingerprint Similarity</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fingerprint</TableHead>
+                  {METRICS.map((metric) => (
+                    <TableHead key={metric} className="text-right">
+                      {SIMILARITY_METRIC_LABELS[metric]}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.similarities.map(({ type, scores }) => (
+                  <TableRow key={type}>
+                    <TableCell>{FINGERPRINT_LABELS[type]}</TableCell>
+                    {METRICS.map((metric) => (
+                      <TableCell key={metric} className="text-right font-mono">
+                        {scores[metric].toFixed(3)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
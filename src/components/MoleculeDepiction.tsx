@@ -0,0 +1,170 @@
+import { forwardRef, useMemo } from "react";
+import {
+  AtomLabel,
+  DEFAULT_DEPICTION_OPTIONS,
+  DepictedAtom,
+  DepictionHighlights,
+  depictMolecule,
+} from "@/lib/chem/depiction";
+import { Molecule } from "@/lib/chem/molecule";
+
+interface MoleculeDepictionProps {
+  molecule: Molecule;
+  // Off draws every atom as a labelled disc without bond lines
+  showBonds?: boolean;
+  showHydrogens?: boolean;
+  highlights?: DepictionHighlights;
+  // Label or disc color for an atom; labels use the text color by default
+  atomColor?: (atom: DepictedAtom) => string;
+  className?: string;
+}
+
+const FONT_SIZE = DEFAULT_DEPICTION_OPTIONS.scale * 0.4;
+const NO_HIGHLIGHTS: DepictionHighlights = { atoms: [], bonds: [] };
+
+// Label pieces with their baseline: -1 superscript, 0 normal, 1 subscript
+const labelSegments = ({ symbol, hydrogens, hydrogensLeft, charge, isotope }: AtomLabel) => {
+  const hydrogenSegments: [string, number][] = hydrogens === 0 ? [] : hydrogens === 1 ? [["H", 0]] : [["H", 0], [String(hydrogens), 1]];
+  const segments: [string, number][] = [
+    ...(hydrogensLeft ? hydrogenSegments : []),
+    ...(isotope !== null ? ([[String(isotope), -1]] as [string, number][]) : []),
+    [symbol, 0],
+    ...(hydrogensLeft ? [] : hydrogenSegments),
+    ...(charge ? ([[charge, -1]] as [string, number][]) : []),
+  ];
+  return segments;
+};
+
+const AtomText = ({ atom, color }: { atom: DepictedAtom; color: string }) => {
+  // Keep the element symbol itself centred on the atom position
+  const half = atom.label.symbol.length * FONT_SIZE * 0.3;
+  const left = atom.label.hydrogensLeft;
+  let baseline = 0;
+  return (
+    <text
+      x={left ? atom.x + half : atom.x - half}
+      y={atom.y}
+      textAnchor={left ? "end" : "start"}
+      dominantBaseline="central"
+      fontSize={FONT_SIZE}
+      fontFamily="sans-serif"
+      fill={color}
+    >
+      {labelSegments(atom.label).map(([text, shift], k) => {
+        const dy = (shift - baseline) * FONT_SIZE * 0.3;
+        baseline = shift;
+        return (
+          <tspan key={k} dy={dy} fontSize={shift === 0 ? FONT_SIZE : FONT_SIZE * 0.7}>
+            {text}
+          </tspan>
+        );
+      })}
+    </text>
+  );
+};
+
+// The ref reaches the <svg> so callers can export the drawing
+export const MoleculeDepiction = forwardRef<SVGSVGElement, MoleculeDepictionProps>(
+  (
+    {
+      molecule,
+      showBonds = true,
+      showHydrogens = false,
+      highlights = NO_HIGHLIGHTS,
+      atomColor = () => "currentColor",
+      className,
+    },
+    ref
+  ) => {
+    const depiction = useMemo(() => depictMolecule(molecule, { showHydrogens }), [molecule, showHydrogens]);
+    const { scale } = DEFAULT_DEPICTION_OPTIONS;
+    const { width, height, atoms, lines, wedges } = depiction;
+    const bondMiddle = (index: number) => {
+      const bond = molecule.bonds[index];
+      return {
+        x: (atoms[bond.begin].x + atoms[bond.end].x) / 2,
+        y: (atoms[bond.begin].y + atoms[bond.end].y) / 2,
+      };
+    };
+
+    return (
+      <svg ref={ref} viewBox={`0 0 ${width} ${height}`} width={width} height={height} className={className}>
+        <g opacity={0.5}>
+          {highlights.bonds.map(({ bond, color }) => {
+            const { begin, end } = molecule.bonds[bond];
+            return (
+              <line
+                key={bond}
+                x1={atoms[begin].x}
+                y1={atoms[begin].y}
+                x2={atoms[end].x}
+                y2={atoms[end].y}
+                stroke={color}
+                strokeWidth={scale * 0.3}
+                strokeLinecap="round"
+              />
+            );
+          })}
+          {highlights.atoms.map(({ atom, color }) => (
+            <circle key={atom} cx={atoms[atom].x} cy={atoms[atom].y} r={scale * 0.3} fill={color} />
+          ))}
+        </g>
+
+        {showBonds ? (
+          <>
+            <g stroke="currentColor" strokeWidth={1.5} strokeLinecap="round">
+              {lines.map((l, k) => (
+                <line key={k} x1={l.x1} y1={l.y1} x2={l.x2} y2={l.y2} strokeDasharray={l.dashed ? "4 3" : undefined} />
+              ))}
+            </g>
+            <g fill="currentColor">
+              {wedges.map((wedge) => (
+                <polygon key={wedge.bond} points={wedge.points.map((p) => p.join(",")).join(" ")} />
+              ))}
+            </g>
+            {atoms.map((atom, k) => atom.label && <AtomText key={k} atom={atom} color={atomColor(atom)} />)}
+          </>
+        ) : (
+          atoms.map((atom, k) => (
+            <g key={k}>
+              <circle cx={atom.x} cy={atom.y} r={scale * (atom.index === -1 ? 0.2 : 0.3)} fill={atomColor(atom)} />
+              <text
+                x={atom.x}
+                y={atom.y}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fontSize={atom.index === -1 ? FONT_SIZE * 0.6 : FONT_SIZE * 0.8}
+                fontFamily="sans-serif"
+                fill="white"
+              >
+                {atom.element}
+              </text>
+            </g>
+          ))
+        )}
+
+        {/* Highlight tags sit up and to the right of their atom or bond middle */}
+        <g fontSize={FONT_SIZE * 0.55} fontFamily="sans-serif" fill="currentColor" opacity={0.8}>
+          {highlights.atoms
+            .filter((highlight) => highlight.label)
+            .map(({ atom, label }) => (
+              <text key={`a${atom}`} x={atoms[atom].x + scale * 0.3} y={atoms[atom].y - scale * 0.3}>
+                {label}
+              </text>
+            ))}
+          {highlights.bonds
+            .filter((highlight) => highlight.label)
+            .map(({ bond, label }) => {
+              const middle = bondMiddle(bond);
+              return (
+                <text key={`b${bond}`} x={middle.x + scale * 0.15} y={middle.y - scale * 0.15}>
+                  {label}
+                </text>
+              );
+            })}
+        </g>
+      </svg>
+    );
+  }
+);
+MoleculeDepiction.displayName = "MoleculeDepiction";
@@ -0,0 +1,277 @@
+import { MouseEvent, UIEvent, memo, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight } from "lucide-react";
+import { MoleculeDepiction } from "@/components/MoleculeDepiction";
+import { tryParseSmiles } from "@/lib/chem/smiles";
+
+export interface GridDescriptor {
+  key: string;
+  label: string;
+  digits: number;
+}
+
+export interface GridMolecule {
+  // Stable identity, used for selection
+  key: string;
+  smiles: string;
+  title: string;
+  // Descriptor values by key; a missing value shows as a dash and sorts last
+  values: Partial<Record<string, number>>;
+  // Short flags such as "Invalid" or "Duplicate of #3"
+  tags?: string[];
+}
+
+interface MoleculeGridProps {
+  items: GridMolecule[];
+  descriptors: GridDescriptor[];
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+  // Key of the molecule opened in the detail view, if any
+  opened?: string | null;
+  onOpen?: (key: string) => void;
+  // Descriptors labelled on each card to begin with
+  initialLabels?: string[];
+}
+
+const PAGE_SIZE = 120;
+const CARD_WIDTH = 168;
+const GAP = 12;
+// Card height without descriptor labels, and the height each label line adds
+const CARD_BASE_HEIGHT = 196;
+const LABEL_HEIGHT = 16;
+const VIEWPORT_HEIGHT = 560;
+// Rows rendered beyond the visible ones in each direction
+const OVERSCAN = 2;
+const INPUT_ORDER = "input";
+
+// Parsing and layout happen only for cards scrolled into view
+const Thumbnail = memo(({ smiles }: { smiles: string }) => {
+  const molecule = useMemo(() => tryParseSmiles(smiles).molecule, [smiles]);
+  return molecule ? (
+    <MoleculeDepiction molecule={molecule} className="max-w-full max-h-full text-foreground" />
+  ) : (
+    <span className="text-xs text-muted-foreground">No structure</span>
+  );
+});
+Thumbnail.displayName = "Thumbnail";
+
+export const MoleculeGrid = ({
+  items,
+  descriptors,
+  selected,
+  onSelectedChange,
+  opened = null,
+  onOpen,
+  initialLabels = [],
+}: MoleculeGridProps) => {
+  const [sortKey, setSortKey] = useState(INPUT_ORDER);
+  const [descending, setDescending] = useState(true);
+  const [labels, setLabels] = useState<string[]>(initialLabels);
+  const [page, setPage] = useState(0);
+  const [width, setWidth] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewport = useRef<HTMLDivElement>(null);
+  // Anchor for shift-click range selection, as a position in the sorted order
+  const anchor = useRef<number | null>(null);
+
+  useEffect(() => {
+    const element = viewport.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const sorted = useMemo(() => {
+    if (sortKey === INPUT_ORDER) return items;
+    const direction = descending ? -1 : 1;
+    return [...items].sort((a, b) => {
+      const x = a.values[sortKey];
+      const y = b.values[sortKey];
+      if (x === undefined || y === undefined) return x === undefined ? (y === undefined ? 0 : 1) : -1;
+      return (x - y) * direction;
+    });
+  }, [items, sortKey, descending]);
+
+  const pages = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const current = Math.min(page, pages - 1);
+  const pageItems = sorted.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+
+  // A new page or order starts at the top
+  useEffect(() => {
+    viewport.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+    anchor.current = null;
+  }, [current, sorted]);
+
+  const columns = Math.max(1, Math.floor((width + GAP) / (CARD_WIDTH + GAP)));
+  const rowHeight = CARD_BASE_HEIGHT + labels.length * LABEL_HEIGHT + GAP;
+  const rows = Math.ceil(pageItems.length / columns);
+  const firstRow = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+  const lastRow = Math.min(rows, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / rowHeight) + OVERSCAN);
+  const cardWidth = (width - GAP * (columns - 1)) / columns;
+
+  const toggleSelected = (position: number, event: MouseEvent) => {
+    const next = new Set(selected);
+    const key = sorted[position].key;
+    const select = !selected.has(key);
+    const from = event.shiftKey && anchor.current !== null ? Math.min(anchor.current, position) : position;
+    const to = event.shiftKey && anchor.current !== null ? Math.max(anchor.current, position) : position;
+    for (const item of sorted.slice(from, to + 1)) {
+      if (select) next.add(item.key);
+      else next.delete(item.key);
+    }
+    anchor.current = position;
+    onSelectedChange(next);
+  };
+
+  const toggleLabel = (key: string) =>
+    setLabels(labels.includes(key) ? labels.filter((label) => label !== key) : [...labels, key]);
+
+  const format = (item: GridMolecule, descriptor: GridDescriptor) => {
+    const value = item.values[descriptor.key];
+    return value === undefined ? "—" : value.toFixed(descriptor.digits);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={sortKey} onValueChange={setSortKey}>
+          <SelectTrigger className="w-44 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={INPUT_ORDER}>Input order</SelectItem>
+            {descriptors.map((descriptor) => (
+              <SelectItem key={descriptor.key} value={descriptor.key}>
+                Sort by {descriptor.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={sortKey === INPUT_ORDER}
+          onClick={() => setDescending(!descending)}
+          title={descending ? "Highest first" : "Lowest first"}
+        >
+          {descending ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
+        </Button>
+        <div className="flex flex-wrap gap-1">
+          {descriptors.map((descriptor) => (
+            <Button
+              key={descriptor.key}
+              variant={labels.includes(descriptor.key) ? "default" : "outline"}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => toggleLabel(descriptor.key)}
+            >
+              {descriptor.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span>
+          {selected.size} of {items.length} selected
+        </span>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onSelectedChange(new Set([...selected, ...pageItems.map((item) => item.key)]))}
+          >
+            Select Page
+          </Button>
+          <Button variant="outline" size="sm" disabled={selected.size === 0} onClick={() => onSelectedChange(new Set())}>
+            Clear Selection
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={viewport}
+        className="relative overflow-y-auto"
+        style={{ height: Math.min(VIEWPORT_HEIGHT, rows * rowHeight) }}
+        onScroll={(event: UIEvent<HTMLDivElement>) => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <div style={{ height: rows * rowHeight }}>
+          {width > 0 &&
+            pageItems.slice(firstRow * columns, lastRow * columns).map((item, k) => {
+              const index = firstRow * columns + k;
+              const position = current * PAGE_SIZE + index;
+              const isSelected = selected.has(item.key);
+              return (
+                <div
+                  key={item.key}
+                  className={`absolute flex flex-col rounded-lg border p-2 bg-muted/30 ${
+                    isSelected ? "border-primary ring-1 ring-primary" : "border-border"
+                  } ${opened === item.key ? "bg-muted" : ""}`}
+                  style={{
+                    left: (index % columns) * (cardWidth + GAP),
+                    top: Math.floor(index / columns) * rowHeight,
+                    width: cardWidth,
+                    height: rowHeight - GAP,
+                  }}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Checkbox
+                      checked={isSelected}
+                      onClick={(event) => toggleSelected(position, event)}
+                      aria-label={`Select ${item.title}`}
+                    />
+                    <span className="text-xs font-semibold truncate">{item.title}</span>
+                  </div>
+                  <button
+                    type="button"
+                    className="flex-1 min-h-0 my-1 flex items-center justify-center rounded hover:bg-background/60"
+                    onClick={() => onOpen?.(item.key)}
+                    title={item.smiles}
+                  >
+                    <Thumbnail smiles={item.smiles} />
+                  </button>
+                  <code className="text-[10px] font-mono text-muted-foreground truncate">{item.smiles}</code>
+                  {(item.tags ?? []).length > 0 && (
+                    <div className="flex gap-1 overflow-hidden">
+                      {item.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary" className="px-1 py-0 text-[10px] whitespace-nowrap">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {descriptors
+                    .filter((descriptor) => labels.includes(descriptor.key))
+                    .map((descriptor) => (
+                      <div key={descriptor.key} className="flex justify-between text-xs" style={{ height: LABEL_HEIGHT }}>
+                        <span className="text-muted-foreground">{descriptor.label}</span>
+                        <span className="font-mono">{format(item, descriptor)}</span>
+                      </div>
+                    ))}
+                </div>
+              );
+            })}
+        </div>
+      </div>
+
+      {pages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <Button variant="outline" size="sm" disabled={current === 0} onClick={() => setPage(current - 1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {current + 1} of {pages}
+          </span>
+          <Button variant="outline" size="sm" disabled={current >= pages - 1} onClick={() => setPage(current + 1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
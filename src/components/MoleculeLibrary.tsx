@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useProject } from "@/hooks/use-project";
+import { useNavigate } from "react-router-dom";
+import { Filter, RefreshCw, Tag, Trash2, Upload } from "lucide-react";
+import { GridDescriptor, GridMolecule, MoleculeGrid } from "./MoleculeGrid";
+import { PropertyFilter } from "./PropertyFilter";
+import { FilterCriteria } from "@/lib/chem/filter";
+import {
+  EMPTY_LIBRARY_QUERY,
+  LIBRARY_SOURCE_LABELS,
+  LibraryMolecule,
+  LibrarySource,
+  libraryTags,
+  queryLibrary,
+  removeFromLibrary,
+  retagLibrary,
+} from "@/lib/library";
+import { moleculePath } from "@/lib/routes";
+
+interface MoleculeLibraryProps {
+  // Label for the button that hands selected molecules to the owning module
+  loadLabel: string;
+  onLoad: (molecules: LibraryMolecule[]) => void;
+  // Bumped by the owner after it saves, so the listing refreshes
+  version?: number;
+}
+
+const ANY = "any";
+
+const LIBRARY_DESCRIPTORS: GridDescriptor[] = [
+  { key: "mw", label: "MW", digits: 1 },
+  { key: "logp", label: "LogP", digits: 2 },
+  { key: "tpsa", label: "TPSA", digits: 1 },
+  { key: "qed", label: "QED (approx.)", digits: 2 },
+  { key: "sas", label: "SA", digits: 2 },
+  { key: "runs", label: "Runs", digits: 0 },
+];
+
+interface LibraryMoleculeGridProps {
+  molecules: LibraryMolecule[];
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+  onOpen?: (canonical: string) => void;
+}
+
+// Library records as grid cards keyed by canonical SMILES
+export const LibraryMoleculeGrid = ({ molecules, selected, onSelectedChange, onOpen }: LibraryMoleculeGridProps) => {
+  const items = useMemo(
+    () =>
+      molecules.map(
+        (molecule): GridMolecule => ({
+          key: molecule.canonicalSmiles,
+          smiles: molecule.smiles,
+          title: molecule.name ?? molecule.canonicalSmiles,
+          values: {
+            mw: molecule.descriptors.molecularWeight,
+            logp: molecule.descriptors.logp,
+            tpsa: molecule.descriptors.tpsa,
+            qed: molecule.descriptors.qed,
+            sas: molecule.descriptors.sas,
+            runs: new Set(molecule.provenance.map((entry) => entry.run)).size,
+          },
+          tags: [...molecule.sources.map((entry) => entry.toUpperCase()), ...molecule.tags],
+        })
+      ),
+    [molecules]
+  );
+
+  return (
+    <MoleculeGrid
+      items={items}
+      descriptors={LIBRARY_DESCRIPTORS}
+      selected={selected}
+      onSelectedChange={onSelectedChange}
+      onOpen={onOpen}
+      initialLabels={["mw", "qed"]}
+    />
+  );
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export const MoleculeLibrary = ({ loadLabel, onLoad, version = 0 }: MoleculeLibraryProps) => {
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [source, setSource] = useState<LibrarySource | typeof ANY>(ANY);
+  const [tag, setTag] = useState(ANY);
+  const [similarSmiles, setSimilarSmiles] = useState("");
+  const [threshold, setThreshold] = useState([0.5]);
+  const [filter, setFilter] = useState<FilterCriteria | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [molecules, setMolecules] = useState<LibraryMolecule[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [newTag, setNewTag] = useState("");
+  const [loading, setLoading] = useState(false);
+  const project = useProject();
+  // Inside a project the library starts out showing only that project's molecules
+  const [projectOnly, setProjectOnly] = useState(true);
+  const navigate = useNavigate();
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [found, allTags] = await Promise.all([
+        queryLibrary({
+          ...EMPTY_LIBRARY_QUERY,
+          text,
+          source: source === ANY ? null : source,
+          project: project && projectOnly ? project : null,
+          tags: tag === ANY ? [] : [tag],
+          filter,
+          similarTo: similarSmiles.trim() ? { smiles: similarSmiles.trim(), threshold: threshold[0] } : null,
+        }),
+        libraryTags(),
+      ]);
+      setMolecules(found);
+      setTags(allTags);
+    } catch (error) {
+      toast({ title: "Library Unavailable", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [text, source, project, projectOnly, tag, filter, similarSmiles, threshold, toast]);
+
+  // Typing in the search fields waits for a pause before querying
+  useEffect(() => {
+    const timer = setTimeout(refresh, 250);
+    return () => clearTimeout(timer);
+  }, [refresh, version]);
+
+  const chosen = molecules.filter((molecule) => selected.has(molecule.canonicalSmiles));
+
+  const applyTag = async () => {
+    const label = newTag.trim();
+    if (!label || chosen.length === 0) return;
+    try {
+      await retagLibrary([...selected], [label]);
+      setNewTag("");
+      await refresh();
+    } catch (error) {
+      toast({ title: "Tagging Failed", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const removeTag = async (label: string) => {
+    try {
+      await retagLibrary([...selected], [], [label]);
+      await refresh();
+    } catch (error) {
+      toast({ title: "Tagging Failed", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const deleteSelected = async () => {
+    try {
+      await removeFromLibrary([...selected]);
+      toast({ title: "Removed from Library", description: `Deleted ${selected.size} molecules` });
+      setSelected(new Set());
+      await refresh();
+    } catch (error) {
+      toast({ title: "Delete Failed", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  // Tags carried by any selected molecule, offered for removal
+  const selectedTags = [...new Set(chosen.flatMap((molecule) => molecule.tags))];
+
+  return (
+    <Card className="p-6 bg-card border shadow-molecular space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-card-foreground">Molecule Library</h3>
+        <div className="flex items-center gap-2">
+          {project && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground mr-2">
+              <Switch checked={projectOnly} onCheckedChange={setProjectOnly} />
+              This project only
+            </label>
+          )}
+          <Button variant="outline" size="sm" onClick={() => setShowFilters(!showFilters)}>
+            <Filter className="w-4 h-4 mr-2" />
+            {showFilters ? "Hide Filters" : "Show Filters"}
+          </Button>
+          <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-4">
+        <Input value={text} onChange={(event) => setText(event.target.value)} placeholder="Search SMILES or name" />
+        <Select value={source} onValueChange={(value) => setSource(value as LibrarySource | typeof ANY)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All sources</SelectItem>
+            {(Object.keys(LIBRARY_SOURCE_LABELS) as LibrarySource[]).map((option) => (
+              <SelectItem key={option} value={option}>
+                {LIBRARY_SOURCE_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={tag} onValueChange={setTag}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any tag</SelectItem>
+            {tags.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4 items-end">
+        <Input
+          value={similarSmiles}
+          onChange={(event) => setSimilarSmiles(event.target.value)}
+          placeholder="Similar to SMILES (optional)"
+          className="font-mono"
+        />
+        <div>
+          <label className="text-sm font-medium mb-2 block">Similarity Threshold: {threshold[0].toFixed(2)}</label>
+          <Slider value={threshold} onValueChange={setThreshold} min={0.1} max={1} step={0.05} />
+        </div>
+      </div>
+
+      {showFilters && (
+        <PropertyFilter onFilterChange={setFilter} moleculeCount={molecules.length} filteredCount={molecules.length} />
+      )}
+
+      {molecules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {loading ? "Loading library…" : "No molecules match. Save results from any module to fill the library."}
+        </p>
+      ) : (
+        <LibraryMoleculeGrid
+          molecules={molecules}
+          selected={selected}
+          onSelectedChange={setSelected}
+          onOpen={(key) => navigate(moleculePath(key))}
+        />
+      )}
+
+      {selected.size > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={() => onLoad(chosen)}>
+            <Upload className="w-4 h-4 mr-2" />
+            {loadLabel} ({chosen.length})
+          </Button>
+          <Input
+            value={newTag}
+            onChange={(event) => setNewTag(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && applyTag()}
+            placeholder="New tag"
+            className="w-36 h-9"
+          />
+          <Button variant="outline" size="sm" onClick={applyTag} disabled={!newTag.trim()}>
+            <Tag className="w-4 h-4 mr-2" />
+            Tag
+          </Button>
+          {selectedTags.map((label) => (
+            <Badge key={label} variant="secondary" className="cursor-pointer" onClick={() => removeTag(label)}>
+              {label} ×
+            </Badge>
+          ))}
+          <Button variant="destructive" size="sm" onClick={deleteSelected}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,78 @@
+import { ReactNode } from "react";
+import { Link, NavLink } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { ProjectContext } from "@/hooks/use-project";
+import { getProject } from "@/lib/projects";
+import { projectPath } from "@/lib/routes";
+
+interface ProjectLayoutProps {
+  projectId: string;
+  children: ReactNode;
+}
+
+const SECTIONS = [
+  { label: "Workspace", path: (id: string) => projectPath(id) },
+  { label: "Molecules", path: (id: string) => projectPath(id, "molecules") },
+  { label: "Runs", path: (id: string) => projectPath(id, "runs") },
+];
+
+// Header and section navigation shared by the project pages; modules inside save into the project
+export const ProjectLayout = ({ projectId, children }: ProjectLayoutProps) => {
+  const { data: project, isLoading, error } = useQuery({
+    queryKey: ["project", projectId],
+    queryFn: () => getProject(projectId),
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-6 lg:px-8 py-6 space-y-4">
+          <Link to="/projects" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            All projects
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">{project?.name ?? projectId}</h1>
+            {project?.description && <p className="text-muted-foreground mt-1">{project.description}</p>}
+          </div>
+          {project && (
+            <nav className="flex gap-2">
+              {SECTIONS.map((section) => (
+                <NavLink
+                  key={section.label}
+                  to={section.path(projectId)}
+                  end
+                  className={({ isActive }) =>
+                    `px-3 py-1.5 rounded-md text-sm font-medium ${
+                      isActive ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:bg-muted"
+                    }`
+                  }
+                >
+                  {section.label}
+                </NavLink>
+              ))}
+            </nav>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading project…</p>
+        ) : error ? (
+          <p className="text-destructive">{error instanceof Error ? error.message : String(error)}</p>
+        ) : !project ? (
+          <p className="text-muted-foreground">
+            No project "{projectId}" in this browser's library.{" "}
+            <Link to="/projects" className="text-primary underline">
+              Create or open a project
+            </Link>
+          </p>
+        ) : (
+          <ProjectContext.Provider value={projectId}>{children}</ProjectContext.Provider>
+        )}
+      </main>
+    </div>
+  );
+};
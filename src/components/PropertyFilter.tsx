@@ -5,17 +5,8 @@ import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-
-export interface FilterCriteria {
-  mwRange: [number, number];
-  logpRange: [number, number];
-  hbdMax: number;
-  hbaMax: number;
-  tpsaRange: [number, number];
-  lipinskiCompliant: boolean;
-  qedMin: number;
-  sasMax: number;
-}
+import { FilterCriteria } from "@/lib/chem/filter";
+import { QED_CAVEAT } from "@/lib/chem/qed";
 
 interface PropertyFilterProps {
   onFilterChange: (criteria: FilterCriteria) => void;
@@ -168,8 +159,8 @@ export const PropertyFilter = ({ onFilterChange, moleculeCount, filteredCount }:
         {/* Advanced Filters */}
         <div className="space-y-4">
           <div>
-            <label className="text-sm font-medium mb-3 block">
-              QED (Drug-likeness): {qedMin[0].toFixed(2)}+
+            <label className="text-sm font-medium mb-3 block" title={QED_CAVEAT}>
+              QED (Drug-likeness, approx.): {qedMin[0].toFixed(2)}+
             </label>
             <Slider
               value={qedMin}
@@ -224,7 +215,7 @@ export const PropertyFilter = ({ onFilterChange, moleculeCount, filteredCount }:
               <Badge variant="secondary">HBA ≤ {hbaMax[0]}</Badge>
             ) : null}
             {qedMin[0] > 0 ? (
-              <Badge variant="secondary">QED ≥ {qedMin[0].toFixed(2)}</Badge>
+              <Badge variant="secondary" title={QED_CAVEAT}>QED (approx.) ≥ {qedMin[0].toFixed(2)}</Badge>
             ) : null}
             {lipinskiCompliant ? (
               <Badge variant="default">Lipinski</Badge>
@@ -0,0 +1,71 @@
+import { Badge } from "@/components/ui/badge";
+import { DrugLikenessRules, RuleResult, ThresholdCheck } from "@/lib/chem/rules";
+
+interface RuleEvaluationProps {
+  rules: DrugLikenessRules;
+}
+
+const formatValue = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(2));
+
+const checkSummary = (check: ThresholdCheck) =>
+  check.passed ? "Pass" : `Fail by ${formatValue(Math.abs(check.margin))}`;
+
+const RuleRow = ({ rule }: { rule: RuleResult }) => (
+  <div className="p-3 bg-muted/50 rounded-lg">
+    <div className="flex items-center justify-between">
+      <span className="font-medium text-sm">{rule.name}</span>
+      <Badge variant={rule.passed ? "default" : "destructive"}>
+        {rule.passed ? "Pass" : "Fail"} ({rule.violations}/{rule.checks.length})
+      </Badge>
+    </div>
+    <div className="flex flex-wrap gap-2 mt-2">
+      {rule.checks.map((check) => (
+        <Badge
+          key={check.label}
+          variant={check.passed ? "outline" : "destructive"}
+          title={`Value ${formatValue(check.value)}, margin ${formatValue(check.margin)}`}
+        >
+          {check.label}: {formatValue(check.value)} ({checkSummary(check)})
+        </Badge>
+      ))}
+    </div>
+  </div>
+);
+
+export const RuleEvaluation = ({ rules }: RuleEvaluationProps) => {
+  const { lipinski } = rules;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="font-semibold text-card-foreground mb-2">Lipinski Rule of Five</h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {lipinski.checks.map((check) => (
+            <Badge
+              key={check.label}
+              variant={check.passed ? "default" : "destructive"}
+              title={`Value ${formatValue(check.value)}`}
+            >
+              {check.label}: {checkSummary(check)}
+            </Badge>
+          ))}
+        </div>
+        <p className="text-sm text-muted-foreground mt-2">
+          Violations: {lipinski.violations}/{lipinski.checks.length}
+          {" — "}
+          {lipinski.passed ? "compliant" : "not compliant"} (at most {lipinski.allowedViolations} allowed)
+        </p>
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-card-foreground mb-2">Other Drug-likeness Rules</h4>
+        <div className="space-y-2">
+          <RuleRow rule={rules.veber} />
+          <RuleRow rule={rules.ghose} />
+          <RuleRow rule={rules.egan} />
+          <RuleRow rule={rules.muegge} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,36 +1,58 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useProject } from "@/hooks/use-project";
+import { useJob } from "@/hooks/use-jobs";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
 import { MolecularVisualizer } from "./MolecularVisualizer";
-import { PropertyFilter, FilterCriteria } from "./PropertyFilter";
-import { Download, Upload, Zap, Search } from "lucide-react";
-
-interface SMILESAnalysis {
-  smiles: string;
-  isValid: boolean;
-  molecularWeight: number;
-  atomCount: number;
-  bondCount: number;
-  rings: number;
-  aromaticRings: number;
-  heteroatoms: number;
-  rotatable: number;
-  formula: string;
-  lipinski: {
-    mw: boolean;
-    logp: boolean;
-    hbd: boolean;
-    hba: boolean;
-    violations: number;
-  };
-}
+import { PropertyFilter } from "./PropertyFilter";
+import { RuleEvaluation } from "./RuleEvaluation";
+import { FingerprintPanel } from "./FingerprintPanel";
+import { SimilaritySearch } from "./SimilaritySearch";
+import { SubstructureSearch } from "./SubstructureSearch";
+import { MoleculeComparison } from "./MoleculeComparison";
+import { BatchImport } from "./BatchImport";
+import { GridDescriptor, GridMolecule, MoleculeGrid } from "./MoleculeGrid";
+import { MoleculeLibrary } from "./MoleculeLibrary";
+import { Download, Zap, Search, X, Library, Save, Pause, Play } from "lucide-react";
+import { ANALYSIS_CONFORMERS, SMILESAnalysis, analyzeSmiles, filterableAnalysis } from "@/lib/chem/analysis";
+import { BatchEntry, analyzeInWorkers } from "@/lib/chem/batch";
+import { FilterCriteria, RejectedItem, applyFilter, rejectionSummary } from "@/lib/chem/filter";
+import { findDuplicates, mergeDuplicates } from "@/lib/chem/canonical";
+import { ImportedRecord } from "@/lib/chem/import";
+import { writeSdf } from "@/lib/chem/molfile";
+import { QED_CAVEAT } from "@/lib/chem/qed";
+import { tryParseSmiles } from "@/lib/chem/smiles";
+import { downloadFile } from "@/lib/download";
+import { JobAction, JobStatus, controlJob, isActiveJob, isJobRejection, jobResults } from "@/lib/jobs";
+import { LibraryMolecule, Provenance, describeSave, newRunId, saveToLibrary } from "@/lib/library";
+
+// Quote a CSV cell when it contains a delimiter, quote or newline
+const csvValue = (value: unknown) => {
+  const text = String(value ?? "");
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const BATCH_DESCRIPTORS: GridDescriptor[] = [
+  { key: "mw", label: "MW", digits: 1 },
+  { key: "logp", label: "LogP", digits: 2 },
+  { key: "tpsa", label: "TPSA", digits: 1 },
+  { key: "hbd", label: "HBD", digits: 0 },
+  { key: "hba", label: "HBA", digits: 0 },
+  { key: "rotatable", label: "Rotatable", digits: 0 },
+  { key: "atoms", label: "Heavy Atoms", digits: 0 },
+  { key: "qed", label: "QED (approx.)", digits: 2 },
+  { key: "sas", label: "SA", digits: 2 },
+  { key: "lipinski", label: "Lipinski Violations", digits: 0 },
+  { key: "energy", label: "Lowest E", digits: 1 },
+];
 
 const sampleMolecules = [
   "CC(=O)OC1=CC=CC=C1C(=O)O", // Aspirin
@@ -44,46 +66,149 @@ export const SMILESModule = () => {
   const [inputSMILES, setInputSMILES] = useState("");
   const [analysis, setAnalysis] = useState<SMILESAnalysis | null>(null);
   const [batchInput, setBatchInput] = useState("");
+  // Rows from an uploaded file; cleared as soon as the batch text is edited by hand
+  const [importedRecords, setImportedRecords] = useState<ImportedRecord[] | null>(null);
+  const [importedFile, setImportedFile] = useState("");
   const [batchResults, setBatchResults] = useState<SMILESAnalysis[]>([]);
-  const [filteredResults, setFilteredResults] = useState<SMILESAnalysis[]>([]);
+  // Null until the property filter is first applied
+  const [filterCriteria, setFilterCriteria] = useState<FilterCriteria | null>(null);
+  const [showRejected, setShowRejected] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [batchProgress, setBatchProgress] = useState({ done: 0, total: 0 });
+  // 3D embedding costs far more than everything else, so batches skip it unless asked
+  const [batchConformers, setBatchConformers] = useState(false);
+  const batchAbort = useRef<AbortController | null>(null);
+  // Provenance of the batch on screen, recorded when it ran
+  const [batchRun, setBatchRun] = useState<Omit<Provenance, "savedAt" | "project"> | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryVersion, setLibraryVersion] = useState(0);
   const [selectedMolecule, setSelectedMolecule] = useState<string | null>(null);
+  // Batch rows by position in batchResults, as grid keys
+  const [selectedResults, setSelectedResults] = useState<Set<string>>(new Set());
+  const [openedResult, setOpenedResult] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
+  const [showSubstructureSearch, setShowSubstructureSearch] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
   
   // Analysis settings
   const [includeDescriptors, setIncludeDescriptors] = useState(true);
   const [checkSimilarity, setCheckSimilarity] = useState(false);
   const [similarityThreshold, setSimilarityThreshold] = useState([0.7]);
+  const [similarityQuery, setSimilarityQuery] = useState<string | null>(null);
   
   const { toast } = useToast();
-
-  const mockAnalyzeSMILES = (smiles: string): SMILESAnalysis => {
-    // Mock analysis - in real implementation, this would use RDKit
-    const atomCount = Math.floor(Math.random() * 50) + 10;
-    const mw = Math.floor(Math.random() * 400) + 150;
-    
-    return {
-      smiles,
-      isValid: smiles.length > 5 && !smiles.includes("X"), // Simple validation
-      molecularWeight: mw,
-      atomCount,
-      bondCount: Math.floor(atomCount * 1.2),
-      rings: Math.floor(Math.random() * 4),
-      aromaticRings: Math.floor(Math.random() * 3),
-      heteroatoms: Math.floor(Math.random() * 8),
-      rotatable: Math.floor(Math.random() * 10),
-      formula: `C${Math.floor(atomCount * 0.6)}H${Math.floor(atomCount * 0.8)}N${Math.floor(Math.random() * 3)}O${Math.floor(Math.random() * 5)}`,
-      lipinski: {
-        mw: mw <= 500,
-        logp: true, // Mock as passing
-        hbd: Math.random() > 0.3,
-        hba: Math.random() > 0.2,
-        violations: Math.floor(Math.random() * 3)
+  const project = useProject();
+
+  // Batches run as jobs on the local server; the worker pool in this tab is the fallback when it is unreachable
+  const { job, start } = useJob("batch");
+  const batchJobActive = job !== null && isActiveJob(job);
+  const analyzing = isAnalyzing || batchJobActive;
+  const progress = batchJobActive ? job.progress : batchProgress;
+  // The job whose results are on screen, and the status it was last seen in
+  const seen = useRef<{ id: string; status: JobStatus; loaded: boolean } | null>(null);
+
+  // A finished job's results are fetched once, whether it finished now or before a reload
+  useEffect(() => {
+    if (!job || isActiveJob(job)) {
+      if (job) seen.current = { id: job.id, status: job.status, loaded: false };
+      return;
+    }
+    const previous = seen.current?.id === job.id ? seen.current : null;
+    if (previous?.loaded) return;
+    seen.current = { id: job.id, status: job.status, loaded: true };
+    const announce = previous !== null && previous.status !== job.status;
+    if (job.status === 'failed') {
+      if (announce) {
+        toast({ title: "Batch Analysis Failed", description: job.error ?? "The job stopped", variant: "destructive" });
       }
-    };
-  };
+      return;
+    }
+
+    jobResults(job.id).then(
+      (results) => {
+        setBatchResults(results);
+        setBatchRun({ source: "smiles", run: job.id, parameters: job.parameters });
+        if (!announce) return;
+        const validCount = results.filter(r => r.isValid).length;
+        toast({
+          title: job.status === 'cancelled' ? "Batch Analysis Cancelled" : "Batch Analysis Complete",
+          description: job.status === 'cancelled'
+            ? `Kept ${results.length} of ${job.progress.total} molecules, ${validCount} valid`
+            : `Analyzed ${results.length} molecules, ${validCount} valid`,
+        });
+      },
+      (error) =>
+        toast({
+          title: "Batch Results Unavailable",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        })
+    );
+  }, [job, toast]);
+
+  // Later copies of a structure, mapped to the 1-based row of its first occurrence
+  const duplicateOf = useMemo(() => {
+    const firstRows = new Map<SMILESAnalysis, number>();
+    for (const { items } of findDuplicates(batchResults, (result) => result.canonicalSmiles || null)) {
+      const firstRow = batchResults.indexOf(items[0]) + 1;
+      for (const item of items.slice(1)) firstRows.set(item, firstRow);
+    }
+    return firstRows;
+  }, [batchResults]);
+
+  // Leaving the page stops any batch still running in the workers
+  useEffect(() => () => batchAbort.current?.abort(), []);
+
+  // A new or merged batch renumbers its rows
+  useEffect(() => {
+    setSelectedResults(new Set());
+    setOpenedResult(null);
+  }, [batchResults]);
+
+  // Follows the batch on screen, so a new run or a loaded library is filtered as soon as it arrives
+  const { accepted: filteredResults, rejected: rejectedResults } = useMemo(
+    () =>
+      filterCriteria
+        ? applyFilter(batchResults, filterCriteria, filterableAnalysis)
+        : { accepted: batchResults, rejected: [] as RejectedItem<SMILESAnalysis>[] },
+    [batchResults, filterCriteria]
+  );
+
+  const gridItems = useMemo(() => {
+    const rows = new Map(batchResults.map((result, k) => [result, k]));
+    return (showFilters ? filteredResults : batchResults).map((result): GridMolecule => {
+      const row = rows.get(result);
+      const tags = [
+        ...(result.isValid ? [] : ["Invalid"]),
+        ...(duplicateOf.has(result) ? [`Duplicate of #${duplicateOf.get(result)}`] : []),
+      ];
+      return {
+        key: String(row),
+        smiles: result.smiles,
+        title: result.id ?? `#${row + 1}`,
+        values: result.isValid
+          ? {
+              mw: result.molecularWeight,
+              logp: result.logp,
+              tpsa: result.tpsa,
+              hbd: result.hbd,
+              hba: result.hba,
+              rotatable: result.rotatable,
+              atoms: result.atomCount,
+              qed: result.qed,
+              sas: result.sas,
+              lipinski: result.rules?.lipinski.violations,
+              energy: result.lowestEnergy ?? undefined,
+            }
+          : {},
+        tags,
+      };
+    });
+  }, [batchResults, filteredResults, showFilters, duplicateOf]);
 
-  const analyzeSingle = async () => {
+  const opened = openedResult === null ? null : batchResults[Number(openedResult)];
+
+  const analyzeSingle = () => {
     if (!inputSMILES.trim()) {
       toast({
         title: "Error",
@@ -93,22 +218,53 @@ export const SMILESModule = () => {
       return;
     }
 
-    setIsAnalyzing(true);
-    
-    // Simulate analysis delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const result = mockAnalyzeSMILES(inputSMILES.trim());
+    const result = analyzeSmiles(inputSMILES.trim());
     setAnalysis(result);
-    setIsAnalyzing(false);
+    setSelectedMolecule(null);
+    setSimilarityQuery(checkSimilarity && result.isValid ? result.smiles : null);
 
-    toast({
-      title: result.isValid ? "Analysis Complete" : "Invalid SMILES",
-      description: result.isValid 
-        ? `Molecular weight: ${result.molecularWeight.toFixed(1)} Da`
-        : "The SMILES string appears to be invalid",
-      variant: result.isValid ? "default" : "destructive",
-    });
+    // Parse errors are shown in the results card with their position
+    if (result.isValid) {
+      toast({
+        title: "Analysis Complete",
+        description: `Molecular weight: ${result.molecularWeight.toFixed(1)} Da`,
+      });
+    }
+  };
+
+  const analyzeInTab = async (entries: BatchEntry[], parameters: Provenance["parameters"]) => {
+    const controller = new AbortController();
+    const run = { source: "smiles" as const, run: newRunId("smiles"), parameters };
+    batchAbort.current = controller;
+    setIsAnalyzing(true);
+    setBatchProgress({ done: 0, total: entries.length });
+
+    try {
+      const { results, cancelled } = await analyzeInWorkers(
+        entries,
+        { conformers: batchConformers ? ANALYSIS_CONFORMERS : 0 },
+        { signal: controller.signal, onProgress: (done, total) => setBatchProgress({ done, total }) }
+      );
+      setBatchResults(results);
+      setBatchRun(run);
+
+      const validCount = results.filter(r => r.isValid).length;
+      toast({
+        title: cancelled ? "Batch Analysis Cancelled" : "Batch Analysis Complete",
+        description: cancelled
+          ? `Kept ${results.length} of ${entries.length} molecules, ${validCount} valid`
+          : `Analyzed ${results.length} molecules, ${validCount} valid`,
+      });
+    } catch (error) {
+      toast({
+        title: "Batch Analysis Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      batchAbort.current = null;
+      setIsAnalyzing(false);
+    }
   };
 
   const analyzeBatch = async () => {
@@ -121,44 +277,107 @@ export const SMILESModule = () => {
       return;
     }
 
-    setIsAnalyzing(true);
-    
-    const smilesList = batchInput.trim().split('\n').filter(s => s.trim());
-    const results: SMILESAnalysis[] = [];
+    const entries = (importedRecords ?? batchInput.trim().split('\n').filter(s => s.trim())
+      .map(smiles => ({ smiles: smiles.trim(), id: null, extras: {} })))
+      .map(({ smiles, id, extras }): BatchEntry => ({ smiles, id, extras }));
+    const parameters = { input: importedFile && importedRecords ? importedFile : "typed", conformers: batchConformers };
 
-    for (const smiles of smilesList) {
-      await new Promise(resolve => setTimeout(resolve, 500));
-      results.push(mockAnalyzeSMILES(smiles.trim()));
+    try {
+      await start({
+        kind: "batch",
+        entries,
+        conformers: batchConformers ? ANALYSIS_CONFORMERS : 0,
+        parameters,
+        project,
+      });
+    } catch (error) {
+      // The server checked the batch and turned it down
+      if (isJobRejection(error)) {
+        toast({ title: "Batch Not Started", description: error.message, variant: "destructive" });
+        return;
+      }
+      toast({
+        title: "Job Server Unavailable",
+        description: "Analyzing in this tab instead; the batch stops if you leave the page",
+      });
+      await analyzeInTab(entries, parameters);
     }
+  };
 
-    setBatchResults(results);
-    setIsAnalyzing(false);
+  const controlBatch = async (action: JobAction) => {
+    if (!batchJobActive) {
+      batchAbort.current?.abort();
+      return;
+    }
+    try {
+      await controlJob(job.id, action);
+    } catch (error) {
+      toast({
+        title: "Batch Not Updated",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
 
-    const validCount = results.filter(r => r.isValid).length;
-    toast({
-      title: "Batch Analysis Complete",
-      description: `Analyzed ${results.length} molecules, ${validCount} valid`,
-    });
+  // Selected rows when there are any, otherwise the whole batch; invalid rows have nothing to store
+  const saveBatchToLibrary = async () => {
+    const saved = selectedResults.size > 0 ? batchResults.filter((_, k) => selectedResults.has(String(k))) : batchResults;
+    try {
+      const summary = await saveToLibrary(
+        saved.filter(result => result.isValid).map(result => ({ smiles: result.smiles, name: result.id })),
+        { ...(batchRun ?? { source: "smiles", run: newRunId("smiles"), parameters: {} }), project }
+      );
+      setLibraryVersion(version => version + 1);
+      toast({ title: "Saved to Library", description: describeSave(summary) });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Library molecules become the batch input, keeping their names as IDs
+  const loadFromLibrary = (molecules: LibraryMolecule[]) => {
+    handleImport(
+      molecules.map((molecule, k) => ({ line: k + 1, smiles: molecule.smiles, id: molecule.name, extras: {} })),
+      "the library"
+    );
+    toast({ title: "Loaded from Library", description: `${molecules.length} molecules ready for batch analysis` });
+  };
+
+  const importedExtras = Object.keys(importedRecords?.[0]?.extras ?? {});
+
+  const handleImport = (records: ImportedRecord[], fileName: string) => {
+    setImportedRecords(records);
+    setImportedFile(fileName);
+    setBatchInput(records.map(record => record.smiles).join('\n'));
+  };
+
+  const editBatchInput = (value: string) => {
+    setBatchInput(value);
+    setImportedRecords(null);
   };
 
   const loadSample = (smiles: string) => {
     setInputSMILES(smiles);
   };
 
-  const handleFilterChange = (criteria: FilterCriteria) => {
-    const filtered = batchResults.filter(result => {
-      const mw = result.molecularWeight;
-      return (
-        mw >= criteria.mwRange[0] && mw <= criteria.mwRange[1] &&
-        result.heteroatoms <= criteria.hbaMax &&
-        result.lipinski.violations <= (criteria.lipinskiCompliant ? 0 : 4)
-      );
+  const mergeBatchDuplicates = () => {
+    const { unique, merged } = mergeDuplicates(batchResults, (result) => result.canonicalSmiles || null);
+    setBatchResults(unique);
+    toast({
+      title: "Duplicates Merged",
+      description: `Removed ${merged} duplicate ${merged === 1 ? "structure" : "structures"}, ${unique.length} molecules remain`,
     });
-    setFilteredResults(filtered);
   };
 
-  const exportResults = () => {
-    if (batchResults.length === 0) {
+  // The grid selection when there is one, otherwise the whole batch
+  const exportResults = (format: "csv" | "sdf" = "csv") => {
+    const exported = selectedResults.size > 0 ? batchResults.filter((_, k) => selectedResults.has(String(k))) : batchResults;
+    if (exported.length === 0) {
       toast({
         title: "No Data to Export",
         description: "Analyze some molecules first before exporting",
@@ -168,23 +387,61 @@ export const SMILESModule = () => {
     }
 
     try {
-      const data = batchResults.map(result => ({
-        SMILES: result.smiles,
-        Valid: result.isValid,
-        MolecularWeight: result.molecularWeight,
-        Formula: result.formula,
-        Atoms: result.atomCount,
-        Bonds: result.bondCount,
-        Rings: result.rings,
-        AromaticRings: result.aromaticRings,
-        Heteroatoms: result.heteroatoms,
-        RotatableBonds: result.rotatable,
-        LipinskiViolations: result.lipinski.violations
-      }));
+      const extraColumns = [...new Set(exported.flatMap(result => Object.keys(result.extras)))];
+      const data = exported.map(result => {
+        const row = {
+          ID: result.id ?? "",
+          SMILES: result.smiles,
+          CanonicalSMILES: result.canonicalSmiles,
+          Valid: result.isValid,
+          MolecularWeight: result.molecularWeight,
+          ExactMass: result.exactMass,
+          Formula: result.formula,
+          Atoms: result.atomCount,
+          Bonds: result.bondCount,
+          Rings: result.rings,
+          AromaticRings: result.aromaticRings,
+          Heteroatoms: result.heteroatoms,
+          RotatableBonds: result.rotatable,
+          LogP: result.logp,
+          TPSA: result.tpsa,
+          HBD: result.hbd,
+          HBA: result.hba,
+          QED: result.isValid ? result.qed : "",
+          SAScore: result.isValid ? result.sas : "",
+          LipinskiViolations: result.rules?.lipinski.violations ?? "",
+          Veber: result.rules ? (result.rules.veber.passed ? "Pass" : "Fail") : "",
+          Ghose: result.rules ? (result.rules.ghose.passed ? "Pass" : "Fail") : "",
+          Egan: result.rules ? (result.rules.egan.passed ? "Pass" : "Fail") : "",
+          Muegge: result.rules ? (result.rules.muegge.passed ? "Pass" : "Fail") : "",
+          Conformers: result.conformers ?? "",
+          LowestEnergy: result.lowestEnergy ?? "",
+          ParseError: result.error ? `${result.error.reason} at character ${result.error.position + 1}` : ""
+        };
+        // Imported columns keep their names unless they clash with a computed one
+        const extras = extraColumns.map(column => [column in row ? `Input_${column}` : column, result.extras[column] ?? ""]);
+        return { ...row, ...Object.fromEntries(extras) };
+      });
       
+      if (format === "sdf") {
+        // Unparseable inputs have no structure to write
+        const entries = exported.flatMap((result, k) => {
+          const { molecule } = tryParseSmiles(result.smiles);
+          if (!molecule) return [];
+          const { Valid, ParseError, ...properties } = data[k];
+          return [{ molecule, name: result.id ?? result.smiles, properties }];
+        });
+        downloadFile(writeSdf(entries), 'smiles_analysis_results.sdf', 'chemical/x-mdl-sdfile');
+        toast({
+          title: "Export Complete",
+          description: `Exported ${entries.length} structures to SD file`,
+        });
+        return;
+      }
+
       const csv = [
         Object.keys(data[0]).join(','),
-        ...data.map(row => Object.values(row).join(','))
+        ...data.map(row => Object.values(row).map(csvValue).join(','))
       ].join('\n');
       
       const blob = new Blob([csv], { type: 'text/csv' });
@@ -208,33 +465,23 @@ export const SMILESModule = () => {
     }
   };
 
-  const findSimilarMolecules = (targetSmiles: string) => {
-    // Mock similarity search
-    const similar = batchResults.filter(result => 
-      result.smiles !== targetSmiles && 
-      result.molecularWeight > analysis!.molecularWeight * 0.8 &&
-      result.molecularWeight < analysis!.molecularWeight * 1.2
-    );
-    
-    toast({
-      title: "Similarity Search",
-      description: `Found ${similar.length} potentially similar molecules`,
-    });
-    
-    return similar;
-  };
-
   return (
     <div className="space-y-6">
       <Card className="p-6 bg-gradient-card border-0 shadow-molecular">
-        <div className="flex items-center gap-3 mb-6">
-          <div className="w-12 h-12 bg-accent-light rounded-2xl flex items-center justify-center">
-            <span className="text-2xl">🧪</span>
-          </div>
-          <div>
-            <h2 className="text-2xl font-bold text-card-foreground">SMILES Analyzer</h2>
-            <p className="text-muted-foreground">Parse and analyze molecular structures from SMILES notation</p>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-accent-light rounded-2xl flex items-center justify-center">
+              <span className="text-2xl">🧪</span>
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-card-foreground">SMILES Analyzer</h2>
+              <p className="text-muted-foreground">Parse and analyze molecular structures from SMILES notation</p>
+            </div>
           </div>
+          <Button variant="outline" size="sm" onClick={() => setShowLibrary(!showLibrary)}>
+            <Library className="w-4 h-4 mr-2" />
+            {showLibrary ? "Hide Library" : "Library"}
+          </Button>
         </div>
 
         <Tabs defaultValue="single" className="w-full">
@@ -329,31 +576,71 @@ export const SMILESModule = () => {
               </label>
               <Textarea
                 value={batchInput}
-                onChange={(e) => setBatchInput(e.target.value)}
+                onChange={(e) => editBatchInput(e.target.value)}
                 placeholder="Enter multiple SMILES strings, one per line..."
                 rows={6}
                 className="font-mono"
               />
             </div>
 
-            <div className="flex gap-2">
-              <Button variant="outline" size="sm">
-                <Upload className="w-4 h-4 mr-2" />
-                Upload File
-              </Button>
-              <Button variant="outline" size="sm" onClick={() => setBatchInput(sampleMolecules.join('\n'))}>
+            <div className="flex flex-wrap gap-2">
+              <BatchImport onImport={handleImport} />
+              <Button variant="outline" size="sm" onClick={() => editBatchInput(sampleMolecules.join('\n'))}>
                 Load Samples
               </Button>
             </div>
 
+            {importedRecords && (
+              <p className="text-sm text-muted-foreground">
+                {importedRecords.length} molecules from {importedFile}
+                {importedExtras.length > 0 && ` with columns ${importedExtras.join(", ")}`}
+                ; editing the list above drops the imported IDs and columns.
+              </p>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Switch id="batch-conformers" checked={batchConformers} onCheckedChange={setBatchConformers} />
+              <label htmlFor="batch-conformers" className="text-sm font-medium">
+                Generate 3D Conformers (much slower)
+              </label>
+            </div>
+
+            {analyzing && progress.total > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>
+                    {progress.done} of {progress.total} molecules
+                    {batchJobActive && job.status !== 'running' && ` (${job.status})`}
+                  </span>
+                  <div className="flex gap-2">
+                    {batchJobActive && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => controlBatch(job.status === 'paused' ? 'resume' : 'pause')}
+                      >
+                        {job.status === 'paused' ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+                        {job.status === 'paused' ? "Resume" : "Pause"}
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => controlBatch('cancel')}>
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+                <Progress value={(progress.done / progress.total) * 100} />
+              </div>
+            )}
+
             <Button 
               onClick={analyzeBatch}
-              disabled={isAnalyzing}
+              disabled={analyzing}
               variant="scientific"
               className="w-full"
             >
               <Zap className="w-4 h-4 mr-2" />
-              {isAnalyzing ? "Processing Batch..." : "Analyze Batch"}
+              {analyzing ? "Processing Batch..." : "Analyze Batch"}
             </Button>
           </TabsContent>
 
@@ -364,8 +651,13 @@ export const SMILESModule = () => {
                 <p className="text-sm text-muted-foreground mb-3">
                   Compare two molecules for structural similarity
                 </p>
-                <Button variant="outline" size="sm" className="w-full">
-                  Start Comparison
+                <Button
+                  variant={showComparison ? "default" : "outline"}
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setShowComparison(!showComparison)}
+                >
+                  {showComparison ? "Close Comparison" : "Start Comparison"}
                 </Button>
               </Card>
               
@@ -374,8 +666,13 @@ export const SMILESModule = () => {
                 <p className="text-sm text-muted-foreground mb-3">
                   Find molecules containing specific substructures
                 </p>
-                <Button variant="outline" size="sm" className="w-full">
-                  Search Substructures
+                <Button
+                  variant={showSubstructureSearch ? "default" : "outline"}
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setShowSubstructureSearch(!showSubstructureSearch)}
+                >
+                  {showSubstructureSearch ? "Hide Substructure Search" : "Search Substructures"}
                 </Button>
               </Card>
             </div>
@@ -383,19 +680,34 @@ export const SMILESModule = () => {
             <Card className="p-4">
               <h4 className="font-semibold mb-2">Molecular Fingerprints</h4>
               <p className="text-sm text-muted-foreground mb-3">
-                Generate molecular fingerprints for similarity analysis
+                Generate molecular fingerprints for the SMILES entered under Single Analysis
               </p>
-              <div className="flex gap-2">
-                <Button variant="outline" size="sm">Morgan</Button>
-                <Button variant="outline" size="sm">MACCS</Button>
-                <Button variant="outline" size="sm">RDKit</Button>
-                <Button variant="outline" size="sm">AtomPair</Button>
-              </div>
+              <FingerprintPanel smiles={inputSMILES.trim()} />
             </Card>
           </TabsContent>
         </Tabs>
       </Card>
 
+      {showLibrary && (
+        <MoleculeLibrary loadLabel="Load into Batch" onLoad={loadFromLibrary} version={libraryVersion} />
+      )}
+
+      {/* Molecular Comparison */}
+      {showComparison && (
+        <Card className="p-6 bg-card border shadow-molecular">
+          <h3 className="text-xl font-bold text-card-foreground mb-4">Molecular Comparison</h3>
+          <MoleculeComparison initialSmiles={inputSMILES.trim()} />
+        </Card>
+      )}
+
+      {/* Substructure Search */}
+      {showSubstructureSearch && (
+        <Card className="p-6 bg-card border shadow-molecular">
+          <h3 className="text-xl font-bold text-card-foreground mb-4">Substructure Search</h3>
+          <SubstructureSearch batch={batchResults} />
+        </Card>
+      )}
+
       {/* Single Analysis Results */}
       {analysis && (
         <Card className="p-6 bg-card border shadow-molecular">
@@ -405,7 +717,7 @@ export const SMILESModule = () => {
               <Badge variant={analysis.isValid ? "default" : "destructive"}>
                 {analysis.isValid ? "✓ Valid" : "✗ Invalid"}
               </Badge>
-              <Button variant="outline" size="sm" onClick={exportResults}>
+              <Button variant="outline" size="sm" onClick={() => exportResults()}>
                 <Download className="w-4 h-4 mr-2" />
                 Export
               </Button>
@@ -416,94 +728,156 @@ export const SMILESModule = () => {
             <div className="bg-muted/50 p-3 rounded-lg">
               <div className="text-sm text-muted-foreground">SMILES</div>
               <code className="text-sm font-mono text-primary">{analysis.smiles}</code>
-              <div className="flex gap-2 mt-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setSelectedMolecule(selectedMolecule === analysis.smiles ? null : analysis.smiles)}
-                >
-                  {selectedMolecule === analysis.smiles ? 'Hide 3D' : 'View 3D'}
-                </Button>
-                {checkSimilarity && (
+              {analysis.error && (
+                <>
+                  <pre className="text-sm font-mono text-destructive leading-none">
+                    {" ".repeat(analysis.error.position)}^
+                  </pre>
+                  <p className="text-sm text-destructive mt-2">
+                    Character {analysis.error.position + 1}: {analysis.error.reason}
+                  </p>
+                </>
+              )}
+              {analysis.isValid && (
+                <div className="flex gap-2 mt-2">
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => findSimilarMolecules(analysis.smiles)}
+                    onClick={() => setSelectedMolecule(selectedMolecule === analysis.smiles ? null : analysis.smiles)}
                   >
-                    Find Similar
+                    {selectedMolecule === analysis.smiles ? 'Hide 3D' : 'View 3D'}
                   </Button>
-                )}
-              </div>
+                  {checkSimilarity && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSimilarityQuery(analysis.smiles)}
+                    >
+                      Find Similar
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
 
-            {selectedMolecule === analysis.smiles && (
-              <MolecularVisualizer 
-                smiles={analysis.smiles}
-                properties={{
-                  mw: analysis.molecularWeight,
-                  logp: 2.1, // Mock value
-                  hbd: 1,
-                  hba: 4,
-                  tpsa: 63.6
-                }}
-              />
-            )}
+            {analysis.isValid && (
+              <>
+                {selectedMolecule === analysis.smiles && (
+                  <MolecularVisualizer smiles={analysis.smiles} />
+                )}
 
-            <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
-              <div className="text-center bg-primary-light p-3 rounded-lg">
-                <div className="text-2xl font-bold text-primary">{analysis.molecularWeight.toFixed(1)}</div>
-                <div className="text-sm text-muted-foreground">Molecular Weight (Da)</div>
-              </div>
-              <div className="text-center bg-secondary-light p-3 rounded-lg">
-                <div className="text-2xl font-bold text-secondary">{analysis.atomCount}</div>
-                <div className="text-sm text-muted-foreground">Atoms</div>
-              </div>
-              <div className="text-center bg-accent-light p-3 rounded-lg">
-                <div className="text-2xl font-bold text-accent">{analysis.rings}</div>
-                <div className="text-sm text-muted-foreground">Rings</div>
-              </div>
-              <div className="text-center bg-muted p-3 rounded-lg">
-                <div className="text-2xl font-bold text-foreground">{analysis.rotatable}</div>
-                <div className="text-sm text-muted-foreground">Rotatable Bonds</div>
-              </div>
-            </div>
+                <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div className="text-center bg-primary-light p-3 rounded-lg">
+                    <div className="text-2xl font-bold text-primary">{analysis.molecularWeight.toFixed(1)}</div>
+                    <div className="text-sm text-muted-foreground">Molecular Weight (Da)</div>
+                  </div>
+                  <div className="text-center bg-secondary-light p-3 rounded-lg">
+                    <div className="text-2xl font-bold text-secondary">{analysis.atomCount}</div>
+                    <div className="text-sm text-muted-foreground">Atoms</div>
+                  </div>
+                  <div className="text-center bg-accent-light p-3 rounded-lg">
+                    <div className="text-2xl font-bold text-accent">{analysis.rings}</div>
+                    <div className="text-sm text-muted-foreground">Rings</div>
+                  </div>
+                  <div className="text-center bg-muted p-3 rounded-lg">
+                    <div className="text-2xl font-bold text-foreground">{analysis.rotatable}</div>
+                    <div className="text-sm text-muted-foreground">Rotatable Bonds</div>
+                  </div>
+                </div>
 
-            <div>
-              <h4 className="font-semibold text-card-foreground mb-2">Lipinski Rule of Five</h4>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                <Badge variant={analysis.lipinski.mw ? "default" : "destructive"}>
-                  MW ≤ 500: {analysis.lipinski.mw ? "Pass" : "Fail"}
-                </Badge>
-                <Badge variant={analysis.lipinski.logp ? "default" : "destructive"}>
-                  LogP ≤ 5: {analysis.lipinski.logp ? "Pass" : "Fail"}
-                </Badge>
-                <Badge variant={analysis.lipinski.hbd ? "default" : "destructive"}>
-                  HBD ≤ 5: {analysis.lipinski.hbd ? "Pass" : "Fail"}
-                </Badge>
-                <Badge variant={analysis.lipinski.hba ? "default" : "destructive"}>
-                  HBA ≤ 10: {analysis.lipinski.hba ? "Pass" : "Fail"}
-                </Badge>
-              </div>
-              <p className="text-sm text-muted-foreground mt-2">
-                Violations: {analysis.lipinski.violations}/4
-              </p>
-            </div>
+                {includeDescriptors && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">Formula: </span>
+                      <span className="font-mono">{analysis.formula}</span>
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">Exact Mass: </span>
+                      {analysis.exactMass.toFixed(4)}
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">LogP: </span>
+                      {analysis.logp.toFixed(2)}
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">TPSA: </span>
+                      {analysis.tpsa.toFixed(1)} Ų
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">HBD / HBA: </span>
+                      {analysis.hbd} / {analysis.hba}
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">Aromatic Rings: </span>
+                      {analysis.aromaticRings}
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">Heteroatoms: </span>
+                      {analysis.heteroatoms}
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">Bonds: </span>
+                      {analysis.bondCount}
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded" title={QED_CAVEAT}>
+                      <span className="text-muted-foreground">QED (approx.): </span>
+                      {analysis.qed.toFixed(2)}
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">SA Score: </span>
+                      {analysis.sas.toFixed(2)}
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">Conformers: </span>
+                      {analysis.conformers ?? "—"}
+                    </div>
+                    <div className="bg-muted/50 p-2 rounded">
+                      <span className="text-muted-foreground">Lowest UFF Energy: </span>
+                      {analysis.lowestEnergy === null ? "—" : `${analysis.lowestEnergy.toFixed(1)} kcal/mol`}
+                    </div>
+                  </div>
+                )}
+
+                {analysis.rules && <RuleEvaluation rules={analysis.rules} />}
+              </>
+            )}
           </div>
         </Card>
       )}
 
+      {/* Similarity Search */}
+      {checkSimilarity && similarityQuery && (
+        <Card className="p-6 bg-card border shadow-molecular">
+          <h3 className="text-xl font-bold text-card-foreground mb-4">Similar Molecules</h3>
+          <SimilaritySearch query={similarityQuery} batch={batchResults} threshold={similarityThreshold[0]} />
+        </Card>
+      )}
+
       {/* Batch Results */}
       {batchResults.length > 0 && (
         <Card className="p-6 bg-card border shadow-molecular">
           <div className="flex items-center justify-between mb-4">
             <h3 className="text-xl font-bold text-card-foreground">Batch Results</h3>
             <div className="flex gap-2">
+              {duplicateOf.size > 0 && (
+                <Button variant="outline" size="sm" onClick={mergeBatchDuplicates}>
+                  Merge {duplicateOf.size} {duplicateOf.size === 1 ? "Duplicate" : "Duplicates"}
+                </Button>
+              )}
               <Button variant="outline" size="sm" onClick={() => setShowFilters(!showFilters)}>
                 {showFilters ? 'Hide Filters' : 'Show Filters'}
               </Button>
-              <Button variant="outline" size="sm" onClick={exportResults}>
+              <Button variant="outline" size="sm" onClick={saveBatchToLibrary}>
+                <Save className="w-4 h-4 mr-2" />
+                Save to Library
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => exportResults()}>
                 <Download className="w-4 h-4 mr-2" />
-                Export
+                {selectedResults.size > 0 ? `Export ${selectedResults.size}` : "Export"}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => exportResults("sdf")}>
+                <Download className="w-4 h-4 mr-2" />
+                {selectedResults.size > 0 ? `SDF ${selectedResults.size}` : "SDF"}
               </Button>
             </div>
           </div>
@@ -511,40 +885,59 @@ export const SMILESModule = () => {
           {showFilters && (
             <div className="mb-6">
               <PropertyFilter 
-                onFilterChange={handleFilterChange}
+                onFilterChange={setFilterCriteria}
                 moleculeCount={batchResults.length}
                 filteredCount={filteredResults.length}
               />
+              {rejectedResults.length > 0 && (
+                <Button variant="outline" size="sm" className="mt-4" onClick={() => setShowRejected(!showRejected)}>
+                  {showRejected ? 'Hide Rejected' : `Show Rejected (${rejectedResults.length})`}
+                </Button>
+              )}
             </div>
           )}
 
-          <div className="space-y-3 max-h-96 overflow-y-auto">
-            {(showFilters ? filteredResults : batchResults).map((result, index) => (
-              <div key={index} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                <div className="flex-1 min-w-0">
-                  <code className="text-sm font-mono text-primary block truncate">
-                    {result.smiles}
-                  </code>
-                  <div className="text-xs text-muted-foreground">
-                    MW: {result.molecularWeight.toFixed(1)} | Atoms: {result.atomCount} | 
-                    Violations: {result.lipinski.violations}
-                  </div>
+          {showFilters && showRejected && rejectedResults.length > 0 && (
+            <div className="space-y-2 mb-6 max-h-64 overflow-y-auto">
+              <h4 className="font-semibold text-card-foreground">Rejected Molecules</h4>
+              {rejectedResults.map(({ item, verdict }, index) => (
+                <div key={index} className="p-3 bg-destructive/10 rounded-lg">
+                  <code className="text-sm font-mono text-primary block truncate">{item.smiles}</code>
+                  <div className="text-xs text-destructive">{rejectionSummary(verdict)}</div>
                 </div>
-                <div className="flex gap-2 ml-2">
-                  <Badge variant={result.isValid ? "default" : "destructive"}>
-                    {result.isValid ? "Valid" : "Invalid"}
-                  </Badge>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setSelectedMolecule(selectedMolecule === result.smiles ? null : result.smiles)}
-                  >
-                    {selectedMolecule === result.smiles ? 'Hide' : 'View'}
-                  </Button>
+              ))}
+            </div>
+          )}
+
+          <MoleculeGrid
+            items={gridItems}
+            descriptors={BATCH_DESCRIPTORS}
+            selected={selectedResults}
+            onSelectedChange={setSelectedResults}
+            opened={openedResult}
+            onOpen={(key) => setOpenedResult(openedResult === key ? null : key)}
+            initialLabels={["mw", "qed"]}
+          />
+
+          {opened && (
+            <div className="mt-4 space-y-2">
+              <code className="text-sm font-mono text-primary block truncate">{opened.smiles}</code>
+              {opened.isValid ? (
+                <>
+                  {opened.canonicalSmiles !== opened.smiles && (
+                    <code className="text-xs font-mono text-muted-foreground block truncate">
+                      Canonical: {opened.canonicalSmiles}
+                    </code>
+                  )}
+                  <MolecularVisualizer smiles={opened.smiles} />
+                </>
+              ) : (
+                <div className="text-sm text-destructive">
+                  Character {opened.error.position + 1}: {opened.error.reason}
                 </div>
-              </div>
-            ))}
-          </div>
+              )}
+            </div>
+          )}
         </Card>
       )}
     </div>
@@ -0,0 +1,226 @@
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+import { MolecularVisualizer } from "./MolecularVisualizer";
+import { SMILESAnalysis } from "@/lib/chem/analysis";
+import { fingerprintInWorkers } from "@/lib/chem/batch";
+import { canonicalizeSmiles } from "@/lib/chem/canonical";
+import { describeSmiles } from "@/lib/chem/descriptors";
+import { FINGERPRINT_LABELS, Fingerprint, FingerprintType, fingerprintSmiles } from "@/lib/chem/fingerprints";
+import { SIMILARITY_METRIC_LABELS, SimilarityMetric, rankBySimilarity } from "@/lib/chem/similarity";
+import { parseSmiFile } from "@/lib/chem/smifile";
+
+interface SimilaritySearchProps {
+  query: string;
+  batch: SMILESAnalysis[];
+  threshold: number;
+}
+
+interface Candidate {
+  smiles: string;
+  name: string | null;
+  source: "batch" | "library";
+}
+
+const PropertyColumn = ({ title, smiles }: { title: string; smiles: string }) => {
+  const descriptors = describeSmiles(smiles);
+  return (
+    <div className="space-y-2 min-w-0">
+      <h5 className="font-semibold text-sm">{title}</h5>
+      <code className="text-xs font-mono text-primary block truncate">{smiles}</code>
+      {descriptors && (
+        <div className="grid grid-cols-2 gap-1 text-xs text-muted-foreground">
+          <span>MW: {descriptors.molecularWeight.toFixed(1)}</span>
+          <span>LogP: {descriptors.logp.toFixed(2)}</span>
+          <span>TPSA: {descriptors.tpsa.toFixed(1)}</span>
+          <span>QED ≈ {descriptors.qed.toFixed(2)}</span>
+        </div>
+      )}
+      <MolecularVisualizer smiles={smiles} />
+    </div>
+  );
+};
+
+export const SimilaritySearch = ({ query, batch, threshold }: SimilaritySearchProps) => {
+  const [metric, setMetric] = useState<SimilarityMetric>("tanimoto");
+  const [fingerprintType, setFingerprintType] = useState<FingerprintType>("morgan");
+  const [useCounts, setUseCounts] = useState(false);
+  const [alpha, setAlpha] = useState([0.7]);
+  const [library, setLibrary] = useState<Candidate[]>([]);
+  const [compareWith, setCompareWith] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Tagged with the type they were computed as, which lags behind the selector until the workers answer
+  const [fingerprinted, setFingerprinted] = useState<{
+    type: FingerprintType;
+    candidates: { item: Candidate; fingerprint: Fingerprint }[];
+  }>({ type: fingerprintType, candidates: [] });
+  const { candidates } = fingerprinted;
+  const [fingerprinting, setFingerprinting] = useState(false);
+
+  // Candidate fingerprints come from the worker pool; a newer request aborts the one in flight
+  useEffect(() => {
+    const fromBatch: Candidate[] = batch
+      .filter((result) => result.isValid)
+      .map((result) => ({ smiles: result.smiles, name: null, source: "batch" }));
+    // The query itself, however it is spelled, is not a hit
+    const queryCanonical = canonicalizeSmiles(query);
+    const pool = [...fromBatch, ...library].filter((candidate) => canonicalizeSmiles(candidate.smiles) !== queryCanonical);
+    const controller = new AbortController();
+    setFingerprinting(true);
+    fingerprintInWorkers(
+      pool.map((candidate) => candidate.smiles),
+      fingerprintType,
+      {},
+      { signal: controller.signal }
+    )
+      .then(({ results, cancelled }) => {
+        if (cancelled) return;
+        setFingerprinted({
+          type: fingerprintType,
+          candidates: pool
+            .map((candidate, k) => ({ item: candidate, fingerprint: results[k] }))
+            .filter((candidate): candidate is { item: Candidate; fingerprint: Fingerprint } => candidate.fingerprint !== null),
+        });
+        setFingerprinting(false);
+      })
+      .catch((error) => {
+        setFingerprinting(false);
+        toast({
+          title: "Fingerprinting Failed",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      });
+    return () => controller.abort();
+  }, [batch, library, query, fingerprintType, toast]);
+
+  const hits = useMemo(() => {
+    // Fingerprints of different types cannot be compared
+    if (fingerprinted.type !== fingerprintType) return [];
+    const queryFingerprint = fingerprintSmiles(query, fingerprintType);
+    if (!queryFingerprint) return [];
+    return rankBySimilarity(queryFingerprint, fingerprinted.candidates, metric, threshold, {
+      useCounts,
+      alpha: alpha[0],
+      beta: 1 - alpha[0],
+    });
+  }, [query, fingerprinted, fingerprintType, metric, threshold, useCounts, alpha]);
+
+  const loadLibrary = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const { entries, skipped } = parseSmiFile(await file.text());
+    setLibrary(entries.map((entry) => ({ ...entry, source: "library" })));
+    toast({
+      title: "Reference Library Loaded",
+      description: `${entries.length} molecules from ${file.name}${skipped ? `, ${skipped} invalid lines skipped` : ""}`,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-3 gap-4">
+        <div>
+          <label className="text-sm font-medium mb-2 block">Metric</label>
+          <Select value={metric} onValueChange={(value) => setMetric(value as SimilarityMetric)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SIMILARITY_METRIC_LABELS) as SimilarityMetric[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {SIMILARITY_METRIC_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-sm font-medium mb-2 block">Fingerprint</label>
+          <Select value={fingerprintType} onValueChange={(value) => setFingerprintType(value as FingerprintType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FINGERPRINT_LABELS) as FingerprintType[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {FINGERPRINT_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-end gap-4">
+          <div className="flex items-center space-x-2">
+            <Switch id="similarity-counts" checked={useCounts} onCheckedChange={setUseCounts} />
+            <label htmlFor="similarity-counts" className="text-sm font-medium">
+              Use Counts
+            </label>
+          </div>
+          <input ref={fileInput} type="file" accept=".smi,.txt" className="hidden" onChange={loadLibrary} />
+          <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Reference Library
+          </Button>
+        </div>
+      </div>
+
+      {metric === "tversky" && (
+        <div>
+          <label className="text-sm font-medium mb-2 block">
+            Tversky α / β: {alpha[0].toFixed(2)} / {(1 - alpha[0]).toFixed(2)}
+          </label>
+          <Slider value={alpha} onValueChange={setAlpha} min={0} max={1} step={0.05} />
+        </div>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        {fingerprinting
+          ? "Fingerprinting candidates…"
+          : `${hits.length} of ${candidates.length} molecules at or above ${threshold.toFixed(2)}`}
+        {library.length > 0 && ` (batch and ${library.length} reference molecules)`}
+      </p>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {hits.map(({ item, score }, rank) => (
+          <div key={`${item.source}-${item.smiles}`} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+            <div className="flex items-center gap-3 min-w-0">
+              <Badge variant="outline">#{rank + 1}</Badge>
+              <div className="min-w-0">
+                <code className="text-sm font-mono text-primary block truncate">{item.smiles}</code>
+                <div className="text-xs text-muted-foreground">
+                  {item.name ?? (item.source === "batch" ? "Batch result" : "Reference library")}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 ml-2">
+              <Badge>{score.toFixed(3)}</Badge>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCompareWith(compareWith === item.smiles ? null : item.smiles)}
+              >
+                {compareWith === item.smiles ? "Close" : "Side by Side"}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {compareWith && (
+        <div className="grid md:grid-cols-2 gap-4">
+          <PropertyColumn title="Query" smiles={query} />
+          <PropertyColumn title="Hit" smiles={compareWith} />
+        </div>
+      )}
+    </div>
+  );
+};
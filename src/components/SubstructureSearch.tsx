@@ -0,0 +1,170 @@
+import { ChangeEvent, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { Search, Upload } from "lucide-react";
+import { MolecularVisualizer } from "./MolecularVisualizer";
+import { SMILESAnalysis } from "@/lib/chem/analysis";
+import { SmartsParseError, SmartsPattern, matchedAtoms, substructureMatches, tryParseSmarts } from "@/lib/chem/smarts";
+import { SmiEntry, parseSmiFile } from "@/lib/chem/smifile";
+import { tryParseSmiles } from "@/lib/chem/smiles";
+
+interface SubstructureSearchProps {
+  batch: SMILESAnalysis[];
+}
+
+const examplePatterns = [
+  { label: "Benzene ring", smarts: "c1ccccc1" },
+  { label: "Carboxylic acid", smarts: "[CX3](=O)[OX2H1]" },
+  { label: "Amide", smarts: "[NX3][CX3](=[OX1])" },
+  { label: "Aryl halide", smarts: "c[F,Cl,Br,I]" },
+  { label: "Ring nitrogen", smarts: "[#7;R]" },
+  { label: "Phenol O", smarts: "[OX2H;$(Oc1ccccc1)]" },
+];
+
+export const SubstructureSearch = ({ batch }: SubstructureSearchProps) => {
+  const [smarts, setSmarts] = useState("");
+  const [pattern, setPattern] = useState<SmartsPattern | null>(null);
+  const [error, setError] = useState<SmartsParseError | null>(null);
+  const [library, setLibrary] = useState<SmiEntry[]>([]);
+  const [source, setSource] = useState<"batch" | "library">("batch");
+  const [selected, setSelected] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const targets = useMemo(() => {
+    const entries: SmiEntry[] =
+      source === "batch"
+        ? batch.filter((result) => result.isValid).map((result) => ({ smiles: result.smiles, name: null }))
+        : library;
+    return entries
+      .map((entry) => ({ ...entry, molecule: tryParseSmiles(entry.smiles).molecule }))
+      .filter((entry) => entry.molecule);
+  }, [source, batch, library]);
+
+  const hits = useMemo(() => {
+    if (!pattern) return [];
+    return targets
+      .map(({ smiles, name, molecule }) => ({ smiles, name, matches: substructureMatches(molecule, pattern) }))
+      .filter((hit) => hit.matches.length > 0)
+      .sort((a, b) => b.matches.length - a.matches.length);
+  }, [pattern, targets]);
+
+  const runSearch = () => {
+    const { pattern, error } = tryParseSmarts(smarts);
+    setPattern(pattern);
+    setError(error);
+    setSelected(null);
+  };
+
+  const loadLibrary = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const { entries, skipped } = parseSmiFile(await file.text());
+    setLibrary(entries);
+    setSource("library");
+    toast({
+      title: "Library Loaded",
+      description: `${entries.length} molecules from ${file.name}${skipped ? `, ${skipped} invalid lines skipped` : ""}`,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-sm font-medium mb-2 block">SMARTS Pattern</label>
+        <div className="flex gap-2">
+          <Input
+            value={smarts}
+            onChange={(e) => setSmarts(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && runSearch()}
+            placeholder="e.g. [CX3](=O)[OX2H1] or [#7;R]"
+            className="font-mono"
+          />
+          <Button variant="scientific" onClick={runSearch} disabled={!smarts.trim()}>
+            <Search className="w-4 h-4 mr-2" />
+            Search
+          </Button>
+        </div>
+        {error && (
+          <>
+            <pre className="text-sm font-mono text-destructive leading-none mt-2">
+              {smarts.trim()}
+              {"\n"}
+              {" ".repeat(error.position)}^
+            </pre>
+            <p className="text-sm text-destructive mt-2">
+              Character {error.position + 1}: {error.reason}
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="flex gap-2 flex-wrap">
+        <span className="text-sm text-muted-foreground">Examples:</span>
+        {examplePatterns.map((example) => (
+          <Button key={example.smarts} variant="outline" size="sm" className="text-xs" onClick={() => setSmarts(example.smarts)}>
+            {example.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex gap-2 flex-wrap">
+        <Button variant={source === "batch" ? "default" : "outline"} size="sm" onClick={() => setSource("batch")}>
+          Batch Results
+        </Button>
+        <Button
+          variant={source === "library" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setSource("library")}
+          disabled={library.length === 0}
+        >
+          Library ({library.length})
+        </Button>
+        <input ref={fileInput} type="file" accept=".smi,.txt" className="hidden" onChange={loadLibrary} />
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+          <Upload className="w-4 h-4 mr-2" />
+          Load Library
+        </Button>
+      </div>
+
+      {pattern && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {hits.length} of {targets.length} molecules contain <code className="font-mono">{pattern.smarts}</code>
+          </p>
+
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {hits.map((hit) => (
+              <div key={hit.smiles} className="space-y-2">
+                <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <div className="min-w-0">
+                    <code className="text-sm font-mono text-primary block truncate">{hit.smiles}</code>
+                    {hit.name && <div className="text-xs text-muted-foreground">{hit.name}</div>}
+                  </div>
+                  <div className="flex items-center gap-2 ml-2">
+                    <Badge>
+                      {hit.matches.length} {hit.matches.length === 1 ? "match" : "matches"}
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSelected(selected === hit.smiles ? null : hit.smiles)}
+                    >
+                      {selected === hit.smiles ? "Hide" : "View"}
+                    </Button>
+                  </div>
+                </div>
+                {selected === hit.smiles && (
+                  <MolecularVisualizer smiles={hit.smiles} highlightAtoms={matchedAtoms(hit.matches)} />
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
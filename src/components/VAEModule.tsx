@@ -1,196 +1,413 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { useProject } from "@/hooks/use-project";
+import { useJob } from "@/hooks/use-jobs";
 import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { MolecularVisualizer } from "./MolecularVisualizer";
-import { PropertyFilter, FilterCriteria } from "./PropertyFilter";
-import { Download, RefreshCw, Filter } from "lucide-react";
+import { PropertyFilter } from "./PropertyFilter";
+import { GridDescriptor, GridMolecule, MoleculeGrid } from "./MoleculeGrid";
+import { MoleculeLibrary } from "./MoleculeLibrary";
+import { BatchImport } from "./BatchImport";
+import { LatentExplorer } from "./LatentExplorer";
+import { Download, RefreshCw, Filter, Library, Save, Database } from "lucide-react";
+import { MoleculeProperties, describeSmiles, toMoleculeProperties } from "@/lib/chem/descriptors";
+import { DrugLikenessRules, evaluateRules } from "@/lib/chem/rules";
+import { FilterCriteria, applyFilter } from "@/lib/chem/filter";
+import { canonicalizeSmiles } from "@/lib/chem/canonical";
+import { writeSdf } from "@/lib/chem/molfile";
+import { parseSmiles } from "@/lib/chem/smiles";
+import { downloadFile } from "@/lib/download";
+import { ImportedRecord } from "@/lib/chem/import";
+import { JobAction, JobStatus, controlJob, isActiveJob, isJobRejection, jobModel } from "@/lib/jobs";
+import {
+  EMPTY_LIBRARY_QUERY,
+  LibraryMolecule,
+  Provenance,
+  describeSave,
+  newRunId,
+  queryLibrary,
+  saveToLibrary,
+} from "@/lib/library";
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  GenerationStats,
+  MAX_GENERATION_BATCH,
+  generationRates,
+} from "@/lib/ml/sampling";
+import { generateInWorker, trainInWorker } from "@/lib/ml/training";
+import { DEFAULT_VAE_CONFIG, DEFAULT_VAE_TRAINING, TrainedVAE, VAEEpochMetrics } from "@/lib/ml/vae";
 
 interface GeneratedMolecule {
   id: string;
   smiles: string;
-  properties: {
-    mw: number;
-    logp: number;
-    hbd: number;
-    hba: number;
-    tpsa: number;
-  };
-  drugLikeness: number;
+  canonicalSmiles: string;
+  properties: MoleculeProperties;
+  rules: DrugLikenessRules;
+  // Set on molecules the model generated, not on ones loaded from the library
+  trainingSimilarity?: number;
+  repaired?: boolean;
 }
 
-const mockMolecules: GeneratedMolecule[] = [
-  {
-    id: "1",
-    smiles: "CC(=O)OC1=CC=CC=C1C(=O)O",
-    properties: { mw: 180.16, logp: 1.19, hbd: 1, hba: 4, tpsa: 63.6 },
-    drugLikeness: 0.89
-  },
-  {
-    id: "2", 
-    smiles: "CN1CCN(CC1)C2=CC=C(C=C2)OC",
-    properties: { mw: 206.28, logp: 1.84, hbd: 0, hba: 3, tpsa: 15.3 },
-    drugLikeness: 0.92
-  },
-  {
-    id: "3",
-    smiles: "CC1=CC=C(C=C1)S(=O)(=O)NC2=CC=CC=N2",
-    properties: { mw: 248.30, logp: 1.67, hbd: 1, hba: 4, tpsa: 68.4 },
-    drugLikeness: 0.76
-  }
+// Properties are computed from the structure, so the same SMILES always reports the same values
+const withProperties = (
+  molecule: Omit<GeneratedMolecule, "canonicalSmiles" | "properties" | "rules">
+): GeneratedMolecule => {
+  const descriptors = describeSmiles(molecule.smiles)!;
+  return {
+    ...molecule,
+    canonicalSmiles: canonicalizeSmiles(molecule.smiles)!,
+    properties: toMoleculeProperties(descriptors),
+    rules: evaluateRules(descriptors),
+  };
+};
+
+const GENERATED_DESCRIPTORS: GridDescriptor[] = [
+  { key: "mw", label: "MW", digits: 1 },
+  { key: "logp", label: "LogP", digits: 2 },
+  { key: "tpsa", label: "TPSA", digits: 1 },
+  { key: "hbd", label: "HBD", digits: 0 },
+  { key: "hba", label: "HBA", digits: 0 },
+  { key: "qed", label: "QED (approx.)", digits: 2 },
+  { key: "sas", label: "SA", digits: 2 },
+  { key: "lipinski", label: "Lipinski Violations", digits: 0 },
+  { key: "similarity", label: "Training Similarity", digits: 2 },
 ];
 
+
 export const VAEModule = () => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState(0);
   const [generatedMolecules, setGeneratedMolecules] = useState<GeneratedMolecule[]>([]);
   
   // VAE Architecture Parameters
-  const [latentDimensions, setLatentDimensions] = useState([128]);
-  const [encoderLayers, setEncoderLayers] = useState([3]);
-  const [decoderLayers, setDecoderLayers] = useState([3]);
-  const [hiddenSize, setHiddenSize] = useState([512]);
+  const [latentDimensions, setLatentDimensions] = useState([DEFAULT_VAE_CONFIG.latentDimensions]);
+  const [encoderLayers, setEncoderLayers] = useState([DEFAULT_VAE_CONFIG.encoderLayers]);
+  const [decoderLayers, setDecoderLayers] = useState([DEFAULT_VAE_CONFIG.decoderLayers]);
+  const [hiddenSize, setHiddenSize] = useState([DEFAULT_VAE_CONFIG.hiddenSize]);
   
   // Training Parameters
-  const [learningRate, setLearningRate] = useState([0.001]);
-  const [betaKL, setBetaKL] = useState([1.0]);
-  const [epochs, setEpochs] = useState([100]);
-  const [dropout, setDropout] = useState([0.2]);
+  const [learningRate, setLearningRate] = useState([DEFAULT_VAE_TRAINING.learningRate]);
+  const [betaKL, setBetaKL] = useState([DEFAULT_VAE_TRAINING.betaKL]);
+  const [epochs, setEpochs] = useState([DEFAULT_VAE_TRAINING.epochs]);
+  const [dropout, setDropout] = useState([DEFAULT_VAE_CONFIG.dropout]);
+  // Training molecules, one SMILES per line
+  const [trainingInput, setTrainingInput] = useState("");
   
   // Generation Parameters
-  const [temperature, setTemperature] = useState([0.8]);
-  const [batchSize, setBatchSize] = useState([10]);
-  const [diversityWeight, setDiversityWeight] = useState([0.5]);
-  const [noveltyThreshold, setNoveltyThreshold] = useState([0.7]);
-  
-  // Model Status
-  const [modelStatus, setModelStatus] = useState<'untrained' | 'training' | 'trained'>('untrained');
-  const [trainingLoss, setTrainingLoss] = useState<number>(0);
-  const [klDivergence, setKlDivergence] = useState<number>(0);
-  const [reconstructionLoss, setReconstructionLoss] = useState<number>(0);
+  const [temperature, setTemperature] = useState([DEFAULT_GENERATION_OPTIONS.temperature]);
+  const [batchSize, setBatchSize] = useState([DEFAULT_GENERATION_OPTIONS.batchSize]);
+  const [diversityWeight, setDiversityWeight] = useState([DEFAULT_GENERATION_OPTIONS.diversityWeight]);
+  const [noveltyThreshold, setNoveltyThreshold] = useState([DEFAULT_GENERATION_OPTIONS.noveltyThreshold]);
+  // Sampling counts behind the molecules on screen
+  const [generationStats, setGenerationStats] = useState<GenerationStats | null>(null);
   
   // Interactive Features
   const [selectedMolecule, setSelectedMolecule] = useState<string | null>(null);
+  // Grid selection by molecule id, used to export a subset
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showFilters, setShowFilters] = useState(false);
-  const [filteredMolecules, setFilteredMolecules] = useState<GeneratedMolecule[]>([]);
+  // Null until the property filter is first applied
+  const [filterCriteria, setFilterCriteria] = useState<FilterCriteria | null>(null);
+  // Provenance of the molecules on screen, recorded when they were generated
+  const [generationRun, setGenerationRun] = useState<Omit<Provenance, "savedAt" | "project"> | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryVersion, setLibraryVersion] = useState(0);
   
   const { toast } = useToast();
+  const project = useProject();
 
-  // Calculate parameter-dependent generation quality
-  const calculateGenerationQuality = () => {
-    const tempFactor = Math.max(0.1, Math.min(1.0, 1.2 - temperature[0]));
-    const dimFactor = Math.min(1.0, latentDimensions[0] / 256);
-    const diversityFactor = diversityWeight[0];
-    return tempFactor * dimFactor * diversityFactor;
-  };
+  // Training runs as a job on the local server, so it survives leaving or reloading the page
+  const { job, start, detach } = useJob("vae");
+  // A run in a worker in this tab, when the server could not take the job
+  const [localRun, setLocalRun] = useState<{
+    done: number;
+    total: number;
+    history: VAEEpochMetrics[];
+    active: boolean;
+  } | null>(null);
+  const localAbort = useRef<AbortController | null>(null);
+  const generationAbort = useRef<AbortController | null>(null);
+  // The trained model and the run it came from, which generated molecules record as theirs
+  const [model, setModel] = useState<{ run: string; trained: TrainedVAE } | null>(null);
+  const jobActive = job !== null && isActiveJob(job);
+  const isTraining = jobActive || Boolean(localRun?.active);
+  const modelStatus: 'untrained' | 'training' | 'trained' = isTraining
+    ? 'training'
+    : model || job?.status === 'completed'
+      ? 'trained'
+      : 'untrained';
+  const trainingHistory = job ? ((job.output?.metrics ?? []) as VAEEpochMetrics[]) : (localRun?.history ?? []);
+  const latestMetrics = trainingHistory[trainingHistory.length - 1];
+  const trainingLoss = latestMetrics?.loss ?? 0;
+  const klDivergence = latestMetrics?.klDivergence ?? 0;
+  const reconstructionLoss = latestMetrics?.reconstructionLoss ?? 0;
+  const trainingSteps = job ? job.progress : localRun;
+  const trainingProgress = trainingSteps && trainingSteps.total > 0 ? (trainingSteps.done / trainingSteps.total) * 100 : 0;
+  const trainingSmiles = trainingInput.split('\n').map(line => line.trim()).filter(Boolean);
+  // What the last update showed, so attaching to a job after a reload does not replay its toasts
+  const seen = useRef<{ id: string; epochs: number; status: JobStatus } | null>(null);
 
-  const trainModel = async () => {
-    setModelStatus('training');
-    setIsGenerating(true);
-    setProgress(0);
+  const announceEpoch = useCallback(
+    (metrics: VAEEpochMetrics) =>
+      toast({
+        title: `Training Epoch ${metrics.epoch}`,
+        description: `Reconstruction: ${metrics.reconstructionLoss.toFixed(3)}, KL: ${metrics.klDivergence.toFixed(3)}, token accuracy: ${(metrics.accuracy * 100).toFixed(1)}%`,
+      }),
+    [toast]
+  );
 
-    const totalEpochs = epochs[0];
-    const steps = ["Initializing encoder...", "Initializing decoder...", "Starting training loop...", "Optimizing latent space..."];
-    
-    for (let epoch = 1; epoch <= totalEpochs; epoch += Math.floor(totalEpochs / 4)) {
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      const progressPercent = (epoch / totalEpochs) * 100;
-      setProgress(progressPercent);
-      
-      // Simulate training metrics based on parameters
-      const baseLoss = 2.5;
-      const learningDecay = Math.exp(-learningRate[0] * epoch / 10);
-      const newTrainingLoss = baseLoss * learningDecay + Math.random() * 0.1;
-      const newKL = betaKL[0] * (0.5 + Math.random() * 0.3);
-      const newRecon = newTrainingLoss - newKL;
-      
-      setTrainingLoss(newTrainingLoss);
-      setKlDivergence(newKL);
-      setReconstructionLoss(newRecon);
-      
-      const stepIndex = Math.floor((epoch / totalEpochs) * steps.length);
-      if (stepIndex < steps.length) {
+  useEffect(() => {
+    if (!job?.output) return;
+    const history = job.output.metrics as VAEEpochMetrics[];
+    const latest = history[history.length - 1];
+    const previous = seen.current?.id === job.id ? seen.current : null;
+    seen.current = { id: job.id, epochs: history.length, status: job.status };
+    if (!previous) return;
+
+    if (latest && history.length > previous.epochs) announceEpoch(latest);
+    if (job.status === previous.status) return;
+    if (job.status === 'completed') {
+      toast({
+        title: "Training Complete",
+        description: `VAE model trained on ${job.parameters.trainingMolecules} molecules with a ${job.parameters.latentDimensions}D latent space`,
+      });
+    } else if (job.status === 'cancelled' || job.status === 'failed') {
+      toast({
+        title: job.status === 'failed' ? "Training Failed" : "Training Stopped",
+        description: job.error ?? "Training process interrupted by user",
+        variant: "destructive",
+      });
+    }
+  }, [job, toast, announceEpoch]);
+
+  // Leaving the page stops a run training or generating in this tab
+  useEffect(
+    () => () => {
+      localAbort.current?.abort();
+      generationAbort.current?.abort();
+    },
+    []
+  );
+
+  // A completed job's model is fetched once, whether it finished now or before a reload
+  const jobId = job?.id;
+  const jobCompleted = job?.status === 'completed';
+  useEffect(() => {
+    if (!jobCompleted) return;
+    let live = true;
+    jobModel(jobId).then(
+      (trained) => live && setModel({ run: jobId, trained }),
+      (error) =>
+        live &&
         toast({
-          title: `Training Epoch ${epoch}`,
-          description: `${steps[stepIndex]} Loss: ${newTrainingLoss.toFixed(3)}`,
-        });
+          title: "Model Unavailable",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        })
+    );
+    return () => {
+      live = false;
+    };
+  }, [jobId, jobCompleted, toast]);
+
+  const trainingParameters = () => ({
+    latentDimensions: latentDimensions[0],
+    encoderLayers: encoderLayers[0],
+    decoderLayers: decoderLayers[0],
+    hiddenSize: hiddenSize[0],
+    learningRate: learningRate[0],
+    betaKL: betaKL[0],
+    epochs: epochs[0],
+    dropout: dropout[0],
+    temperature: temperature[0],
+    batchSize: batchSize[0],
+    diversityWeight: diversityWeight[0],
+    noveltyThreshold: noveltyThreshold[0],
+  });
+
+  const trainInTab = async (parameters: Record<string, number>) => {
+    const controller = new AbortController();
+    const history: VAEEpochMetrics[] = [];
+    localAbort.current = controller;
+    setLocalRun({ done: 0, total: 0, history, active: true });
+    try {
+      const trained = await trainInWorker(
+        { smiles: trainingSmiles, parameters },
+        {
+          signal: controller.signal,
+          onProgress: (done, total, metrics) => {
+            if (metrics) {
+              history.push(metrics);
+              announceEpoch(metrics);
+            }
+            setLocalRun({ done, total, history: [...history], active: true });
+          },
+        }
+      );
+      if (trained) {
+        setModel({ run: newRunId("vae"), trained });
+        toast({ title: "Training Complete", description: `VAE model trained with a ${parameters.latentDimensions}D latent space` });
+      } else {
+        toast({ title: "Training Stopped", description: "Training process interrupted by user", variant: "destructive" });
       }
+    } catch (error) {
+      toast({
+        title: "Training Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      localAbort.current = null;
+      setLocalRun((current) => current && { ...current, active: false });
     }
+  };
 
-    setModelStatus('trained');
-    setIsGenerating(false);
-    toast({
-      title: "Training Complete",
-      description: `VAE model trained successfully with ${latentDimensions[0]}D latent space`,
-    });
+  const trainModel = async () => {
+    const parameters = trainingParameters();
+    setModel(null);
+    setLocalRun(null);
+    try {
+      await start({ kind: "vae", smiles: trainingSmiles, parameters, save: false, project });
+      toast({
+        title: "VAE Training Started",
+        description: "Training runs on the job server and continues if you leave or reload the page",
+      });
+    } catch (error) {
+      // The server checked the training set and turned it down
+      if (isJobRejection(error)) {
+        toast({ title: "Training Not Started", description: error.message, variant: "destructive" });
+        return;
+      }
+      detach();
+      toast({
+        title: "Job Server Unavailable",
+        description: "Training in this tab instead; it stops if you leave the page",
+      });
+      await trainInTab(parameters);
+    }
+  };
+
+  // Library molecules, of this project inside one, become the training set
+  const loadTrainingFromLibrary = async () => {
+    try {
+      const molecules = await queryLibrary({ ...EMPTY_LIBRARY_QUERY, project });
+      setTrainingInput(molecules.map((molecule) => molecule.canonicalSmiles).join('\n'));
+      toast({ title: "Training Set Loaded", description: `${molecules.length} molecules from the library` });
+    } catch (error) {
+      toast({
+        title: "Library Unavailable",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importTrainingSet = (records: ImportedRecord[], fileName: string) => {
+    setTrainingInput(records.map((record) => record.smiles).join('\n'));
+    toast({ title: "Training Set Imported", description: `${records.length} molecules from ${fileName}` });
+  };
+
+  const controlTraining = async (action: JobAction) => {
+    if (!jobActive) {
+      localAbort.current?.abort();
+      return;
+    }
+    try {
+      await controlJob(job.id, action);
+    } catch (error) {
+      toast({
+        title: "Training Not Updated",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
   };
 
   const generateMolecules = async () => {
-    if (modelStatus !== 'trained') {
+    if (!model) {
       toast({
-        title: "Model Not Trained",
-        description: "Please train the VAE model first before generating molecules",
+        title: modelStatus === 'trained' ? "Model Loading" : "Model Not Trained",
+        description:
+          modelStatus === 'trained'
+            ? "The trained model is still being fetched from the job server"
+            : "Please train the VAE model first before generating molecules",
         variant: "destructive",
       });
       return;
     }
 
+    const controller = new AbortController();
+    generationAbort.current = controller;
     setIsGenerating(true);
     setProgress(0);
-    setGeneratedMolecules([]);
+    try {
+      const result = await generateInWorker(
+        model.trained,
+        {
+          temperature: temperature[0],
+          batchSize: batchSize[0],
+          diversityWeight: diversityWeight[0],
+          noveltyThreshold: noveltyThreshold[0],
+        },
+        { signal: controller.signal, onProgress: (done, total) => setProgress((done / total) * 100) }
+      );
+      if (!result) return;
 
-    const steps = [
-      "Sampling from latent space...", 
-      "Applying temperature scaling...", 
-      "Decoding to SMILES...", 
-      "Filtering by novelty threshold...", 
-      "Validating molecular structures..."
-    ];
-    
-    for (let i = 0; i < steps.length; i++) {
-      await new Promise(resolve => setTimeout(resolve, 1200));
-      setProgress((i + 1) * 20);
-      
+      setGeneratedMolecules(
+        result.molecules.map((sample, k) => ({
+          ...withProperties({ id: String(k + 1), smiles: sample.smiles }),
+          trainingSimilarity: sample.trainingSimilarity,
+          repaired: sample.repaired,
+        }))
+      );
+      setGenerationStats(result.stats);
+      setGenerationRun({
+        source: "vae",
+        run: newRunId("vae"),
+        parameters: {
+          trainingRun: model.run,
+          latentDimensions: model.trained.model.config.latentDimensions,
+          encoderLayers: model.trained.model.config.encoderLayers,
+          decoderLayers: model.trained.model.config.decoderLayers,
+          hiddenSize: model.trained.model.config.hiddenSize,
+          temperature: temperature[0],
+          batchSize: batchSize[0],
+          diversityWeight: diversityWeight[0],
+          noveltyThreshold: noveltyThreshold[0],
+        },
+      });
+
+      const rates = generationRates(result.stats);
+      toast({
+        title: result.molecules.length > 0 ? "Generation Complete" : "No Molecules Accepted",
+        description: `${result.molecules.length} of ${batchSize[0]} molecules from ${result.stats.sampled} samples; validity ${(rates.validity * 100).toFixed(0)}%, uniqueness ${(rates.uniqueness * 100).toFixed(0)}%, novelty ${(rates.novelty * 100).toFixed(0)}%`,
+        variant: result.molecules.length > 0 ? undefined : "destructive",
+      });
+    } catch (error) {
       toast({
-        title: "VAE Generation",
-        description: steps[i],
+        title: "Generation Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
       });
+    } finally {
+      generationAbort.current = null;
+      setIsGenerating(false);
     }
-
-    // Generate molecules based on parameters
-    const quality = calculateGenerationQuality();
-    const numMolecules = Math.min(batchSize[0], mockMolecules.length);
-    const selectedMolecules = mockMolecules.slice(0, numMolecules).map(mol => ({
-      ...mol,
-      drugLikeness: Math.min(0.99, mol.drugLikeness * quality + Math.random() * 0.1),
-      properties: {
-        ...mol.properties,
-        mw: mol.properties.mw * (0.8 + temperature[0] * 0.4),
-        logp: mol.properties.logp * (0.7 + diversityWeight[0] * 0.6)
-      }
-    }));
-
-    setGeneratedMolecules(selectedMolecules);
-    setIsGenerating(false);
-    
-    toast({
-      title: "Generation Complete",
-      description: `Generated ${selectedMolecules.length} molecules with ${(quality * 100).toFixed(1)}% quality score`,
-    });
   };
 
   const resetModel = () => {
-    setModelStatus('untrained');
+    detach();
+    setModel(null);
+    setLocalRun(null);
     setGeneratedMolecules([]);
-    setFilteredMolecules([]);
+    setGenerationStats(null);
     setProgress(0);
-    setTrainingLoss(0);
-    setKlDivergence(0);
-    setReconstructionLoss(0);
     setSelectedMolecule(null);
     toast({
       title: "Model Reset",
@@ -198,28 +415,38 @@ export const VAEModule = () => {
     });
   };
 
-  const handleFilterChange = (criteria: FilterCriteria) => {
-    const filtered = generatedMolecules.filter(mol => {
-      const mw = mol.properties.mw;
-      const logp = mol.properties.logp;
-      const hbd = mol.properties.hbd;
-      const hba = mol.properties.hba;
-      const tpsa = mol.properties.tpsa;
-      
-      return (
-        mw >= criteria.mwRange[0] && mw <= criteria.mwRange[1] &&
-        logp >= criteria.logpRange[0] && logp <= criteria.logpRange[1] &&
-        hbd <= criteria.hbdMax &&
-        hba <= criteria.hbaMax &&
-        tpsa >= criteria.tpsaRange[0] && tpsa <= criteria.tpsaRange[1] &&
-        mol.drugLikeness >= criteria.qedMin
+  // Selected molecules when there are any, otherwise everything generated
+  const saveGeneratedToLibrary = async () => {
+    const saved = selectedIds.size > 0 ? generatedMolecules.filter((mol) => selectedIds.has(mol.id)) : generatedMolecules;
+    try {
+      const summary = await saveToLibrary(
+        saved.map((mol) => ({ smiles: mol.smiles })),
+        { ...(generationRun ?? { source: "vae", run: newRunId("vae"), parameters: {} }), project }
       );
-    });
-    setFilteredMolecules(filtered);
+      setLibraryVersion((version) => version + 1);
+      toast({ title: "Saved to Library", description: describeSave(summary) });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Library molecules join the review grid; they keep the library's provenance, not a new run
+  const loadFromLibrary = (molecules: LibraryMolecule[]) => {
+    setGeneratedMolecules(molecules.map((molecule) => withProperties({ id: molecule.canonicalSmiles, smiles: molecule.smiles })));
+    setGenerationRun(null);
+    setGenerationStats(null);
+    toast({ title: "Loaded from Library", description: `${molecules.length} molecules in the review grid` });
   };
 
-  const exportResults = () => {
-    if (generatedMolecules.length === 0) {
+  // The grid selection when there is one, otherwise every generated molecule
+  const exportResults = (format: "csv" | "sdf" = "csv") => {
+    const exported =
+      selectedIds.size > 0 ? generatedMolecules.filter((mol) => selectedIds.has(mol.id)) : generatedMolecules;
+    if (exported.length === 0) {
       toast({
         title: "No Data to Export",
         description: "Generate some molecules first before exporting",
@@ -229,16 +456,33 @@ export const VAEModule = () => {
     }
 
     try {
-      const data = generatedMolecules.map(mol => ({
+      const data = exported.map(mol => ({
         SMILES: mol.smiles,
-        DrugLikeness: mol.drugLikeness,
+        CanonicalSMILES: mol.canonicalSmiles,
         MolecularWeight: mol.properties.mw,
         LogP: mol.properties.logp,
         HBD: mol.properties.hbd,
         HBA: mol.properties.hba,
-        TPSA: mol.properties.tpsa
+        TPSA: mol.properties.tpsa,
+        QED: mol.properties.qed,
+        SAScore: mol.properties.sas,
+        LipinskiViolations: mol.rules.lipinski.violations
       }));
       
+      if (format === "sdf") {
+        const entries = exported.map((mol, k) => ({
+          molecule: parseSmiles(mol.smiles),
+          name: mol.id,
+          properties: data[k],
+        }));
+        downloadFile(writeSdf(entries), 'vae_generated_molecules.sdf', 'chemical/x-mdl-sdfile');
+        toast({
+          title: "Export Complete",
+          description: `Exported ${entries.length} molecules to SD file`,
+        });
+        return;
+      }
+
       const csv = [
         Object.keys(data[0]).join(','),
         ...data.map(row => Object.values(row).join(','))
@@ -265,11 +509,35 @@ export const VAEModule = () => {
     }
   };
 
-  // Initialize filtered molecules when generated molecules change
+  // New molecules clear the grid selection
   useEffect(() => {
-    setFilteredMolecules(generatedMolecules);
+    setSelectedIds(new Set());
   }, [generatedMolecules]);
 
+  // Follows the molecules on screen, so each new generation is filtered with the criteria shown
+  const filteredMolecules = useMemo(
+    () => (filterCriteria ? applyFilter(generatedMolecules, filterCriteria, (mol) => mol).accepted : generatedMolecules),
+    [generatedMolecules, filterCriteria]
+  );
+
+  const gridItems = useMemo(
+    () =>
+      (showFilters ? filteredMolecules : generatedMolecules).map((molecule, index): GridMolecule => ({
+        key: molecule.id,
+        smiles: molecule.smiles,
+        title: `#${index + 1}`,
+        values: {
+          ...molecule.properties,
+          lipinski: molecule.rules.lipinski.violations,
+          similarity: molecule.trainingSimilarity,
+        },
+        tags: [...(molecule.properties.qed > 0.67 ? ["High QED"] : []), ...(molecule.repaired ? ["Repaired"] : [])],
+      })),
+    [showFilters, filteredMolecules, generatedMolecules]
+  );
+
+  const openedMolecule = generatedMolecules.find((molecule) => molecule.id === selectedMolecule);
+
   return (
     <div className="space-y-6">
       <Card className="p-6 bg-gradient-card border-0 shadow-molecular">
@@ -284,6 +552,10 @@ export const VAEModule = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowLibrary(!showLibrary)}>
+              <Library className="w-4 h-4 mr-2" />
+              {showLibrary ? 'Hide Library' : 'Library'}
+            </Button>
             <Badge variant={
               modelStatus === 'trained' ? 'default' : 
               modelStatus === 'training' ? 'secondary' : 
@@ -302,10 +574,11 @@ export const VAEModule = () => {
         </div>
 
         <Tabs defaultValue="architecture" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="architecture">Architecture</TabsTrigger>
             <TabsTrigger value="training">Training</TabsTrigger>
             <TabsTrigger value="generation">Generation</TabsTrigger>
+            <TabsTrigger value="latent">Latent Space</TabsTrigger>
           </TabsList>
 
           <TabsContent value="architecture" className="space-y-6 mt-6">
@@ -320,9 +593,9 @@ export const VAEModule = () => {
                     <Slider
                       value={latentDimensions}
                       onValueChange={setLatentDimensions}
-                      min={32}
-                      max={1024}
-                      step={32}
+                      min={16}
+                      max={256}
+                      step={16}
                       className="w-full"
                       disabled={modelStatus !== 'untrained'}
                     />
@@ -334,8 +607,8 @@ export const VAEModule = () => {
                     <Slider
                       value={encoderLayers}
                       onValueChange={setEncoderLayers}
-                      min={2}
-                      max={8}
+                      min={1}
+                      max={4}
                       step={1}
                       className="w-full"
                       disabled={modelStatus !== 'untrained'}
@@ -343,13 +616,13 @@ export const VAEModule = () => {
                   </div>
                   <div>
                     <label className="text-sm font-medium text-card-foreground mb-2 block">
-                      Decoder Layers: {decoderLayers[0]}
+                      Decoder GRU Layers: {decoderLayers[0]}
                     </label>
                     <Slider
                       value={decoderLayers}
                       onValueChange={setDecoderLayers}
-                      min={2}
-                      max={8}
+                      min={1}
+                      max={3}
                       step={1}
                       className="w-full"
                       disabled={modelStatus !== 'untrained'}
@@ -367,9 +640,9 @@ export const VAEModule = () => {
                     <Slider
                       value={hiddenSize}
                       onValueChange={setHiddenSize}
-                      min={128}
-                      max={2048}
-                      step={128}
+                      min={64}
+                      max={512}
+                      step={64}
                       className="w-full"
                       disabled={modelStatus !== 'untrained'}
                     />
@@ -382,8 +655,8 @@ export const VAEModule = () => {
                       value={dropout}
                       onValueChange={setDropout}
                       min={0.0}
-                      max={0.8}
-                      step={0.1}
+                      max={0.5}
+                      step={0.05}
                       className="w-full"
                       disabled={modelStatus !== 'untrained'}
                     />
@@ -394,6 +667,27 @@ export const VAEModule = () => {
           </TabsContent>
 
           <TabsContent value="training" className="space-y-6 mt-6">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-card-foreground">Training Set</h4>
+                <span className="text-sm text-muted-foreground">{trainingSmiles.length} SMILES</span>
+              </div>
+              <Textarea
+                value={trainingInput}
+                onChange={(e) => setTrainingInput(e.target.value)}
+                placeholder="One SMILES per line; a few thousand drug-like molecules train a useful model"
+                className="font-mono min-h-[120px]"
+                disabled={modelStatus !== 'untrained'}
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={loadTrainingFromLibrary} disabled={modelStatus !== 'untrained'}>
+                  <Database className="w-4 h-4 mr-2" />
+                  {project ? "Use Project Library" : "Use Library"}
+                </Button>
+              </div>
+              {modelStatus === 'untrained' && <BatchImport onImport={importTrainingSet} />}
+            </div>
+
             <div className="grid md:grid-cols-2 gap-6">
               <div>
                 <h4 className="font-semibold text-card-foreground mb-4">Training Parameters</h4>
@@ -433,9 +727,9 @@ export const VAEModule = () => {
                     <Slider
                       value={epochs}
                       onValueChange={setEpochs}
-                      min={50}
-                      max={500}
-                      step={50}
+                      min={1}
+                      max={100}
+                      step={1}
                       className="w-full"
                       disabled={modelStatus !== 'untrained'}
                     />
@@ -444,23 +738,61 @@ export const VAEModule = () => {
               </div>
               <div>
                 <h4 className="font-semibold text-card-foreground mb-4">Training Metrics</h4>
-                {modelStatus === 'trained' && (
-                  <div className="grid grid-cols-1 gap-4">
-                    <div className="bg-primary-light p-3 rounded-lg text-center">
-                      <div className="text-lg font-bold text-primary">{trainingLoss.toFixed(3)}</div>
-                      <div className="text-sm text-muted-foreground">Total Loss</div>
+                {latestMetrics && (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="bg-primary-light p-3 rounded-lg text-center">
+                        <div className="text-lg font-bold text-primary">{trainingLoss.toFixed(3)}</div>
+                        <div className="text-sm text-muted-foreground">Total Loss</div>
+                      </div>
+                      <div className="bg-secondary-light p-3 rounded-lg text-center">
+                        <div className="text-lg font-bold text-secondary">{klDivergence.toFixed(3)}</div>
+                        <div className="text-sm text-muted-foreground">KL Divergence</div>
+                      </div>
+                      <div className="bg-accent-light p-3 rounded-lg text-center">
+                        <div className="text-lg font-bold text-accent">{reconstructionLoss.toFixed(3)}</div>
+                        <div className="text-sm text-muted-foreground">Reconstruction Loss</div>
+                      </div>
+                      <div className="bg-muted p-3 rounded-lg text-center">
+                        <div className="text-lg font-bold text-card-foreground">{(latestMetrics.accuracy * 100).toFixed(1)}%</div>
+                        <div className="text-sm text-muted-foreground">Token Accuracy</div>
+                      </div>
                     </div>
-                    <div className="bg-secondary-light p-3 rounded-lg text-center">
-                      <div className="text-lg font-bold text-secondary">{klDivergence.toFixed(3)}</div>
-                      <div className="text-sm text-muted-foreground">KL Divergence</div>
-                    </div>
-                    <div className="bg-accent-light p-3 rounded-lg text-center">
-                      <div className="text-lg font-bold text-accent">{reconstructionLoss.toFixed(3)}</div>
-                      <div className="text-sm text-muted-foreground">Reconstruction Loss</div>
+                    <div className="max-h-48 overflow-y-auto">
+                      <table className="w-full text-sm">
+                        <thead className="text-muted-foreground">
+                          <tr>
+                            <th className="text-left font-medium">Epoch</th>
+                            <th className="text-right font-medium">Recon.</th>
+                            <th className="text-right font-medium">KL</th>
+                            <th className="text-right font-medium">β</th>
+                            <th className="text-right font-medium">Validation</th>
+                          </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                          {trainingHistory.map((metrics) => (
+                            <tr key={metrics.epoch}>
+                              <td>{metrics.epoch}</td>
+                              <td className="text-right">{metrics.reconstructionLoss.toFixed(3)}</td>
+                              <td className="text-right">{metrics.klDivergence.toFixed(3)}</td>
+                              <td className="text-right">{metrics.beta.toFixed(2)}</td>
+                              <td className="text-right">{metrics.validationLoss?.toFixed(3) ?? "—"}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
                     </div>
+                    <p className="text-xs text-muted-foreground">
+                      Losses are per molecule. β rises to its set value over the first quarter of the epochs.
+                    </p>
                   </div>
                 )}
-                {modelStatus === 'untrained' && (
+                {isTraining && !latestMetrics && (
+                  <p className="text-muted-foreground text-center py-8">
+                    Metrics appear as each epoch finishes
+                  </p>
+                )}
+                {!isTraining && !latestMetrics && (
                   <p className="text-muted-foreground text-center py-8">
                     Train the model to see metrics
                   </p>
@@ -468,17 +800,41 @@ export const VAEModule = () => {
               </div>
             </div>
             
-            <Button 
-              onClick={trainModel}
-              disabled={isGenerating || modelStatus === 'trained'}
-              variant="scientific"
-              size="lg"
-              className="w-full"
-            >
-              {modelStatus === 'training' ? "Training in Progress..." : 
-               modelStatus === 'trained' ? "Model Already Trained" : 
-               "Train VAE Model"}
-            </Button>
+            <div className="flex gap-4">
+              <Button 
+                onClick={trainModel}
+                disabled={isGenerating || modelStatus !== 'untrained' || trainingSmiles.length === 0}
+                variant="scientific"
+                size="lg"
+                className="flex-1"
+              >
+                {modelStatus === 'trained'
+                  ? "Model Already Trained"
+                  : !isTraining
+                    ? "Train VAE Model"
+                    : job?.status === 'paused'
+                      ? "Training Paused"
+                      : job?.status === 'queued'
+                        ? "Waiting in Queue..."
+                        : "Training in Progress..."}
+              </Button>
+
+              {jobActive && (
+                <Button
+                  onClick={() => controlTraining(job.status === 'paused' ? 'resume' : 'pause')}
+                  variant="outline"
+                  size="lg"
+                >
+                  {job.status === 'paused' ? "Resume" : "Pause"}
+                </Button>
+              )}
+
+              {isTraining && (
+                <Button onClick={() => controlTraining('cancel')} variant="destructive" size="lg">
+                  Stop Training
+                </Button>
+              )}
+            </div>
           </TabsContent>
 
           <TabsContent value="generation" className="space-y-6 mt-6">
@@ -498,7 +854,7 @@ export const VAEModule = () => {
                       step={0.1}
                       className="w-full"
                     />
-                    <p className="text-xs text-muted-foreground">Higher = more diverse, lower = more conservative</p>
+                    <p className="text-xs text-muted-foreground">Higher = more varied tokens, lower = closer to what the decoder ranks first</p>
                   </div>
                   <div>
                     <label className="text-sm font-medium text-card-foreground mb-2 block">
@@ -512,6 +868,7 @@ export const VAEModule = () => {
                       step={0.1}
                       className="w-full"
                     />
+                    <p className="text-xs text-muted-foreground">0 keeps the likeliest molecules, 1 the least alike</p>
                   </div>
                   <div>
                     <label className="text-sm font-medium text-card-foreground mb-2 block">
@@ -525,6 +882,7 @@ export const VAEModule = () => {
                       step={0.1}
                       className="w-full"
                     />
+                    <p className="text-xs text-muted-foreground">Molecules this similar to a training molecule are dropped</p>
                   </div>
                 </div>
               </div>
@@ -539,19 +897,34 @@ export const VAEModule = () => {
                       value={batchSize}
                       onValueChange={setBatchSize}
                       min={1}
-                      max={20}
+                      max={MAX_GENERATION_BATCH}
                       step={1}
                       className="w-full"
                     />
                   </div>
                   <div className="bg-muted/50 p-4 rounded-lg">
-                    <div className="text-sm font-medium text-card-foreground mb-2">Quality Prediction</div>
-                    <div className="text-2xl font-bold text-accent mb-1">
-                      {(calculateGenerationQuality() * 100).toFixed(1)}%
-                    </div>
-                    <p className="text-xs text-muted-foreground">
-                      Based on current parameter settings
-                    </p>
+                    <div className="text-sm font-medium text-card-foreground mb-2">Last Batch</div>
+                    {generationStats ? (
+                      <>
+                        <div className="grid grid-cols-3 gap-2 text-center">
+                          {Object.entries(generationRates(generationStats)).map(([label, rate]) => (
+                            <div key={label}>
+                              <div className="text-xl font-bold text-accent">{(rate * 100).toFixed(0)}%</div>
+                              <div className="text-xs text-muted-foreground capitalize">{label}</div>
+                            </div>
+                          ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-2">
+                          {generationStats.sampled} sampled, {generationStats.valid} valid ({generationStats.repaired} repaired),{' '}
+                          {generationStats.unique} unique, {generationStats.novel} not in the training set,{' '}
+                          {generationStats.accepted} under the novelty threshold
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Validity, uniqueness and novelty against the training set appear after generating
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -567,19 +940,33 @@ export const VAEModule = () => {
               {isGenerating ? "Generating Molecules..." : "Generate Novel Molecules"}
             </Button>
           </TabsContent>
+
+          <TabsContent value="latent" className="mt-6">
+            {model ? (
+              <LatentExplorer key={model.run} trained={model.trained} />
+            ) : (
+              <p className="text-muted-foreground text-center py-8">
+                Train the model to interpolate between molecules, sample around one and map the library
+              </p>
+            )}
+          </TabsContent>
         </Tabs>
 
         {/* Progress */}
-        {isGenerating && (
+        {(isGenerating || isTraining) && (
           <div className="mt-6">
-            <Progress value={progress} className="w-full" />
+            <Progress value={isTraining ? trainingProgress : progress} className="w-full" />
             <p className="text-sm text-muted-foreground mt-2 text-center">
-              {modelStatus === 'training' ? 'Training' : 'Generation'} Progress: {progress.toFixed(1)}% complete
+              {isTraining ? 'Training' : 'Generation'} Progress: {(isTraining ? trainingProgress : progress).toFixed(1)}% complete
             </p>
           </div>
         )}
       </Card>
 
+      {showLibrary && (
+        <MoleculeLibrary loadLabel="Review in Grid" onLoad={loadFromLibrary} version={libraryVersion} />
+      )}
+
       {/* Generated Molecules */}
       {generatedMolecules.length > 0 && (
         <Card className="p-6 bg-card border shadow-molecular">
@@ -590,9 +977,17 @@ export const VAEModule = () => {
                 <Filter className="w-4 h-4 mr-2" />
                 {showFilters ? 'Hide Filters' : 'Show Filters'}
               </Button>
-              <Button variant="outline" size="sm" onClick={exportResults}>
+              <Button variant="outline" size="sm" onClick={saveGeneratedToLibrary}>
+                <Save className="w-4 h-4 mr-2" />
+                Save to Library
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => exportResults()}>
+                <Download className="w-4 h-4 mr-2" />
+                {selectedIds.size > 0 ? `Export ${selectedIds.size}` : "Export"}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => exportResults("sdf")}>
                 <Download className="w-4 h-4 mr-2" />
-                Export
+                {selectedIds.size > 0 ? `SDF ${selectedIds.size}` : "SDF"}
               </Button>
               <Button variant="outline" size="sm" onClick={generateMolecules}>
                 <RefreshCw className="w-4 h-4 mr-2" />
@@ -604,53 +999,29 @@ export const VAEModule = () => {
           {showFilters && (
             <div className="mb-6">
               <PropertyFilter 
-                onFilterChange={handleFilterChange}
+                onFilterChange={setFilterCriteria}
                 moleculeCount={generatedMolecules.length}
                 filteredCount={filteredMolecules.length}
               />
             </div>
           )}
 
-          <div className="grid gap-6">
-            {(showFilters ? filteredMolecules : generatedMolecules).map((molecule, index) => (
-              <div key={molecule.id} className="space-y-4">
-                <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-3 mb-2">
-                      <Badge variant="outline">#{index + 1}</Badge>
-                      <Badge variant={molecule.drugLikeness > 0.8 ? "default" : "secondary"}>
-                        {(molecule.drugLikeness * 100).toFixed(1)}% Drug-like
-                      </Badge>
-                    </div>
-                    <code className="text-sm font-mono text-primary block mb-2">
-                      {molecule.smiles}
-                    </code>
-                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-xs text-muted-foreground">
-                      <span>MW: {molecule.properties.mw.toFixed(1)}</span>
-                      <span>LogP: {molecule.properties.logp.toFixed(2)}</span>
-                      <span>HBD: {molecule.properties.hbd}</span>
-                      <span>HBA: {molecule.properties.hba}</span>
-                      <span>TPSA: {molecule.properties.tpsa.toFixed(1)}</span>
-                    </div>
-                  </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setSelectedMolecule(selectedMolecule === molecule.id ? null : molecule.id)}
-                  >
-                    {selectedMolecule === molecule.id ? 'Hide 3D' : 'View 3D'}
-                  </Button>
-                </div>
-                
-                {selectedMolecule === molecule.id && (
-                  <MolecularVisualizer 
-                    smiles={molecule.smiles}
-                    properties={molecule.properties}
-                  />
-                )}
-              </div>
-            ))}
-          </div>
+          <MoleculeGrid
+            items={gridItems}
+            descriptors={GENERATED_DESCRIPTORS}
+            selected={selectedIds}
+            onSelectedChange={setSelectedIds}
+            opened={selectedMolecule}
+            onOpen={(id) => setSelectedMolecule(selectedMolecule === id ? null : id)}
+            initialLabels={["mw", "logp", "qed"]}
+          />
+
+          {openedMolecule && (
+            <div className="mt-4 space-y-2">
+              <code className="text-sm font-mono text-primary block truncate">{openedMolecule.smiles}</code>
+              <MolecularVisualizer smiles={openedMolecule.smiles} />
+            </div>
+          )}
         </Card>
       )}
     </div>
@@ -0,0 +1,73 @@
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { JobKind, JobRequestError, JobSpec, JobView, getJob, submitJob, watchJobs } from "@/lib/jobs";
+
+export interface ActiveJobs {
+  // The job each module is attached to, by kind
+  active: Partial<Record<JobKind, string>>;
+  attach: (kind: JobKind, id: string | null) => void;
+}
+
+export const ActiveJobsContext = createContext<ActiveJobs>({ active: {}, attach: () => undefined });
+
+// Attachments are remembered per project, so a reload reattaches every module to its job
+const storageKey = (project: string | null) => `active-jobs:${project ?? ""}`;
+
+export const useActiveJobs = (project: string | null): ActiveJobs => {
+  const [active, setActive] = useState<ActiveJobs["active"]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey(project)) ?? "{}");
+    } catch {
+      return {};
+    }
+  });
+
+  useEffect(() => localStorage.setItem(storageKey(project), JSON.stringify(active)), [project, active]);
+
+  const attach = useCallback(
+    (kind: JobKind, id: string | null) =>
+      setActive((current) => {
+        const { [kind]: _, ...rest } = current;
+        return id ? { ...rest, [kind]: id } : rest;
+      }),
+    []
+  );
+
+  return { active, attach };
+};
+
+// The job a module is attached to, kept live over Server-Sent Events
+export const useJob = (kind: JobKind) => {
+  const { active, attach } = useContext(ActiveJobsContext);
+  const id = active[kind] ?? null;
+  const [job, setJob] = useState<JobView | null>(null);
+
+  useEffect(() => {
+    setJob((current) => (current?.id === id ? current : null));
+    if (!id) return;
+    let live = true;
+    getJob(id).then(
+      (found) => live && setJob(found),
+      // A job the server no longer knows is let go; an unreachable server is retried by the event stream
+      (error) => live && error instanceof JobRequestError && error.status === 404 && attach(kind, null)
+    );
+    const stop = watchJobs((update) => live && setJob(update), id);
+    return () => {
+      live = false;
+      stop();
+    };
+  }, [id, kind, attach]);
+
+  const start = useCallback(
+    async (spec: JobSpec) => {
+      const created = await submitJob(spec);
+      setJob(created);
+      attach(kind, created.id);
+      return created;
+    },
+    [kind, attach]
+  );
+
+  const detach = useCallback(() => attach(kind, null), [kind, attach]);
+
+  return { job, start, detach };
+};
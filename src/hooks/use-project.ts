@@ -0,0 +1,6 @@
+import { createContext, useContext } from "react";
+
+// Id of the project the modules are working in, null outside any project
+export const ProjectContext = createContext<string | null>(null);
+
+export const useProject = () => useContext(ProjectContext);
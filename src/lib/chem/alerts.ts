@@ -0,0 +1,195 @@
+import { Molecule, bondBetween, heavyDegree, isRingAtom, neighbors, totalHydrogens } from "./molecule";
+
+export interface StructuralAlert {
+  name: string;
+  matches: (mol: Molecule) => boolean;
+}
+
+const HALOGENS = new Set(["F", "Cl", "Br", "I"]);
+const ORGANIC = new Set(["C", "H", "N", "O", "S", "P", "F", "Cl", "Br", "I", "B", "Si", "Se", "*"]);
+
+const atomsOf = (mol: Molecule, element: string) => mol.atoms.filter((atom) => atom.element === element);
+
+const bondOrder = (mol: Molecule, a: number, b: number) => bondBetween(mol, a, b)?.order ?? 0;
+
+// Neighbours of `atom` with the given element, joined by a bond of the given order
+const partners = (mol: Molecule, atom: number, element: string, order: number) =>
+  neighbors(mol, atom).filter((n) => mol.atoms[n].element === element && bondOrder(mol, atom, n) === order);
+
+const isCarbonyl = (mol: Molecule, carbon: number) =>
+  mol.atoms[carbon].element === "C" && !mol.atoms[carbon].aromatic && partners(mol, carbon, "O", 2).length > 0;
+
+const hasBond = (mol: Molecule, test: (a: number, b: number, order: number) => boolean) =>
+  mol.bonds.some((bond) => test(bond.begin, bond.end, bond.order) || test(bond.end, bond.begin, bond.order));
+
+const is = (mol: Molecule, atom: number, element: string) => mol.atoms[atom].element === element;
+
+const acyclicCH2Chain = (mol: Molecule) => {
+  const isChainAtom = (i: number) =>
+    is(mol, i, "C") && !mol.atoms[i].aromatic && totalHydrogens(mol, i) === 2 && !isRingAtom(mol, i) &&
+    mol.adjacency[i].every((b) => mol.bonds[b].order === 1);
+  const seen = new Set<number>();
+  let longest = 0;
+  for (const atom of mol.atoms) {
+    if (seen.has(atom.index) || !isChainAtom(atom.index)) continue;
+    const stack = [atom.index];
+    let size = 0;
+    seen.add(atom.index);
+    while (stack.length) {
+      const current = stack.pop()!;
+      size++;
+      for (const n of neighbors(mol, current)) {
+        if (!seen.has(n) && isChainAtom(n)) {
+          seen.add(n);
+          stack.push(n);
+        }
+      }
+    }
+    longest = Math.max(longest, size);
+  }
+  return longest;
+};
+
+/**
+ * Unwanted functionality in the spirit of Brenk et al. (2008), the alert set
+ * QED scores against. A reduced selection of that list, which leaves QED
+ * approximate. Each alert counts once however often it matches.
+ */
+export const STRUCTURAL_ALERTS: StructuralAlert[] = [
+  {
+    name: "Aldehyde",
+    matches: (mol) => mol.atoms.some((a) => isCarbonyl(mol, a.index) && totalHydrogens(mol, a.index) > 0 &&
+      heavyDegree(mol, a.index) <= 2 && partners(mol, a.index, "N", 1).length === 0 && partners(mol, a.index, "O", 1).length === 0),
+  },
+  {
+    name: "Acyl halide",
+    matches: (mol) => mol.atoms.some((a) => isCarbonyl(mol, a.index) && neighbors(mol, a.index).some((n) => HALOGENS.has(mol.atoms[n].element))),
+  },
+  {
+    name: "Anhydride",
+    matches: (mol) => atomsOf(mol, "O").some((o) => {
+      const carbonyls = partners(mol, o.index, "C", 1).filter((c) => isCarbonyl(mol, c));
+      return carbonyls.length === 2;
+    }),
+  },
+  {
+    name: "Azo group",
+    matches: (mol) => hasBond(mol, (a, b, order) => order === 2 && is(mol, a, "N") && is(mol, b, "N") && !mol.atoms[a].aromatic),
+  },
+  {
+    name: "Azide or diazo",
+    matches: (mol) => atomsOf(mol, "N").some((n) => n.charge === 1 &&
+      neighbors(mol, n.index).some((m) => is(mol, m, "N") && bondOrder(mol, n.index, m) >= 2) &&
+      neighbors(mol, n.index).length === 2),
+  },
+  {
+    name: "Nitro group",
+    matches: (mol) => atomsOf(mol, "N").some((n) => !n.aromatic && neighbors(mol, n.index).filter((o) => is(mol, o, "O") && heavyDegree(mol, o) === 1).length === 2),
+  },
+  {
+    name: "Nitroso group",
+    matches: (mol) => atomsOf(mol, "N").some((n) => n.charge === 0 && partners(mol, n.index, "O", 2).length === 1 && heavyDegree(mol, n.index) === 2),
+  },
+  {
+    name: "Phenol ester",
+    matches: (mol) => atomsOf(mol, "O").some((o) => {
+      const carbons = partners(mol, o.index, "C", 1);
+      return carbons.some((c) => isCarbonyl(mol, c)) && carbons.some((c) => mol.atoms[c].aromatic);
+    }),
+  },
+  {
+    name: "Peroxide",
+    matches: (mol) => hasBond(mol, (a, b, order) => order === 1 && is(mol, a, "O") && is(mol, b, "O")),
+  },
+  {
+    name: "Disulfide",
+    matches: (mol) => hasBond(mol, (a, b, order) => order === 1 && is(mol, a, "S") && is(mol, b, "S")),
+  },
+  {
+    name: "Thiol",
+    matches: (mol) => atomsOf(mol, "S").some((s) => totalHydrogens(mol, s.index) > 0 && s.charge === 0),
+  },
+  {
+    name: "Thiocarbonyl",
+    matches: (mol) => hasBond(mol, (a, b, order) => order === 2 && is(mol, a, "C") && is(mol, b, "S")),
+  },
+  {
+    name: "Isocyanate or isothiocyanate",
+    matches: (mol) => atomsOf(mol, "C").some((c) => partners(mol, c.index, "N", 2).length === 1 &&
+      (partners(mol, c.index, "O", 2).length === 1 || partners(mol, c.index, "S", 2).length === 1)),
+  },
+  {
+    name: "Three-membered heterocycle",
+    matches: (mol) => mol.rings.some((ring) => ring.length === 3 && ring.some((i) => ["N", "O", "S"].includes(mol.atoms[i].element))),
+  },
+  {
+    name: "Michael acceptor",
+    matches: (mol) => hasBond(mol, (a, b, order) => order === 2 && is(mol, a, "C") && is(mol, b, "C") &&
+      !mol.atoms[a].aromatic && neighbors(mol, b).some((c) => c !== a && isCarbonyl(mol, c) && bondOrder(mol, b, c) === 1)),
+  },
+  {
+    name: "Alkyl halide",
+    matches: (mol) => atomsOf(mol, "C").some((c) => !c.aromatic && mol.adjacency[c.index].every((b) => mol.bonds[b].order === 1) &&
+      neighbors(mol, c.index).some((n) => ["Cl", "Br", "I"].includes(mol.atoms[n].element))),
+  },
+  {
+    name: "Hydrazine",
+    matches: (mol) => hasBond(mol, (a, b, order) => order === 1 && is(mol, a, "N") && is(mol, b, "N") &&
+      !mol.atoms[a].aromatic && !mol.atoms[b].aromatic && mol.atoms[a].charge === 0 && mol.atoms[b].charge === 0),
+  },
+  {
+    name: "Acyclic imine",
+    matches: (mol) => hasBond(mol, (a, b, order) => order === 2 && is(mol, a, "C") && is(mol, b, "N") &&
+      !isRingAtom(mol, b) && !neighbors(mol, b).some((n) => is(mol, n, "O") || is(mol, n, "N")) && mol.atoms[b].charge === 0),
+  },
+  {
+    name: "Oxime",
+    matches: (mol) => hasBond(mol, (a, b, order) => order === 2 && is(mol, a, "C") && is(mol, b, "N") &&
+      partners(mol, b, "O", 1).length > 0),
+  },
+  {
+    name: "Hydroxamic acid",
+    matches: (mol) => atomsOf(mol, "N").some((n) => partners(mol, n.index, "O", 1).some((o) => totalHydrogens(mol, o) > 0) &&
+      neighbors(mol, n.index).some((c) => isCarbonyl(mol, c))),
+  },
+  {
+    name: "Sulfonyl halide or sulfonate ester",
+    matches: (mol) => atomsOf(mol, "S").some((s) => partners(mol, s.index, "O", 2).length === 2 &&
+      neighbors(mol, s.index).some((n) => HALOGENS.has(mol.atoms[n].element) ||
+        (is(mol, n, "O") && bondOrder(mol, s.index, n) === 1 && partners(mol, n, "C", 1).length > 0))),
+  },
+  {
+    name: "Phosphorus ester",
+    matches: (mol) => atomsOf(mol, "P").some((p) => neighbors(mol, p.index).some((o) => is(mol, o, "O") && partners(mol, o, "C", 1).length > 0)),
+  },
+  {
+    name: "Triple bond",
+    matches: (mol) => hasBond(mol, (a, b, order) => order === 3 && is(mol, a, "C") && is(mol, b, "C")),
+  },
+  {
+    name: "Long aliphatic chain",
+    matches: (mol) => acyclicCH2Chain(mol) >= 7,
+  },
+  {
+    name: "Polyene",
+    matches: (mol) => hasBond(mol, (a, b, order) => order === 1 && !isRingAtom(mol, a) &&
+      [a, b].every((x) => is(mol, x, "C") && !mol.atoms[x].aromatic && mol.adjacency[x].some((i) => mol.bonds[i].order === 2 && is(mol, mol.bonds[i].begin, "C") && is(mol, mol.bonds[i].end, "C")))),
+  },
+  {
+    name: "Quaternary nitrogen",
+    matches: (mol) => atomsOf(mol, "N").some((n) => n.charge === 1 && !n.aromatic && totalHydrogens(mol, n.index) === 0 &&
+      neighbors(mol, n.index).filter((c) => is(mol, c, "C") && bondOrder(mol, n.index, c) === 1).length === 4),
+  },
+  {
+    name: "Catechol",
+    matches: (mol) => hasBond(mol, (a, b) => [a, b].every((x) => mol.atoms[x].aromatic && is(mol, x, "C") &&
+      partners(mol, x, "O", 1).some((o) => totalHydrogens(mol, o) > 0))),
+  },
+  {
+    name: "Unusual element",
+    matches: (mol) => mol.atoms.some((atom) => !ORGANIC.has(atom.element)),
+  },
+];
+
+export const structuralAlerts = (mol: Molecule) =>
+  STRUCTURAL_ALERTS.filter((alert) => alert.matches(mol)).map((alert) => alert.name);
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSmiles, filterableAnalysis } from "./analysis";
+
+describe("analyzeSmiles", () => {
+  it("summarizes a valid SMILES", () => {
+    const aspirin = analyzeSmiles("CC(=O)Oc1ccccc1C(=O)O");
+    expect(aspirin).toMatchObject({
+      isValid: true,
+      error: null,
+      canonicalSmiles: "CC(=O)Oc1ccccc1C(=O)O",
+      formula: "C9H8O4",
+      atomCount: 13,
+      rings: 1,
+      aromaticRings: 1,
+      conformers: null,
+    });
+    expect(aspirin.molecularWeight).toBeCloseTo(180.159, 3);
+    expect(aspirin.rules).not.toBeNull();
+  });
+
+  it("keeps the parse failure and zeroes the properties of an invalid SMILES", () => {
+    const analysis = analyzeSmiles("C1CC");
+    expect(analysis.isValid).toBe(false);
+    expect(analysis.error).toEqual({ position: 1, reason: "Ring bond 1 is never closed" });
+    expect(analysis.molecularWeight).toBe(0);
+    expect(analysis.rules).toBeNull();
+    expect(filterableAnalysis(analysis)).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { canonicalSmiles } from "./canonical";
+import { generateConformers } from "./conformer";
+import { Molecule } from "./molecule";
+import { computeDescriptors } from "./descriptors";
+import { FilterableMolecule } from "./filter";
+import { DrugLikenessRules, evaluateRules } from "./rules";
+import { tryParseSmiles } from "./smiles";
+
+export interface SMILESParseFailure {
+  position: number;
+  reason: string;
+}
+
+export interface SMILESAnalysis {
+  smiles: string;
+  // One spelling per structure, used to spot duplicates; empty when the SMILES did not parse
+  canonicalSmiles: string;
+  isValid: boolean;
+  error: SMILESParseFailure | null;
+  molecularWeight: number;
+  exactMass: number;
+  atomCount: number;
+  bondCount: number;
+  rings: number;
+  aromaticRings: number;
+  heteroatoms: number;
+  rotatable: number;
+  formula: string;
+  logp: number;
+  tpsa: number;
+  hbd: number;
+  hba: number;
+  molarRefractivity: number;
+  qed: number;
+  sas: number;
+  // Null when the SMILES did not parse
+  rules: DrugLikenessRules | null;
+  // Distinct UFF conformers found, null when 3D embedding was skipped
+  conformers: number | null;
+  // Lowest conformer energy in kcal/mol, null when none was embedded
+  lowestEnergy: number | null;
+  // Identifier and extra columns from an imported file, carried into exports
+  id: string | null;
+  extras: Record<string, string>;
+}
+
+const invalidAnalysis = (smiles: string, error: SMILESParseFailure): SMILESAnalysis => ({
+  smiles,
+  canonicalSmiles: "",
+  isValid: false,
+  error,
+  molecularWeight: 0,
+  exactMass: 0,
+  atomCount: 0,
+  bondCount: 0,
+  rings: 0,
+  aromaticRings: 0,
+  heteroatoms: 0,
+  rotatable: 0,
+  formula: "",
+  logp: 0,
+  tpsa: 0,
+  hbd: 0,
+  hba: 0,
+  molarRefractivity: 0,
+  qed: 0,
+  sas: 0,
+  rules: null,
+  conformers: null,
+  lowestEnergy: null,
+  id: null,
+  extras: {},
+});
+
+export interface AnalysisOptions {
+  // Conformer embeddings per structure; 0 skips 3D, which dominates the cost of an analysis
+  conformers: number;
+}
+
+// Embeddings per structure when an analysis asks for 3D, fewer than the viewer's default to keep it quick
+export const ANALYSIS_CONFORMERS = 5;
+
+// 3D is opt-in, so a plain analysis stays cheap enough for the main thread and the API
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = { conformers: 0 };
+
+export const analyzeMolecule = (
+  smiles: string,
+  mol: Molecule,
+  overrides: Partial<AnalysisOptions> = {}
+): SMILESAnalysis => {
+  const options = { ...DEFAULT_ANALYSIS_OPTIONS, ...overrides };
+  const d = computeDescriptors(mol);
+  const conformers = options.conformers > 0 ? generateConformers(mol, { count: options.conformers }) : null;
+
+  return {
+    smiles,
+    canonicalSmiles: canonicalSmiles(mol),
+    isValid: true,
+    error: null,
+    molecularWeight: d.molecularWeight,
+    exactMass: d.exactMass,
+    atomCount: d.heavyAtomCount,
+    bondCount: d.heavyBondCount,
+    rings: d.rings,
+    aromaticRings: d.aromaticRings,
+    heteroatoms: d.heteroatoms,
+    rotatable: d.rotatableBonds,
+    formula: d.formula,
+    logp: d.logp,
+    tpsa: d.tpsa,
+    hbd: d.hbd,
+    hba: d.hba,
+    molarRefractivity: d.molarRefractivity,
+    qed: d.qed,
+    sas: d.sas,
+    rules: evaluateRules(d),
+    conformers: conformers ? conformers.length : null,
+    lowestEnergy: conformers?.length ? conformers[0].energy : null,
+    id: null,
+    extras: {},
+  };
+};
+
+export const analyzeSmiles = (smiles: string, overrides: Partial<AnalysisOptions> = {}): SMILESAnalysis => {
+  const { molecule, error } = tryParseSmiles(smiles);
+  if (error) return invalidAnalysis(smiles, { position: error.position, reason: error.reason });
+  return analyzeMolecule(smiles, molecule, overrides);
+};
+
+// The filter's view of an analysis; invalid structures have nothing to filter on
+export const filterableAnalysis = (analysis: SMILESAnalysis): FilterableMolecule | null =>
+  analysis.isValid && analysis.rules
+    ? {
+        properties: {
+          mw: analysis.molecularWeight,
+          logp: analysis.logp,
+          hbd: analysis.hbd,
+          hba: analysis.hba,
+          tpsa: analysis.tpsa,
+          qed: analysis.qed,
+          sas: analysis.sas,
+        },
+        rules: analysis.rules,
+      }
+    : null;
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { analyzeSmiles } from "./analysis";
+import { BatchRequest, BatchResponse, analyzeInWorkers, fingerprintInWorkers } from "./batch";
+import { fingerprintSmiles } from "./fingerprints";
+
+// Stands in for the pool's Web Workers: answers each chunk after a delay that makes later chunks finish first
+class FakeWorker {
+  static started = 0;
+  static terminated = 0;
+  onmessage: ((event: { data: BatchResponse<unknown> }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+
+  constructor() {
+    FakeWorker.started++;
+  }
+
+  postMessage({ chunk, task }: BatchRequest) {
+    setTimeout(() => {
+      const data =
+        task.kind === "analyze"
+          ? task.entries.some((entry) => entry.smiles === "fail")
+            ? { chunk, error: "Worker crashed" }
+            : { chunk, results: task.entries.map((entry) => analyzeSmiles(entry.smiles, task.options)) }
+          : { chunk, results: task.smiles.map((smiles) => fingerprintSmiles(smiles, task.type, task.options)) };
+      this.onmessage?.({ data });
+    }, 20 - chunk);
+  }
+
+  terminate() {
+    FakeWorker.terminated++;
+  }
+}
+
+const entries = (smiles: string[]) => smiles.map((s) => ({ smiles: s, id: null, extras: {} }));
+
+const SMILES = ["C", "CC", "CCC", "CCCC", "CCCCC", "CCCCCC", "CCCCCCC", "CCCCCCCC", "CCCCCCCCC", "CCCCCCCCCC"];
+
+describe("batch worker pool", () => {
+  beforeEach(() => {
+    FakeWorker.started = 0;
+    FakeWorker.terminated = 0;
+    vi.stubGlobal("Worker", FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps input order whatever order chunks finish in", async () => {
+    const progress: number[] = [];
+    const { results, cancelled } = await analyzeInWorkers(entries(SMILES), {}, {
+      workers: 2,
+      onProgress: (done) => progress.push(done),
+    });
+    expect(cancelled).toBe(false);
+    expect(results.map((result) => result.smiles)).toEqual(SMILES);
+    expect(progress).toEqual(SMILES.map((_, k) => k + 1));
+    expect(FakeWorker.started).toBe(2);
+    expect(FakeWorker.terminated).toBe(2);
+  });
+
+  it("returns null fingerprints for SMILES that do not parse", async () => {
+    const { results } = await fingerprintInWorkers(["CCO", "C1CC", "c1ccccc1"], "maccs", {}, { workers: 1 });
+    expect(results.map((fp) => fp?.length ?? null)).toEqual([167, null, 167]);
+  });
+
+  it("keeps the chunks already finished when aborted", async () => {
+    const controller = new AbortController();
+    const outcome = analyzeInWorkers(entries(SMILES), {}, {
+      workers: 1,
+      signal: controller.signal,
+      onProgress: (done) => done === 3 && controller.abort(),
+    });
+    const { results, cancelled } = await outcome;
+    expect(cancelled).toBe(true);
+    expect(results).toHaveLength(3);
+    expect(FakeWorker.terminated).toBe(1);
+  });
+
+  it("rejects with a worker's error and stops the pool", async () => {
+    await expect(analyzeInWorkers(entries(["CCO", "fail", "CC"]), {}, { workers: 2 })).rejects.toThrow(
+      "Worker crashed"
+    );
+    expect(FakeWorker.terminated).toBe(FakeWorker.started);
+  });
+
+  it("finishes at once with nothing to do", async () => {
+    expect(await analyzeInWorkers([], {}, { workers: 2 })).toEqual({ results: [], cancelled: false });
+    expect(FakeWorker.started).toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+import { AnalysisOptions, SMILESAnalysis } from "./analysis";
+import { Fingerprint, FingerprintOptions, FingerprintType } from "./fingerprints";
+import { ImportedRecord } from "./import";
+
+export type BatchEntry = Pick<ImportedRecord, "smiles" | "id" | "extras">;
+
+// One chunk of work for a pool worker
+export type BatchTask =
+  | { kind: "analyze"; entries: BatchEntry[]; options: Partial<AnalysisOptions> }
+  | { kind: "fingerprint"; smiles: string[]; type: FingerprintType; options: Partial<FingerprintOptions> };
+
+export interface BatchRequest {
+  chunk: number;
+  task: BatchTask;
+}
+
+export type BatchResponse<T> = { chunk: number; results: T[] } | { chunk: number; error: string };
+
+export interface BatchControl {
+  // Called after every chunk with the number of inputs finished so far
+  onProgress?: (done: number, total: number) => void;
+  // Aborting stops the workers and resolves with the chunks already finished
+  signal?: AbortSignal;
+  // Pool size; defaults to the number of logical cores
+  workers?: number;
+}
+
+export interface BatchOutcome<T> {
+  // Finished results in input order; after cancellation, unfinished chunks are missing
+  results: T[];
+  cancelled: boolean;
+}
+
+// Enough chunks per worker that a slow chunk does not leave the others idle at the end
+const CHUNKS_PER_WORKER = 16;
+const MAX_CHUNK = 500;
+
+const startWorker = () => new Worker(new URL("./batch.worker.ts", import.meta.url), { type: "module" });
+
+/**
+ * Split `total` inputs into chunks and hand them to a pool of workers, each
+ * taking the next chunk as soon as it reports back. Chunk results land by
+ * chunk index, so the output keeps input order whatever order workers finish
+ * in. The workers are terminated when the batch ends, fails or is aborted.
+ */
+const runPool = <T>(total: number, task: (start: number, end: number) => BatchTask, control: BatchControl) =>
+  new Promise<BatchOutcome<T>>((resolve, reject) => {
+    const { onProgress, signal } = control;
+    const cores = control.workers ?? navigator.hardwareConcurrency ?? 4;
+    const chunkSize = Math.min(MAX_CHUNK, Math.max(1, Math.ceil(total / (cores * CHUNKS_PER_WORKER))));
+    const chunkCount = Math.ceil(total / chunkSize);
+    const finished: T[][] = [];
+    const pool: Worker[] = [];
+    let next = 0;
+    let done = 0;
+    let settled = false;
+
+    const stop = () => {
+      settled = true;
+      pool.forEach((worker) => worker.terminate());
+      signal?.removeEventListener("abort", abort);
+    };
+    const finish = (cancelled: boolean) => {
+      if (settled) return;
+      stop();
+      resolve({ results: finished.flat(), cancelled });
+    };
+    const fail = (message: string) => {
+      if (settled) return;
+      stop();
+      reject(new Error(message));
+    };
+    const abort = () => finish(true);
+
+    const dispatch = (worker: Worker) => {
+      if (next >= chunkCount) return;
+      const chunk = next++;
+      const start = chunk * chunkSize;
+      const request: BatchRequest = { chunk, task: task(start, Math.min(total, start + chunkSize)) };
+      worker.postMessage(request);
+    };
+
+    if (signal?.aborted || total === 0) {
+      finish(Boolean(signal?.aborted));
+      return;
+    }
+    signal?.addEventListener("abort", abort);
+
+    for (let k = 0; k < Math.min(cores, chunkCount); k++) {
+      const worker = startWorker();
+      worker.onmessage = (event: MessageEvent<BatchResponse<T>>) => {
+        if (settled) return;
+        const response = event.data;
+        if ("error" in response) return fail(response.error);
+        finished[response.chunk] = response.results;
+        done += response.results.length;
+        onProgress?.(done, total);
+        if (done === total) finish(false);
+        else dispatch(worker);
+      };
+      worker.onerror = (event) => fail(event.message || "A batch worker failed to start");
+      pool.push(worker);
+      dispatch(worker);
+    }
+  });
+
+// Parse, describe and optionally embed every entry off the main thread
+export const analyzeInWorkers = (
+  entries: BatchEntry[],
+  options: Partial<AnalysisOptions> = {},
+  control: BatchControl = {}
+) =>
+  runPool<SMILESAnalysis>(
+    entries.length,
+    (start, end) => ({ kind: "analyze", entries: entries.slice(start, end), options }),
+    control
+  );
+
+// Fingerprints in input order; null where the SMILES does not parse
+export const fingerprintInWorkers = (
+  smiles: string[],
+  type: FingerprintType,
+  options: Partial<FingerprintOptions> = {},
+  control: BatchControl = {}
+) =>
+  runPool<Fingerprint | null>(
+    smiles.length,
+    (start, end) => ({ kind: "fingerprint", smiles: smiles.slice(start, end), type, options }),
+    control
+  );
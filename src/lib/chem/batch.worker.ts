@@ -0,0 +1,21 @@
+import { analyzeSmiles } from "./analysis";
+import { BatchRequest, BatchResponse } from "./batch";
+import { Fingerprint, fingerprintSmiles } from "./fingerprints";
+
+// Entry point of a batch pool worker: one chunk in, one message with its results out
+self.onmessage = (event: MessageEvent<BatchRequest>) => {
+  const { chunk, task } = event.data;
+  try {
+    if (task.kind === "analyze") {
+      const results = task.entries.map(({ smiles, id, extras }) => ({ ...analyzeSmiles(smiles, task.options), id, extras }));
+      self.postMessage({ chunk, results });
+    } else {
+      const results = task.smiles.map((smiles) => fingerprintSmiles(smiles, task.type, task.options));
+      const response: BatchResponse<Fingerprint | null> = { chunk, results };
+      // Hand the count arrays over instead of copying them
+      self.postMessage(response, { transfer: results.filter(Boolean).map((fp) => fp.counts.buffer as ArrayBuffer) });
+    }
+  } catch (error) {
+    self.postMessage({ chunk, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { canonicalSmiles, canonicalizeSmiles, findDuplicates, mergeDuplicates, symmetryClasses } from "./canonical";
+import { Molecule } from "./molecule";
+import { parseSmiles } from "./smiles";
+
+// The same molecule with its atoms renumbered; each atom keeps its neighbour order, and so its stereo
+const renumber = (mol: Molecule, order: number[]): Molecule => {
+  const index = new Array<number>(order.length);
+  order.forEach((old, i) => (index[old] = i));
+  return {
+    atoms: order.map((old, i) => ({ ...mol.atoms[old], index: i })),
+    bonds: mol.bonds.map((bond) => ({ ...bond, begin: index[bond.begin], end: index[bond.end] })),
+    adjacency: order.map((old) => [...mol.adjacency[old]]),
+    rings: mol.rings.map((ring) => ring.map((atom) => index[atom])),
+  };
+};
+
+// Deterministic shuffles so a failure can be reproduced
+const shuffled = (n: number, seed: number) => {
+  const order = [...Array(n).keys()];
+  let state = seed;
+  for (let i = n - 1; i > 0; i--) {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    const j = state % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+describe("canonicalSmiles", () => {
+  it.each([
+    "CC(=O)Oc1ccccc1C(=O)O",
+    "Cn1cnc2c1c(=O)n(C)c(=O)n2C",
+    "CC(C)Cc1ccc(cc1)C(C)C(=O)O",
+    "N[C@@H](Cc1ccc(O)cc1)C(=O)O",
+    "F/C=C/C=C\\Cl",
+    "[Na+].[O-]C(=O)c1ccccc1",
+  ])("does not depend on atom order for %s", (smiles) => {
+    const mol = parseSmiles(smiles);
+    const expected = canonicalSmiles(mol);
+    for (let seed = 1; seed <= 10; seed++) {
+      expect(canonicalSmiles(renumber(mol, shuffled(mol.atoms.length, seed))), `seed ${seed}`).toBe(expected);
+    }
+  });
+
+  it("gives every spelling of a structure the same string", () => {
+    expect(canonicalizeSmiles("OCC")).toBe("CCO");
+    expect(canonicalizeSmiles("C1=CC=CC=C1C")).toBe(canonicalizeSmiles("c1ccccc1C"));
+    expect(canonicalizeSmiles("OC(=O)c1ccccc1OC(C)=O")).toBe("CC(=O)Oc1ccccc1C(=O)O");
+    expect(canonicalizeSmiles("[Cl-].[Na+]")).toBe(canonicalizeSmiles("[Na+].[Cl-]"));
+  });
+
+  it("keeps stereoisomers apart", () => {
+    expect(canonicalizeSmiles("C[C@H](N)C(=O)O")).toBe(canonicalizeSmiles("N[C@@H](C)C(=O)O"));
+    expect(canonicalizeSmiles("N[C@H](C)C(=O)O")).not.toBe(canonicalizeSmiles("N[C@@H](C)C(=O)O"));
+    expect(canonicalizeSmiles("F\\C=C\\F")).toBe(canonicalizeSmiles("F/C=C/F"));
+    expect(canonicalizeSmiles("F/C=C\\F")).not.toBe(canonicalizeSmiles("F/C=C/F"));
+  });
+
+  it("writes SMILES that parse back to the same canonical form", () => {
+    for (const smiles of ["N[C@@H](Cc1ccc(O)cc1)C(=O)O", "F/C=C/C=C\\Cl", "[13CH3]C(=O)[O-]"]) {
+      const canonical = canonicalizeSmiles(smiles) as string;
+      expect(canonicalizeSmiles(canonical)).toBe(canonical);
+    }
+  });
+
+  it("returns null for an invalid SMILES", () => {
+    expect(canonicalizeSmiles("C1CC")).toBeNull();
+  });
+});
+
+describe("symmetryClasses", () => {
+  it("puts topologically equivalent atoms in one class", () => {
+    const classes = symmetryClasses(parseSmiles("CC(C)O"));
+    expect(classes.get(0)).toBe(classes.get(2));
+    expect(new Set([classes.get(0), classes.get(1), classes.get(3)]).size).toBe(3);
+  });
+});
+
+describe("duplicates", () => {
+  const items = ["CCO", "C1CC", "OCC", "c1ccccc1", "C(O)C", "C1=CC=CC=C1"];
+
+  it("groups items by canonical SMILES in order of first appearance", () => {
+    expect(findDuplicates(items, canonicalizeSmiles)).toEqual([
+      { key: "CCO", items: ["CCO", "OCC", "C(O)C"] },
+      { key: "c1ccccc1", items: ["c1ccccc1", "C1=CC=CC=C1"] },
+    ]);
+  });
+
+  it("keeps the first of each group and every item without a key", () => {
+    expect(mergeDuplicates(items, canonicalizeSmiles)).toEqual({ unique: ["CCO", "C1CC", "c1ccccc1"], merged: 3 });
+  });
+});
@@ -0,0 +1,370 @@
+import { AROMATIC_SYMBOLS, DEFAULT_VALENCES, ORGANIC_SUBSET, atomicNumber } from "./elements";
+import { Atom, Bond, BondStereo, Chirality, Molecule, neighbors, otherAtom, permutationParity } from "./molecule";
+import { tryParseSmiles } from "./smiles";
+
+// Stand-in for a hydrogen, implicit or folded, in a stereocentre's neighbour list
+const HYDROGEN = -1;
+
+// A plain [H] on a heavy atom is written as part of that atom instead of as its own atom
+const isFoldableHydrogen = (mol: Molecule, atom: Atom) =>
+  atom.element === "H" &&
+  atom.isotope === null &&
+  atom.charge === 0 &&
+  mol.adjacency[atom.index].length === 1 &&
+  mol.atoms[neighbors(mol, atom.index)[0]].element !== "H";
+
+const bondCode = (bond: Bond) => (bond.aromatic ? 5 : bond.order);
+
+const compareKeys = (a: number[], b: number[]) => {
+  for (let k = 0; k < Math.min(a.length, b.length); k++) {
+    if (a[k] !== b[k]) return a[k] - b[k];
+  }
+  return a.length - b.length;
+};
+
+// Dense ranks 0..n-1 of the given keys, equal keys sharing a rank
+const rankKeys = (atoms: number[], keys: Map<number, number[]>) => {
+  const sorted = [...atoms].sort((a, b) => compareKeys(keys.get(a)!, keys.get(b)!));
+  const ranks = new Map<number, number>();
+  let rank = 0;
+  sorted.forEach((atom, k) => {
+    if (k > 0 && compareKeys(keys.get(sorted[k - 1])!, keys.get(atom)!) !== 0) rank++;
+    ranks.set(atom, rank);
+  });
+  return ranks;
+};
+
+const classCount = (ranks: Map<number, number>) => new Set(ranks.values()).size;
+
+/**
+ * Canonical atom ranks in the manner of Morgan (1965) and Weininger's CANON
+ * (1989): atom invariants are refined by their neighbours' ranks until the
+ * partition stops splitting, then the lowest tied class is broken by singling
+ * out one atom, and refinement continues until every atom has its own rank.
+ */
+const canonicalRanks = (mol: Molecule, atoms: number[], hydrogens: Map<number, number>, breakTies = true) => {
+  const kept = new Set(atoms);
+  const links = new Map(
+    atoms.map((i) => [
+      i,
+      mol.adjacency[i]
+        .map((b) => ({ atom: otherAtom(mol.bonds[b], i), code: bondCode(mol.bonds[b]) }))
+        .filter(({ atom }) => kept.has(atom)),
+    ])
+  );
+  const invariants = new Map(
+    atoms.map((i) => {
+      const atom = mol.atoms[i];
+      return [
+        i,
+        [
+          atomicNumber(atom.element),
+          atom.isotope ?? 0,
+          atom.charge,
+          links.get(i)!.length,
+          hydrogens.get(i)!,
+          atom.aromatic ? 1 : 0,
+          mol.rings.filter((ring) => ring.includes(i)).length,
+        ],
+      ];
+    })
+  );
+
+  const refine = (start: Map<number, number>) => {
+    let ranks = start;
+    for (;;) {
+      const keys = new Map(
+        atoms.map((i) => {
+          const around = links
+            .get(i)!
+            .map(({ atom, code }) => ranks.get(atom)! * 8 + code)
+            .sort((a, b) => a - b);
+          return [i, [ranks.get(i)!, ...around]];
+        })
+      );
+      const next = rankKeys(atoms, keys);
+      if (classCount(next) === classCount(ranks)) return next;
+      ranks = next;
+    }
+  };
+
+  let ranks = refine(rankKeys(atoms, invariants));
+  while (breakTies && classCount(ranks) < atoms.length) {
+    const counts = new Map<number, number>();
+    for (const rank of ranks.values()) counts.set(rank, (counts.get(rank) ?? 0) + 1);
+    const tied = Math.min(...[...counts].filter(([, count]) => count > 1).map(([rank]) => rank));
+    const chosen = atoms.find((i) => ranks.get(i) === tied)!;
+    const broken = new Map(atoms.map((i) => [i, [ranks.get(i)! * 2 + (i === chosen ? 0 : 1)]]));
+    ranks = refine(rankKeys(atoms, broken));
+  }
+  return ranks;
+};
+
+// Atoms sharing a class are topologically equivalent, like the two methyls of isopropyl
+export const symmetryClasses = (mol: Molecule) => {
+  const atoms = mol.atoms.map((atom) => atom.index);
+  const hydrogens = new Map(mol.atoms.map((atom) => [atom.index, atom.hCount]));
+  return canonicalRanks(mol, atoms, hydrogens, false);
+};
+
+// Hydrogens the SMILES parser would give an unbracketed atom, or null when it must be bracketed
+const impliedHydrogens = (mol: Molecule, present: Atom[], atom: Atom) => {
+  if (atom.element === "*") return 0;
+  if (!ORGANIC_SUBSET.has(atom.element)) return null;
+  let used = 0;
+  let hasDouble = false;
+  for (const b of mol.adjacency[atom.index]) {
+    const bond = mol.bonds[b];
+    if (!present[otherAtom(bond, atom.index)]) continue;
+    used += bond.aromatic ? 1 : bond.order;
+    if (bond.order === 2) hasDouble = true;
+  }
+  if (atom.aromatic && atom.element !== "C" && atom.element !== "B") return 0;
+  if (atom.aromatic && !hasDouble) used += 1;
+  const target = DEFAULT_VALENCES[atom.element].find((v) => v >= used);
+  return target === undefined ? null : target - used;
+};
+
+const atomSymbol = (atom: Atom) => {
+  if (atom.element === "*") return "*";
+  const symbol = atom.aromatic ? atom.element.toLowerCase() : atom.element;
+  return atom.aromatic && !AROMATIC_SYMBOLS.has(symbol) ? atom.element : symbol;
+};
+
+const chargeText = (charge: number) => {
+  if (charge === 0) return "";
+  const sign = charge > 0 ? "+" : "-";
+  return Math.abs(charge) === 1 ? sign : `${sign}${Math.abs(charge)}`;
+};
+
+const flipDirection = (stereo: BondStereo): BondStereo => (stereo === "/" ? "\\" : "/");
+
+/**
+ * Canonical SMILES: atoms are written depth-first from the lowest canonical
+ * rank, neighbours in rank order, so every spelling of a structure gives the
+ * same string. Tetrahedral and double-bond stereo are carried over and
+ * re-expressed for the new atom order; atom map numbers are dropped.
+ */
+export const canonicalSmiles = (mol: Molecule) => {
+  const folded = new Set(mol.atoms.filter((atom) => isFoldableHydrogen(mol, atom)).map((atom) => atom.index));
+  const present: Atom[] = mol.atoms.map((atom) => (folded.has(atom.index) ? null : atom));
+  const atoms = mol.atoms.filter((atom) => !folded.has(atom.index)).map((atom) => atom.index);
+  const hydrogens = new Map(
+    atoms.map((i) => [i, mol.atoms[i].hCount + neighbors(mol, i).filter((n) => folded.has(n)).length])
+  );
+  const ranks = canonicalRanks(mol, atoms, hydrogens);
+  const byRank = (a: number, b: number) => ranks.get(a)! - ranks.get(b)!;
+  const bondsOf = (i: number) => mol.adjacency[i].filter((b) => present[otherAtom(mol.bonds[b], i)]);
+
+  // First pass: spanning forest, ring closures and the order atoms are written in
+  const visited = new Set<number>();
+  const parentBond = new Map<number, number>();
+  const children = new Map<number, number[]>();
+  const closures = new Set<number>();
+  const writeOrder: number[] = [];
+  const roots: number[] = [];
+  const walk = (i: number) => {
+    visited.add(i);
+    writeOrder.push(i);
+    const next = bondsOf(i)
+      .filter((b) => b !== parentBond.get(i))
+      .sort((a, b) => byRank(otherAtom(mol.bonds[a], i), otherAtom(mol.bonds[b], i)));
+    children.set(i, []);
+    for (const b of next) {
+      const n = otherAtom(mol.bonds[b], i);
+      if (visited.has(n)) {
+        closures.add(b);
+      } else {
+        parentBond.set(n, b);
+        children.get(i)!.push(n);
+        walk(n);
+      }
+    }
+  };
+  for (const i of [...atoms].sort(byRank)) {
+    if (visited.has(i)) continue;
+    roots.push(i);
+    walk(i);
+  }
+  const position = new Map(writeOrder.map((i, k) => [i, k]));
+
+  // Ring closure bonds at each atom, in the order their digits are written
+  const closuresAt = new Map<number, number[]>(atoms.map((i) => [i, []]));
+  for (const b of [...closures].sort((x, y) => {
+    const [bx, by] = [mol.bonds[x], mol.bonds[y]];
+    const openX = Math.min(position.get(bx.begin)!, position.get(bx.end)!);
+    const openY = Math.min(position.get(by.begin)!, position.get(by.end)!);
+    const closeX = Math.max(position.get(bx.begin)!, position.get(bx.end)!);
+    const closeY = Math.max(position.get(by.begin)!, position.get(by.end)!);
+    return openX - openY || closeX - closeY;
+  })) {
+    closuresAt.get(mol.bonds[b].begin)!.push(b);
+    closuresAt.get(mol.bonds[b].end)!.push(b);
+  }
+  // A closing digit is written before any opening digit on the same atom
+  for (const [i, list] of closuresAt) {
+    const closing = list.filter((b) => position.get(otherAtom(mol.bonds[b], i))! < position.get(i)!);
+    const opening = list.filter((b) => position.get(otherAtom(mol.bonds[b], i))! > position.get(i)!);
+    closuresAt.set(i, [...closing, ...opening]);
+  }
+
+  // Tetrahedral centres: compare the written neighbour order before and after
+  const chirality = new Map<number, Chirality>();
+  for (const i of atoms) {
+    const atom = mol.atoms[i];
+    if (!atom.chirality) continue;
+    const original = mol.adjacency[i].map((b) => otherAtom(mol.bonds[b], i));
+    const preceded = original.length > 0 && mol.bonds[mol.adjacency[i][0]].end === i;
+    const before = original.map((n) => (folded.has(n) ? HYDROGEN : n));
+    if (atom.hCount > 0) before.splice(preceded ? 1 : 0, 0, HYDROGEN);
+
+    const parent = parentBond.has(i) ? otherAtom(mol.bonds[parentBond.get(i)!], i) : null;
+    const after = [
+      ...(parent === null ? [] : [parent]),
+      ...(hydrogens.get(i)! > 0 ? [HYDROGEN] : []),
+      ...closuresAt.get(i)!.map((b) => otherAtom(mol.bonds[b], i)),
+      ...children.get(i)!,
+    ];
+    if (before.length !== after.length || after.some((n) => !before.includes(n))) continue;
+    const odd = permutationParity(before, after) === 1;
+    chirality.set(i, odd ? (atom.chirality === "@" ? "@@" : "@") : atom.chirality);
+  }
+
+  // Double-bond stereo: find each configuration, then mark bonds in the new writing direction
+  const marks = new Map<number, BondStereo>();
+  const writtenFirst = (bond: Bond) =>
+    position.get(bond.begin)! < position.get(bond.end)! ? bond.begin : bond.end;
+  // A direction mark as if the substituent were written before the double-bond atom
+  const sideOf = (bond: Bond, stereo: BondStereo, centre: number, original: boolean) => {
+    const first = original ? bond.begin : writtenFirst(bond);
+    const substituentFirst = first !== centre;
+    return substituentFirst ? stereo : flipDirection(stereo);
+  };
+  const stereoNeighbour = (centre: number, exclude: number) =>
+    mol.adjacency[centre].find((b) => b !== exclude && mol.bonds[b].stereo && present[otherAtom(mol.bonds[b], centre)]);
+  const referenceBond = (centre: number, exclude: number) =>
+    bondsOf(centre)
+      .filter((b) => b !== exclude && !closures.has(b))
+      .sort((a, b) => byRank(otherAtom(mol.bonds[a], centre), otherAtom(mol.bonds[b], centre)))[0];
+
+  const doubleBonds = mol.bonds
+    .filter((bond) => bond.order === 2 && !bond.aromatic && present[bond.begin] && present[bond.end])
+    .sort((x, y) => Math.min(position.get(x.begin)!, position.get(x.end)!) - Math.min(position.get(y.begin)!, position.get(y.end)!));
+  for (const bond of doubleBonds) {
+    const [left, right] = position.get(bond.begin)! < position.get(bond.end)! ? [bond.begin, bond.end] : [bond.end, bond.begin];
+    const inLeft = stereoNeighbour(bond.begin, bond.index);
+    const inRight = stereoNeighbour(bond.end, bond.index);
+    if (inLeft === undefined || inRight === undefined) continue;
+    // F/C=C/F: the marks read substituent-first differ, and the fluorines are trans
+    const trans =
+      sideOf(mol.bonds[inLeft], mol.bonds[inLeft].stereo, bond.begin, true) !==
+      sideOf(mol.bonds[inRight], mol.bonds[inRight].stereo, bond.end, true);
+
+    const outLeft = referenceBond(left, bond.index);
+    const outRight = referenceBond(right, bond.index);
+    if (outLeft === undefined || outRight === undefined) continue;
+    // Choosing the other substituent on one end flips the relationship
+    const inputReference = (centre: number) => (centre === bond.begin ? inLeft : inRight);
+    const swapped = (outLeft !== inputReference(left)) !== (outRight !== inputReference(right));
+    const sameSide = trans === swapped;
+
+    const leftMark = marks.get(outLeft);
+    const rightMark = marks.get(outRight);
+    if (leftMark && rightMark) continue;
+    if (rightMark) {
+      const rightSide = sideOf(mol.bonds[outRight], rightMark, right, false);
+      const leftSide = sameSide ? rightSide : flipDirection(rightSide);
+      marks.set(outLeft, sideOf(mol.bonds[outLeft], leftSide, left, false));
+    } else {
+      const leftSide = leftMark ? sideOf(mol.bonds[outLeft], leftMark, left, false) : "/";
+      if (!leftMark) marks.set(outLeft, sideOf(mol.bonds[outLeft], leftSide, left, false));
+      const rightSide = sameSide ? leftSide : flipDirection(leftSide);
+      marks.set(outRight, sideOf(mol.bonds[outRight], rightSide, right, false));
+    }
+  }
+
+  const bondSymbol = (bond: Bond) => {
+    if (marks.has(bond.index)) return marks.get(bond.index)!;
+    if (bond.aromatic) return "";
+    if (bond.order === 2) return "=";
+    if (bond.order === 3) return "#";
+    if (bond.order === 4) return "$";
+    return mol.atoms[bond.begin].aromatic && mol.atoms[bond.end].aromatic ? "-" : "";
+  };
+
+  const atomText = (i: number) => {
+    const atom = mol.atoms[i];
+    const h = hydrogens.get(i)!;
+    const stereo = chirality.get(i) ?? null;
+    const implied = impliedHydrogens(mol, present, atom);
+    if (implied === h && atom.charge === 0 && atom.isotope === null && !stereo) return atomSymbol(atom);
+    const hText = h === 0 ? "" : h === 1 ? "H" : `H${h}`;
+    return `[${atom.isotope ?? ""}${atomSymbol(atom)}${stereo ?? ""}${hText}${chargeText(atom.charge)}]`;
+  };
+
+  // Second pass: write atoms, reusing the lowest free ring-closure digit
+  const digits = new Map<number, number>();
+  const inUse = new Set<number>();
+  const ringLabel = (label: number) => (label < 10 ? String(label) : `%${label}`);
+  const write = (i: number): string => {
+    let text = atomText(i);
+    for (const b of closuresAt.get(i)!) {
+      const bond = mol.bonds[b];
+      if (digits.has(b)) {
+        const label = digits.get(b)!;
+        inUse.delete(label);
+        text += ringLabel(label);
+      } else {
+        let label = 1;
+        while (inUse.has(label)) label++;
+        inUse.add(label);
+        digits.set(b, label);
+        text += bondSymbol(bond) + ringLabel(label);
+      }
+    }
+    const kids = children.get(i)!;
+    kids.forEach((child, k) => {
+      const branch = bondSymbol(mol.bonds[parentBond.get(child)!]) + write(child);
+      text += k < kids.length - 1 ? `(${branch})` : branch;
+    });
+    return text;
+  };
+
+  return roots.map(write).join(".");
+};
+
+// Canonical form of a SMILES string; null when it does not parse
+export const canonicalizeSmiles = (smiles: string) => {
+  const { molecule } = tryParseSmiles(smiles);
+  return molecule ? canonicalSmiles(molecule) : null;
+};
+
+export interface DuplicateGroup<T> {
+  key: string;
+  items: T[];
+}
+
+// Items sharing a key, such as a canonical SMILES, in order of first appearance
+export const findDuplicates = <T>(items: T[], key: (item: T) => string | null): DuplicateGroup<T>[] => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!k) continue;
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(item);
+  }
+  return [...groups].filter(([, group]) => group.length > 1).map(([k, group]) => ({ key: k, items: group }));
+};
+
+// Keeps the first item per key; items without a key are always kept
+export const mergeDuplicates = <T>(items: T[], key: (item: T) => string | null) => {
+  const seen = new Set<string>();
+  const unique = items.filter((item) => {
+    const k = key(item);
+    if (!k) return true;
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+  return { unique, merged: items.length - unique.length };
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { Conformer, addHydrogens, generateConformer, generateConformers } from "./conformer";
+import { chiralityFromPoints, determinant, distance, subtract } from "./geometry";
+import { Molecule, Point3D, stereoNeighbors } from "./molecule";
+import { parseSmiles } from "./smiles";
+
+const conformerOf = (smiles: string) => generateConformer(parseSmiles(smiles)) as Conformer;
+
+const bondLengths = (mol: Molecule, points: Point3D[], a: string, b: string) =>
+  mol.bonds
+    .filter((bond) => {
+      const pair = [mol.atoms[bond.begin].element, mol.atoms[bond.end].element].sort().join();
+      return pair === [a, b].sort().join();
+    })
+    .map((bond) => distance(points[bond.begin], points[bond.end]));
+
+describe("addHydrogens", () => {
+  it("adds every implicit hydrogen as an atom after the heavy atoms", () => {
+    const mol = addHydrogens(parseSmiles("CCO"));
+    expect(mol.atoms.map((atom) => atom.element).join("")).toBe("CCOHHHHHH");
+    expect(mol.atoms.every((atom) => atom.element === "H" || atom.hCount === 0)).toBe(true);
+  });
+});
+
+describe("generateConformers", () => {
+  it("embeds bonds at their usual lengths", () => {
+    const { molecule, points } = conformerOf("C1CCCCC1");
+    for (const length of bondLengths(molecule, points, "C", "C")) expect(length).toBeCloseTo(1.53, 1);
+    for (const length of bondLengths(molecule, points, "C", "H")) expect(length).toBeCloseTo(1.11, 1);
+  });
+
+  it("keeps aromatic rings flat", () => {
+    const { points } = conformerOf("c1ccccc1");
+    const [origin, a, b] = points;
+    for (let k = 3; k < 6; k++) {
+      const volume = determinant(subtract(a, origin), subtract(b, origin), subtract(points[k], origin));
+      expect(Math.abs(volume)).toBeLessThan(0.01);
+    }
+  });
+
+  it("keeps tetrahedral and double-bond stereo", () => {
+    for (const smiles of ["N[C@@H](C)C(=O)O", "N[C@H](C)C(=O)O"]) {
+      const { molecule, points } = conformerOf(smiles);
+      expect(chiralityFromPoints(stereoNeighbors(molecule, 1), 1, points), smiles).toBe(molecule.atoms[1].chirality);
+    }
+    // The methyls of trans-2-butene are further apart than those of cis
+    const trans = conformerOf("C/C=C/C").points;
+    const cis = conformerOf("C/C=C\\C").points;
+    expect(distance(trans[0], trans[3])).toBeGreaterThan(3.5);
+    expect(distance(cis[0], cis[3])).toBeLessThan(3.3);
+  });
+
+  it("gives the same conformer for the same seed", () => {
+    const mol = parseSmiles("CCCCO");
+    expect(generateConformer(mol, { seed: 7 })?.points).toEqual(generateConformer(mol, { seed: 7 })?.points);
+  });
+});
+
+describe("conformer ensembles", () => {
+  it("ranks conformers by energy and reports their strain", () => {
+    const conformers = generateConformers(parseSmiles("CCCCCCO"), { count: 8 });
+    expect(conformers.length).toBeGreaterThan(1);
+    const energies = conformers.map((conformer) => conformer.energy);
+    expect([...energies].sort((a, b) => a - b)).toEqual(energies);
+    for (const { energy, strain, terms } of conformers) {
+      expect(terms.total).toBe(energy);
+      expect(strain).toBeCloseTo(terms.stretch + terms.bend + terms.torsion);
+    }
+  });
+
+  it("prunes conformers that only differ below the RMSD threshold", () => {
+    // Every embedding of benzene relaxes to the same geometry
+    expect(generateConformers(parseSmiles("c1ccccc1"), { count: 5 })).toHaveLength(1);
+    expect(generateConformers(parseSmiles("c1ccccc1"), { count: 5, pruneThreshold: 0 })).toHaveLength(5);
+  });
+});
@@ -0,0 +1,457 @@
+import {
+  EnergyTerms,
+  buildForceField,
+  minimizeGeometry,
+  strainEnergy,
+  uffAngle,
+  uffBondLength,
+  uffContactDistance,
+} from "./forcefield";
+import { determinant, distance, subtract, unflattenPoints } from "./geometry";
+import {
+  Atom,
+  Bond,
+  Molecule,
+  Point3D,
+  doubleBondStereo,
+  isHeavy,
+  neighbors,
+  permutationParity,
+  stereoNeighbors,
+} from "./molecule";
+import { minimize } from "./optimize";
+
+export interface ConformerOptions {
+  // Seed for the random distances, so the same input gives the same conformers
+  seed: number;
+  // Embeddings to run; near-duplicates among them are then pruned
+  count: number;
+  // Heavy-atom distance RMSD in ångström under which two conformers are the same
+  pruneThreshold: number;
+  // Embeddings tried before giving up, for example when stereo cannot be met
+  maxAttempts: number;
+  // Force-field iterations after embedding
+  maxIterations: number;
+}
+
+export interface Conformer {
+  // The input with every hydrogen as an explicit atom, in the same order as the points
+  molecule: Molecule;
+  points: Point3D[];
+  // UFF energy in kcal/mol: the total, its valence (strain) part and every term
+  energy: number;
+  strain: number;
+  terms: EnergyTerms;
+}
+
+export const DEFAULT_CONFORMER_OPTIONS: ConformerOptions = {
+  seed: 1,
+  count: 10,
+  pruneThreshold: 0.3,
+  maxAttempts: 10,
+  maxIterations: 2000,
+};
+
+// Bounds smoothing is cubic in atom count, hydrogens included
+export const MAX_CONFORMER_ATOMS = 300;
+
+// Distance slack in ångström for bonded, angle-defined and fixed torsion pairs
+const BOND_TOLERANCE = 0.01;
+const ANGLE_TOLERANCE = 0.06;
+const TORSION_TOLERANCE = 0.05;
+// Fraction of the UFF contact distance kept as the floor for distant pairs
+const CONTACT_SCALE = 0.7;
+const UNBOUNDED = 1000;
+// Signed volume (ångström³) a stereocentre must reach on its own side
+const CHIRAL_VOLUME = 0.5;
+
+// mulberry32: small, fast and good enough for picking distances
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * The molecule with implicit hydrogens added as atoms and bonds after the
+ * existing ones. Tetrahedral marks are rewritten for the new neighbour order,
+ * so the stereo reads the same.
+ */
+export const addHydrogens = (mol: Molecule): Molecule => {
+  const atoms: Atom[] = mol.atoms.map((atom) => ({ ...atom, hCount: 0 }));
+  const bonds: Bond[] = mol.bonds.map((bond) => ({ ...bond }));
+  const adjacency = mol.adjacency.map((list) => [...list]);
+  const firstHydrogen: number[] = [];
+  for (const atom of mol.atoms) {
+    for (let k = 0; k < atom.hCount; k++) {
+      const index = atoms.length;
+      if (k === 0) firstHydrogen[atom.index] = index;
+      atoms.push({
+        index,
+        element: "H",
+        aromatic: false,
+        charge: 0,
+        isotope: null,
+        hCount: 0,
+        bracket: true,
+        chirality: null,
+        atomClass: null,
+      });
+      const bond = { index: bonds.length, begin: atom.index, end: index, order: 1, aromatic: false, stereo: null };
+      bonds.push(bond);
+      adjacency[atom.index].push(bond.index);
+      adjacency.push([bond.index]);
+    }
+  }
+  const result = { atoms, bonds, adjacency, rings: mol.rings.map((ring) => [...ring]) };
+  for (const atom of mol.atoms) {
+    if (!atom.chirality || atom.hCount === 0) continue;
+    const before = stereoNeighbors(mol, atom.index).map((n) => (n < 0 ? firstHydrogen[atom.index] : n));
+    const after = stereoNeighbors(result, atom.index);
+    if (permutationParity(before, after) === 1) {
+      atoms[atom.index].chirality = atom.chirality === "@" ? "@@" : "@";
+    }
+  }
+  return result;
+};
+
+// Neighbour order for a tetrahedral mark, with the centre itself standing in for a lone pair
+const chiralOrder = (mol: Molecule, centre: number) => {
+  const order = stereoNeighbors(mol, centre);
+  if (order.length === 3) {
+    const preceded = mol.bonds[mol.adjacency[centre][0]].end === centre;
+    order.splice(preceded ? 1 : 0, 0, centre);
+  }
+  return order;
+};
+
+interface ChiralConstraint {
+  order: number[];
+  // -1 for @, whose volume is negative, and +1 for @@
+  sign: number;
+}
+
+const chiralConstraints = (mol: Molecule): ChiralConstraint[] =>
+  mol.atoms
+    .filter((atom) => atom.chirality && (mol.adjacency[atom.index].length === 3 || mol.adjacency[atom.index].length === 4))
+    .map((atom) => ({ order: chiralOrder(mol, atom.index), sign: atom.chirality === "@" ? -1 : 1 }));
+
+const signedVolume = (points: Point3D[], [a, b, c, d]: number[]) =>
+  determinant(subtract(points[b], points[a]), subtract(points[c], points[a]), subtract(points[d], points[a]));
+
+const topologicalDistances = (mol: Molecule) =>
+  mol.atoms.map((atom) => {
+    const depth = new Array<number>(mol.atoms.length).fill(Infinity);
+    depth[atom.index] = 0;
+    const queue = [atom.index];
+    for (let head = 0; head < queue.length; head++) {
+      for (const n of neighbors(mol, queue[head])) {
+        if (depth[n] === Infinity) {
+          depth[n] = depth[queue[head]] + 1;
+          queue.push(n);
+        }
+      }
+    }
+    return depth;
+  });
+
+/**
+ * Lower and upper distance bounds between all atom pairs: bond lengths and
+ * angles from UFF, cis and trans limits across each torsion (fixed for
+ * stereo double bonds and ring sp2 bonds), a contact floor for everything
+ * else, then tightened by the triangle inequality.
+ */
+const distanceBounds = (mol: Molecule) => {
+  const n = mol.atoms.length;
+  const ff = buildForceField(mol);
+  const elements = mol.atoms.map((atom) => atom.element);
+  const lower = new Float64Array(n * n);
+  const upper = new Float64Array(n * n).fill(UNBOUNDED);
+  const set = (i: number, j: number, low: number, high: number) => {
+    lower[i * n + j] = lower[j * n + i] = low;
+    upper[i * n + j] = upper[j * n + i] = high;
+  };
+  const bondLength = (i: number, j: number) => {
+    const bond = mol.bonds[mol.adjacency[i].find((b) => mol.bonds[b].begin === j || mol.bonds[b].end === j)];
+    return uffBondLength(ff.types, elements, i, j, bond.aromatic ? 1.5 : bond.order);
+  };
+  const sharedRing = (atoms: number[]) =>
+    mol.rings.filter((ring) => atoms.every((a) => ring.includes(a))).sort((a, b) => a.length - b.length)[0];
+  const angle = (i: number, j: number, k: number) => {
+    const ring = sharedRing([i, j, k]);
+    return ring && ring.length <= 5 ? (Math.PI * (ring.length - 2)) / ring.length : uffAngle(ff.types[j]);
+  };
+
+  const depth = topologicalDistances(mol);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      set(i, j, CONTACT_SCALE * uffContactDistance(elements[i], elements[j]), UNBOUNDED);
+      if (depth[i][j] === 1) {
+        const length = bondLength(i, j);
+        set(i, j, length - BOND_TOLERANCE, length + BOND_TOLERANCE);
+      }
+    }
+  }
+  for (let j = 0; j < n; j++) {
+    const around = neighbors(mol, j);
+    for (const i of around) {
+      for (const k of around) {
+        if (i >= k || depth[i][k] !== 2) continue;
+        const a = bondLength(i, j);
+        const b = bondLength(j, k);
+        const d = Math.sqrt(a * a + b * b - 2 * a * b * Math.cos(angle(i, j, k)));
+        set(i, k, d - ANGLE_TOLERANCE, d + ANGLE_TOLERANCE);
+      }
+    }
+  }
+  for (const bond of mol.bonds) {
+    const [j, k] = [bond.begin, bond.end];
+    const stereo = bond.order === 2 && !bond.aromatic ? doubleBondStereo(mol, bond) : null;
+    // Around a double or aromatic bond in a small ring, atoms on the same side of the ring are cis
+    const ring = (bond.order === 2 || bond.aromatic) && sharedRing([j, k]);
+    for (const i of neighbors(mol, j)) {
+      for (const l of neighbors(mol, k)) {
+        if (i === k || l === j || i === l || depth[i][l] !== 3) continue;
+        // Torsion end points in the plane of i-j-k, with l on i's side (cis) or opposite
+        const rij = bondLength(i, j);
+        const rjk = bondLength(j, k);
+        const rkl = bondLength(k, l);
+        const t1 = angle(i, j, k);
+        const t2 = angle(j, k, l);
+        const ix = rij * Math.cos(t1);
+        const iy = rij * Math.sin(t1);
+        const lx = rjk - rkl * Math.cos(t2);
+        const ly = rkl * Math.sin(t2);
+        const cis = Math.hypot(lx - ix, ly - iy);
+        const trans = Math.hypot(lx - ix, ly + iy);
+        if (stereo) {
+          const sameAsReference = (i === stereo.references.get(j)) === (l === stereo.references.get(k));
+          const isTrans = sameAsReference ? stereo.trans : !stereo.trans;
+          const d = isTrans ? trans : cis;
+          set(i, l, d - TORSION_TOLERANCE, d + TORSION_TOLERANCE);
+        } else if (ring && ring.length <= 7) {
+          const d = ring.includes(i) === ring.includes(l) ? cis : trans;
+          set(i, l, d - TORSION_TOLERANCE, d + TORSION_TOLERANCE);
+        } else {
+          set(i, l, cis, trans);
+        }
+      }
+    }
+  }
+
+  // Triangle smoothing: u(i,j) <= u(i,k) + u(k,j) and l(i,j) >= l(i,k) - u(k,j)
+  for (let k = 0; k < n; k++) {
+    for (let i = 0; i < n; i++) {
+      if (i === k) continue;
+      const uik = upper[i * n + k];
+      const lik = lower[i * n + k];
+      for (let j = i + 1; j < n; j++) {
+        if (j === k) continue;
+        const ukj = upper[k * n + j];
+        const lkj = lower[k * n + j];
+        const ij = i * n + j;
+        if (uik + ukj < upper[ij]) upper[ij] = upper[j * n + i] = uik + ukj;
+        const low = Math.max(lik - ukj, lkj - uik);
+        if (low > lower[ij]) lower[ij] = lower[j * n + i] = low;
+      }
+    }
+  }
+  for (let i = 0; i < n * n; i++) {
+    // Separate fragments stay a few ångström apart; crossed bounds meet in the middle
+    if (upper[i] >= UNBOUNDED) upper[i] = lower[i] + 5;
+    if (lower[i] > upper[i]) lower[i] = upper[i] = (lower[i] + upper[i]) / 2;
+  }
+  return { lower, upper };
+};
+
+// Top eigenvectors of a symmetric matrix by power iteration with deflation
+const topEigenvectors = (matrix: Float64Array, n: number, count: number, random: () => number) => {
+  const result: { value: number; vector: Float64Array }[] = [];
+  const work = Float64Array.from(matrix);
+  for (let e = 0; e < count; e++) {
+    let vector = Float64Array.from({ length: n }, () => random() - 0.5);
+    let value = 0;
+    for (let iteration = 0; iteration < 500; iteration++) {
+      const next = new Float64Array(n);
+      for (let i = 0; i < n; i++) {
+        let sum = 0;
+        for (let j = 0; j < n; j++) sum += work[i * n + j] * vector[j];
+        next[i] = sum;
+      }
+      const norm = Math.hypot(...next) || 1;
+      let change = 0;
+      for (let i = 0; i < n; i++) {
+        next[i] /= norm;
+        change = Math.max(change, Math.abs(Math.abs(next[i]) - Math.abs(vector[i])));
+      }
+      let dot = 0;
+      for (let i = 0; i < n; i++) dot += next[i] * vector[i];
+      value = norm * Math.sign(dot || 1);
+      vector = next;
+      if (change < 1e-7) break;
+    }
+    result.push({ value, vector });
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) work[i * n + j] -= value * vector[i] * vector[j];
+    }
+  }
+  return result;
+};
+
+// Coordinates whose distances best match random distances picked between the bounds
+const embed = (lower: Float64Array, upper: Float64Array, n: number, random: () => number) => {
+  const d2 = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const d = lower[i * n + j] + random() * (upper[i * n + j] - lower[i * n + j]);
+      d2[i * n + j] = d2[j * n + i] = d * d;
+    }
+  }
+  // Squared distance of each atom from the centroid
+  let total = 0;
+  for (let i = 0; i < n; i++) for (let j = i + 1; j < n; j++) total += d2[i * n + j];
+  const fromCentre = Array.from({ length: n }, (_, i) => {
+    let sum = 0;
+    for (let j = 0; j < n; j++) sum += d2[i * n + j];
+    return sum / n - total / (n * n);
+  });
+  const metric = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) metric[i * n + j] = (fromCentre[i] + fromCentre[j] - d2[i * n + j]) / 2;
+  }
+  const axes = topEigenvectors(metric, n, 3, random);
+  const x = new Float64Array(3 * n);
+  axes.forEach(({ value, vector }, axis) => {
+    const scale = Math.sqrt(Math.max(value, 1e-3));
+    for (let i = 0; i < n; i++) x[3 * i + axis] = value > 0 ? vector[i] * scale : random() - 0.5;
+  });
+  return x;
+};
+
+// Bound violations and wrong-handed stereocentres, in the error function of Havel's distance geometry
+const embeddingError = (lower: Float64Array, upper: Float64Array, n: number, chiral: ChiralConstraint[]) => (
+  x: Float64Array,
+  gradient: Float64Array
+) => {
+  gradient.fill(0);
+  let error = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const dx = x[3 * i] - x[3 * j];
+      const dy = x[3 * i + 1] - x[3 * j + 1];
+      const dz = x[3 * i + 2] - x[3 * j + 2];
+      const d2 = dx * dx + dy * dy + dz * dz;
+      const u2 = upper[i * n + j] ** 2;
+      const l2 = lower[i * n + j] ** 2;
+      let f = 0;
+      if (d2 > u2) {
+        const v = d2 / u2 - 1;
+        error += v * v;
+        f = (4 * v) / u2;
+      } else if (d2 < l2) {
+        const s = l2 + d2;
+        const v = (2 * l2) / s - 1;
+        error += v * v;
+        f = (-8 * v * l2) / (s * s);
+      }
+      if (f !== 0) {
+        gradient[3 * i] += f * dx;
+        gradient[3 * i + 1] += f * dy;
+        gradient[3 * i + 2] += f * dz;
+        gradient[3 * j] -= f * dx;
+        gradient[3 * j + 1] -= f * dy;
+        gradient[3 * j + 2] -= f * dz;
+      }
+    }
+  }
+  for (const { order, sign } of chiral) {
+    const [p0, p1, p2, p3] = order.map((a) => [x[3 * a], x[3 * a + 1], x[3 * a + 2]]);
+    const a = p1.map((v, k) => v - p0[k]);
+    const b = p2.map((v, k) => v - p0[k]);
+    const c = p3.map((v, k) => v - p0[k]);
+    const bc = [b[1] * c[2] - b[2] * c[1], b[2] * c[0] - b[0] * c[2], b[0] * c[1] - b[1] * c[0]];
+    const volume = a[0] * bc[0] + a[1] * bc[1] + a[2] * bc[2];
+    const shortfall = CHIRAL_VOLUME - sign * volume;
+    if (shortfall <= 0) continue;
+    error += shortfall * shortfall;
+    const ca = [c[1] * a[2] - c[2] * a[1], c[2] * a[0] - c[0] * a[2], c[0] * a[1] - c[1] * a[0]];
+    const ab = [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+    const f = -2 * shortfall * sign;
+    for (let k = 0; k < 3; k++) {
+      gradient[3 * order[1] + k] += f * bc[k];
+      gradient[3 * order[2] + k] += f * ca[k];
+      gradient[3 * order[3] + k] += f * ab[k];
+      gradient[3 * order[0] + k] -= f * (bc[k] + ca[k] + ab[k]);
+    }
+  }
+  return error;
+};
+
+const stereoHolds = (points: Point3D[], chiral: ChiralConstraint[]) =>
+  chiral.every(({ order, sign }) => sign * signedVolume(points, order) > 0);
+
+// Root-mean-square difference of the heavy-atom distance matrices, which needs no alignment
+const distanceRmsd = (atoms: number[], a: Point3D[], b: Point3D[]) => {
+  let sum = 0;
+  let pairs = 0;
+  for (let i = 0; i < atoms.length; i++) {
+    for (let j = i + 1; j < atoms.length; j++) {
+      sum += (distance(a[atoms[i]], a[atoms[j]]) - distance(b[atoms[i]], b[atoms[j]])) ** 2;
+      pairs++;
+    }
+  }
+  return pairs ? Math.sqrt(sum / pairs) : 0;
+};
+
+/**
+ * Conformers by distance geometry: random distances within the bounds are
+ * embedded through the metric matrix, refined against the bounds and
+ * stereocentre volumes, then relaxed with UFF. Near-duplicates are pruned,
+ * keeping the lower energy, and the rest come back lowest energy first. Empty
+ * for structures over MAX_CONFORMER_ATOMS or when no embedding keeps the stereo.
+ */
+export const generateConformers = (mol: Molecule, overrides: Partial<ConformerOptions> = {}): Conformer[] => {
+  const { seed, count, pruneThreshold, maxAttempts, maxIterations } = { ...DEFAULT_CONFORMER_OPTIONS, ...overrides };
+  const full = addHydrogens(mol);
+  const n = full.atoms.length;
+  if (n === 0 || n > MAX_CONFORMER_ATOMS) return [];
+  const { lower, upper } = distanceBounds(full);
+  const chiral = chiralConstraints(full);
+  const ff = buildForceField(full);
+  const random = seededRandom(seed);
+  const heavy = full.atoms.filter(isHeavy).map((atom) => atom.index);
+  const compared = heavy.length >= 3 ? heavy : full.atoms.map((atom) => atom.index);
+
+  const embedOne = (): Conformer | null => {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const start = embed(lower, upper, n, random);
+      const refined = minimize(embeddingError(lower, upper, n, chiral), start, {
+        maxIterations: 500,
+        gradientTolerance: 1e-4,
+      });
+      if (!stereoHolds(unflattenPoints(refined.x), chiral)) continue;
+      const { points, terms } = minimizeGeometry(ff, unflattenPoints(refined.x), { maxIterations });
+      if (!stereoHolds(points, chiral)) continue;
+      return { molecule: full, points, energy: terms.total, strain: strainEnergy(terms), terms };
+    }
+    return null;
+  };
+
+  const conformers: Conformer[] = [];
+  for (let k = 0; k < count; k++) {
+    const conformer = embedOne();
+    if (!conformer) continue;
+    const twin = conformers.findIndex((other) => distanceRmsd(compared, other.points, conformer.points) < pruneThreshold);
+    if (twin === -1) conformers.push(conformer);
+    else if (conformer.energy < conformers[twin].energy) conformers[twin] = conformer;
+  }
+  return conformers.sort((a, b) => a.energy - b.energy);
+};
+
+export const generateConformer = (mol: Molecule, overrides: Partial<ConformerOptions> = {}): Conformer | null =>
+  generateConformers(mol, { ...overrides, count: 1 })[0] ?? null;
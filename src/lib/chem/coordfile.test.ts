@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { writePdb, writeXyz } from "./coordfile";
+import { parseSmiles } from "./smiles";
+
+const mol = parseSmiles("C[O-]");
+const points = [
+  { x: 0, y: 0, z: 0 },
+  { x: 1.43, y: -0.25, z: 0.5 },
+];
+
+describe("writeXyz", () => {
+  it("writes the atom count, a one-line title and a position per atom", () => {
+    expect(writeXyz(mol, points, "methoxide\nanion")).toBe(
+      "2\nmethoxide anion\nC  0.000000 0.000000 0.000000\nO  1.430000 -0.250000 0.500000\n"
+    );
+  });
+});
+
+describe("writePdb", () => {
+  it("writes fixed-column HETATM records and CONECT records", () => {
+    const lines = writePdb(mol, points, "methoxide").trimEnd().split("\n");
+    expect(lines[0]).toBe("COMPND    methoxide");
+    expect(lines[2]).toBe("HETATM    2  O1  UNL A   1       1.430  -0.250   0.500  1.00  0.00           O1-");
+    expect([lines[2].slice(30, 38), lines[2].slice(76, 78), lines[2].slice(78, 80)]).toEqual(["   1.430", " O", "1-"]);
+    expect(lines.slice(3)).toEqual(["CONECT    1    2", "CONECT    2    1", "END"]);
+  });
+});
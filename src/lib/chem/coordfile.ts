@@ -0,0 +1,59 @@
+import { Molecule, Point3D, neighbors } from "./molecule";
+
+// XYZ: atom count, a title line, then one element and position per line
+export const writeXyz = (mol: Molecule, points: Point3D[], name = "") =>
+  [
+    String(mol.atoms.length),
+    name.replace(/\r?\n/g, " "),
+    ...mol.atoms.map((atom) => {
+      const p = points[atom.index];
+      return [atom.element.padEnd(2), p.x.toFixed(6), p.y.toFixed(6), p.z.toFixed(6)].join(" ");
+    }),
+  ].join("\n") + "\n";
+
+/**
+ * PDB with one HETATM record per atom in a single UNL residue and CONECT
+ * records for the bonds. Atom names number each element separately (C1, C2,
+ * O1), and a one-letter element starts in column 14 as the format expects.
+ */
+export const writePdb = (mol: Molecule, points: Point3D[], name = "") => {
+  const counts: Record<string, number> = {};
+  const lines = name ? [`COMPND    ${name.replace(/\r?\n/g, " ").slice(0, 70)}`] : [];
+  for (const atom of mol.atoms) {
+    const p = points[atom.index];
+    counts[atom.element] = (counts[atom.element] ?? 0) + 1;
+    const label = `${atom.element.toUpperCase()}${counts[atom.element]}`.slice(0, 4);
+    const atomName = (atom.element.length === 1 && label.length < 4 ? ` ${label}` : label).padEnd(4);
+    const charge = atom.charge === 0 ? "  " : `${Math.abs(atom.charge)}${atom.charge > 0 ? "+" : "-"}`;
+    lines.push(
+      "HETATM" +
+        String(atom.index + 1).padStart(5) +
+        " " +
+        atomName +
+        " " +
+        "UNL" +
+        " " +
+        "A" +
+        "1".padStart(4) +
+        "    " +
+        p.x.toFixed(3).padStart(8) +
+        p.y.toFixed(3).padStart(8) +
+        p.z.toFixed(3).padStart(8) +
+        "1.00".padStart(6) +
+        "0.00".padStart(6) +
+        " ".repeat(10) +
+        atom.element.toUpperCase().padStart(2) +
+        charge
+    );
+  }
+  for (const atom of mol.atoms) {
+    const bonded = neighbors(mol, atom.index);
+    // At most four partners fit on one CONECT line
+    for (let k = 0; k < bonded.length; k += 4) {
+      const partners = bonded.slice(k, k + 4).map((n) => String(n + 1).padStart(5));
+      lines.push(`CONECT${String(atom.index + 1).padStart(5)}${partners.join("")}`);
+    }
+  }
+  lines.push("END");
+  return lines.join("\n") + "\n";
+};
@@ -0,0 +1,309 @@
+import { Molecule, neighbors, otherAtom } from "./molecule";
+
+// Wildman & Crippen (1999) atom types: [logP contribution, molar refractivity]
+const CRIPPEN_TYPES: Record<string, [number, number]> = {
+  C1: [0.1441, 2.503],
+  C2: [0.0, 2.433],
+  C3: [-0.2035, 2.753],
+  C4: [-0.2051, 2.731],
+  C5: [-0.2783, 5.007],
+  C6: [0.1551, 3.513],
+  C7: [0.0017, 3.888],
+  C8: [0.08452, 2.464],
+  C9: [-0.1444, 2.412],
+  C10: [-0.0516, 2.488],
+  C11: [0.1193, 2.582],
+  C12: [-0.0967, 2.576],
+  C13: [-0.5443, 4.041],
+  C14: [0.0, 3.257],
+  C15: [0.245, 3.564],
+  C16: [0.198, 3.18],
+  C17: [0.0, 3.104],
+  C18: [0.1581, 3.35],
+  C19: [0.2955, 4.346],
+  C20: [0.2713, 3.904],
+  C21: [0.136, 3.509],
+  C22: [0.4619, 3.067],
+  C23: [0.5437, 3.853],
+  C24: [0.1893, 2.673],
+  C25: [-0.8186, 3.135],
+  C26: [0.264, 4.305],
+  C27: [0.2148, 2.693],
+  CS: [0.08129, 3.243],
+  H1: [0.123, 1.057],
+  H2: [-0.2677, 1.395],
+  H3: [0.2142, 0.9627],
+  H4: [0.298, 1.805],
+  HS: [0.1125, 1.112],
+  N1: [-1.019, 2.262],
+  N2: [-0.7096, 2.173],
+  N3: [-1.027, 2.827],
+  N4: [-0.5188, 3.0],
+  N5: [0.08387, 1.757],
+  N6: [0.1836, 2.428],
+  N7: [-0.3187, 1.839],
+  N8: [-0.4458, 2.819],
+  N9: [0.01508, 1.725],
+  N10: [-1.95, 0],
+  N11: [-0.3239, 2.202],
+  N12: [-1.119, 0],
+  N13: [-0.3396, 0.2604],
+  N14: [0.2887, 3.359],
+  NS: [-0.4806, 2.134],
+  O1: [0.1552, 1.08],
+  O2: [-0.2893, 0.8238],
+  O3: [-0.0684, 1.085],
+  O4: [-0.4195, 1.182],
+  O5: [0.0335, 3.367],
+  O6: [-0.3339, 0.7774],
+  O7: [-1.189, 0],
+  O8: [0.1788, 3.135],
+  O9: [-0.1526, 0],
+  O10: [0.1129, 0.2215],
+  O11: [0.4833, 0.389],
+  O12: [-1.326, 0],
+  OS: [-0.1188, 0.6865],
+  F: [0.4202, 1.108],
+  Cl: [0.6895, 5.853],
+  Br: [0.8456, 8.927],
+  I: [0.8857, 14.02],
+  Hal: [-2.996, 0],
+  P: [0.8612, 6.92],
+  S1: [0.6482, 7.591],
+  S2: [-0.0024, 7.365],
+  S3: [0.6237, 6.691],
+  Me1: [-0.3808, 5.754],
+  Me2: [-0.0025, 0],
+};
+
+const HETERO = new Set(["N", "O", "P", "S", "F", "Cl", "Br", "I"]);
+const STANDARD = new Set(["C", "N", "O", "P", "S", "F", "Cl", "Br", "I", "H"]);
+const ALKALI = new Set(["Li", "Na", "K", "Rb", "Cs"]);
+const ALKALINE_EARTH = new Set(["Be", "Mg", "Ca", "Sr", "Ba"]);
+
+interface Neighbor {
+  atom: number;
+  element: string;
+  aromatic: boolean;
+  order: number;
+}
+
+const heavyNeighbors = (mol: Molecule, index: number): Neighbor[] =>
+  mol.adjacency[index]
+    .map((b) => {
+      const bond = mol.bonds[b];
+      const atom = otherAtom(bond, index);
+      return { atom, element: mol.atoms[atom].element, aromatic: mol.atoms[atom].aromatic, order: bond.order };
+    })
+    .filter((n) => n.element !== "H");
+
+const hydrogenCount = (mol: Molecule, index: number) =>
+  mol.atoms[index].hCount + neighbors(mol, index).filter((n) => mol.atoms[n].element === "H").length;
+
+const aliphaticCarbon = (n: Neighbor) => n.element === "C" && !n.aromatic;
+const aliphaticHetero = (n: Neighbor) => HETERO.has(n.element) && !n.aromatic;
+
+const carbonType = (mol: Molecule, index: number): string => {
+  const nbrs = heavyNeighbors(mol, index);
+  const h = hydrogenCount(mol, index);
+  const connections = nbrs.length + h;
+  const single = nbrs.filter((n) => n.order === 1);
+  const allSingle = single.length === nbrs.length;
+
+  if (mol.atoms[index].aromatic) {
+    const aromaticBonds = nbrs.filter((n) => n.order === 1.5);
+    const substituent = nbrs.find((n) => n.order !== 1.5);
+    if (h === 0 && substituent?.order === 1 && !substituent.aromatic && !STANDARD.has(substituent.element)) return "C13";
+    if (nbrs.some((n) => n.element === "F")) return "C14";
+    if (nbrs.some((n) => n.element === "Cl")) return "C15";
+    if (nbrs.some((n) => n.element === "Br")) return "C16";
+    if (nbrs.some((n) => n.element === "I")) return "C17";
+    if (h > 0) return "C18";
+    if (aromaticBonds.length >= 3) return "C19";
+    if (aromaticBonds.length === 2 && substituent) {
+      if (substituent.order === 2 && ["C", "N", "O"].includes(substituent.element)) return "C25";
+      if (substituent.order === 1 && substituent.aromatic) return "C20";
+      if (substituent.order === 1 && substituent.element === "C") return "C21";
+      if (substituent.order === 1 && substituent.element === "N") return "C22";
+      if (substituent.order === 1 && substituent.element === "O") return "C23";
+      if (substituent.order === 1 && substituent.element === "S") return "C24";
+    }
+    return "CS";
+  }
+
+  if (h === 4) return "C1";
+  if (allSingle && nbrs.every(aliphaticCarbon)) {
+    if (h === 3 || (h === 2 && nbrs.length === 2)) return "C1";
+    if (connections === 4) return "C2";
+  }
+  const allAliphatic = nbrs.every((n) => !n.aromatic);
+  if (allSingle && allAliphatic && nbrs.some(aliphaticHetero)) {
+    if (h === 3) return "C3";
+    if (connections === 4 && h === 2) return "C3";
+    if (connections === 4) return "C4";
+  }
+  if (nbrs.some((n) => n.order === 2 && !n.aromatic && n.element !== "C")) return "C5";
+  const doubleToCarbon = nbrs.find((n) => n.order === 2 && aliphaticCarbon(n));
+  if (doubleToCarbon && nbrs.every((n) => !n.aromatic)) return "C6";
+  if (connections === 2 && nbrs.some((n) => n.order === 3 && !n.aromatic)) return "C7";
+  if (h === 3 && nbrs[0]?.aromatic) return nbrs[0].element === "C" ? "C8" : "C9";
+  if (connections === 4 && allSingle && nbrs.some((n) => n.aromatic)) {
+    return h === 2 ? "C10" : h === 1 ? "C11" : "C12";
+  }
+  if (nbrs.some((n) => n.order === 2 && n.element === "C")) return "C26";
+  if (connections === 4 && nbrs.some((n) => !n.aromatic && !STANDARD.has(n.element))) return "C27";
+  return "CS";
+};
+
+const nitrogenType = (mol: Molecule, index: number): string => {
+  const atom = mol.atoms[index];
+  const nbrs = heavyNeighbors(mol, index);
+  const h = hydrogenCount(mol, index);
+  if (atom.aromatic) return atom.charge > 0 ? "N12" : "N11";
+  if (atom.charge > 0) {
+    if (h > 0) return "N10";
+    return nbrs.some((n) => n.order === 3) || nbrs.some((n) => n.order === 2 && mol.atoms[n.atom].charge < 0)
+      ? "N14"
+      : "N13";
+  }
+  if (atom.charge < 0) return "N14";
+
+  const single = nbrs.filter((n) => n.order === 1);
+  const anyAromatic = nbrs.some((n) => n.aromatic);
+  if (h === 2 && single.length === 1) return anyAromatic ? "N3" : "N1";
+  if (h === 1 && single.length === 2) return anyAromatic ? "N4" : "N2";
+  if (h === 1 && nbrs.length === 1 && nbrs[0].order === 2) return "N5";
+  if (h === 0) {
+    if (nbrs.some((n) => n.order === 3)) return "N9";
+    if (nbrs.some((n) => n.order === 2) && nbrs.length === 2) return "N6";
+    if (single.length === 3) return anyAromatic ? "N8" : "N7";
+  }
+  return "NS";
+};
+
+const carbonylOxygenType = (mol: Molecule, carbon: number, oxygen: number): string => {
+  const others = heavyNeighbors(mol, carbon).filter((n) => n.atom !== oxygen);
+  const h = hydrogenCount(mol, carbon);
+  if (others.length === 0) return "O9";
+  if (others.length === 1) {
+    const other = others[0];
+    if (other.order === 2 && other.element === "O") return "O9";
+    if (h > 0 && !other.aromatic && ["C", "N", "O"].includes(other.element)) return "O9";
+    if (h > 0 && other.aromatic && other.element === "C") return "O10";
+  }
+  if (others.length === 2) {
+    const [a, b] = others;
+    const isAliphaticC = (n: Neighbor) => n.element === "C" && !n.aromatic;
+    if ((isAliphaticC(a) && !b.aromatic) || (isAliphaticC(b) && !a.aromatic)) return "O9";
+    const isCarbon = (n: Neighbor) => n.element === "C";
+    const isAromaticC = (n: Neighbor) => n.element === "C" && n.aromatic;
+    if ((isCarbon(a) && b.aromatic) || (isCarbon(b) && a.aromatic)) return "O10";
+    if (isAromaticC(a) || isAromaticC(b)) return "O10";
+    if (a.element !== "C" && b.element !== "C") return "O11";
+  }
+  return "OS";
+};
+
+const oxygenType = (mol: Molecule, index: number): string => {
+  const atom = mol.atoms[index];
+  const nbrs = heavyNeighbors(mol, index);
+  const h = hydrogenCount(mol, index);
+  if (atom.aromatic) return "O1";
+  if (atom.charge < 0 && nbrs.length === 1) {
+    const partner = nbrs[0];
+    if (partner.element === "N") return "O5";
+    if (partner.element === "S") return "O6";
+    const carboxylate = partner.element === "C" &&
+      heavyNeighbors(mol, partner.atom).some((n) => n.element === "O" && n.order === 2);
+    return carboxylate ? "O12" : "O7";
+  }
+  if (atom.charge !== 0) return "OS";
+  if (h > 0) return "O2";
+  if (nbrs.length === 2 && nbrs.every((n) => n.order === 1)) return nbrs.some((n) => n.aromatic) ? "O4" : "O3";
+  if (nbrs.length === 1 && nbrs[0].order === 2) {
+    const partner = nbrs[0];
+    if (partner.element === "N" || partner.element === "O") return "O5";
+    if (partner.element === "C" && partner.aromatic) return "O8";
+    if (partner.element === "C") return carbonylOxygenType(mol, partner.atom, index);
+  }
+  return "OS";
+};
+
+const hydrogenType = (mol: Molecule, parent: number): string => {
+  const element = mol.atoms[parent].element;
+  if (element === "C" || element === "H") return "H1";
+  if (element === "N") return "H3";
+  if (element !== "O") return "H2";
+
+  const others = heavyNeighbors(mol, parent);
+  if (others.length === 0) return "H2";
+  const partner = others[0];
+  const partnerAtom = mol.atoms[partner.atom];
+  if (partner.element === "C") {
+    const connections = heavyNeighbors(mol, partner.atom).length + hydrogenCount(mol, partner.atom);
+    if (partnerAtom.aromatic || connections === 4) return "H2";
+  } else if (!["N", "O", "S"].includes(partner.element)) {
+    return "H2";
+  }
+  if (partner.element === "N") return "H3";
+  if (partner.element === "O" || partner.element === "S") return "H4";
+  const acidic = heavyNeighbors(mol, partner.atom).some(
+    (n) => n.atom !== parent && n.order === 2 && ["C", "N", "O", "S"].includes(n.element)
+  );
+  return acidic ? "H4" : "HS";
+};
+
+export const crippenType = (mol: Molecule, index: number): string => {
+  const atom = mol.atoms[index];
+  switch (atom.element) {
+    case "C":
+      return carbonType(mol, index);
+    case "N":
+      return nitrogenType(mol, index);
+    case "O":
+      return oxygenType(mol, index);
+    case "F":
+    case "Cl":
+    case "Br":
+    case "I":
+      return atom.charge === 0 ? atom.element : "Hal";
+    case "P":
+      return "P";
+    case "S":
+      return atom.aromatic ? "S3" : atom.charge === 0 ? "S1" : "S2";
+    case "H": {
+      const parent = neighbors(mol, index)[0];
+      return parent === undefined ? "HS" : hydrogenType(mol, parent);
+    }
+    default:
+      if (ALKALI.has(atom.element)) return "Me1";
+      if (ALKALINE_EARTH.has(atom.element)) return "Me2";
+      return "";
+  }
+};
+
+export interface CrippenContributions {
+  // Per-atom values with implicit hydrogens folded into their heavy atom
+  logp: number[];
+  mr: number[];
+}
+
+export const crippenContributions = (mol: Molecule): CrippenContributions => {
+  const logp = mol.atoms.map(() => 0);
+  const mr = mol.atoms.map(() => 0);
+  mol.atoms.forEach((atom, index) => {
+    const [atomLogp, atomMr] = CRIPPEN_TYPES[crippenType(mol, index)] ?? [0, 0];
+    logp[index] += atomLogp;
+    mr[index] += atomMr;
+    if (atom.hCount > 0 && atom.element !== "H") {
+      const [hLogp, hMr] = CRIPPEN_TYPES[hydrogenType(mol, index)];
+      logp[index] += hLogp * atom.hCount;
+      mr[index] += hMr * atom.hCount;
+    }
+  });
+  return { logp, mr };
+};
+
+export const crippenLogP = (mol: Molecule) => crippenContributions(mol).logp.reduce((a, b) => a + b, 0);
+
+export const crippenMR = (mol: Molecule) => crippenContributions(mol).mr.reduce((a, b) => a + b, 0);
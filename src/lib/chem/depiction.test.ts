@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { contributionColor, contributionHighlights, depictMolecule, matchHighlights } from "./depiction";
+import { parseSmiles } from "./smiles";
+
+describe("depictMolecule", () => {
+  it("labels heteroatoms with their hydrogens and charges and leaves carbons bare", () => {
+    const { atoms } = depictMolecule(parseSmiles("OCc1ccccc1[NH3+]"));
+    expect(atoms[0].label).toMatchObject({ symbol: "O", hydrogens: 1, charge: "" });
+    expect(atoms[8].label).toMatchObject({ symbol: "N", hydrogens: 3, charge: "+" });
+    expect(atoms.slice(1, 8).every((atom) => atom.label === null)).toBe(true);
+  });
+
+  it("draws aromatic bonds as a solid and a dashed line", () => {
+    const { lines } = depictMolecule(parseSmiles("c1ccccc1"));
+    expect(lines.filter((line) => line.dashed)).toHaveLength(6);
+    expect(lines.filter((line) => !line.dashed)).toHaveLength(6);
+  });
+
+  it("fits every atom inside the padded canvas", () => {
+    const { width, height, atoms } = depictMolecule(parseSmiles("CC(=O)Oc1ccccc1C(=O)O"), { padding: 10 });
+    for (const atom of atoms) {
+      expect(atom.x).toBeGreaterThanOrEqual(10);
+      expect(atom.x).toBeLessThanOrEqual(width - 10);
+      expect(atom.y).toBeGreaterThanOrEqual(10);
+      expect(atom.y).toBeLessThanOrEqual(height - 10);
+    }
+  });
+
+  it("draws implicit hydrogens as atoms when asked", () => {
+    const { atoms, lines } = depictMolecule(parseSmiles("CO"), { showHydrogens: true });
+    expect(atoms.filter((atom) => atom.index === -1)).toHaveLength(4);
+    expect(lines).toHaveLength(5);
+  });
+});
+
+describe("matchHighlights", () => {
+  it("highlights matched atoms and the bonds between them", () => {
+    const mol = parseSmiles("CC(=O)O");
+    const { atoms, bonds } = matchHighlights(mol, [1, 2, 2, 3], "red");
+    expect(atoms).toEqual([
+      { atom: 1, color: "red" },
+      { atom: 2, color: "red" },
+      { atom: 3, color: "red" },
+    ]);
+    expect(bonds.map((bond) => bond.bond)).toEqual([1, 2]);
+  });
+});
+
+describe("contributionColor", () => {
+  it("runs from blue through white to red, clamped at the range", () => {
+    expect(contributionColor(0, 1)).toBe("rgb(255, 255, 255)");
+    expect(contributionColor(1, 1)).toBe("rgb(220, 38, 38)");
+    expect(contributionColor(-5, 1)).toBe("rgb(37, 99, 235)");
+    expect(contributionColor(0.5, 1)).toBe("rgb(238, 147, 147)");
+  });
+
+  it("scales per-atom highlights to the largest magnitude", () => {
+    const [negative, zero, positive] = contributionHighlights([-2, 0, 1]);
+    expect(negative).toEqual({ atom: 0, color: "rgb(37, 99, 235)", label: "-2.00" });
+    expect(zero.color).toBe("rgb(255, 255, 255)");
+    expect(positive.color).toBe(contributionColor(0.5, 1));
+  });
+});
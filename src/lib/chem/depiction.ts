@@ -0,0 +1,328 @@
+import { computeLayout, freeAngles, wedgeBonds } from "./layout";
+import { Bond, Molecule, Point3D, bondKey, neighbors } from "./molecule";
+
+export interface DepictionOptions {
+  // Pixels per bond length
+  scale: number;
+  padding: number;
+  // Draw implicit hydrogens as atoms on their own bonds instead of inside labels
+  showHydrogens: boolean;
+}
+
+export interface AtomLabel {
+  symbol: string;
+  // Hydrogens written next to the symbol, as in OH or NH2
+  hydrogens: number;
+  hydrogensLeft: boolean;
+  charge: string;
+  isotope: number | null;
+}
+
+export interface DepictedAtom {
+  // Atom index, or -1 for a hydrogen drawn from an implicit count
+  index: number;
+  element: string;
+  x: number;
+  y: number;
+  // Null for a carbon drawn as a bare vertex
+  label: AtomLabel | null;
+}
+
+export interface DepictedLine {
+  // Bond index, or -1 for the bond to a drawn implicit hydrogen
+  bond: number;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  dashed: boolean;
+}
+
+export interface DepictedWedge {
+  bond: number;
+  // Triangle corners: the narrow end first
+  points: [number, number][];
+}
+
+export interface Depiction {
+  width: number;
+  height: number;
+  // Molecule atoms by index, followed by any drawn implicit hydrogens
+  atoms: DepictedAtom[];
+  lines: DepictedLine[];
+  wedges: DepictedWedge[];
+}
+
+// Jmol-style CPK colors; carbon and hydrogen in neutral greys so they read on light and dark themes
+const CPK_COLORS: Record<string, string> = {
+  H: "#71717a",
+  C: "#52525b",
+  N: "#2563eb",
+  O: "#dc2626",
+  S: "#eab308",
+  P: "#ea580c",
+  F: "#22c55e",
+  Cl: "#16a34a",
+  Br: "#b45309",
+  I: "#7e22ce",
+  B: "#f59e0b",
+  Si: "#a16207",
+};
+
+// Pink marks elements without a CPK entry, as in Jmol
+export const cpkColor = (element: string) => CPK_COLORS[element] ?? "#ec4899";
+
+// A colored disc or band behind one atom or bond, with an optional text tag beside it
+export interface AtomHighlight {
+  atom: number;
+  color: string;
+  label?: string;
+}
+
+export interface BondHighlight {
+  bond: number;
+  color: string;
+  label?: string;
+}
+
+export interface DepictionHighlights {
+  atoms: AtomHighlight[];
+  bonds: BondHighlight[];
+}
+
+export const HIGHLIGHT_COLOR = "#fbbf24";
+
+// Matched atoms and every bond between two of them, as substructure and MCS hits are shown
+export const matchHighlights = (mol: Molecule, atoms: number[], color = HIGHLIGHT_COLOR): DepictionHighlights => {
+  const matched = new Set(atoms);
+  return {
+    atoms: [...matched].map((atom) => ({ atom, color })),
+    bonds: mol.bonds
+      .filter((bond) => matched.has(bond.begin) && matched.has(bond.end))
+      .map((bond) => ({ bond: bond.index, color })),
+  };
+};
+
+/**
+ * Diverging color for a signed per-atom contribution: blue below zero, red
+ * above, fading to white at zero. `range` is the magnitude drawn at full
+ * strength; larger values are clamped to it.
+ */
+export const contributionColor = (value: number, range: number) => {
+  const t = range > 0 ? Math.min(1, Math.abs(value) / range) : 0;
+  const [r, g, b] = value < 0 ? [37, 99, 235] : [220, 38, 38];
+  const mix = (channel: number) => Math.round(255 + (channel - 255) * t);
+  return `rgb(${mix(r)}, ${mix(g)}, ${mix(b)})`;
+};
+
+// Per-atom highlights for signed contributions, scaled to the largest magnitude in the molecule
+export const contributionHighlights = (values: number[], digits = 2): AtomHighlight[] => {
+  const range = Math.max(0, ...values.map(Math.abs));
+  return values.map((value, atom) => ({ atom, color: contributionColor(value, range), label: value.toFixed(digits) }));
+};
+
+export const DEFAULT_DEPICTION_OPTIONS: DepictionOptions = { scale: 40, padding: 24, showHydrogens: false };
+
+// Distances in bond lengths
+const LABEL_CLEARANCE = 0.3;
+const DOUBLE_OFFSET = 0.18;
+const INNER_SHORTENING = 0.15;
+const HYDROGEN_BOND_LENGTH = 0.75;
+const WEDGE_WIDTH = 0.22;
+const HASH_COUNT = 6;
+
+const chargeText = (charge: number) => {
+  if (charge === 0) return "";
+  const sign = charge > 0 ? "+" : "−";
+  return Math.abs(charge) === 1 ? sign : `${Math.abs(charge)}${sign}`;
+};
+
+// Point a fraction `t` of the way from a to b
+const along = (a: Point3D, b: Point3D, t: number): Point3D => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  z: 0,
+});
+
+const shift = (p: Point3D, dx: number, dy: number): Point3D => ({ x: p.x + dx, y: p.y + dy, z: 0 });
+
+/**
+ * Drawing primitives for a 2D structure diagram in SVG pixel space: carbons as
+ * bare vertices, other atoms as labels with their hydrogens and charges, and
+ * bonds as single, double, triple or aromatic (solid plus dashed) lines with
+ * wedges for tetrahedral stereo.
+ */
+export const depictMolecule = (mol: Molecule, overrides: Partial<DepictionOptions> = {}): Depiction => {
+  const { scale, padding, showHydrogens } = { ...DEFAULT_DEPICTION_OPTIONS, ...overrides };
+  const layout = computeLayout(mol);
+  const wedges = wedgeBonds(mol, layout);
+
+  const labelled = mol.atoms.map(
+    (atom) =>
+      atom.element !== "C" ||
+      atom.charge !== 0 ||
+      atom.isotope !== null ||
+      mol.adjacency[atom.index].length === 0
+  );
+
+  const atoms: DepictedAtom[] = mol.atoms.map((atom) => {
+    const p = layout[atom.index];
+    const rightward = neighbors(mol, atom.index).reduce((sum, n) => sum + layout[n].x - p.x, 0);
+    const hydrogens = showHydrogens ? 0 : atom.hCount;
+    return {
+      index: atom.index,
+      element: atom.element,
+      x: p.x,
+      y: p.y,
+      label: labelled[atom.index]
+        ? {
+            symbol: atom.element,
+            hydrogens,
+            hydrogensLeft: hydrogens > 0 && rightward > 0.1,
+            charge: chargeText(atom.charge),
+            isotope: atom.isotope,
+          }
+        : null,
+    };
+  });
+
+  const lines: DepictedLine[] = [];
+  const wedgeShapes: DepictedWedge[] = [];
+  const line = (bond: number, a: Point3D, b: Point3D, dashed = false) =>
+    lines.push({ bond, x1: a.x, y1: a.y, x2: b.x, y2: b.y, dashed });
+
+  // Bond ends pulled back from labels so lines do not run into the text
+  const ends = (from: number, to: number, fromLabelled: boolean, toLabelled: boolean) => {
+    const a = layout[from];
+    const b = layout[to];
+    return [along(a, b, fromLabelled ? LABEL_CLEARANCE : 0), along(a, b, toLabelled ? 1 - LABEL_CLEARANCE : 1)];
+  };
+
+  if (showHydrogens) {
+    for (const atom of mol.atoms) {
+      if (atom.hCount === 0) continue;
+      const p = layout[atom.index];
+      const taken = neighbors(mol, atom.index).map((n) => Math.atan2(layout[n].y - p.y, layout[n].x - p.x));
+      for (const angle of freeAngles(taken, atom.hCount)) {
+        const h = { x: p.x + HYDROGEN_BOND_LENGTH * Math.cos(angle), y: p.y + HYDROGEN_BOND_LENGTH * Math.sin(angle), z: 0 };
+        atoms.push({
+          index: -1,
+          element: "H",
+          x: h.x,
+          y: h.y,
+          label: { symbol: "H", hydrogens: 0, hydrogensLeft: false, charge: "", isotope: null },
+        });
+        const start = along(p, h, labelled[atom.index] ? LABEL_CLEARANCE / HYDROGEN_BOND_LENGTH : 0);
+        line(-1, start, along(p, h, 1 - LABEL_CLEARANCE / HYDROGEN_BOND_LENGTH));
+      }
+    }
+  }
+
+  // Smallest ring through a bond, whose centre the inner line of a ring double bond faces
+  const ringCentre = (bond: Bond) => {
+    const ring = mol.rings
+      .filter((r) => r.includes(bond.begin) && r.includes(bond.end))
+      .filter((r) => r.some((a, k) => bondKey(a, r[(k + 1) % r.length]) === bondKey(bond.begin, bond.end)))
+      .sort((a, b) => a.length - b.length)[0];
+    if (!ring) return null;
+    return {
+      x: ring.reduce((sum, a) => sum + layout[a].x, 0) / ring.length,
+      y: ring.reduce((sum, a) => sum + layout[a].y, 0) / ring.length,
+      z: 0,
+    };
+  };
+
+  for (const bond of mol.bonds) {
+    const [a, b] = ends(bond.begin, bond.end, labelled[bond.begin], labelled[bond.end]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy) || 1;
+    // Unit normal, one bond-offset long
+    const nx = (-dy / length) * DOUBLE_OFFSET;
+    const ny = (dx / length) * DOUBLE_OFFSET;
+
+    const wedge = wedges.get(bond.index);
+    if (wedge) {
+      const [narrow, wide] = wedge.narrow === bond.begin ? [a, b] : [b, a];
+      const half = WEDGE_WIDTH / 2 / DOUBLE_OFFSET;
+      if (wedge.hashed) {
+        for (let k = 1; k <= HASH_COUNT; k++) {
+          const t = k / HASH_COUNT;
+          const c = along(narrow, wide, t);
+          line(bond.index, shift(c, nx * half * t, ny * half * t), shift(c, -nx * half * t, -ny * half * t));
+        }
+      } else {
+        wedgeShapes.push({
+          bond: bond.index,
+          points: [
+            [narrow.x, narrow.y],
+            [wide.x + nx * half, wide.y + ny * half],
+            [wide.x - nx * half, wide.y - ny * half],
+          ],
+        });
+      }
+      continue;
+    }
+
+    if (bond.order === 3) {
+      line(bond.index, a, b);
+      line(bond.index, shift(a, nx, ny), shift(b, nx, ny));
+      line(bond.index, shift(a, -nx, -ny), shift(b, -nx, -ny));
+      continue;
+    }
+    if (bond.order === 1) {
+      line(bond.index, a, b);
+      continue;
+    }
+
+    // Double and aromatic bonds: a second line inside the ring, or towards the busier side
+    const centre = ringCentre(bond);
+    const beginOthers = neighbors(mol, bond.begin).filter((n) => n !== bond.end);
+    const endOthers = neighbors(mol, bond.end).filter((n) => n !== bond.begin);
+    if (!centre && !bond.aromatic && (beginOthers.length === 0 || endOthers.length === 0)) {
+      // Terminal double bonds such as C=O are drawn as two centred lines
+      line(bond.index, shift(a, nx / 2, ny / 2), shift(b, nx / 2, ny / 2));
+      line(bond.index, shift(a, -nx / 2, -ny / 2), shift(b, -nx / 2, -ny / 2));
+      continue;
+    }
+    let side = 1;
+    if (centre) {
+      side = (centre.x - a.x) * nx + (centre.y - a.y) * ny >= 0 ? 1 : -1;
+    } else {
+      const balance = [...beginOthers, ...endOthers].reduce(
+        (sum, n) => sum + Math.sign((layout[n].x - a.x) * nx + (layout[n].y - a.y) * ny),
+        0
+      );
+      side = balance >= 0 ? 1 : -1;
+    }
+    line(bond.index, a, b);
+    const inner = [along(a, b, INNER_SHORTENING), along(a, b, 1 - INNER_SHORTENING)];
+    line(
+      bond.index,
+      shift(inner[0], side * nx, side * ny),
+      shift(inner[1], side * nx, side * ny),
+      bond.aromatic
+    );
+  }
+
+  // Flip y for screen space and scale bond lengths to pixels
+  const xs = atoms.map((atom) => atom.x);
+  const ys = atoms.map((atom) => atom.y);
+  const minX = Math.min(...xs);
+  const maxY = Math.max(...ys);
+  const toScreen = (x: number, y: number): [number, number] => [(x - minX) * scale + padding, (maxY - y) * scale + padding];
+  for (const atom of atoms) [atom.x, atom.y] = toScreen(atom.x, atom.y);
+  for (const l of lines) {
+    [l.x1, l.y1] = toScreen(l.x1, l.y1);
+    [l.x2, l.y2] = toScreen(l.x2, l.y2);
+  }
+  for (const wedge of wedgeShapes) wedge.points = wedge.points.map(([x, y]) => toScreen(x, y));
+
+  return {
+    width: (Math.max(...xs) - minX) * scale + 2 * padding,
+    height: (maxY - Math.min(...ys)) * scale + 2 * padding,
+    atoms,
+    lines,
+    wedges: wedgeShapes,
+  };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { computeDescriptors, describeSmiles } from "./descriptors";
+import { parseSmiles } from "./smiles";
+
+const descriptorsOf = (smiles: string) => computeDescriptors(parseSmiles(smiles));
+
+// RDKit's MolWt, MolLogP, MolMR and TPSA for the same SMILES
+const REFERENCES: [string, { mw: number; logp: number; mr: number; tpsa: number }][] = [
+  ["CCO", { mw: 46.069, logp: -0.0014, mr: 12.7598, tpsa: 20.23 }],
+  ["c1ccccc1", { mw: 78.114, logp: 1.6866, mr: 26.442, tpsa: 0 }],
+  ["CC(=O)Oc1ccccc1C(=O)O", { mw: 180.159, logp: 1.3101, mr: 44.7103, tpsa: 63.6 }],
+  ["Cn1cnc2c1c(=O)n(C)c(=O)n2C", { mw: 194.194, logp: -1.0293, mr: 51.196, tpsa: 61.82 }],
+  ["CC(C)Cc1ccc(cc1)C(C)C(=O)O", { mw: 206.285, logp: 3.0732, mr: 61.0348, tpsa: 37.3 }],
+  ["CC(=O)Nc1ccc(O)cc1", { mw: 151.165, logp: 1.3506, mr: 41.4105, tpsa: 49.33 }],
+];
+
+describe("computeDescriptors", () => {
+  it.each(REFERENCES)("matches RDKit for %s", (smiles, reference) => {
+    const d = descriptorsOf(smiles);
+    expect(d.molecularWeight).toBeCloseTo(reference.mw, 3);
+    expect(d.logp).toBeCloseTo(reference.logp, 4);
+    expect(d.molarRefractivity).toBeCloseTo(reference.mr, 4);
+    expect(d.tpsa).toBeCloseTo(reference.tpsa, 2);
+  });
+
+  it("counts acyclic single bonds between non-terminal atoms as rotatable", () => {
+    expect(descriptorsOf("CC(=O)Oc1ccccc1C(=O)O").rotatableBonds).toBe(3);
+    expect(descriptorsOf("CC(C)Cc1ccc(cc1)C(C)C(=O)O").rotatableBonds).toBe(4);
+    // Amide C–N bonds count here; only QED leaves them out
+    expect(descriptorsOf("CC(=O)Nc1ccc(O)cc1").rotatableBonds).toBe(2);
+    expect(descriptorsOf("CC#CC").rotatableBonds).toBe(0);
+    expect(descriptorsOf("CC(C)(C)c1ccccc1").rotatableBonds).toBe(0);
+  });
+
+  it("writes formulas in Hill order", () => {
+    expect(descriptorsOf("CC(=O)Oc1ccccc1C(=O)O").formula).toBe("C9H8O4");
+    expect(descriptorsOf("Cn1cnc2c1c(=O)n(C)c(=O)n2C").formula).toBe("C8H10N4O2");
+    expect(descriptorsOf("[Na+].[Cl-]").formula).toBe("ClNa");
+  });
+
+  it("counts implicit hydrogens in the total atom count", () => {
+    const d = descriptorsOf("CC(C)Cc1ccc(cc1)C(C)C(=O)O");
+    expect(d.heavyAtomCount).toBe(15);
+    expect(d.totalAtomCount).toBe(33);
+  });
+});
+
+describe("describeSmiles", () => {
+  it("returns null for an invalid SMILES", () => {
+    expect(describeSmiles("C1CC")).toBeNull();
+    expect(describeSmiles("CCO")?.formula).toBe("C2H6O");
+  });
+});
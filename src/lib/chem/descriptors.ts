@@ -0,0 +1,251 @@
+import { averageMass, isotopeMass } from "./elements";
+import { crippenContributions } from "./crippen";
+import {
+  Molecule,
+  bondKey,
+  heavyAtoms,
+  heavyBonds,
+  heavyDegree,
+  neighbors,
+  otherAtom,
+  ringBondKeys,
+  totalHydrogens,
+} from "./molecule";
+import { qedProperties, quantitativeDrugLikeness } from "./qed";
+import { aromaticRingCount } from "./rings";
+import { syntheticAccessibility } from "./sascore";
+import { tryParseSmiles } from "./smiles";
+
+export interface MolecularDescriptors {
+  molecularWeight: number;
+  exactMass: number;
+  formula: string;
+  formalCharge: number;
+  // Heavy atoms only, and all atoms including hydrogens (Ghose counts the latter)
+  heavyAtomCount: number;
+  totalAtomCount: number;
+  heavyBondCount: number;
+  // Lipinski donors (N-H and O-H hydrogens) and acceptors (N and O atoms)
+  hbd: number;
+  hba: number;
+  rotatableBonds: number;
+  rings: number;
+  aromaticRings: number;
+  heteroatoms: number;
+  carbons: number;
+  logp: number;
+  molarRefractivity: number;
+  tpsa: number;
+  // Bickerton QED, 0..1, and Ertl-style synthetic accessibility, 1 (easy) .. 10 (hard)
+  qed: number;
+  sas: number;
+}
+
+// The property set shown on molecule cards and in the visualizer
+export interface MoleculeProperties {
+  mw: number;
+  logp: number;
+  hbd: number;
+  hba: number;
+  tpsa: number;
+  qed: number;
+  sas: number;
+}
+
+const elementCounts = (mol: Molecule) => {
+  const counts: Record<string, number> = {};
+  for (const atom of mol.atoms) {
+    if (atom.element === "*") continue;
+    counts[atom.element] = (counts[atom.element] || 0) + 1;
+    if (atom.hCount > 0) counts.H = (counts.H || 0) + atom.hCount;
+  }
+  return counts;
+};
+
+// Hill order: C, then H, then the rest alphabetically (all alphabetical without carbon)
+export const hillFormula = (mol: Molecule) => {
+  const counts = elementCounts(mol);
+  const symbols = Object.keys(counts).sort();
+  const ordered = counts.C
+    ? ["C", ...(counts.H ? ["H"] : []), ...symbols.filter((s) => s !== "C" && s !== "H")]
+    : symbols;
+  const charge = mol.atoms.reduce((sum, atom) => sum + atom.charge, 0);
+  const chargeSuffix = charge === 0 ? "" : `${Math.abs(charge) > 1 ? Math.abs(charge) : ""}${charge > 0 ? "+" : "-"}`;
+  return ordered.map((s) => (counts[s] > 1 ? `${s}${counts[s]}` : s)).join("") + chargeSuffix;
+};
+
+export const molecularWeight = (mol: Molecule) =>
+  mol.atoms.reduce((sum, atom) => {
+    const mass = atom.isotope ? isotopeMass(atom.element, atom.isotope) : averageMass(atom.element);
+    return sum + mass + atom.hCount * averageMass("H");
+  }, 0);
+
+export const exactMass = (mol: Molecule) =>
+  mol.atoms.reduce((sum, atom) => sum + isotopeMass(atom.element, atom.isotope) + atom.hCount * isotopeMass("H", null), 0);
+
+// CX3 groups whose rotation does not change the shape: CF3, CCl3, CBr3 and tert-butyl
+const isSymmetricTop = (mol: Molecule, atom: number, from: number) => {
+  if (mol.atoms[atom].element !== "C") return false;
+  const others = neighbors(mol, atom).filter((n) => n !== from);
+  if (others.length !== 3) return false;
+  const terminal = others.map((n) => mol.atoms[n]);
+  const first = terminal[0];
+  return (
+    ["F", "Cl", "Br", "C"].includes(first.element) &&
+    terminal.every((a) => a.element === first.element && heavyDegree(mol, a.index) === 1) &&
+    (first.element !== "C" || terminal.every((a) => a.hCount === 3))
+  );
+};
+
+// Single, acyclic bonds between two non-terminal heavy atoms, not next to a triple bond
+export const rotatableBondCount = (mol: Molecule) => {
+  const ringBonds = ringBondKeys(mol);
+  const nextToTriple = (atom: number) => mol.adjacency[atom].some((b) => mol.bonds[b].order === 3);
+  return heavyBonds(mol).filter(
+    (bond) =>
+      bond.order === 1 &&
+      !ringBonds.has(bondKey(bond.begin, bond.end)) &&
+      heavyDegree(mol, bond.begin) > 1 &&
+      heavyDegree(mol, bond.end) > 1 &&
+      !nextToTriple(bond.begin) &&
+      !nextToTriple(bond.end) &&
+      !isSymmetricTop(mol, bond.begin, bond.end) &&
+      !isSymmetricTop(mol, bond.end, bond.begin)
+  ).length;
+};
+
+const inThreeRing = (mol: Molecule, atom: number) => mol.rings.some((ring) => ring.length === 3 && ring.includes(atom));
+
+/**
+ * Ertl, Rohde & Selzer (2000) polar surface area from N and O fragment
+ * contributions. Fragments outside the published table fall back to the same
+ * neighbour/hydrogen estimate RDKit uses.
+ */
+const tpsaContribution = (mol: Molecule, index: number): number => {
+  const atom = mol.atoms[index];
+  if (atom.element !== "N" && atom.element !== "O") return 0;
+
+  let single = 0;
+  let double = 0;
+  let triple = 0;
+  let aromatic = 0;
+  for (const b of mol.adjacency[index]) {
+    const bond = mol.bonds[b];
+    if (mol.atoms[otherAtom(bond, index)].element === "H") continue;
+    if (bond.aromatic) aromatic++;
+    else if (bond.order === 1) single++;
+    else if (bond.order === 2) double++;
+    else if (bond.order === 3) triple++;
+  }
+  const h = totalHydrogens(mol, index);
+  const heavy = single + double + triple + aromatic;
+  const { charge } = atom;
+  const pattern = `${single}${double}${triple}${aromatic}`;
+
+  if (atom.element === "N") {
+    if (charge === 0) {
+      if (h === 0) {
+        if (pattern === "3000") return inThreeRing(mol, index) ? 3.01 : 3.24;
+        if (pattern === "1100") return 12.36;
+        if (pattern === "0010") return 23.79;
+        if (pattern === "1200") return 11.68;
+        if (pattern === "0110") return 13.6;
+        if (pattern === "0002") return 12.89;
+        if (pattern === "0003") return 4.41;
+        if (pattern === "1002") return 4.93;
+        if (pattern === "0102") return 8.39;
+      }
+      if (h === 1) {
+        if (pattern === "2000") return inThreeRing(mol, index) ? 21.94 : 12.03;
+        if (pattern === "0100") return 23.85;
+        if (pattern === "0002") return 15.79;
+      }
+      if (h === 2 && pattern === "1000") return 26.02;
+      if (h === 3 && heavy === 0) return 26.02;
+    } else if (charge === 1) {
+      if (h === 0) {
+        if (pattern === "4000") return 0.0;
+        if (pattern === "2100") return 3.01;
+        if (pattern === "1010") return 4.36;
+        if (pattern === "0003") return 4.1;
+        if (pattern === "1002") return 3.88;
+      }
+      if (h === 1) {
+        if (pattern === "3000") return 4.44;
+        if (pattern === "1100") return 13.97;
+        if (pattern === "0002") return 14.14;
+      }
+      if (h === 2) {
+        if (pattern === "2000") return 16.61;
+        if (pattern === "0100") return 25.59;
+      }
+      if (h === 3 && pattern === "1000") return 27.64;
+    }
+    return Math.max(0, 30.5 - heavy * 8.2 + h * 1.5);
+  }
+
+  if (charge === 0) {
+    if (h === 0) {
+      if (pattern === "2000") return inThreeRing(mol, index) ? 12.53 : 9.23;
+      if (pattern === "0100") return 17.07;
+      if (pattern === "0002") return 13.14;
+    }
+    if (h === 1 && pattern === "1000") return 20.23;
+    if (h === 2 && heavy === 0) return 20.23;
+  } else if (charge === -1 && h === 0 && pattern === "1000") {
+    return 23.06;
+  }
+  return Math.max(0, 28.5 - heavy * 8.6 + h * 1.5);
+};
+
+export const topologicalPolarSurfaceArea = (mol: Molecule) =>
+  mol.atoms.reduce((sum, atom) => sum + tpsaContribution(mol, atom.index), 0);
+
+export const computeDescriptors = (mol: Molecule): MolecularDescriptors => {
+  const heavy = heavyAtoms(mol);
+  const nitrogenOxygen = heavy.filter((atom) => atom.element === "N" || atom.element === "O");
+  const crippen = crippenContributions(mol);
+  const hydrogens = mol.atoms.reduce((sum, atom) => sum + atom.hCount, 0);
+
+  const descriptors: Omit<MolecularDescriptors, "qed" | "sas"> = {
+    molecularWeight: molecularWeight(mol),
+    exactMass: exactMass(mol),
+    formula: hillFormula(mol),
+    formalCharge: mol.atoms.reduce((sum, atom) => sum + atom.charge, 0),
+    heavyAtomCount: heavy.length,
+    totalAtomCount: mol.atoms.length + hydrogens,
+    heavyBondCount: heavyBonds(mol).length,
+    hbd: nitrogenOxygen.reduce((sum, atom) => sum + totalHydrogens(mol, atom.index), 0),
+    hba: nitrogenOxygen.length,
+    rotatableBonds: rotatableBondCount(mol),
+    rings: mol.rings.length,
+    aromaticRings: aromaticRingCount(mol),
+    heteroatoms: heavy.filter((atom) => atom.element !== "C" && atom.element !== "*").length,
+    carbons: heavy.filter((atom) => atom.element === "C").length,
+    logp: crippen.logp.reduce((a, b) => a + b, 0),
+    molarRefractivity: crippen.mr.reduce((a, b) => a + b, 0),
+    tpsa: topologicalPolarSurfaceArea(mol),
+  };
+
+  return {
+    ...descriptors,
+    qed: quantitativeDrugLikeness(qedProperties(mol, descriptors)),
+    sas: syntheticAccessibility(mol),
+  };
+};
+
+export const toMoleculeProperties = (descriptors: MolecularDescriptors): MoleculeProperties => ({
+  mw: descriptors.molecularWeight,
+  logp: descriptors.logp,
+  hbd: descriptors.hbd,
+  hba: descriptors.hba,
+  tpsa: descriptors.tpsa,
+  qed: descriptors.qed,
+  sas: descriptors.sas,
+});
+
+// Descriptors straight from a SMILES string; null when it does not parse
+export const describeSmiles = (smiles: string): MolecularDescriptors | null => {
+  const { molecule } = tryParseSmiles(smiles);
+  return molecule ? computeDescriptors(molecule) : null;
+};
@@ -0,0 +1,230 @@
+export interface ElementData {
+  symbol: string;
+  number: number;
+  // Standard atomic weight (IUPAC), used for average molecular weight
+  mass: number;
+  // Mass of the most abundant isotope, used for monoisotopic mass
+  monoisotopicMass: number;
+}
+
+// [symbol, average mass, monoisotopic mass]; atomic number is the row index + 1
+const ELEMENT_TABLE: [string, number, number][] = [
+  ["H", 1.008, 1.00782503],
+  ["He", 4.002602, 4.00260325],
+  ["Li", 6.94, 7.0160034],
+  ["Be", 9.0121831, 9.0121831],
+  ["B", 10.81, 11.0093054],
+  ["C", 12.011, 12.0],
+  ["N", 14.007, 14.003074],
+  ["O", 15.999, 15.9949146],
+  ["F", 18.998403163, 18.9984032],
+  ["Ne", 20.1797, 19.9924402],
+  ["Na", 22.98976928, 22.9897693],
+  ["Mg", 24.305, 23.9850417],
+  ["Al", 26.9815385, 26.9815385],
+  ["Si", 28.085, 27.9769265],
+  ["P", 30.973761998, 30.973762],
+  ["S", 32.06, 31.9720707],
+  ["Cl", 35.45, 34.9688527],
+  ["Ar", 39.948, 39.9623831],
+  ["K", 39.0983, 38.9637065],
+  ["Ca", 40.078, 39.9625909],
+  ["Sc", 44.955908, 44.9559083],
+  ["Ti", 47.867, 47.947942],
+  ["V", 50.9415, 50.943957],
+  ["Cr", 51.9961, 51.9405062],
+  ["Mn", 54.938044, 54.9380439],
+  ["Fe", 55.845, 55.9349363],
+  ["Co", 58.933194, 58.9331943],
+  ["Ni", 58.6934, 57.9353424],
+  ["Cu", 63.546, 62.9295977],
+  ["Zn", 65.38, 63.929142],
+  ["Ga", 69.723, 68.9255735],
+  ["Ge", 72.63, 73.9211778],
+  ["As", 74.921595, 74.9215946],
+  ["Se", 78.971, 79.9165218],
+  ["Br", 79.904, 78.9183376],
+  ["Kr", 83.798, 83.9114977],
+  ["Rb", 85.4678, 84.9117897],
+  ["Sr", 87.62, 87.9056125],
+  ["Y", 88.90584, 88.9058403],
+  ["Zr", 91.224, 89.9046977],
+  ["Nb", 92.90637, 92.906373],
+  ["Mo", 95.95, 97.9054048],
+  ["Tc", 98, 97.9072124],
+  ["Ru", 101.07, 101.9043441],
+  ["Rh", 102.9055, 102.905498],
+  ["Pd", 106.42, 105.9034804],
+  ["Ag", 107.8682, 106.9050916],
+  ["Cd", 112.414, 113.9033651],
+  ["In", 114.818, 114.9038788],
+  ["Sn", 118.71, 119.9022016],
+  ["Sb", 121.76, 120.903812],
+  ["Te", 127.6, 129.9062227],
+  ["I", 126.90447, 126.9044719],
+  ["Xe", 131.293, 131.9041551],
+  ["Cs", 132.90545196, 132.905452],
+  ["Ba", 137.327, 137.905247],
+  ["La", 138.90547, 138.9063563],
+  ["Ce", 140.116, 139.9054431],
+  ["Pr", 140.90766, 140.9076576],
+  ["Nd", 144.242, 141.907729],
+  ["Pm", 145, 144.9127559],
+  ["Sm", 150.36, 151.9197397],
+  ["Eu", 151.964, 152.921238],
+  ["Gd", 157.25, 157.9241123],
+  ["Tb", 158.92535, 158.9253547],
+  ["Dy", 162.5, 163.9291819],
+  ["Ho", 164.93033, 164.9303288],
+  ["Er", 167.259, 165.9302995],
+  ["Tm", 168.93422, 168.9342179],
+  ["Yb", 173.045, 173.9388664],
+  ["Lu", 174.9668, 174.9407752],
+  ["Hf", 178.49, 179.946557],
+  ["Ta", 180.94788, 180.9479958],
+  ["W", 183.84, 183.9509309],
+  ["Re", 186.207, 186.9557501],
+  ["Os", 190.23, 191.961477],
+  ["Ir", 192.217, 192.9629216],
+  ["Pt", 195.084, 194.9647917],
+  ["Au", 196.966569, 196.9665688],
+  ["Hg", 200.592, 201.9706434],
+  ["Tl", 204.38, 204.9744278],
+  ["Pb", 207.2, 207.9766525],
+  ["Bi", 208.9804, 208.9803991],
+  ["Po", 209, 208.9824308],
+  ["At", 210, 209.9871479],
+  ["Rn", 222, 222.0175782],
+  ["Fr", 223, 223.019736],
+  ["Ra", 226, 226.0254103],
+  ["Ac", 227, 227.0277523],
+  ["Th", 232.0377, 232.0380558],
+  ["Pa", 231.03588, 231.0358842],
+  ["U", 238.02891, 238.0507884],
+  ["Np", 237, 237.0481736],
+  ["Pu", 244, 244.0642053],
+  ["Am", 243, 243.0613813],
+  ["Cm", 247, 247.0703541],
+  ["Bk", 247, 247.0703073],
+  ["Cf", 251, 251.0795886],
+  ["Es", 252, 252.08298],
+  ["Fm", 257, 257.0951061],
+  ["Md", 258, 258.0984315],
+  ["No", 259, 259.10103],
+  ["Lr", 266, 266.11983],
+  ["Rf", 267, 267.12179],
+  ["Db", 268, 268.12567],
+  ["Sg", 269, 269.12863],
+  ["Bh", 270, 270.13336],
+  ["Hs", 269, 269.13375],
+  ["Mt", 278, 278.156],
+  ["Ds", 281, 281.165],
+  ["Rg", 282, 282.169],
+  ["Cn", 285, 285.177],
+  ["Nh", 286, 286.182],
+  ["Fl", 289, 289.19],
+  ["Mc", 290, 290.196],
+  ["Lv", 293, 293.205],
+  ["Ts", 294, 294.211],
+  ["Og", 294, 294.214],
+];
+
+export const ELEMENTS: Record<string, ElementData> = Object.fromEntries(
+  ELEMENT_TABLE.map(([symbol, mass, monoisotopicMass], index) => [
+    symbol,
+    { symbol, number: index + 1, mass, monoisotopicMass },
+  ])
+);
+
+// Exact masses for the isotopes that show up in labelled compounds; anything
+// else falls back to the mass number
+const ISOTOPE_MASSES: Record<string, number> = {
+  "1H": 1.00782503,
+  "2H": 2.01410178,
+  "3H": 3.01604928,
+  "11C": 11.0114336,
+  "12C": 12.0,
+  "13C": 13.00335484,
+  "14C": 14.00324199,
+  "14N": 14.003074,
+  "15N": 15.0001089,
+  "16O": 15.9949146,
+  "17O": 16.99913176,
+  "18O": 17.99915961,
+  "18F": 18.000938,
+  "19F": 18.9984032,
+  "31P": 30.973762,
+  "32P": 31.97390727,
+  "32S": 31.9720707,
+  "34S": 33.96786701,
+  "35S": 34.96903231,
+  "35Cl": 34.9688527,
+  "37Cl": 36.9659026,
+  "79Br": 78.9183376,
+  "81Br": 80.9162897,
+  "123I": 122.905589,
+  "125I": 124.9046294,
+  "127I": 126.9044719,
+  "131I": 130.9061246,
+};
+
+// Normal valences for the SMILES organic subset, used for implicit hydrogens
+export const DEFAULT_VALENCES: Record<string, number[]> = {
+  B: [3],
+  C: [4],
+  N: [3, 5],
+  O: [2],
+  P: [3, 5],
+  S: [2, 4, 6],
+  F: [1],
+  Cl: [1],
+  Br: [1],
+  I: [1],
+};
+
+// Valences allowed for a charged atom, by isoelectronic analogy
+export const CHARGED_VALENCES: Record<string, Record<number, number[]>> = {
+  B: { [-1]: [4], 1: [2] },
+  C: { [-1]: [3], 1: [3] },
+  N: { [-1]: [2], 1: [4] },
+  O: { [-1]: [1], 1: [3] },
+  P: { [-1]: [2], 1: [4] },
+  S: { [-1]: [1, 3, 5], 1: [3, 5] },
+};
+
+// Bondi van der Waals radii in ångström, for space-filling models
+const VDW_RADII: Record<string, number> = {
+  H: 1.2,
+  B: 1.92,
+  C: 1.7,
+  N: 1.55,
+  O: 1.52,
+  F: 1.47,
+  Si: 2.1,
+  P: 1.8,
+  S: 1.8,
+  Cl: 1.75,
+  Se: 1.9,
+  Br: 1.85,
+  I: 1.98,
+  Na: 2.27,
+  K: 2.75,
+};
+
+export const ORGANIC_SUBSET = new Set(Object.keys(DEFAULT_VALENCES));
+
+// Elements that may be written lowercase (aromatic) in SMILES
+export const AROMATIC_SYMBOLS = new Set(["b", "c", "n", "o", "p", "s", "se", "as", "te"]);
+
+export const isElement = (symbol: string) => symbol in ELEMENTS;
+
+export const atomicNumber = (symbol: string) => ELEMENTS[symbol]?.number ?? 0;
+
+export const averageMass = (symbol: string) => ELEMENTS[symbol]?.mass ?? 0;
+
+export const isotopeMass = (symbol: string, isotope: number | null) => {
+  if (!isotope) return ELEMENTS[symbol]?.monoisotopicMass ?? 0;
+  return ISOTOPE_MASSES[`${isotope}${symbol}`] ?? isotope;
+};
+
+export const vdwRadius = (symbol: string) => VDW_RADII[symbol] ?? 2;
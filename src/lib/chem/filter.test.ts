@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSmiles, filterableAnalysis } from "./analysis";
+import { FilterCriteria, applyFilter, evaluateFilter, rejectionSummary } from "./filter";
+
+const OPEN: FilterCriteria = {
+  mwRange: [0, 1000],
+  logpRange: [-10, 10],
+  hbdMax: 20,
+  hbaMax: 20,
+  tpsaRange: [0, 300],
+  lipinskiCompliant: false,
+  qedMin: 0,
+  sasMax: 10,
+};
+
+const filterable = (smiles: string) => filterableAnalysis(analyzeSmiles(smiles));
+
+describe("evaluateFilter", () => {
+  it("passes a molecule inside every range", () => {
+    expect(evaluateFilter(OPEN, filterable("CC(C)Cc1ccc(cc1)C(C)C(=O)O"))).toEqual({ passed: true, rejections: [] });
+  });
+
+  it("gives a reason for every criterion a molecule fails", () => {
+    const ibuprofen = filterable("CC(C)Cc1ccc(cc1)C(C)C(=O)O");
+    const verdict = evaluateFilter({ ...OPEN, mwRange: [250, 500], qedMin: 0.9 }, ibuprofen);
+    expect(verdict.passed).toBe(false);
+    expect(verdict.rejections.map((rejection) => rejection.criterion)).toEqual(["mwRange", "qedMin"]);
+    expect(rejectionSummary(verdict)).toBe("MW 206.3 below 250; QED 0.82 below 0.90");
+  });
+
+  it("rejects an invalid structure outright", () => {
+    expect(evaluateFilter(OPEN, null).rejections).toEqual([{ criterion: "structure", reason: "Invalid structure" }]);
+  });
+});
+
+describe("applyFilter", () => {
+  it("splits items into accepted and rejected, keeping their order", () => {
+    const items = ["CCO", "C1CC", "CC(C)Cc1ccc(cc1)C(C)C(=O)O", "c1ccccc1"];
+    const { accepted, rejected } = applyFilter(items, { ...OPEN, mwRange: [50, 500] }, filterable);
+    expect(accepted).toEqual(["CC(C)Cc1ccc(cc1)C(C)C(=O)O", "c1ccccc1"]);
+    expect(rejected.map(({ item, verdict }) => [item, verdict.rejections[0].criterion])).toEqual([
+      ["CCO", "mwRange"],
+      ["C1CC", "structure"],
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { MoleculeProperties } from "./descriptors";
+import { DrugLikenessRules } from "./rules";
+
+export interface FilterCriteria {
+  mwRange: [number, number];
+  logpRange: [number, number];
+  hbdMax: number;
+  hbaMax: number;
+  tpsaRange: [number, number];
+  lipinskiCompliant: boolean;
+  qedMin: number;
+  sasMax: number;
+}
+
+// What every module hands the filter: computed properties plus the rule results
+export interface FilterableMolecule {
+  properties: MoleculeProperties;
+  rules: DrugLikenessRules;
+}
+
+export interface FilterRejection {
+  // "structure" when there was no valid molecule to filter
+  criterion: keyof FilterCriteria | "structure";
+  reason: string;
+}
+
+export interface FilterVerdict {
+  passed: boolean;
+  rejections: FilterRejection[];
+}
+
+export interface RejectedItem<T> {
+  item: T;
+  verdict: FilterVerdict;
+}
+
+export interface FilterOutcome<T> {
+  accepted: T[];
+  rejected: RejectedItem<T>[];
+}
+
+const checkRange = (
+  criterion: keyof FilterCriteria,
+  label: string,
+  value: number,
+  [min, max]: [number, number],
+  digits: number
+): FilterRejection | null => {
+  if (value < min) return { criterion, reason: `${label} ${value.toFixed(digits)} below ${min}` };
+  if (value > max) return { criterion, reason: `${label} ${value.toFixed(digits)} above ${max}` };
+  return null;
+};
+
+const checkMax = (criterion: keyof FilterCriteria, label: string, value: number, max: number, digits = 0) =>
+  value > max ? { criterion, reason: `${label} ${value.toFixed(digits)} above ${max}` } : null;
+
+export const evaluateFilter = (criteria: FilterCriteria, molecule: FilterableMolecule | null): FilterVerdict => {
+  if (!molecule) {
+    return { passed: false, rejections: [{ criterion: "structure", reason: "Invalid structure" }] };
+  }
+
+  const { properties, rules } = molecule;
+  const rejections = [
+    checkRange("mwRange", "MW", properties.mw, criteria.mwRange, 1),
+    checkRange("logpRange", "LogP", properties.logp, criteria.logpRange, 2),
+    checkMax("hbdMax", "HBD", properties.hbd, criteria.hbdMax),
+    checkMax("hbaMax", "HBA", properties.hba, criteria.hbaMax),
+    checkRange("tpsaRange", "TPSA", properties.tpsa, criteria.tpsaRange, 1),
+    criteria.lipinskiCompliant && !rules.lipinski.passed
+      ? { criterion: "lipinskiCompliant" as const, reason: `${rules.lipinski.violations} Lipinski violations` }
+      : null,
+    properties.qed < criteria.qedMin
+      ? { criterion: "qedMin" as const, reason: `QED ${properties.qed.toFixed(2)} below ${criteria.qedMin.toFixed(2)}` }
+      : null,
+    checkMax("sasMax", "SA score", properties.sas, criteria.sasMax, 2),
+  ].filter((rejection): rejection is FilterRejection => rejection !== null);
+
+  return { passed: rejections.length === 0, rejections };
+};
+
+// Splits items into those passing the criteria and those rejected, keeping the reasons
+export const applyFilter = <T>(
+  items: T[],
+  criteria: FilterCriteria,
+  toFilterable: (item: T) => FilterableMolecule | null
+): FilterOutcome<T> => {
+  const outcome: FilterOutcome<T> = { accepted: [], rejected: [] };
+  for (const item of items) {
+    const verdict = evaluateFilter(criteria, toFilterable(item));
+    if (verdict.passed) outcome.accepted.push(item);
+    else outcome.rejected.push({ item, verdict });
+  }
+  return outcome;
+};
+
+export const rejectionSummary = (verdict: FilterVerdict) =>
+  verdict.rejections.map((rejection) => rejection.reason).join("; ");
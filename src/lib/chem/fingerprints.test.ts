@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  Fingerprint,
+  FingerprintType,
+  bitCount,
+  fingerprintSmiles,
+  fromJSON,
+  fromSparse,
+  onBits,
+  toHex,
+  toJSON,
+  toSparse,
+} from "./fingerprints";
+
+const TYPES: FingerprintType[] = ["morgan", "maccs", "rdkit", "atompair"];
+
+const fingerprint = (smiles: string, type: FingerprintType, options = {}) =>
+  fingerprintSmiles(smiles, type, options) as Fingerprint;
+
+describe("computeFingerprint", () => {
+  it.each(TYPES)("gives %s the same bits whatever the atom order", (type) => {
+    expect(onBits(fingerprint("OC(=O)c1ccccc1OC(C)=O", type))).toEqual(
+      onBits(fingerprint("CC(=O)Oc1ccccc1C(=O)O", type))
+    );
+  });
+
+  it("folds to the requested length except for MACCS", () => {
+    expect(fingerprint("CCO", "morgan", { nBits: 1024 }).length).toBe(1024);
+    expect(fingerprint("CCO", "maccs", { nBits: 1024 }).length).toBe(167);
+  });
+
+  it("sets the MACCS keys RDKit sets for benzene", () => {
+    expect(onBits(fingerprint("c1ccccc1", "maccs"))).toEqual([162, 163, 165]);
+  });
+
+  it("grows Morgan environments with the radius", () => {
+    // Every benzene carbon looks the same at each radius
+    expect(bitCount(fingerprint("c1ccccc1", "morgan", { radius: 0 }))).toBe(1);
+    expect(bitCount(fingerprint("c1ccccc1", "morgan", { radius: 2 }))).toBe(3);
+    expect(bitCount(fingerprint("CCO", "morgan", { radius: 0 }))).toBe(3);
+  });
+
+  it("returns null for an invalid SMILES", () => {
+    expect(fingerprintSmiles("C1CC", "morgan")).toBeNull();
+  });
+});
+
+describe("fingerprint serialization", () => {
+  it("round-trips through sparse JSON", () => {
+    const fp = fingerprint("CC(=O)Oc1ccccc1C(=O)O", "morgan");
+    expect(fromJSON(toJSON(fp, "CC(=O)Oc1ccccc1C(=O)O"))).toEqual(fp);
+  });
+
+  it("round-trips through the sparse form stored in the library", () => {
+    const fp = fingerprint("CC(=O)Oc1ccccc1C(=O)O", "atompair");
+    const sparse = toSparse(fp);
+    expect(sparse.bits).toHaveLength(bitCount(fp));
+    expect(fromSparse(sparse)).toEqual(fp);
+  });
+
+  it("writes hex least significant bit first", () => {
+    const fp = fingerprint("c1ccccc1", "maccs");
+    const hex = toHex(fp);
+    expect(hex).toHaveLength(Math.ceil(167 / 8) * 2);
+    // Bits 162, 163 and 165 fall in byte 20 as 0b00101100
+    expect(hex.slice(40, 42)).toBe("2c");
+  });
+});
@@ -0,0 +1,291 @@
+import { atomicNumber } from "./elements";
+import { MACCS_LENGTH, maccsKeys } from "./maccs";
+import { Molecule, heavyAtoms, heavyDegree, isHeavy, isRingAtom, otherAtom, totalHydrogens } from "./molecule";
+import { tryParseSmiles } from "./smiles";
+
+export type FingerprintType = "morgan" | "maccs" | "rdkit" | "atompair";
+
+export interface FingerprintOptions {
+  // Folded length; MACCS is always 167 keys
+  nBits: number;
+  // Morgan/ECFP radius (ECFP4 is radius 2)
+  radius: number;
+  // Longest bond path enumerated by the RDKit-style path fingerprint
+  maxPath: number;
+}
+
+export interface Fingerprint {
+  type: FingerprintType;
+  options: FingerprintOptions;
+  length: number;
+  // Occurrences per bit; the bit vector is every position with a non-zero count
+  counts: Uint32Array;
+}
+
+export const FINGERPRINT_LABELS: Record<FingerprintType, string> = {
+  morgan: "Morgan (ECFP)",
+  maccs: "MACCS",
+  rdkit: "RDKit path",
+  atompair: "Atom pair",
+};
+
+export const DEFAULT_FINGERPRINT_OPTIONS: FingerprintOptions = { nBits: 2048, radius: 2, maxPath: 7 };
+
+// FNV-1a over 32-bit integers; stable across runs so stored fingerprints stay comparable
+const hashInts = (values: number[]) => {
+  let hash = 0x811c9dc5;
+  for (const value of values) {
+    for (let shift = 0; shift < 32; shift += 8) {
+      hash ^= (value >>> shift) & 0xff;
+      hash = Math.imul(hash, 0x01000193);
+    }
+  }
+  return hash >>> 0;
+};
+
+const bondCode = (mol: Molecule, bond: number) => {
+  const { order, aromatic } = mol.bonds[bond];
+  return aromatic ? 12 : order;
+};
+
+const elementNumber = (mol: Molecule, atom: number) =>
+  mol.atoms[atom].element === "*" ? 0 : atomicNumber(mol.atoms[atom].element);
+
+const heavyBondsOf = (mol: Molecule, atom: number) =>
+  mol.adjacency[atom].filter((b) => isHeavy(mol.atoms[otherAtom(mol.bonds[b], atom)]));
+
+/**
+ * Morgan / ECFP (Rogers & Hahn 2010): atom identifiers refined over `radius`
+ * iterations from connectivity invariants, dropping environments that cover
+ * the same bonds as one already emitted.
+ */
+const morganIdentifiers = (mol: Molecule, radius: number) => {
+  const atoms = heavyAtoms(mol).map((atom) => atom.index);
+  let ids = new Map<number, number>(
+    atoms.map((i) => {
+      const atom = mol.atoms[i];
+      const invariant = [
+        elementNumber(mol, i),
+        heavyDegree(mol, i) + totalHydrogens(mol, i),
+        totalHydrogens(mol, i),
+        atom.charge,
+        atom.isotope ?? 0,
+        isRingAtom(mol, i) ? 1 : 0,
+      ];
+      return [i, hashInts(invariant)];
+    })
+  );
+  const identifiers = [...ids.values()];
+  const environments = new Map<number, Set<number>>(atoms.map((i) => [i, new Set<number>()]));
+  const seenEnvironments = new Set<string>();
+
+  for (let r = 1; r <= radius; r++) {
+    const next = new Map<number, number>();
+    const nextEnvironments = new Map<number, Set<number>>();
+    const layer: { id: number; key: string }[] = [];
+    for (const i of atoms) {
+      const bonds = heavyBondsOf(mol, i);
+      const environment = new Set(environments.get(i));
+      const pairs = bonds.map((b) => {
+        const n = otherAtom(mol.bonds[b], i);
+        environment.add(b);
+        for (const inner of environments.get(n)!) environment.add(inner);
+        return [bondCode(mol, b), ids.get(n)!];
+      });
+      pairs.sort((a, c) => a[0] - c[0] || a[1] - c[1]);
+      const id = hashInts([r, ids.get(i)!, ...pairs.flat()]);
+      next.set(i, id);
+      nextEnvironments.set(i, environment);
+      if (bonds.length) layer.push({ id, key: [...environment].sort((a, c) => a - c).join(",") });
+    }
+    // Identical bond sets are one structural feature, kept once by their smallest identifier
+    layer.sort((a, c) => a.id - c.id);
+    for (const { id, key } of layer) {
+      if (seenEnvironments.has(key)) continue;
+      seenEnvironments.add(key);
+      identifiers.push(id);
+    }
+    ids = next;
+    for (const [i, environment] of nextEnvironments) environments.set(i, environment);
+  }
+  return identifiers;
+};
+
+// Linear bond paths of 1..maxPath bonds, each hashed in its lexically smaller direction
+const pathIdentifiers = (mol: Molecule, maxPath: number) => {
+  const identifiers: number[] = [];
+  const seen = new Set<string>();
+  const atomCode = (i: number) => elementNumber(mol, i) * 2 + (mol.atoms[i].aromatic ? 1 : 0);
+
+  const emit = (atoms: number[], bonds: number[]) => {
+    const key = [...bonds].sort((a, c) => a - c).join(",");
+    if (seen.has(key)) return;
+    seen.add(key);
+    const forward: number[] = [];
+    atoms.forEach((atom, k) => {
+      forward.push(atomCode(atom));
+      if (k < bonds.length) forward.push(bondCode(mol, bonds[k]));
+    });
+    const reverse = [...forward].reverse();
+    const smaller = forward.join(",") <= reverse.join(",") ? forward : reverse;
+    identifiers.push(hashInts([bonds.length, ...smaller]));
+  };
+
+  const walk = (atoms: number[], bonds: number[]) => {
+    if (bonds.length) emit(atoms, bonds);
+    if (bonds.length === maxPath) return;
+    const last = atoms[atoms.length - 1];
+    for (const b of heavyBondsOf(mol, last)) {
+      const next = otherAtom(mol.bonds[b], last);
+      if (atoms.includes(next)) continue;
+      walk([...atoms, next], [...bonds, b]);
+    }
+  };
+
+  for (const atom of heavyAtoms(mol)) walk([atom.index], []);
+  return identifiers;
+};
+
+// Topological distances between heavy atoms by breadth-first search
+export const topologicalDistances = (mol: Molecule) => {
+  const n = mol.atoms.length;
+  const distances: number[][] = [];
+  for (let start = 0; start < n; start++) {
+    const row = new Array<number>(n).fill(Infinity);
+    row[start] = 0;
+    const queue = [start];
+    for (let q = 0; q < queue.length; q++) {
+      const current = queue[q];
+      for (const b of heavyBondsOf(mol, current)) {
+        const next = otherAtom(mol.bonds[b], current);
+        if (row[next] === Infinity) {
+          row[next] = row[current] + 1;
+          queue.push(next);
+        }
+      }
+    }
+    distances.push(row);
+  }
+  return distances;
+};
+
+/**
+ * Atom pairs (Carhart, Smith & Venkataraghavan 1985): every pair of heavy
+ * atoms as (atom type, topological distance, atom type), with atom type built
+ * from element, heavy degree and pi electron count.
+ */
+const atomPairIdentifiers = (mol: Molecule) => {
+  const atoms = heavyAtoms(mol).map((atom) => atom.index);
+  const distances = topologicalDistances(mol);
+  const atomType = (i: number) => {
+    const pi = heavyBondsOf(mol, i).reduce((sum, b) => {
+      const bond = mol.bonds[b];
+      return sum + (bond.aromatic ? 1 : bond.order - 1);
+    }, 0);
+    return hashInts([elementNumber(mol, i), Math.min(heavyDegree(mol, i), 7), Math.min(pi, 3)]);
+  };
+  const types = new Map(atoms.map((i) => [i, atomType(i)]));
+  const identifiers: number[] = [];
+  for (let a = 0; a < atoms.length; a++) {
+    for (let c = a + 1; c < atoms.length; c++) {
+      const distance = distances[atoms[a]][atoms[c]];
+      if (distance === Infinity || distance > 30) continue;
+      const [first, second] = [types.get(atoms[a])!, types.get(atoms[c])!].sort((x, y) => x - y);
+      identifiers.push(hashInts([first, distance, second]));
+    }
+  }
+  return identifiers;
+};
+
+const fold = (identifiers: number[], nBits: number) => {
+  const counts = new Uint32Array(nBits);
+  for (const id of identifiers) counts[id % nBits]++;
+  return counts;
+};
+
+export const computeFingerprint = (
+  mol: Molecule,
+  type: FingerprintType,
+  overrides: Partial<FingerprintOptions> = {}
+): Fingerprint => {
+  const options = { ...DEFAULT_FINGERPRINT_OPTIONS, ...overrides };
+  switch (type) {
+    case "morgan":
+      return { type, options, length: options.nBits, counts: fold(morganIdentifiers(mol, options.radius), options.nBits) };
+    case "rdkit":
+      return { type, options, length: options.nBits, counts: fold(pathIdentifiers(mol, options.maxPath), options.nBits) };
+    case "atompair":
+      return { type, options, length: options.nBits, counts: fold(atomPairIdentifiers(mol), options.nBits) };
+    case "maccs":
+      return { type, options, length: MACCS_LENGTH, counts: Uint32Array.from(maccsKeys(mol)) };
+  }
+};
+
+// Fingerprint straight from a SMILES string; null when it does not parse
+export const fingerprintSmiles = (smiles: string, type: FingerprintType, options: Partial<FingerprintOptions> = {}) => {
+  const { molecule } = tryParseSmiles(smiles);
+  return molecule ? computeFingerprint(molecule, type, options) : null;
+};
+
+export const onBits = (fp: Fingerprint) => {
+  const bits: number[] = [];
+  fp.counts.forEach((count, bit) => {
+    if (count > 0) bits.push(bit);
+  });
+  return bits;
+};
+
+export const bitCount = (fp: Fingerprint) => fp.counts.reduce((sum, count) => sum + (count > 0 ? 1 : 0), 0);
+
+export const bitDensity = (fp: Fingerprint) => bitCount(fp) / fp.length;
+
+// Bit vector as hex, least significant bit first within each byte (the FPS convention)
+export const toHex = (fp: Fingerprint) => {
+  const bytes = new Uint8Array(Math.ceil(fp.length / 8));
+  fp.counts.forEach((count, bit) => {
+    if (count > 0) bytes[bit >> 3] |= 1 << (bit & 7);
+  });
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+export const toJSON = (fp: Fingerprint, smiles?: string) =>
+  JSON.stringify(
+    {
+      smiles,
+      type: fp.type,
+      length: fp.length,
+      options: fp.type === "maccs" ? undefined : fp.options,
+      onBits: onBits(fp),
+      counts: Object.fromEntries(onBits(fp).map((bit) => [bit, fp.counts[bit]])),
+    },
+    null,
+    2
+  );
+
+// Sparse JSON back to a fingerprint, for fingerprints stored or downloaded earlier
+export const fromJSON = (json: string): Fingerprint => {
+  const data = JSON.parse(json);
+  const counts = new Uint32Array(data.length);
+  for (const [bit, count] of Object.entries(data.counts as Record<string, number>)) counts[Number(bit)] = count;
+  return { type: data.type, options: { ...DEFAULT_FINGERPRINT_OPTIONS, ...data.options }, length: data.length, counts };
+};
+
+// Bits and counts of the non-zero positions only, for storing many fingerprints compactly
+export interface SparseFingerprint {
+  type: FingerprintType;
+  options: FingerprintOptions;
+  length: number;
+  bits: number[];
+  counts: number[];
+}
+
+export const toSparse = (fp: Fingerprint): SparseFingerprint => {
+  const bits = onBits(fp);
+  return { type: fp.type, options: fp.options, length: fp.length, bits, counts: bits.map((bit) => fp.counts[bit]) };
+};
+
+export const fromSparse = ({ type, options, length, bits, counts }: SparseFingerprint): Fingerprint => {
+  const dense = new Uint32Array(length);
+  bits.forEach((bit, k) => (dense[bit] = counts[k]));
+  return { type, options, length, counts: dense };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { Conformer, addHydrogens, generateConformer } from "./conformer";
+import {
+  buildForceField,
+  energyTerms,
+  forceFieldEnergy,
+  minimizeGeometry,
+  strainEnergy,
+  uffAtomTypes,
+} from "./forcefield";
+import { flattenPoints } from "./geometry";
+import { parseSmiles } from "./smiles";
+
+describe("uffAtomTypes", () => {
+  it("types atoms by element and hybridization", () => {
+    expect(uffAtomTypes(addHydrogens(parseSmiles("CC(=O)Nc1ccccc1"))).slice(0, 5)).toEqual([
+      "C_3",
+      "C_2",
+      "O_2",
+      "N_R",
+      "C_R",
+    ]);
+    expect(uffAtomTypes(addHydrogens(parseSmiles("C#N"))).slice(0, 2)).toEqual(["C_1", "N_1"]);
+  });
+});
+
+describe("forceFieldEnergy", () => {
+  it("returns the gradient of the energy", () => {
+    const { molecule, points } = generateConformer(parseSmiles("CC(=O)N")) as Conformer;
+    const ff = buildForceField(molecule);
+    const x = flattenPoints(points.map((p, k) => ({ ...p, x: p.x + 0.05 * Math.sin(k) })));
+    const gradient = new Float64Array(x.length);
+    forceFieldEnergy(ff, x, gradient);
+    const h = 1e-6;
+    for (let k = 0; k < x.length; k++) {
+      const plus = Float64Array.from(x);
+      const minus = Float64Array.from(x);
+      plus[k] += h;
+      minus[k] -= h;
+      expect(gradient[k]).toBeCloseTo((forceFieldEnergy(ff, plus) - forceFieldEnergy(ff, minus)) / (2 * h), 3);
+    }
+  });
+});
+
+describe("minimizeGeometry", () => {
+  it("relaxes a distorted geometry to a lower energy", () => {
+    const { molecule, points } = generateConformer(parseSmiles("CCCO")) as Conformer;
+    const ff = buildForceField(molecule);
+    const distorted = points.map((p, k) => ({ ...p, x: p.x + 0.2 * Math.sin(3 * k), z: p.z + 0.1 * Math.cos(5 * k) }));
+    const before = energyTerms(ff, distorted);
+    const after = minimizeGeometry(ff, distorted);
+    expect(after.converged).toBe(true);
+    expect(after.terms.total).toBeLessThan(before.total - 10);
+    expect(strainEnergy(after.terms)).toBeLessThan(strainEnergy(before));
+  });
+
+  it("leaves a minimum where it is", () => {
+    const { molecule, points, energy } = generateConformer(parseSmiles("CCO")) as Conformer;
+    const { terms } = minimizeGeometry(buildForceField(molecule), points);
+    expect(terms.total).toBeCloseTo(energy, 2);
+  });
+});
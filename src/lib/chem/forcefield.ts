@@ -0,0 +1,446 @@
+import { flattenPoints, unflattenPoints } from "./geometry";
+import { Atom, Molecule, Point3D, bondKey, neighbors } from "./molecule";
+import { MinimizeOptions, minimize } from "./optimize";
+
+// Per element: [vdW distance x, vdW well depth D, effective charge Z, GMP electronegativity, sp2 torsion U]
+const ELEMENT_PARAMETERS: Record<string, [number, number, number, number, number]> = {
+  H: [2.886, 0.044, 0.712, 4.528, 0],
+  B: [4.083, 0.18, 1.755, 5.11, 0],
+  C: [3.851, 0.105, 1.912, 5.343, 2],
+  N: [3.66, 0.069, 2.544, 6.899, 2],
+  O: [3.5, 0.06, 2.3, 8.741, 2],
+  F: [3.364, 0.05, 1.735, 10.874, 2],
+  Si: [4.295, 0.402, 2.323, 4.168, 1.225],
+  P: [4.147, 0.305, 2.863, 5.463, 1.25],
+  S: [4.035, 0.274, 2.703, 6.928, 1.25],
+  Cl: [3.947, 0.227, 2.348, 8.564, 1.25],
+  Se: [4.205, 0.291, 2.35, 6.428, 0.7],
+  Br: [4.189, 0.251, 2.519, 7.79, 0.7],
+  I: [4.5, 0.339, 2.65, 6.822, 0.2],
+};
+
+// Stand-in for elements UFF is not parameterized for here
+const GENERIC_ELEMENT: [number, number, number, number, number] = [4, 0.1, 2, 5, 0];
+
+// Per UFF atom type: [bond radius, natural angle in degrees, sp3 torsion V]
+const TYPE_PARAMETERS: Record<string, [number, number, number]> = {
+  H_: [0.354, 180, 0],
+  B_2: [0.828, 120, 0],
+  B_3: [0.838, 109.47, 0],
+  C_1: [0.706, 180, 0],
+  C_2: [0.732, 120, 0],
+  C_R: [0.729, 120, 0],
+  C_3: [0.757, 109.47, 2.119],
+  N_1: [0.656, 180, 0],
+  N_2: [0.685, 111.2, 0],
+  N_R: [0.699, 120, 0],
+  N_3: [0.7, 106.7, 0.45],
+  O_1: [0.639, 180, 0],
+  O_2: [0.634, 120, 0],
+  O_R: [0.68, 110, 0],
+  O_3: [0.658, 104.51, 0.018],
+  F_: [0.668, 180, 0],
+  Si3: [1.117, 109.47, 1.225],
+  "P_3+3": [1.101, 93.8, 2.4],
+  "P_3+5": [1.056, 109.47, 2.4],
+  S_2: [0.854, 120, 0],
+  S_R: [1.077, 92.2, 0],
+  "S_3+2": [1.064, 92.1, 0.484],
+  "S_3+4": [1.049, 103.2, 0.484],
+  "S_3+6": [1.027, 109.47, 0.484],
+  Cl: [1.044, 180, 0],
+  "Se3+2": [1.19, 90.6, 0.335],
+  Br: [1.192, 180, 0],
+  I_: [1.382, 180, 0],
+  X: [1.2, 109.47, 0],
+};
+
+const FIXED_TYPES: Record<string, string> = { H: "H_", F: "F_", Cl: "Cl", Br: "Br", I: "I_", Si: "Si3", Se: "Se3+2" };
+
+const bondOrderOf = (mol: Molecule, bond: number) => (mol.bonds[bond].aromatic ? 1.5 : mol.bonds[bond].order);
+
+/**
+ * UFF atom type from element and hybridization: _1 linear, _2 trigonal, _R
+ * resonant, _3 tetrahedral, with +n for the oxidation state of P and S. Amide
+ * and aniline nitrogens count as resonant so they stay planar.
+ */
+const atomType = (mol: Molecule, atom: Atom) => {
+  if (FIXED_TYPES[atom.element]) return FIXED_TYPES[atom.element];
+  const orders = mol.adjacency[atom.index].map((b) => bondOrderOf(mol, b));
+  const doubles = orders.filter((order) => order === 2).length;
+  const linear = orders.includes(3) || doubles >= 2;
+  const valence = orders.reduce((sum, order) => sum + order, 0) + atom.hCount;
+  switch (atom.element) {
+    case "C":
+      return atom.aromatic ? "C_R" : linear ? "C_1" : doubles ? "C_2" : "C_3";
+    case "N": {
+      if (atom.aromatic) return "N_R";
+      if (linear) return "N_1";
+      if (doubles) return "N_2";
+      const conjugated = neighbors(mol, atom.index).some((n) =>
+        mol.adjacency[n].some((b) => bondOrderOf(mol, b) > 1)
+      );
+      return conjugated && orders.length + atom.hCount <= 3 ? "N_R" : "N_3";
+    }
+    case "O":
+      return atom.aromatic ? "O_R" : orders.includes(3) ? "O_1" : doubles ? "O_2" : "O_3";
+    case "S":
+      if (atom.aromatic) return "S_R";
+      if (valence > 4) return "S_3+6";
+      if (valence > 2) return "S_3+4";
+      return doubles ? "S_2" : "S_3+2";
+    case "P":
+      return valence > 3 ? "P_3+5" : "P_3+3";
+    case "B":
+      return atom.aromatic || doubles ? "B_2" : "B_3";
+    default:
+      return "X";
+  }
+};
+
+export const uffAtomTypes = (mol: Molecule) => mol.atoms.map((atom) => atomType(mol, atom));
+
+const elementParameters = (element: string) => ELEMENT_PARAMETERS[element] ?? GENERIC_ELEMENT;
+
+// Hybridization digit of a type: 1, 2 (including resonant) or 3
+const hybridization = (type: string) => {
+  const code = type.replace(/^[A-Z][a-z]?_?/, "")[0];
+  return code === "1" ? 1 : code === "2" || code === "R" ? 2 : 3;
+};
+
+// Lennard-Jones minimum distance between two elements
+export const uffContactDistance = (a: string, b: string) => Math.sqrt(elementParameters(a)[0] * elementParameters(b)[0]);
+
+// Natural bond angle at an atom of this type, in radians
+export const uffAngle = (type: string) => (TYPE_PARAMETERS[type][1] * Math.PI) / 180;
+
+/** UFF natural bond length: radii plus bond-order and electronegativity corrections. */
+export const uffBondLength = (types: string[], elements: string[], i: number, j: number, order: number) => {
+  const ri = TYPE_PARAMETERS[types[i]][0];
+  const rj = TYPE_PARAMETERS[types[j]][0];
+  const xi = elementParameters(elements[i])[3];
+  const xj = elementParameters(elements[j])[3];
+  const rBO = -0.1332 * (ri + rj) * Math.log(order);
+  const rEN = (ri * rj * (Math.sqrt(xi) - Math.sqrt(xj)) ** 2) / (xi * ri + xj * rj);
+  return ri + rj + rBO - rEN;
+};
+
+interface StretchTerm {
+  i: number;
+  j: number;
+  length: number;
+  k: number;
+}
+
+interface BendTerm {
+  i: number;
+  j: number;
+  k: number;
+  force: number;
+  // 1 linear, 3 trigonal, 0 for the general Fourier form with c0..c2
+  fold: number;
+  c0: number;
+  c1: number;
+  c2: number;
+}
+
+interface TorsionTerm {
+  i: number;
+  j: number;
+  k: number;
+  l: number;
+  barrier: number;
+  fold: number;
+  // cos(n φ0): +1 or -1
+  phase: number;
+}
+
+interface VanDerWaalsTerm {
+  i: number;
+  j: number;
+  // Square of the minimum-energy distance
+  distance2: number;
+  depth: number;
+}
+
+// kcal/mol by kind of term
+export interface EnergyTerms {
+  stretch: number;
+  bend: number;
+  torsion: number;
+  vanDerWaals: number;
+  total: number;
+}
+
+export interface ForceField {
+  types: string[];
+  stretches: StretchTerm[];
+  bends: BendTerm[];
+  torsions: TorsionTerm[];
+  vanDerWaals: VanDerWaalsTerm[];
+}
+
+// Atoms one and two bonds away, which vdW terms skip
+const nearNeighbours = (mol: Molecule) =>
+  mol.atoms.map((atom) => {
+    const near = new Set<number>([atom.index]);
+    for (const n of neighbors(mol, atom.index)) {
+      near.add(n);
+      for (const m of neighbors(mol, n)) near.add(m);
+    }
+    return near;
+  });
+
+/**
+ * Universal Force Field (Rappé et al., 1992) terms for a molecule whose
+ * hydrogens are all explicit atoms: harmonic bond stretches, Fourier angle
+ * bends, torsions and Lennard-Jones van der Waals between atoms at least three
+ * bonds apart. Energies are in kcal/mol and distances in ångström.
+ */
+export const buildForceField = (mol: Molecule): ForceField => {
+  const types = uffAtomTypes(mol);
+  const elements = mol.atoms.map((atom) => atom.element);
+  const restLength = new Map<string, number>();
+
+  const stretches = mol.bonds.map((bond) => {
+    const length = uffBondLength(types, elements, bond.begin, bond.end, bondOrderOf(mol, bond.index));
+    restLength.set(bondKey(bond.begin, bond.end), length);
+    const zi = elementParameters(elements[bond.begin])[2];
+    const zj = elementParameters(elements[bond.end])[2];
+    return { i: bond.begin, j: bond.end, length, k: (664.12 * zi * zj) / length ** 3 };
+  });
+
+  const bends: BendTerm[] = [];
+  for (const atom of mol.atoms) {
+    const around = neighbors(mol, atom.index);
+    const theta = uffAngle(types[atom.index]);
+    const cos0 = Math.cos(theta);
+    for (let a = 0; a < around.length; a++) {
+      for (let b = a + 1; b < around.length; b++) {
+        const [i, k] = [around[a], around[b]];
+        const rij = restLength.get(bondKey(i, atom.index));
+        const rjk = restLength.get(bondKey(atom.index, k));
+        const rik2 = rij * rij + rjk * rjk - 2 * rij * rjk * cos0;
+        const zi = elementParameters(elements[i])[2];
+        const zk = elementParameters(elements[k])[2];
+        const force = ((664.12 * zi * zk) / rik2 ** 2.5) * (3 * rij * rjk * (1 - cos0 * cos0) - rik2 * cos0);
+        const fold = theta > 3.1 ? 1 : Math.abs(theta - (2 * Math.PI) / 3) < 1e-3 ? 3 : 0;
+        const c2 = 1 / (4 * Math.max(Math.sin(theta) ** 2, 1e-8));
+        bends.push({ i, j: atom.index, k, force, fold, c0: c2 * (2 * cos0 * cos0 + 1), c1: -4 * c2 * cos0, c2 });
+      }
+    }
+  }
+
+  const torsions: TorsionTerm[] = [];
+  for (const bond of mol.bonds) {
+    const [j, k] = [bond.begin, bond.end];
+    const hj = hybridization(types[j]);
+    const hk = hybridization(types[k]);
+    if (hj === 1 || hk === 1) continue;
+    const outerJ = neighbors(mol, j).filter((n) => n !== k);
+    const outerK = neighbors(mol, k).filter((n) => n !== j);
+    const count = outerJ.length * outerK.length;
+    if (count === 0) continue;
+    let barrier: number;
+    let fold: number;
+    let phase: number;
+    if (hj === 3 && hk === 3) {
+      barrier = Math.sqrt(TYPE_PARAMETERS[types[j]][2] * TYPE_PARAMETERS[types[k]][2]);
+      fold = 3;
+      phase = -1;
+    } else if (hj === 2 && hk === 2) {
+      const uj = elementParameters(elements[j])[4];
+      const uk = elementParameters(elements[k])[4];
+      barrier = 5 * Math.sqrt(uj * uk) * (1 + 4.18 * Math.log(bondOrderOf(mol, bond.index)));
+      fold = 2;
+      phase = 1;
+    } else {
+      barrier = 1;
+      fold = 6;
+      phase = 1;
+    }
+    if (barrier === 0) continue;
+    for (const i of outerJ) {
+      for (const l of outerK) {
+        if (i !== l) torsions.push({ i, j, k, l, barrier: barrier / count, fold, phase });
+      }
+    }
+  }
+
+  const near = nearNeighbours(mol);
+  const vanDerWaals: VanDerWaalsTerm[] = [];
+  for (let i = 0; i < mol.atoms.length; i++) {
+    for (let j = i + 1; j < mol.atoms.length; j++) {
+      if (near[i].has(j)) continue;
+      const [xi, di] = elementParameters(elements[i]);
+      const [xj, dj] = elementParameters(elements[j]);
+      vanDerWaals.push({ i, j, distance2: xi * xj, depth: Math.sqrt(di * dj) });
+    }
+  }
+
+  return { types, stretches, bends, torsions, vanDerWaals };
+};
+
+// cos(nφ) as a polynomial in cos φ, and its derivative
+const chebyshev = (fold: number, c: number): [number, number] => {
+  switch (fold) {
+    case 2:
+      return [2 * c * c - 1, 4 * c];
+    case 3:
+      return [4 * c ** 3 - 3 * c, 12 * c * c - 3];
+    case 6: {
+      const c2 = c * c;
+      return [32 * c2 ** 3 - 48 * c2 * c2 + 18 * c2 - 1, 192 * c2 * c2 * c - 192 * c2 * c + 36 * c];
+    }
+    default:
+      return [c, 1];
+  }
+};
+
+// Adds d(value)/d(cos) times the gradient of the cosine between vectors u and v
+const addCosineGradient = (
+  gradient: Float64Array,
+  scale: number,
+  u: number[],
+  v: number[],
+  c: number,
+  [a, b, centre]: [number, number, number]
+) => {
+  const lu = Math.hypot(u[0], u[1], u[2]);
+  const lv = Math.hypot(v[0], v[1], v[2]);
+  for (let d = 0; d < 3; d++) {
+    const ga = scale * (v[d] / (lu * lv) - (c * u[d]) / (lu * lu));
+    const gb = scale * (u[d] / (lu * lv) - (c * v[d]) / (lv * lv));
+    gradient[3 * a + d] += ga;
+    gradient[3 * b + d] += gb;
+    gradient[3 * centre + d] -= ga + gb;
+  }
+};
+
+const cross = (a: number[], b: number[]) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+const vector = (x: Float64Array, from: number, to: number) => [
+  x[3 * to] - x[3 * from],
+  x[3 * to + 1] - x[3 * from + 1],
+  x[3 * to + 2] - x[3 * from + 2],
+];
+
+// Energy by term at flat coordinates, adding the gradient into `gradient` when given
+const evaluate = (ff: ForceField, x: Float64Array, gradient: Float64Array | null): EnergyTerms => {
+  const terms = { stretch: 0, bend: 0, torsion: 0, vanDerWaals: 0, total: 0 };
+
+  for (const { i, j, length, k } of ff.stretches) {
+    const d = vector(x, j, i);
+    const r = Math.hypot(d[0], d[1], d[2]) || 1e-8;
+    terms.stretch += 0.5 * k * (r - length) ** 2;
+    if (gradient) {
+      const f = (k * (r - length)) / r;
+      for (let a = 0; a < 3; a++) {
+        gradient[3 * i + a] += f * d[a];
+        gradient[3 * j + a] -= f * d[a];
+      }
+    }
+  }
+
+  for (const { i, j, k, force, fold, c0, c1, c2 } of ff.bends) {
+    const u = vector(x, j, i);
+    const v = vector(x, j, k);
+    const lengths = Math.hypot(u[0], u[1], u[2]) * Math.hypot(v[0], v[1], v[2]) || 1e-8;
+    const c = Math.max(-1, Math.min(1, (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / lengths));
+    let dEdc: number;
+    if (fold === 1) {
+      terms.bend += force * (1 + c);
+      dEdc = force;
+    } else if (fold === 3) {
+      terms.bend += (force / 9) * (1 - 4 * c ** 3 + 3 * c);
+      dEdc = (force / 9) * (3 - 12 * c * c);
+    } else {
+      terms.bend += force * (c0 + c1 * c + c2 * (2 * c * c - 1));
+      dEdc = force * (c1 + 4 * c2 * c);
+    }
+    if (gradient) addCosineGradient(gradient, dEdc, u, v, c, [i, k, j]);
+  }
+
+  for (const { i, j, k, l, barrier, fold, phase } of ff.torsions) {
+    // φ between the planes i-j-k and j-k-l, through the normals of each
+    const b1 = vector(x, i, j);
+    const b2 = vector(x, j, k);
+    const b3 = vector(x, k, l);
+    const m = cross(b1, b2);
+    const n = cross(b2, b3);
+    const lm = Math.hypot(m[0], m[1], m[2]);
+    const ln = Math.hypot(n[0], n[1], n[2]);
+    if (lm < 1e-6 || ln < 1e-6) continue;
+    const c = Math.max(-1, Math.min(1, (m[0] * n[0] + m[1] * n[1] + m[2] * n[2]) / (lm * ln)));
+    const [cosN, dCosN] = chebyshev(fold, c);
+    terms.torsion += 0.5 * barrier * (1 - phase * cosN);
+    if (gradient) {
+      const dEdc = -0.5 * barrier * phase * dCosN;
+      // d(cos)/dm and d(cos)/dn, pushed back through the cross products onto the bond vectors
+      const dm = m.map((_, a) => (n[a] / ln - (c * m[a]) / lm) / lm);
+      const dn = n.map((_, a) => (m[a] / lm - (c * n[a]) / ln) / ln);
+      const g1 = cross(b2, dm);
+      const g2 = cross(dm, b1).map((value, a) => value + cross(b3, dn)[a]);
+      const g3 = cross(dn, b2);
+      for (let a = 0; a < 3; a++) {
+        const di = -g1[a];
+        const dj = g1[a] - g2[a];
+        const dk = g2[a] - g3[a];
+        const dl = g3[a];
+        gradient[3 * i + a] += dEdc * di;
+        gradient[3 * j + a] += dEdc * dj;
+        gradient[3 * k + a] += dEdc * dk;
+        gradient[3 * l + a] += dEdc * dl;
+      }
+    }
+  }
+
+  for (const { i, j, distance2, depth } of ff.vanDerWaals) {
+    const d = vector(x, j, i);
+    const r2 = Math.max(d[0] * d[0] + d[1] * d[1] + d[2] * d[2], 1e-4);
+    const s3 = (distance2 / r2) ** 3;
+    terms.vanDerWaals += depth * (s3 * s3 - 2 * s3);
+    if (gradient) {
+      const f = (12 * depth * (s3 - s3 * s3)) / r2;
+      for (let a = 0; a < 3; a++) {
+        gradient[3 * i + a] += f * d[a];
+        gradient[3 * j + a] -= f * d[a];
+      }
+    }
+  }
+
+  terms.total = terms.stretch + terms.bend + terms.torsion + terms.vanDerWaals;
+  return terms;
+};
+
+/** Total energy at flat coordinates, adding its gradient into `gradient` when given. */
+export const forceFieldEnergy = (ff: ForceField, x: Float64Array, gradient: Float64Array | null = null) =>
+  evaluate(ff, x, gradient).total;
+
+export const energyTerms = (ff: ForceField, points: Point3D[]) => evaluate(ff, flattenPoints(points), null);
+
+// Strain is the valence part of the energy: how far bonds, angles and torsions sit from their ideals
+export const strainEnergy = (terms: EnergyTerms) => terms.stretch + terms.bend + terms.torsion;
+
+export interface MinimizedGeometry {
+  points: Point3D[];
+  terms: EnergyTerms;
+  converged: boolean;
+}
+
+/** Relaxes 3D coordinates to the nearest energy minimum of a force field. */
+export const minimizeGeometry = (
+  ff: ForceField,
+  points: Point3D[],
+  overrides: Partial<MinimizeOptions> = {}
+): MinimizedGeometry => {
+  const result = minimize(
+    (x, gradient) => {
+      gradient.fill(0);
+      return forceFieldEnergy(ff, x, gradient);
+    },
+    flattenPoints(points),
+    overrides
+  );
+  return { points: unflattenPoints(result.x), terms: evaluate(ff, result.x, null), converged: result.converged };
+};
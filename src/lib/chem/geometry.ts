@@ -0,0 +1,37 @@
+import { Chirality, IMPLICIT_HYDROGEN, Point3D } from "./molecule";
+
+export const distance = (a: Point3D, b: Point3D) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+export const subtract = (a: Point3D, b: Point3D): Point3D => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+
+export const determinant = (a: Point3D, b: Point3D, c: Point3D) =>
+  a.x * (b.y * c.z - b.z * c.y) - a.y * (b.x * c.z - b.z * c.x) + a.z * (b.x * c.y - b.y * c.x);
+
+// Where an implicit hydrogen sits: opposite the sum of the other bond directions
+export const hydrogenPoint = (centre: Point3D, others: Point3D[]): Point3D => {
+  const sum = others.reduce(
+    (acc, p) => {
+      const d = subtract(p, centre);
+      const length = Math.hypot(d.x, d.y, d.z) || 1;
+      return { x: acc.x + d.x / length, y: acc.y + d.y / length, z: acc.z + d.z / length };
+    },
+    { x: 0, y: 0, z: 0 }
+  );
+  return { x: centre.x - sum.x, y: centre.y - sum.y, z: centre.z - sum.z };
+};
+
+// Seen from the first neighbour, the other three run anticlockwise for @ and clockwise for @@
+export const chiralityFromPoints = (order: number[], centre: number, points: Point3D[]): Chirality => {
+  const known = order.filter((n) => n !== IMPLICIT_HYDROGEN).map((n) => points[n]);
+  const at = (n: number) => (n === IMPLICIT_HYDROGEN ? hydrogenPoint(points[centre], known) : points[n]);
+  const [p0, p1, p2, p3] = order.map(at);
+  const volume = determinant(subtract(p1, p0), subtract(p2, p0), subtract(p3, p0));
+  if (Math.abs(volume) < 1e-6) return null;
+  return volume < 0 ? "@" : "@@";
+};
+
+// Points as a flat x, y, z array for the minimizer, and back
+export const flattenPoints = (points: Point3D[]) => Float64Array.from(points.flatMap((p) => [p.x, p.y, p.z]));
+
+export const unflattenPoints = (x: Float64Array): Point3D[] =>
+  Array.from({ length: x.length / 3 }, (_, i) => ({ x: x[3 * i], y: x[3 * i + 1], z: x[3 * i + 2] }));
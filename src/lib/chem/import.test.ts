@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { ImportFormat, applyMapping, detectFormat, guessMapping, readImportTable } from "./import";
+import { writeSdf } from "./molfile";
+import { parseSmiles } from "./smiles";
+
+const importText = (text: string, format: ImportFormat) => {
+  const table = readImportTable(text, format);
+  return applyMapping(table, guessMapping(table));
+};
+
+describe("detectFormat", () => {
+  it("goes by extension", () => {
+    expect(detectFormat("library.CSV")).toBe("csv");
+    expect(detectFormat("hits.tab")).toBe("tsv");
+    expect(detectFormat("set.smi")).toBe("smi");
+    expect(detectFormat("structures.sdf")).toBe("sdf");
+    expect(detectFormat("notes.docx")).toBeNull();
+  });
+});
+
+describe("readImportTable", () => {
+  it("splits quoted CSV fields with delimiters, quotes and newlines", () => {
+    const text = 'name,smiles,note\r\n"aspirin, plain",CC(=O)Oc1ccccc1C(=O)O,"says ""hi""\ntwice"\nethanol,CCO,\n';
+    const table = readImportTable(text, "csv");
+    expect(table.headers).toEqual(["name", "smiles", "note"]);
+    expect(table.rows).toEqual([
+      { line: 2, cells: ["aspirin, plain", "CC(=O)Oc1ccccc1C(=O)O", 'says "hi"\ntwice'] },
+      { line: 4, cells: ["ethanol", "CCO", ""] },
+    ]);
+  });
+
+  it("reports a quoted field that is never closed", () => {
+    const { errors } = readImportTable('smiles\n"CCO\n', "csv");
+    expect(errors).toEqual([{ line: 2, reason: "Quoted field is never closed" }]);
+  });
+});
+
+describe("guessMapping", () => {
+  it("prefers a column named SMILES and an identifier column", () => {
+    const table = readImportTable("ID\tpIC50\tSMILES\nm1\t6.2\tCCO\n", "tsv");
+    expect(guessMapping(table)).toEqual({ smiles: 2, id: 0, extras: [1] });
+  });
+
+  it("otherwise picks the first column that parses as SMILES", () => {
+    const table = readImportTable("label,structure\nfoo,CCO\nbar,c1ccccc1\n", "csv");
+    expect(guessMapping(table).smiles).toBe(1);
+  });
+});
+
+describe("applyMapping", () => {
+  it("imports good rows and reports the rest by line", () => {
+    const text = "id,smiles,pIC50\nm1,CCO,5.1\nm2,C1CC,6.0\nm3,,7\nm4,c1ccccc1\nm5,CCN,4.2\n";
+    const { records, errors } = importText(text, "csv");
+    expect(records).toEqual([
+      { line: 2, smiles: "CCO", id: "m1", extras: { pIC50: "5.1" } },
+      { line: 6, smiles: "CCN", id: "m5", extras: { pIC50: "4.2" } },
+    ]);
+    expect(errors).toEqual([
+      { line: 3, reason: "Invalid SMILES 'C1CC': Ring bond 1 is never closed at character 2" },
+      { line: 4, reason: "Empty smiles column" },
+      { line: 5, reason: "Expected 3 columns but found 2" },
+    ]);
+  });
+
+  it("reads SMILES files without a header", () => {
+    const { records } = importText("# set\nCCO ethanol\n\nc1ccccc1\n", "smi");
+    expect(records.map(({ line, smiles, id }) => [line, smiles, id])).toEqual([
+      [2, "CCO", "ethanol"],
+      [4, "c1ccccc1", null],
+    ]);
+  });
+});
+
+describe("SD file import", () => {
+  it("reads each record's SMILES, title and data fields", () => {
+    const sdf = writeSdf([
+      { molecule: parseSmiles("OCC"), name: "ethanol", properties: { pIC50: 5.1 } },
+      { molecule: parseSmiles("c1ccccc1"), name: "benzene", properties: { source: "vendor" } },
+    ]);
+    const table = readImportTable(sdf, "sdf");
+    expect(table.headers).toEqual(["SMILES", "Name", "pIC50", "source"]);
+    expect(applyMapping(table, guessMapping(table)).records).toEqual([
+      { line: 1, smiles: "CCO", id: "ethanol", extras: { pIC50: "5.1", source: "" } },
+      { line: 15, smiles: "c1ccccc1", id: "benzene", extras: { pIC50: "", source: "vendor" } },
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+import { canonicalSmiles } from "./canonical";
+import { parseSdf } from "./molfile";
+import { tryParseSmiles } from "./smiles";
+
+export type ImportFormat = "smi" | "csv" | "tsv" | "sdf";
+
+export interface ImportRow {
+  // 1-based line the row starts on in the file
+  line: number;
+  cells: string[];
+}
+
+export interface ImportTable {
+  format: ImportFormat;
+  headers: string[];
+  rows: ImportRow[];
+  // Rows that could not be split into cells at all
+  errors: ImportError[];
+}
+
+export interface ColumnMapping {
+  smiles: number;
+  id: number | null;
+  extras: number[];
+}
+
+export interface ImportedRecord {
+  line: number;
+  smiles: string;
+  id: string | null;
+  // Extra columns by header name, carried through analysis and exports
+  extras: Record<string, string>;
+}
+
+export interface ImportError {
+  line: number;
+  reason: string;
+}
+
+export const detectFormat = (fileName: string): ImportFormat | null => {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "smi" || extension === "smiles" || extension === "txt") return "smi";
+  if (extension === "csv") return "csv";
+  if (extension === "tsv" || extension === "tab") return "tsv";
+  if (extension === "sdf" || extension === "sd" || extension === "mol") return "sdf";
+  return null;
+};
+
+// RFC 4180 fields: quotes may wrap delimiters, doubled quotes and newlines
+const splitDelimited = (text: string, delimiter: string) => {
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let rowHasContent = false;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (rowHasContent || cells.length > 1 || cell.trim()) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = "";
+    rowHasContent = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === "\n") line++;
+        cell += c;
+      }
+    } else if (c === '"' && cell.trim() === "") {
+      quoted = true;
+      rowHasContent = true;
+      cell = "";
+    } else if (c === delimiter) {
+      cells.push(cell);
+      cell = "";
+      rowHasContent = true;
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) {
+    errors.push({ line: rowLine, reason: "Quoted field is never closed" });
+  } else {
+    endRow();
+  }
+  return { rows, errors };
+};
+
+// SMILES files: the first token is the structure, the rest of the line its name
+const splitSmi = (text: string) => {
+  const rows: ImportRow[] = [];
+  text.split(/\r?\n/).forEach((raw, k) => {
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+    const [smiles, ...rest] = trimmed.split(/\s+/);
+    rows.push({ line: k + 1, cells: [smiles, rest.join(" ")] });
+  });
+  return rows;
+};
+
+// SD records become rows of SMILES, title and every data field seen in the file
+const splitSdf = (text: string) => {
+  const { records, errors } = parseSdf(text);
+  const fields = [...new Set(records.flatMap((record) => Object.keys(record.properties)))];
+  const rows = records.map((record) => ({
+    line: record.line,
+    cells: [canonicalSmiles(record.molecule), record.name, ...fields.map((field) => record.properties[field] ?? "")],
+  }));
+  return { headers: ["SMILES", "Name", ...fields], rows, errors };
+};
+
+export const readImportTable = (text: string, format: ImportFormat): ImportTable => {
+  if (format === "smi") return { format, headers: ["SMILES", "Name"], rows: splitSmi(text), errors: [] };
+  if (format === "sdf") return { format, ...splitSdf(text) };
+  const { rows, errors } = splitDelimited(text, format === "csv" ? "," : "\t");
+  const [header, ...body] = rows;
+  const headers = (header?.cells ?? []).map((name, k) => name.trim() || `Column ${k + 1}`);
+  return { format, headers, rows: body, errors };
+};
+
+// SMILES column by name, or else the first column whose first rows parse as SMILES
+export const guessMapping = (table: ImportTable): ColumnMapping => {
+  const { headers, rows } = table;
+  const named = (pattern: RegExp) => headers.findIndex((header) => pattern.test(header.trim()));
+  let smiles = named(/smiles/i);
+  if (smiles === -1) {
+    const sample = rows.slice(0, 10);
+    smiles = headers.findIndex((_, k) =>
+      sample.length > 0 && sample.every((row) => row.cells[k] && !tryParseSmiles(row.cells[k].trim()).error)
+    );
+  }
+  if (smiles === -1) smiles = 0;
+  const id = named(/^(id|name|title|cmpd|compound|mol(ecule)?[ _]?(id|name))$/i);
+  const idColumn = id === -1 || id === smiles ? null : id;
+  return {
+    smiles,
+    id: idColumn,
+    extras: headers.map((_, k) => k).filter((k) => k !== smiles && k !== idColumn),
+  };
+};
+
+/**
+ * Turns mapped rows into records. A row with the wrong number of cells, an
+ * empty SMILES cell or a SMILES that does not parse is reported by line and
+ * skipped; the rest of the file still imports.
+ */
+export const applyMapping = (table: ImportTable, mapping: ColumnMapping) => {
+  const records: ImportedRecord[] = [];
+  const errors: ImportError[] = [...table.errors];
+  const expected = table.headers.length;
+
+  for (const { line, cells } of table.rows) {
+    if (table.format !== "smi" && cells.length !== expected) {
+      errors.push({ line, reason: `Expected ${expected} columns but found ${cells.length}` });
+      continue;
+    }
+    const smiles = (cells[mapping.smiles] ?? "").trim();
+    if (!smiles) {
+      errors.push({ line, reason: `Empty ${table.headers[mapping.smiles]} column` });
+      continue;
+    }
+    const { error } = tryParseSmiles(smiles);
+    if (error) {
+      errors.push({ line, reason: `Invalid SMILES '${smiles}': ${error.reason} at character ${error.position + 1}` });
+      continue;
+    }
+    const id = mapping.id === null ? null : cells[mapping.id]?.trim() || null;
+    const extras = Object.fromEntries(mapping.extras.map((k) => [table.headers[k], (cells[k] ?? "").trim()]));
+    records.push({ line, smiles, id, extras });
+  }
+  errors.sort((a, b) => a.line - b.line);
+  return { records, errors };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { chiralityFromPoints, distance } from "./geometry";
+import { computeLayout, freeAngles, wedgeBonds } from "./layout";
+import { stereoNeighbors } from "./molecule";
+import { parseSmiles } from "./smiles";
+
+describe("computeLayout", () => {
+  it.each([
+    "CC(=O)Oc1ccccc1C(=O)O",
+    "Cn1cnc2c1c(=O)n(C)c(=O)n2C",
+    "CC12CCC3C(CCC4=CC(=O)CCC34C)C1CCC2O",
+    "C1CCC2(CC1)CCCC2",
+    "[Na+].[O-]C(=O)c1ccccc1",
+  ])("places %s flat with unit bonds and no overlapping atoms", (smiles) => {
+    const mol = parseSmiles(smiles);
+    const points = computeLayout(mol);
+    expect(points).toHaveLength(mol.atoms.length);
+    for (const p of points) {
+      expect(Number.isFinite(p.x) && Number.isFinite(p.y)).toBe(true);
+      expect(p.z).toBe(0);
+    }
+    for (const bond of mol.bonds) expect(distance(points[bond.begin], points[bond.end])).toBeCloseTo(1, 3);
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) expect(distance(points[i], points[j])).toBeGreaterThan(0.9);
+    }
+  });
+
+  it("gives bridged systems finite coordinates", () => {
+    const points = computeLayout(parseSmiles("C1CC2CCC1CC2"));
+    expect(points.every((p) => Number.isFinite(p.x) && Number.isFinite(p.y))).toBe(true);
+  });
+});
+
+describe("freeAngles", () => {
+  it("spreads new bonds evenly through the widest gap", () => {
+    const [first, second] = freeAngles([0], 2);
+    expect(first).toBeCloseTo((2 * Math.PI) / 3);
+    expect(second).toBeCloseTo((4 * Math.PI) / 3);
+    expect(freeAngles([0, Math.PI], 1)[0]).toBeCloseTo(Math.PI / 2);
+  });
+});
+
+describe("wedgeBonds", () => {
+  it("wedges each stereocentre so the drawing gives back its chirality", () => {
+    for (const smiles of ["N[C@@H](C)C(=O)O", "N[C@H](C)C(=O)O"]) {
+      const mol = parseSmiles(smiles);
+      const points = computeLayout(mol);
+      const wedges = [...wedgeBonds(mol, points)];
+      expect(wedges).toHaveLength(1);
+      const [[bond, { narrow, hashed }]] = wedges;
+      const { begin, end } = mol.bonds[bond];
+      const wide = begin === narrow ? end : begin;
+      const lifted = points.map((p, k) => ({ ...p, z: k === wide ? (hashed ? -1 : 1) : 0 }));
+      expect(chiralityFromPoints(stereoNeighbors(mol, narrow), narrow, lifted)).toBe(mol.atoms[narrow].chirality);
+    }
+  });
+});
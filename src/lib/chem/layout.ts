@@ -0,0 +1,455 @@
+import { chiralityFromPoints, distance } from "./geometry";
+import {
+  Bond,
+  Molecule,
+  Point3D,
+  bondKey,
+  doubleBondStereo,
+  neighbors,
+  otherAtom,
+  ringBondKeys,
+  stereoNeighbors,
+} from "./molecule";
+
+// A stereo bond drawn as a wedge from its stereocentre
+export interface BondWedge {
+  // The stereocentre, at the narrow end
+  narrow: number;
+  // Hashed wedges point away from the viewer, solid ones towards
+  hashed: boolean;
+}
+
+const TWO_PI = 2 * Math.PI;
+
+const point = (x: number, y: number): Point3D => ({ x, y, z: 0 });
+
+const angleOf = (from: Point3D, to: Point3D) => Math.atan2(to.y - from.y, to.x - from.x);
+
+const step = (from: Point3D, angle: number, length = 1) =>
+  point(from.x + length * Math.cos(angle), from.y + length * Math.sin(angle));
+
+const normalizeAngle = (angle: number) => ((angle % TWO_PI) + TWO_PI) % TWO_PI;
+
+export const centroid = (points: Point3D[]) =>
+  point(
+    points.reduce((sum, p) => sum + p.x, 0) / Math.max(1, points.length),
+    points.reduce((sum, p) => sum + p.y, 0) / Math.max(1, points.length)
+  );
+
+// Overlap penalty between two atoms closer than a bond length
+const clash = (a: Point3D, b: Point3D) => {
+  const d = distance(a, b);
+  return d < 1 ? (1 - d) * (1 - d) + (d < 0.2 ? 1 : 0) : 0;
+};
+
+// Circumradius of a regular polygon with unit sides
+const polygonRadius = (sides: number) => 0.5 / Math.sin(Math.PI / sides);
+
+/**
+ * Directions for `count` new bonds from an atom whose existing bonds point
+ * along `taken`, spread evenly through the widest free gap.
+ */
+export const freeAngles = (taken: number[], count: number): number[] => {
+  if (count === 0) return [];
+  if (taken.length === 0) return Array.from({ length: count }, (_, k) => -Math.PI / 6 + (TWO_PI * k) / count);
+  if (taken.length === 1) {
+    // One new bond bends by 120° for a zigzag; more fan out evenly
+    if (count === 1) return [taken[0] + (2 * Math.PI) / 3];
+    return Array.from({ length: count }, (_, k) => taken[0] + (TWO_PI * (k + 1)) / (count + 1));
+  }
+  const sorted = taken.map(normalizeAngle).sort((a, b) => a - b);
+  let start = 0;
+  let gap = 0;
+  sorted.forEach((angle, k) => {
+    const next = k === sorted.length - 1 ? sorted[0] + TWO_PI : sorted[k + 1];
+    if (next - angle > gap) {
+      gap = next - angle;
+      start = angle;
+    }
+  });
+  return Array.from({ length: count }, (_, k) => start + (gap * (k + 1)) / (count + 1));
+};
+
+// Rings sharing an atom are drawn together as one fused, spiro or bridged system
+const ringSystems = (mol: Molecule) => {
+  const systems: number[][][] = [];
+  for (const ring of mol.rings) {
+    const joined = systems.filter((system) => system.some((other) => other.some((atom) => ring.includes(atom))));
+    const merged = [ring, ...joined.flat()];
+    for (const system of joined) systems.splice(systems.indexOf(system), 1);
+    systems.push(merged);
+  }
+  return systems;
+};
+
+/**
+ * Coordinates for one ring system: the ring fused to the most others is a
+ * regular polygon, and each further ring grows from the atoms already placed,
+ * as a polygon on the far side of a shared bond, a polygon hung from a spiro
+ * atom, or an arc across a bridge.
+ */
+const layoutRingSystem = (rings: number[][]) => {
+  const pos = new Map<number, Point3D>();
+  const placed: number[][] = [];
+  const fusions = (ring: number[]) => rings.filter((other) => other !== ring && other.some((a) => ring.includes(a))).length;
+  const [first, ...rest] = [...rings].sort((a, b) => fusions(b) - fusions(a) || b.length - a.length);
+
+  const radius = polygonRadius(first.length);
+  first.forEach((atom, k) => {
+    const angle = Math.PI / 2 + (TWO_PI * k) / first.length;
+    pos.set(atom, point(radius * Math.cos(angle), radius * Math.sin(angle)));
+  });
+  placed.push(first);
+
+  // Centre of the placed rings touching these atoms; new atoms go on the other side of it
+  const reference = (atoms: number[]) => {
+    const touching = placed.filter((ring) => atoms.every((a) => ring.includes(a)));
+    const around = touching.length > 0 ? touching : placed.filter((ring) => atoms.some((a) => ring.includes(a)));
+    return centroid([...new Set(around.flat())].map((a) => pos.get(a)));
+  };
+
+  const placePath = (p: number, q: number, path: number[]) => {
+    const P = pos.get(p);
+    const Q = pos.get(q);
+    const d = distance(P, Q);
+    const mid = point((P.x + Q.x) / 2, (P.y + Q.y) / 2);
+    const away = reference([p, q]);
+    let normal = point(-(Q.y - P.y) / (d || 1), (Q.x - P.x) / (d || 1));
+    if (normal.x * (mid.x - away.x) + normal.y * (mid.y - away.y) < 0) normal = point(-normal.x, -normal.y);
+
+    if (d < 1.5) {
+      // Fused on a bond: a regular polygon on the far side
+      const sides = path.length + 2;
+      const r = polygonRadius(sides);
+      const apothem = Math.sqrt(Math.max(0, r * r - (d * d) / 4));
+      const centre = point(mid.x + normal.x * apothem, mid.y + normal.y * apothem);
+      const turn = TWO_PI / sides;
+      const startAngle = angleOf(centre, P);
+      // Walk away from Q, round the far side of the polygon
+      const direct = distance(step(centre, startAngle + turn, r), Q) < 0.1;
+      const sign = direct ? -1 : 1;
+      path.forEach((atom, k) => pos.set(atom, step(centre, startAngle + sign * turn * (k + 1), r)));
+    } else {
+      // Bridged: bow the path out between its two ends, on whichever side and
+      // by whatever height keeps it clearest of the atoms already placed
+      const bows = [1, -1].flatMap((sign) =>
+        [0.5, 1, 1.5, 2].map((scale) =>
+          path.map((_, k) => {
+            const t = (k + 1) / (path.length + 1);
+            const bulge = sign * scale * Math.max(0.6, path.length * 0.45) * Math.sin(Math.PI * t);
+            return point(P.x + (Q.x - P.x) * t + normal.x * bulge, P.y + (Q.y - P.y) * t + normal.y * bulge);
+          })
+        )
+      );
+      const crowding = (bow: Point3D[]) =>
+        bow.reduce((sum, p) => sum + [...pos.values()].reduce((inner, q) => inner + clash(p, q), 0), 0);
+      const best = bows.reduce((a, b) => (crowding(b) < crowding(a) - 1e-9 ? b : a));
+      path.forEach((atom, k) => pos.set(atom, best[k]));
+    }
+  };
+
+  const placeRing = (ring: number[]) => {
+    const n = ring.length;
+    const known = ring.filter((atom) => pos.has(atom));
+    if (known.length === n) return;
+    if (known.length === 1) {
+      // Spiro: hang the whole ring from the shared atom
+      const p = pos.get(known[0]);
+      const outward = angleOf(reference(known), p);
+      const r = polygonRadius(n);
+      const centre = step(p, outward, r);
+      const offset = ring.indexOf(known[0]);
+      ring.forEach((atom, k) => {
+        if (!pos.has(atom)) pos.set(atom, step(centre, outward + Math.PI + (TWO_PI * (k - offset)) / n, r));
+      });
+      return;
+    }
+    for (let k = 0; k < n; k++) {
+      if (!pos.has(ring[k]) || pos.has(ring[(k + 1) % n])) continue;
+      const path: number[] = [];
+      let j = k + 1;
+      while (!pos.has(ring[j % n])) path.push(ring[j++ % n]);
+      placePath(ring[k], ring[j % n], path);
+    }
+  };
+
+  while (rest.length > 0) {
+    const shared = (ring: number[]) => ring.filter((atom) => pos.has(atom)).length;
+    const next = rest.reduce((best, ring) => (shared(ring) > shared(best) ? ring : best));
+    rest.splice(rest.indexOf(next), 1);
+    placeRing(next);
+    placed.push(next);
+  }
+  return pos;
+};
+
+// Positive when a and b lie on the same side of the line through u and v
+const sameSide = (u: Point3D, v: Point3D, a: Point3D, b: Point3D) => {
+  const cross = (p: Point3D) => (v.x - u.x) * (p.y - u.y) - (v.y - u.y) * (p.x - u.x);
+  return cross(a) * cross(b) > 0;
+};
+
+const connectedComponents = (mol: Molecule) => {
+  const seen = new Set<number>();
+  const components: number[][] = [];
+  for (const atom of mol.atoms) {
+    if (seen.has(atom.index)) continue;
+    const component = [atom.index];
+    seen.add(atom.index);
+    for (let k = 0; k < component.length; k++) {
+      for (const n of neighbors(mol, component[k])) {
+        if (!seen.has(n)) {
+          seen.add(n);
+          component.push(n);
+        }
+      }
+    }
+    components.push(component);
+  }
+  return components;
+};
+
+// One end of the longest path through a tree-like component, so chains are drawn end to end
+const chainEnd = (mol: Molecule, component: number[]) => {
+  const farthest = (from: number) => {
+    const depth = new Map([[from, 0]]);
+    const queue = [from];
+    let last = from;
+    while (queue.length > 0) {
+      const atom = queue.shift();
+      last = atom;
+      for (const n of neighbors(mol, atom)) {
+        if (!depth.has(n)) {
+          depth.set(n, depth.get(atom) + 1);
+          queue.push(n);
+        }
+      }
+    }
+    return last;
+  };
+  return farthest(farthest(component[0]));
+};
+
+/**
+ * 2D coordinates in bond-length units. Ring systems are laid out as regular
+ * polygons; chains grow from them in 120° zigzags, with double-bond geometry
+ * following the stereo marks. Crowded branches are then mirrored across their
+ * acyclic single bonds while that reduces overlap, and disconnected
+ * fragments are set side by side.
+ */
+export const computeLayout = (mol: Molecule): Point3D[] => {
+  const pos: Point3D[] = mol.atoms.map(() => null);
+  const systems = ringSystems(mol);
+  const systemOf = new Map<number, number[][]>();
+  for (const system of systems) for (const ring of system) for (const atom of ring) systemOf.set(atom, system);
+  const ringBonds = ringBondKeys(mol);
+
+  const placeSystem = (system: number[][], anchor: number, target: Point3D, angle: number) => {
+    const local = layoutRingSystem(system);
+    const origin = local.get(anchor);
+    const centre = centroid([...local.values()]);
+    const options = [1, -1].map((mirror) => {
+      const rotation = angle - Math.atan2(mirror * (centre.y - origin.y), centre.x - origin.x);
+      const placed = new Map<number, Point3D>();
+      for (const [atom, p] of local) {
+        const dx = p.x - origin.x;
+        const dy = mirror * (p.y - origin.y);
+        placed.set(
+          atom,
+          point(target.x + dx * Math.cos(rotation) - dy * Math.sin(rotation), target.y + dx * Math.sin(rotation) + dy * Math.cos(rotation))
+        );
+      }
+      let penalty = 0;
+      for (const p of placed.values()) for (const q of pos) if (q) penalty += clash(p, q);
+      return { placed, penalty };
+    });
+    const best = options[1].penalty < options[0].penalty ? options[1] : options[0];
+    for (const [atom, p] of best.placed) pos[atom] = p;
+    return [...best.placed.keys()];
+  };
+
+  // True when every choice of these angles would keep the double-bond stereo of the bond to `parent`
+  const stereoHolds = (atom: number, parent: number, fresh: number[], angles: number[]) => {
+    const bond = mol.bonds[mol.adjacency[atom].find((b) => otherAtom(mol.bonds[b], atom) === parent)];
+    if (bond.order !== 2 || bond.aromatic) return true;
+    const stereo = doubleBondStereo(mol, bond);
+    if (!stereo) return true;
+    const a = neighbors(mol, parent).find((n) => n !== atom && pos[n]);
+    if (a === undefined || fresh.length === 0) return true;
+    const b = fresh[0];
+    const at = step(pos[atom], angles[0]);
+    const wantSame = !stereo.trans !== (a !== stereo.references.get(parent)) !== (b !== stereo.references.get(atom));
+    return sameSide(pos[parent], pos[atom], pos[a], at) === wantSame;
+  };
+
+  const crowding = (atom: number, angles: number[]) => {
+    let penalty = 0;
+    for (const angle of angles) {
+      const p = step(pos[atom], angle);
+      for (const q of pos) {
+        if (q && q !== pos[atom]) penalty += 1 / Math.max(0.01, (p.x - q.x) ** 2 + (p.y - q.y) ** 2);
+      }
+      // Between equal choices, run left to right
+      penalty -= 1e-3 * Math.cos(angle);
+    }
+    return penalty;
+  };
+
+  const isLinear = (atom: number) => {
+    const bonds = mol.adjacency[atom].map((b) => mol.bonds[b]);
+    return bonds.some((bond) => bond.order === 3) || bonds.filter((bond) => bond.order === 2 && !bond.aromatic).length === 2;
+  };
+
+  const expand = (atom: number, queue: number[]) => {
+    const around = neighbors(mol, atom);
+    const fresh = around.filter((n) => !pos[n]);
+    if (fresh.length === 0) return;
+    const placedNeighbours = around.filter((n) => pos[n]);
+    const taken = placedNeighbours.map((n) => angleOf(pos[atom], pos[n]));
+
+    let angles: number[];
+    if (taken.length === 0) angles = freeAngles([], fresh.length);
+    else if (taken.length === 1 && fresh.length === 1 && isLinear(atom)) angles = [taken[0] + Math.PI];
+    else angles = freeAngles(taken, fresh.length);
+
+    if (taken.length === 1) {
+      const mirrored = angles.map((angle) => 2 * taken[0] - angle);
+      const parent = placedNeighbours[0];
+      const holds = stereoHolds(atom, parent, fresh, angles);
+      const mirrorHolds = stereoHolds(atom, parent, fresh, mirrored);
+      if (holds !== mirrorHolds) angles = holds ? angles : mirrored;
+      else if (crowding(atom, mirrored) < crowding(atom, angles)) angles = mirrored;
+    }
+
+    fresh.forEach((n, k) => {
+      if (pos[n]) return;
+      const target = step(pos[atom], angles[k]);
+      const system = systemOf.get(n);
+      if (system && systemOf.get(atom) !== system) {
+        queue.push(...placeSystem(system, n, target, angles[k]));
+      } else {
+        pos[n] = target;
+        queue.push(n);
+      }
+    });
+  };
+
+  // Mirror the smaller side of each acyclic single bond when that relieves crowding
+  const relieveOverlaps = (component: number[]) => {
+    const members = new Set(component);
+    const candidates = mol.bonds.filter(
+      (bond) => members.has(bond.begin) && bond.order === 1 && !bond.aromatic && !ringBonds.has(bondKey(bond.begin, bond.end))
+    );
+    for (let pass = 0; pass < 3; pass++) {
+      let improved = false;
+      for (const bond of candidates) {
+        const side = new Set([bond.end]);
+        const stack = [bond.end];
+        while (stack.length > 0) {
+          for (const n of neighbors(mol, stack.pop())) {
+            if (n !== bond.begin && !side.has(n)) {
+              side.add(n);
+              stack.push(n);
+            }
+          }
+        }
+        const moving = side.size * 2 <= component.length ? side : new Set(component.filter((a) => !side.has(a)));
+        if (moving.size < 2) continue;
+        const u = pos[bond.begin];
+        const v = pos[bond.end];
+        const dx = v.x - u.x;
+        const dy = v.y - u.y;
+        const lengthSquared = dx * dx + dy * dy || 1;
+        const reflect = (p: Point3D) => {
+          const t = ((p.x - u.x) * dx + (p.y - u.y) * dy) / lengthSquared;
+          const fx = u.x + t * dx;
+          const fy = u.y + t * dy;
+          return point(2 * fx - p.x, 2 * fy - p.y);
+        };
+        const still = component.filter((a) => !moving.has(a));
+        let before = 0;
+        let after = 0;
+        const moved = new Map([...moving].map((a) => [a, reflect(pos[a])]));
+        for (const a of moving) {
+          for (const s of still) {
+            before += clash(pos[a], pos[s]);
+            after += clash(moved.get(a), pos[s]);
+          }
+        }
+        if (after < before - 1e-6) {
+          for (const [a, p] of moved) pos[a] = p;
+          improved = true;
+        }
+      }
+      if (!improved) break;
+    }
+  };
+
+  let left = 0;
+  for (const component of connectedComponents(mol)) {
+    const queue: number[] = [];
+    const largest = [...new Set(component.map((a) => systemOf.get(a)).filter(Boolean))].sort(
+      (a, b) => new Set(b.flat()).size - new Set(a.flat()).size
+    )[0];
+    if (largest) {
+      const local = layoutRingSystem(largest);
+      for (const [atom, p] of local) pos[atom] = p;
+      queue.push(...local.keys());
+    } else {
+      const start = chainEnd(mol, component);
+      pos[start] = point(0, 0);
+      queue.push(start);
+    }
+    while (queue.length > 0) expand(queue.shift(), queue);
+    if (component.length <= 300) relieveOverlaps(component);
+
+    // Fragments sit left to right, centred vertically
+    const xs = component.map((a) => pos[a].x);
+    const ys = component.map((a) => pos[a].y);
+    const shiftX = left - Math.min(...xs);
+    const shiftY = -(Math.min(...ys) + Math.max(...ys)) / 2;
+    for (const a of component) pos[a] = point(pos[a].x + shiftX, pos[a].y + shiftY);
+    left = Math.max(...component.map((a) => pos[a].x)) + 1.5;
+  }
+  return pos;
+};
+
+/**
+ * One wedge per tetrahedral centre, on a single bond chosen so the drawing
+ * reads unambiguously: acyclic bonds to terminal, non-stereo neighbours first.
+ * The wedge is solid or hashed so that the 2D coordinates, with the wide end
+ * lifted above or below the page, give back the atom's chirality.
+ */
+export const wedgeBonds = (mol: Molecule, points: Point3D[]) => {
+  const wedges = new Map<number, BondWedge>();
+  const ringBonds = ringBondKeys(mol);
+  const score = (bond: Bond, centre: number) => {
+    const other = otherAtom(bond, centre);
+    return (
+      (mol.atoms[other].chirality ? 4 : 0) +
+      (ringBonds.has(bondKey(bond.begin, bond.end)) ? 2 : 0) +
+      Math.min(3, mol.adjacency[other].length - 1) * 0.5 -
+      (mol.atoms[other].element === "H" ? 1 : 0)
+    );
+  };
+
+  for (const atom of mol.atoms) {
+    if (!atom.chirality) continue;
+    const order = stereoNeighbors(mol, atom.index);
+    if (order.length !== 4) continue;
+    const candidates = mol.adjacency[atom.index]
+      .map((b) => mol.bonds[b])
+      .filter((bond) => bond.order === 1 && !bond.aromatic && !wedges.has(bond.index))
+      .sort((a, b) => score(a, atom.index) - score(b, atom.index));
+    for (const bond of candidates) {
+      const other = otherAtom(bond, atom.index);
+      const lifted = points.map((p) => ({ ...p }));
+      lifted[other].z = 1;
+      const chirality = chiralityFromPoints(order, atom.index, lifted);
+      if (!chirality) continue;
+      wedges.set(bond.index, { narrow: atom.index, hashed: chirality !== atom.chirality });
+      break;
+    }
+  }
+  return wedges;
+};
@@ -0,0 +1,388 @@
+import { atomicNumber } from "./elements";
+import { Bond, Molecule, bondKey, isHeavy, neighbors, otherAtom, ringBondKeys, totalHydrogens } from "./molecule";
+
+interface MatchContext {
+  mol: Molecule;
+  numbers: number[];
+  hydrogens: number[];
+  ringAtoms: Set<number>;
+  ringBonds: Set<string>;
+}
+
+type AtomTest = (ctx: MatchContext, atom: number) => boolean;
+type BondTest = (ctx: MatchContext, bond: Bond) => boolean;
+
+// A small connected query graph; every atom after the first is bonded to an earlier one
+interface KeyPattern {
+  atoms: AtomTest[];
+  bonds: [number, number, BondTest][];
+}
+
+interface KeyDefinition {
+  key: number;
+  patterns: KeyPattern[];
+  // The key is set when there are more than this many distinct matches
+  count?: number;
+  // Count matches by their first atom rather than by the whole atom set
+  anchored?: boolean;
+}
+
+// Atom tests
+const any: AtomTest = () => true;
+const num = (...numbers: number[]): AtomTest => (ctx, atom) => numbers.includes(ctx.numbers[atom]);
+const and = (...tests: AtomTest[]): AtomTest => (ctx, atom) => tests.every((test) => test(ctx, atom));
+const hydrogens = (...counts: number[]): AtomTest => (ctx, atom) => counts.includes(ctx.hydrogens[atom]);
+const hasH: AtomTest = (ctx, atom) => ctx.hydrogens[atom] > 0;
+const aliphatic: AtomTest = (ctx, atom) => !ctx.mol.atoms[atom].aromatic;
+const aromaticAtom: AtomTest = (ctx, atom) => ctx.mol.atoms[atom].aromatic;
+const R: AtomTest = (ctx, atom) => ctx.ringAtoms.has(atom);
+const charged: AtomTest = (ctx, atom) => ctx.mol.atoms[atom].charge !== 0;
+
+const C = num(6);
+const N = num(7);
+const O = num(8);
+const S = num(16);
+// Anything but carbon or hydrogen
+const Q: AtomTest = (ctx, atom) => ctx.numbers[atom] !== 6 && ctx.numbers[atom] !== 1;
+const QH = and(Q, hasH);
+const X = num(9, 17, 35, 53);
+const CH2 = and(C, aliphatic, hydrogens(2));
+const CH3 = and(C, aliphatic, hydrogens(3));
+const CH3or4 = and(C, aliphatic, hydrogens(3, 4));
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// Bond tests
+const b: Record<string, BondTest> = {
+  any: () => true,
+  single: (_, bond) => bond.order === 1 && !bond.aromatic,
+  double: (_, bond) => bond.order === 2,
+  triple: (_, bond) => bond.order === 3,
+  arom: (_, bond) => bond.aromatic,
+  notArom: (_, bond) => !bond.aromatic,
+  singleOrArom: (_, bond) => bond.order === 1 || bond.aromatic,
+  ring: (ctx, bond) => ctx.ringBonds.has(bondKey(bond.begin, bond.end)),
+  chain: (ctx, bond) => !ctx.ringBonds.has(bondKey(bond.begin, bond.end)),
+  doubleRing: (ctx, bond) => bond.order === 2 && ctx.ringBonds.has(bondKey(bond.begin, bond.end)),
+};
+
+// Builders: a linear chain, a ring closing back on its first atom, and a centre with arms
+const chain = (atoms: AtomTest[], bonds: BondTest | BondTest[] = b.any): KeyPattern => ({
+  atoms,
+  bonds: atoms.slice(1).map((_, i) => [i, i + 1, Array.isArray(bonds) ? bonds[i] : bonds]),
+});
+
+const ring = (atoms: AtomTest[], bond: BondTest = b.any): KeyPattern => {
+  const pattern = chain(atoms, bond);
+  pattern.bonds.push([atoms.length - 1, 0, bond]);
+  return pattern;
+};
+
+const ringOf = (size: number, first: AtomTest = any) => ring([first, ...Array(size - 1).fill(any)]);
+
+const star = (center: AtomTest, arms: [BondTest, AtomTest][]): KeyPattern => ({
+  atoms: [center, ...arms.map(([, atom]) => atom)],
+  bonds: arms.map(([bond], i) => [0, i + 1, bond]),
+});
+
+// Anything else, such as a substituent on a small ring, spelled out bond by bond
+const graph = (atoms: AtomTest[], bonds: [number, number, BondTest][]): KeyPattern => ({ atoms, bonds });
+
+const single = (test: AtomTest): KeyPattern => ({ atoms: [test], bonds: [] });
+
+const MACCS_KEYS: KeyDefinition[] = [
+  { key: 2, patterns: [single(num(104))] },
+  { key: 3, patterns: [single(num(32, 33, 34, 50, 51, 52, 82, 83, 84))] },
+  { key: 4, patterns: [single(num(...range(89, 103)))] },
+  { key: 5, patterns: [single(num(21, 22, 39, 40, 72))] },
+  { key: 6, patterns: [single(num(...range(57, 71)))] },
+  { key: 7, patterns: [single(num(23, 24, 25, 41, 42, 43, 73, 74, 75))] },
+  { key: 8, patterns: [ringOf(4, Q)] },
+  { key: 9, patterns: [single(num(26, 27, 28, 44, 45, 46, 76, 77, 78))] },
+  { key: 10, patterns: [single(num(4, 12, 20, 38, 56, 88))] },
+  { key: 11, patterns: [ringOf(4)] },
+  { key: 12, patterns: [single(num(29, 30, 47, 48, 79, 80))] },
+  { key: 13, patterns: [star(N, [[b.any, O], [b.any, C], [b.any, C]])] },
+  { key: 14, patterns: [chain([S, S], b.single)] },
+  { key: 15, patterns: [star(C, [[b.any, O], [b.any, O], [b.any, O]])] },
+  { key: 16, patterns: [ringOf(3, Q)] },
+  { key: 17, patterns: [chain([C, C], b.triple)] },
+  { key: 18, patterns: [single(num(5, 13, 31, 49, 81))] },
+  { key: 19, patterns: [ringOf(7)] },
+  { key: 20, patterns: [single(num(14))] },
+  { key: 21, patterns: [star(C, [[b.double, C], [b.any, Q], [b.any, Q]])] },
+  { key: 22, patterns: [ringOf(3)] },
+  { key: 23, patterns: [star(C, [[b.any, N], [b.any, O], [b.any, O]])] },
+  { key: 24, patterns: [chain([N, O], b.single)] },
+  { key: 25, patterns: [star(C, [[b.any, N], [b.any, N], [b.any, N]])] },
+  { key: 26, patterns: [star(C, [[b.doubleRing, C], [b.ring, any], [b.ring, any]])] },
+  { key: 27, patterns: [single(num(53))] },
+  { key: 28, patterns: [chain([Q, CH2, Q])] },
+  { key: 29, patterns: [single(num(15))] },
+  { key: 30, patterns: [star(Q, [[b.any, C], [b.any, C], [b.any, C], [b.any, any]])] },
+  { key: 31, patterns: [chain([Q, X])] },
+  { key: 32, patterns: [chain([C, S, N])] },
+  { key: 33, patterns: [chain([N, S])] },
+  { key: 34, patterns: [chain([CH2, any], b.double)] },
+  { key: 35, patterns: [single(num(3, 11, 19, 37, 55, 87))] },
+  { key: 36, patterns: [single(and(S, R))] },
+  { key: 37, patterns: [star(C, [[b.any, N], [b.any, O], [b.any, N]])] },
+  { key: 38, patterns: [star(C, [[b.any, N], [b.any, C], [b.any, N]])] },
+  { key: 39, patterns: [star(S, [[b.any, O], [b.any, O], [b.any, O]])] },
+  { key: 40, patterns: [chain([S, O], b.single)] },
+  { key: 41, patterns: [chain([C, N], b.triple)] },
+  { key: 42, patterns: [single(num(9))] },
+  { key: 43, patterns: [chain([QH, any, QH])] },
+  { key: 45, patterns: [chain([C, C, N], [b.double, b.any])] },
+  { key: 46, patterns: [single(num(35))] },
+  { key: 47, patterns: [chain([S, any, N])] },
+  { key: 48, patterns: [star(Q, [[b.any, O], [b.any, O], [b.any, O]])] },
+  { key: 49, patterns: [single(charged)] },
+  { key: 50, patterns: [star(C, [[b.double, C], [b.any, C], [b.any, C]])] },
+  { key: 51, patterns: [chain([C, S, O])] },
+  { key: 52, patterns: [chain([N, N])] },
+  { key: 53, patterns: [chain([QH, any, any, any, QH])] },
+  { key: 54, patterns: [chain([QH, any, any, QH])] },
+  { key: 55, patterns: [chain([O, S, O])] },
+  { key: 56, patterns: [star(N, [[b.any, O], [b.any, O], [b.any, C]])] },
+  { key: 57, patterns: [single(and(O, R))] },
+  { key: 58, patterns: [chain([Q, S, Q])] },
+  { key: 59, patterns: [chain([S, any, any], [b.notArom, b.arom])] },
+  { key: 60, patterns: [chain([S, O], b.double)] },
+  { key: 61, patterns: [star(S, [[b.any, any], [b.any, any], [b.any, any]])] },
+  { key: 62, patterns: [chain([any, any, any, any], [b.ring, b.chain, b.ring])] },
+  { key: 63, patterns: [chain([N, O], b.double)] },
+  { key: 64, patterns: [chain([any, any, S], [b.ring, b.chain])] },
+  { key: 65, patterns: [chain([and(C, aromaticAtom), and(N, aromaticAtom)], b.arom)] },
+  { key: 66, patterns: [star(C, [[b.any, C], [b.any, C], [b.any, C], [b.any, any]])] },
+  { key: 67, patterns: [chain([Q, S])] },
+  { key: 68, patterns: [chain([QH, QH])] },
+  { key: 69, patterns: [chain([Q, QH])] },
+  { key: 70, patterns: [chain([Q, N, Q])] },
+  { key: 71, patterns: [chain([N, O])] },
+  { key: 72, patterns: [chain([O, any, any, O])] },
+  { key: 73, patterns: [chain([S, any], b.double)] },
+  { key: 74, patterns: [chain([CH3, any, CH3])] },
+  { key: 75, patterns: [chain([any, N, any], [b.chain, b.ring])] },
+  { key: 76, patterns: [star(C, [[b.double, C], [b.any, any], [b.any, any]])] },
+  { key: 77, patterns: [chain([N, any, N])] },
+  { key: 78, patterns: [chain([C, N], b.double)] },
+  { key: 79, patterns: [chain([N, any, any, N])] },
+  { key: 80, patterns: [chain([N, any, any, any, N])] },
+  { key: 81, patterns: [star(any, [[b.any, S], [b.any, any], [b.any, any]])] },
+  { key: 82, patterns: [chain([any, CH2, QH])] },
+  { key: 83, patterns: [ringOf(5, Q)] },
+  { key: 84, patterns: [single(and(N, aliphatic, hydrogens(2)))] },
+  { key: 85, patterns: [star(N, [[b.any, C], [b.any, C], [b.any, C]])] },
+  { key: 86, patterns: [chain([and(C, aliphatic, hydrogens(2, 3)), Q, and(C, aliphatic, hydrogens(2, 3))], b.singleOrArom)] },
+  { key: 87, patterns: [chain([X, any, any], [b.chain, b.ring])] },
+  { key: 88, patterns: [single(S)] },
+  { key: 89, patterns: [chain([O, any, any, any, O])] },
+  {
+    key: 90,
+    anchored: true,
+    patterns: [
+      chain([QH, any, any, CH2, any]),
+      ring([and(QH, R), R, R, and(CH2, R)], b.ring),
+      graph([QH, R, R, and(CH2, R)], [[0, 1, b.any], [1, 2, b.ring], [2, 3, b.ring], [3, 1, b.ring]]),
+    ],
+  },
+  {
+    key: 91,
+    anchored: true,
+    patterns: [
+      chain([QH, any, any, any, CH2, any]),
+      ring([and(QH, R), R, R, R, and(CH2, R)], b.ring),
+      graph([QH, R, R, R, and(CH2, R)], [[0, 1, b.any], [1, 2, b.ring], [2, 3, b.ring], [3, 4, b.ring], [4, 1, b.ring]]),
+      graph([QH, any, R, R, and(CH2, R)], [[0, 1, b.any], [1, 2, b.any], [2, 3, b.ring], [3, 4, b.ring], [4, 2, b.ring]]),
+    ],
+  },
+  { key: 92, patterns: [star(C, [[b.any, O], [b.any, N], [b.any, C]])] },
+  { key: 93, patterns: [chain([Q, CH3])] },
+  { key: 94, patterns: [chain([Q, N])] },
+  { key: 95, patterns: [chain([N, any, any, O])] },
+  { key: 96, patterns: [ringOf(5)] },
+  { key: 97, patterns: [chain([N, any, any, any, O])] },
+  { key: 98, patterns: [ringOf(6, Q)] },
+  { key: 99, patterns: [chain([C, C], b.double)] },
+  { key: 100, patterns: [chain([any, CH2, N])] },
+  { key: 102, patterns: [chain([Q, O])] },
+  { key: 103, patterns: [single(num(17))] },
+  { key: 104, patterns: [chain([QH, any, CH2, any])] },
+  { key: 105, patterns: [star(any, [[b.ring, any], [b.ring, any], [b.ring, any]])] },
+  { key: 106, patterns: [star(any, [[b.any, Q], [b.any, Q], [b.any, Q]])] },
+  { key: 107, patterns: [star(any, [[b.any, X], [b.any, any], [b.any, any]])] },
+  { key: 108, patterns: [chain([CH3, any, any, any, CH2, any])] },
+  { key: 109, patterns: [chain([any, CH2, O])] },
+  { key: 110, patterns: [chain([N, C, O])] },
+  { key: 111, patterns: [chain([N, any, CH2, any])] },
+  { key: 112, patterns: [star(any, [[b.any, any], [b.any, any], [b.any, any], [b.any, any]])] },
+  { key: 113, patterns: [chain([O, any, any], [b.notArom, b.arom])] },
+  { key: 114, patterns: [chain([CH3, CH2, any])] },
+  { key: 115, patterns: [chain([CH3, any, CH2, any])] },
+  {
+    key: 116,
+    anchored: true,
+    patterns: [
+      chain([CH3, any, any, CH2, any]),
+      graph([CH3, any, any, CH2], [[0, 1, b.any], [1, 2, b.any], [2, 3, b.any], [3, 1, b.any]]),
+    ],
+  },
+  { key: 117, patterns: [chain([N, any, O])] },
+  { key: 118, anchored: true, count: 1, patterns: [chain([any, CH2, CH2, any]), ring([any, CH2, CH2])] },
+  { key: 119, patterns: [chain([N, any], b.double)] },
+  { key: 120, count: 1, patterns: [single(and((ctx, atom) => ctx.numbers[atom] !== 6, R))] },
+  { key: 121, patterns: [single(and(N, R))] },
+  { key: 122, patterns: [star(N, [[b.any, any], [b.any, any], [b.any, any]])] },
+  { key: 123, patterns: [chain([O, C, O])] },
+  { key: 124, patterns: [chain([Q, Q])] },
+  { key: 126, patterns: [chain([any, O, any], b.chain)] },
+  { key: 127, count: 1, patterns: [chain([any, any, O], [b.ring, b.chain])] },
+  {
+    key: 128,
+    anchored: true,
+    patterns: [
+      chain([any, CH2, any, any, any, CH2, any]),
+      ring([R, and(CH2, R), R, R, R, and(CH2, R)], b.ring),
+      graph([any, CH2, R, R, R, and(CH2, R)], [[0, 1, b.any], [1, 2, b.any], [2, 3, b.ring], [3, 4, b.ring], [4, 5, b.ring], [5, 2, b.ring]]),
+      graph([any, CH2, any, R, R, and(CH2, R)], [[0, 1, b.any], [1, 2, b.any], [2, 3, b.any], [3, 4, b.ring], [4, 5, b.ring], [5, 3, b.ring]]),
+    ],
+  },
+  {
+    key: 129,
+    anchored: true,
+    patterns: [
+      chain([any, CH2, any, any, CH2, any]),
+      ring([R, and(CH2, R), R, R, and(CH2, R)], b.ring),
+      graph([any, CH2, R, R, and(CH2, R)], [[0, 1, b.any], [1, 2, b.any], [2, 3, b.ring], [3, 4, b.ring], [4, 2, b.ring]]),
+    ],
+  },
+  { key: 130, count: 1, patterns: [chain([Q, Q])] },
+  { key: 131, count: 1, patterns: [single(QH)] },
+  { key: 132, patterns: [chain([O, any, CH2, any])] },
+  { key: 133, patterns: [chain([any, any, N], [b.ring, b.chain])] },
+  { key: 134, patterns: [single(X)] },
+  { key: 135, patterns: [chain([N, any, any], [b.notArom, b.arom])] },
+  { key: 136, count: 1, patterns: [chain([O, any], b.double)] },
+  { key: 137, patterns: [single(and((ctx, atom) => ctx.numbers[atom] !== 6, R))] },
+  { key: 138, count: 1, patterns: [chain([Q, CH2, any])] },
+  { key: 139, patterns: [single(and(O, hasH))] },
+  { key: 140, count: 3, patterns: [single(O)] },
+  { key: 141, count: 2, patterns: [single(CH3)] },
+  { key: 142, count: 1, patterns: [single(N)] },
+  { key: 143, patterns: [chain([any, any, O], [b.ring, b.chain])] },
+  { key: 144, patterns: [chain([any, any, any, any], [b.notArom, b.arom, b.notArom])] },
+  { key: 145, count: 1, patterns: [ringOf(6)] },
+  { key: 146, count: 2, patterns: [single(O)] },
+  { key: 147, anchored: true, patterns: [chain([any, CH2, CH2, any]), ring([R, and(CH2, R), and(CH2, R)], b.ring)] },
+  { key: 148, patterns: [star(Q, [[b.any, any], [b.any, any], [b.any, any]])] },
+  { key: 149, count: 1, patterns: [single(CH3or4)] },
+  { key: 150, patterns: [chain([any, any, any, any], [b.chain, b.ring, b.chain])] },
+  { key: 151, patterns: [single(and(N, hasH))] },
+  { key: 152, patterns: [star(C, [[b.any, O], [b.any, C], [b.any, C]])] },
+  { key: 153, patterns: [chain([Q, CH2, any])] },
+  { key: 154, patterns: [chain([C, O], b.double)] },
+  { key: 155, patterns: [chain([any, CH2, any], b.chain)] },
+  { key: 156, patterns: [star(any, [[b.any, N], [b.any, any], [b.any, any]])] },
+  { key: 157, patterns: [chain([C, O], b.single)] },
+  { key: 158, patterns: [chain([C, N], b.single)] },
+  { key: 159, count: 1, patterns: [single(O)] },
+  { key: 160, patterns: [single(CH3or4)] },
+  { key: 161, patterns: [single(N)] },
+  { key: 162, patterns: [single(aromaticAtom)] },
+  { key: 163, patterns: [ringOf(6)] },
+  { key: 164, patterns: [single(O)] },
+  { key: 165, patterns: [single(R)] },
+];
+
+const bondTo = (ctx: MatchContext, a: number, c: number) =>
+  ctx.mol.adjacency[a].map((i) => ctx.mol.bonds[i]).find((bond) => otherAtom(bond, a) === c);
+
+// Backtracking match of a small query; calls `found` with each complete mapping until it returns false
+const matchPattern = (ctx: MatchContext, pattern: KeyPattern, found: (mapping: number[]) => boolean) => {
+  const mapping: number[] = [];
+  const used = new Set<number>();
+  const heavy = ctx.mol.atoms.filter(isHeavy).map((atom) => atom.index);
+
+  const extend = (k: number): boolean => {
+    if (k === pattern.atoms.length) return found([...mapping]);
+    const anchorBond = pattern.bonds.find(([x, y]) => (x === k && y < k) || (y === k && x < k));
+    const candidates = anchorBond ? neighbors(ctx.mol, mapping[anchorBond[0] === k ? anchorBond[1] : anchorBond[0]]) : heavy;
+    for (const atom of candidates) {
+      if (used.has(atom) || !isHeavy(ctx.mol.atoms[atom]) || !pattern.atoms[k](ctx, atom)) continue;
+      const bondsOk = pattern.bonds.every(([x, y, test]) => {
+        if (!((x === k && y < k) || (y === k && x < k))) return true;
+        const bond = bondTo(ctx, atom, mapping[x === k ? y : x]);
+        return bond !== undefined && test(ctx, bond);
+      });
+      if (!bondsOk) continue;
+      mapping.push(atom);
+      used.add(atom);
+      const keepGoing = extend(k + 1);
+      mapping.pop();
+      used.delete(atom);
+      if (!keepGoing) return false;
+    }
+    return true;
+  };
+  extend(0);
+};
+
+const keyIsSet = (ctx: MatchContext, definition: KeyDefinition) => {
+  const threshold = definition.count ?? 0;
+  const seen = new Set<string>();
+  for (const pattern of definition.patterns) {
+    matchPattern(ctx, pattern, (mapping) => {
+      seen.add(definition.anchored ? String(mapping[0]) : [...mapping].sort((x, y) => x - y).join(","));
+      return seen.size <= threshold;
+    });
+    if (seen.size > threshold) return true;
+  }
+  return false;
+};
+
+const fragmentCount = (mol: Molecule) => {
+  const seen = new Set<number>();
+  let fragments = 0;
+  for (const atom of mol.atoms) {
+    if (seen.has(atom.index)) continue;
+    fragments++;
+    const stack = [atom.index];
+    seen.add(atom.index);
+    while (stack.length) {
+      const current = stack.pop()!;
+      for (const b of mol.adjacency[current]) {
+        const next = otherAtom(mol.bonds[b], current);
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      }
+    }
+  }
+  return fragments;
+};
+
+export const MACCS_LENGTH = 167;
+
+/**
+ * The 166 public MACCS structural keys, numbered as in RDKit (bit 0 unused).
+ * Keys 1 and 44 have no published definition and are never set.
+ */
+export const maccsKeys = (mol: Molecule): number[] => {
+  const ctx: MatchContext = {
+    mol,
+    numbers: mol.atoms.map((atom) => (atom.element === "*" ? 0 : atomicNumber(atom.element))),
+    hydrogens: mol.atoms.map((atom) => totalHydrogens(mol, atom.index)),
+    ringAtoms: new Set(mol.rings.flat()),
+    ringBonds: ringBondKeys(mol),
+  };
+  const bits = new Array<number>(MACCS_LENGTH).fill(0);
+  for (const definition of MACCS_KEYS) {
+    if (keyIsSet(ctx, definition)) bits[definition.key] = 1;
+  }
+  if (mol.rings.some((r) => r.length >= 8)) bits[101] = 1;
+  const aromaticRings = mol.rings.filter((r) => r.every((atom) => mol.atoms[atom].aromatic)).length;
+  if (aromaticRings > 1) bits[125] = 1;
+  if (fragmentCount(mol) > 1) bits[166] = 1;
+  return bits;
+};
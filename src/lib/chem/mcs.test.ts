@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { maximumCommonSubstructure } from "./mcs";
+import { bondBetween } from "./molecule";
+import { parseSmiles } from "./smiles";
+
+describe("maximumCommonSubstructure", () => {
+  it("finds the whole of a molecule contained in the other", () => {
+    const aspirin = parseSmiles("CC(=O)Oc1ccccc1C(=O)O");
+    const salicylicAcid = parseSmiles("OC(=O)c1ccccc1O");
+    const mcs = maximumCommonSubstructure(aspirin, salicylicAcid);
+    expect(mcs).toMatchObject({ atomCount: 10, bondCount: 10, complete: true });
+    for (const [a, b] of mcs.pairs) expect(aspirin.atoms[a].element).toBe(salicylicAcid.atoms[b].element);
+  });
+
+  it("maps bonded atoms onto bonded atoms", () => {
+    const first = parseSmiles("CC(C)Cc1ccc(cc1)C(C)C(=O)O");
+    const second = parseSmiles("CC(=O)Oc1ccccc1C(=O)O");
+    const { pairs, bondCount } = maximumCommonSubstructure(first, second);
+    const mapped = new Map(pairs);
+    const kept = first.bonds.filter((bond) => {
+      const [begin, end] = [mapped.get(bond.begin), mapped.get(bond.end)];
+      return begin !== undefined && end !== undefined && bondBetween(second, begin, end);
+    });
+    expect(bondCount).toBe(7);
+    expect(kept).toHaveLength(bondCount);
+  });
+
+  it("does not match aromatic bonds with single ones", () => {
+    expect(maximumCommonSubstructure(parseSmiles("c1ccccc1"), parseSmiles("C1CCCCC1")).bondCount).toBe(0);
+  });
+
+  it("keeps chain bonds off ring bonds when asked", () => {
+    const hexane = parseSmiles("CCCCCC");
+    const cyclohexane = parseSmiles("C1CCCCC1");
+    expect(maximumCommonSubstructure(hexane, cyclohexane).bondCount).toBe(5);
+    expect(maximumCommonSubstructure(hexane, cyclohexane, { ringMatchesRingOnly: true }).bondCount).toBe(0);
+  });
+
+  it("returns nothing for molecules with no atom in common", () => {
+    expect(maximumCommonSubstructure(parseSmiles("CCO"), parseSmiles("N"))).toMatchObject({ pairs: [], atomCount: 0 });
+  });
+});
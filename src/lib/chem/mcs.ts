@@ -0,0 +1,143 @@
+import { Bond, Molecule, bondBetween, bondKey, heavyAtoms, isHeavy, neighbors, ringBondKeys } from "./molecule";
+
+export interface McsOptions {
+  // Give up and report the best substructure found so far after this many milliseconds
+  timeout: number;
+  // Only let ring bonds match ring bonds, so a chain is never laid over a ring
+  ringMatchesRingOnly: boolean;
+}
+
+export interface McsResult {
+  // Matched atom pairs as [index in the first molecule, index in the second]
+  pairs: [number, number][];
+  atomCount: number;
+  bondCount: number;
+  // False when the search hit the timeout; the result is then a lower bound
+  complete: boolean;
+}
+
+export const DEFAULT_MCS_OPTIONS: McsOptions = { timeout: 2000, ringMatchesRingOnly: false };
+
+const bondsMatch = (x: Bond, y: Bond) => x.aromatic === y.aromatic && (x.aromatic || x.order === y.order);
+
+/**
+ * Maximum common connected substructure by bonds, grown from every seed atom
+ * pair with McGregor-style backtracking (McGregor 1982): each step either maps
+ * the next frontier atom onto a compatible neighbour in the second molecule or
+ * excludes it, and branches that cannot beat the best bond count are pruned.
+ */
+export const maximumCommonSubstructure = (
+  a: Molecule,
+  b: Molecule,
+  overrides: Partial<McsOptions> = {}
+): McsResult => {
+  const { timeout, ringMatchesRingOnly } = { ...DEFAULT_MCS_OPTIONS, ...overrides };
+  const deadline = Date.now() + timeout;
+  const ringBondsA = ringBondKeys(a);
+  const ringBondsB = ringBondKeys(b);
+  const heavyBondsA = a.bonds.filter((bond) => isHeavy(a.atoms[bond.begin]) && isHeavy(a.atoms[bond.end]));
+
+  const mapA = new Array<number>(a.atoms.length).fill(-1);
+  const mapB = new Array<number>(b.atoms.length).fill(-1);
+  const excluded = new Array<boolean>(a.atoms.length).fill(false);
+  let mappedCount = 0;
+  let best: McsResult = { pairs: [], atomCount: 0, bondCount: 0, complete: true };
+  let complete = true;
+
+  const compatibleBonds = (x: Bond, y: Bond) =>
+    bondsMatch(x, y) &&
+    (!ringMatchesRingOnly || ringBondsA.has(bondKey(x.begin, x.end)) === ringBondsB.has(bondKey(y.begin, y.end)));
+
+  // Bonds from atom i (first molecule) to mapped atoms that also exist and match around j
+  const sharedBonds = (i: number, j: number) => {
+    let shared = 0;
+    for (const n of neighbors(a, i)) {
+      if (mapA[n] === -1) continue;
+      const y = bondBetween(b, j, mapA[n]);
+      if (y && compatibleBonds(bondBetween(a, i, n), y)) shared++;
+    }
+    return shared;
+  };
+
+  const upperBound = (bondCount: number) => {
+    let open = 0;
+    for (const bond of heavyBondsA) {
+      if (excluded[bond.begin] || excluded[bond.end]) continue;
+      if (mapA[bond.begin] === -1 || mapA[bond.end] === -1) open++;
+    }
+    return bondCount + open;
+  };
+
+  const record = (bondCount: number) => {
+    if (bondCount < best.bondCount || (bondCount === best.bondCount && mappedCount <= best.atomCount)) return;
+    const pairs: [number, number][] = [];
+    mapA.forEach((j, i) => {
+      if (j !== -1) pairs.push([i, j]);
+    });
+    best = { pairs, atomCount: pairs.length, bondCount, complete: true };
+  };
+
+  const map = (i: number, j: number) => {
+    mapA[i] = j;
+    mapB[j] = i;
+    mappedCount++;
+  };
+
+  const unmap = (i: number, j: number) => {
+    mapA[i] = -1;
+    mapB[j] = -1;
+    mappedCount--;
+  };
+
+  const grow = (bondCount: number) => {
+    if (Date.now() > deadline) {
+      complete = false;
+      return;
+    }
+    record(bondCount);
+    if (upperBound(bondCount) <= best.bondCount) return;
+
+    let next = -1;
+    for (let i = 0; i < a.atoms.length && next === -1; i++) {
+      if (mapA[i] !== -1 || excluded[i] || !isHeavy(a.atoms[i])) continue;
+      if (neighbors(a, i).some((n) => mapA[n] !== -1)) next = i;
+    }
+    if (next === -1) return;
+
+    const candidates = new Set<number>();
+    for (const n of neighbors(a, next)) {
+      if (mapA[n] === -1) continue;
+      for (const j of neighbors(b, mapA[n])) {
+        if (mapB[j] === -1 && b.atoms[j].element === a.atoms[next].element) candidates.add(j);
+      }
+    }
+    for (const j of candidates) {
+      const shared = sharedBonds(next, j);
+      if (shared === 0) continue;
+      map(next, j);
+      grow(bondCount + shared);
+      unmap(next, j);
+    }
+
+    excluded[next] = true;
+    grow(bondCount);
+    excluded[next] = false;
+  };
+
+  // Best-connected atoms first, so the first seeds give a strong bound quickly
+  const seeds = heavyAtoms(a)
+    .map((atom) => atom.index)
+    .sort((x, y) => a.adjacency[y].length - a.adjacency[x].length);
+  for (const i of seeds) {
+    for (const atom of heavyAtoms(b)) {
+      if (atom.element !== a.atoms[i].element) continue;
+      map(i, atom.index);
+      grow(0);
+      unmap(i, atom.index);
+    }
+    // Every common substructure through this atom has been tried
+    excluded[i] = true;
+  }
+
+  return { ...best, complete };
+};
@@ -0,0 +1,127 @@
+export type Chirality = "@" | "@@" | null;
+
+export type BondStereo = "/" | "\\" | null;
+
+export interface Atom {
+  index: number;
+  // Element symbol in canonical case ("C", "Cl"); "*" for a wildcard atom
+  element: string;
+  aromatic: boolean;
+  charge: number;
+  isotope: number | null;
+  // Total attached hydrogens, whether implicit or written inside a bracket
+  hCount: number;
+  // True when hCount was fixed by a bracket atom rather than derived from valence
+  bracket: boolean;
+  chirality: Chirality;
+  atomClass: number | null;
+}
+
+export interface Bond {
+  index: number;
+  begin: number;
+  end: number;
+  // 1, 2, 3 or 4; aromatic bonds are 1.5
+  order: number;
+  aromatic: boolean;
+  stereo: BondStereo;
+}
+
+// Atom position in ångström for 3D structures, or drawing units for 2D
+export interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Molecule {
+  atoms: Atom[];
+  bonds: Bond[];
+  // Bond indices incident to each atom, in the order they were written
+  adjacency: number[][];
+  // Smallest set of smallest rings, as atom index lists in ring order
+  rings: number[][];
+}
+
+export const otherAtom = (bond: Bond, atom: number) => (bond.begin === atom ? bond.end : bond.begin);
+
+export const neighbors = (mol: Molecule, atom: number) =>
+  mol.adjacency[atom].map((b) => otherAtom(mol.bonds[b], atom));
+
+export const bondBetween = (mol: Molecule, a: number, b: number): Bond | undefined =>
+  mol.adjacency[a].map((i) => mol.bonds[i]).find((bond) => otherAtom(bond, a) === b);
+
+export const isHeavy = (atom: Atom) => atom.element !== "H";
+
+export const heavyAtoms = (mol: Molecule) => mol.atoms.filter(isHeavy);
+
+export const heavyBonds = (mol: Molecule) =>
+  mol.bonds.filter((b) => isHeavy(mol.atoms[b.begin]) && isHeavy(mol.atoms[b.end]));
+
+// Hydrogens on an atom, counting both hCount and explicit [H] neighbours
+export const totalHydrogens = (mol: Molecule, atom: number) =>
+  mol.atoms[atom].hCount + neighbors(mol, atom).filter((n) => mol.atoms[n].element === "H").length;
+
+// Number of heavy-atom neighbours
+export const heavyDegree = (mol: Molecule, atom: number) =>
+  neighbors(mol, atom).filter((n) => isHeavy(mol.atoms[n])).length;
+
+export const ringBondKeys = (mol: Molecule) => {
+  const keys = new Set<string>();
+  for (const ring of mol.rings) {
+    for (let i = 0; i < ring.length; i++) {
+      keys.add(bondKey(ring[i], ring[(i + 1) % ring.length]));
+    }
+  }
+  return keys;
+};
+
+export const bondKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+export const isRingAtom = (mol: Molecule, atom: number) => mol.rings.some((ring) => ring.includes(atom));
+
+// Parity of the permutation taking one ordering of the same items to another
+export const permutationParity = (from: number[], to: number[]) => {
+  const positions = to.map((item) => from.indexOf(item));
+  let swaps = 0;
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = i + 1; j < positions.length; j++) {
+      if (positions[i] > positions[j]) swaps++;
+    }
+  }
+  return swaps % 2;
+};
+
+// Stand-in for an atom's implicit hydrogens in its stereo neighbour list
+export const IMPLICIT_HYDROGEN = -1;
+
+// Neighbours in the order a tetrahedral mark refers to: written order, with the
+// implicit hydrogen right after the preceding atom, or first when there is none
+export const stereoNeighbors = (mol: Molecule, atom: number) => {
+  const order = neighbors(mol, atom);
+  if (mol.atoms[atom].hCount > 0) {
+    const preceded = order.length > 0 && mol.bonds[mol.adjacency[atom][0]].end === atom;
+    order.splice(preceded ? 1 : 0, 0, IMPLICIT_HYDROGEN);
+  }
+  return order;
+};
+
+const flipStereo = (stereo: BondStereo): BondStereo => (stereo === "/" ? "\\" : "/");
+
+// Reference substituents and cis/trans for a double bond with direction marks on both ends
+export const doubleBondStereo = (mol: Molecule, bond: Bond) => {
+  const markAt = (centre: number) =>
+    mol.adjacency[centre].map((b) => mol.bonds[b]).find((other) => other.index !== bond.index && other.stereo);
+  const left = markAt(bond.begin);
+  const right = markAt(bond.end);
+  if (!left || !right) return null;
+  // A mark as if the substituent were written before its double-bond atom
+  const side = (mark: Bond, centre: number) => (mark.begin !== centre ? mark.stereo : flipStereo(mark.stereo));
+  return {
+    references: new Map([
+      [bond.begin, otherAtom(left, bond.begin)],
+      [bond.end, otherAtom(right, bond.end)],
+    ]),
+    trans: side(left, bond.begin) !== side(right, bond.end),
+  };
+};
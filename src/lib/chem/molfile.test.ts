@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { canonicalSmiles } from "./canonical";
+import { MolfileParseError, parseMolfile, parseSdf, writeMolfile, writeSdf } from "./molfile";
+import { parseSmiles } from "./smiles";
+
+const ROUND_TRIPS = [
+  "CC(=O)Oc1ccccc1C(=O)O",
+  "N[C@@H](Cc1ccc(O)cc1)C(=O)O",
+  "F/C=C/C=C\\Cl",
+  "[NH4+].[Cl-]",
+  "C[N+](=O)[O-]",
+  "[13CH3]O",
+  "c1cc[nH]c1",
+  "[CH2]C",
+];
+
+describe("writeMolfile and parseMolfile", () => {
+  it.each(ROUND_TRIPS)("round-trip %s through V2000 and V3000", (smiles) => {
+    const mol = parseSmiles(smiles);
+    for (const version of ["V2000", "V3000"] as const) {
+      const record = parseMolfile(writeMolfile(mol, { version, name: "test" }));
+      expect(canonicalSmiles(record.molecule), version).toBe(canonicalSmiles(mol));
+      expect(record.name).toBe("test");
+      expect(record.dimension).toBe(2);
+    }
+  });
+
+  it("reads charges from the properties block", () => {
+    const molfile = [
+      "acetate",
+      "",
+      "",
+      "  4  3  0  0  0  0  0  0  0  0999 V2000",
+      "    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0",
+      "    1.2990    0.7500    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0",
+      "    2.5981    0.0000    0.0000 O   0  0  0  0  0  0  0  0  0  0  0  0",
+      "    1.2990    2.2500    0.0000 O   0  0  0  0  0  0  0  0  0  0  0  0",
+      "  1  2  1  0",
+      "  2  3  1  0",
+      "  2  4  2  0",
+      "M  CHG  1   3  -1",
+      "M  END",
+    ].join("\n");
+    expect(canonicalSmiles(parseMolfile(molfile).molecule)).toBe(canonicalSmiles(parseSmiles("CC(=O)[O-]")));
+  });
+
+  it("throws MolfileParseError for a malformed counts line", () => {
+    expect(() => parseMolfile("x\n\n\n  x  0  0  0  0  0  0  0  0  0999 V2000\nM  END\n")).toThrow(MolfileParseError);
+  });
+});
+
+describe("writeSdf and parseSdf", () => {
+  const sdf = writeSdf([
+    { molecule: parseSmiles("CCO"), name: "ethanol", properties: { pIC50: 5.2, note: "a\n\nb" } },
+    { molecule: parseSmiles("c1ccccc1"), name: "benzene" },
+  ]);
+
+  it("round-trips names and data fields", () => {
+    const { records, errors } = parseSdf(sdf);
+    expect(errors).toEqual([]);
+    expect(records.map((record) => [canonicalSmiles(record.molecule), record.name, record.properties])).toEqual([
+      ["CCO", "ethanol", { pIC50: "5.2", note: "a\nb" }],
+      ["c1ccccc1", "benzene", {}],
+    ]);
+    expect(records[1].line).toBe(19);
+  });
+
+  it("skips a broken record and keeps the rest", () => {
+    const { records, errors } = parseSdf(sdf.replace("  3  2  0", "  x  2  0"));
+    expect(records.map((record) => record.name)).toEqual(["benzene"]);
+    expect(errors).toEqual([{ line: 4, reason: "Atom count 'x' is not a whole number" }]);
+  });
+});
@@ -0,0 +1,658 @@
+import { CHARGED_VALENCES, DEFAULT_VALENCES, averageMass, isElement } from "./elements";
+import {
+  Atom,
+  Bond,
+  BondStereo,
+  Chirality,
+  IMPLICIT_HYDROGEN,
+  Molecule,
+  Point3D,
+  neighbors,
+  otherAtom,
+  permutationParity,
+  stereoNeighbors,
+} from "./molecule";
+import { chiralityFromPoints, distance, subtract } from "./geometry";
+import { BondWedge, computeLayout, wedgeBonds } from "./layout";
+import { findSSSR, kekulize, perceiveAromaticity } from "./rings";
+import { symmetryClasses } from "./canonical";
+
+export class MolfileParseError extends Error {
+  constructor(public line: number, public reason: string) {
+    super(`${reason} on line ${line}`);
+    this.name = "MolfileParseError";
+  }
+}
+
+export type MolfileVersion = "V2000" | "V3000";
+
+export interface MolRecord {
+  molecule: Molecule;
+  name: string;
+  // File line the record starts on
+  line: number;
+  // One point per atom; all zero when the file has no coordinates
+  coordinates: Point3D[];
+  dimension: 0 | 2 | 3;
+  // SD data fields by name, in file order
+  properties: Record<string, string>;
+}
+
+export interface MolfileOptions {
+  version: MolfileVersion;
+  name: string;
+  // A 2D layout with stereo wedges is generated when absent
+  coordinates: Point3D[] | null;
+}
+
+export interface SdfEntry {
+  molecule: Molecule;
+  name?: string;
+  coordinates?: Point3D[] | null;
+  properties?: Record<string, string | number | boolean | null>;
+}
+
+export interface SdfError {
+  line: number;
+  reason: string;
+}
+
+export const DEFAULT_MOLFILE_OPTIONS: MolfileOptions = { version: "V2000", name: "", coordinates: null };
+
+// V2000 atom-block charge codes; 4 marks a doublet radical on a neutral atom
+const CHARGE_CODES: Record<number, number> = { 1: 3, 2: 2, 3: 1, 5: -1, 6: -2, 7: -3 };
+
+// Generic symbols for "any atom" in query and Markush structures
+const ANY_ATOM = new Set(["A", "Q", "*", "R", "R#", "L"]);
+
+// Hydrogens taken off by a radical: one for a doublet, two for a singlet or triplet
+const RADICAL_HYDROGENS: Record<number, number> = { 1: 2, 2: 1, 3: 2 };
+
+// Single-bond stereo codes: V2000 1 and V3000 CFG=1 point up, V2000 6 and V3000 CFG=3 down
+type Wedge = "up" | "down" | "either" | null;
+
+interface RawAtom {
+  element: string;
+  isotope: number | null;
+  charge: number;
+  radical: number;
+  parity: number;
+  // Explicit valence from the file; 0 when absent
+  valence: number;
+  atomClass: number | null;
+  point: Point3D;
+}
+
+interface RawBond {
+  begin: number;
+  end: number;
+  type: number;
+  wedge: Wedge;
+  line: number;
+}
+
+// Hydrogens implied by the lowest normal valence that fits `used`, as MDL readers add them
+const impliedHydrogens = (element: string, charge: number, used: number) => {
+  const valences = charge === 0 ? DEFAULT_VALENCES[element] : CHARGED_VALENCES[element]?.[charge];
+  const target = valences?.find((v) => v >= used);
+  return target === undefined ? 0 : target - used;
+};
+
+class MolfileParser {
+  private atoms: RawAtom[] = [];
+  private bonds: RawBond[] = [];
+  private name = "";
+  private dimensionCode = "";
+
+  // `offset` is the file line of `lines[0]`, so errors inside an SD file point at the right place
+  constructor(private readonly lines: string[], private readonly offset = 1) {}
+
+  parse(): MolRecord {
+    if (this.lines.length < 4) this.fail(0, "Molfile header and counts line are incomplete");
+    this.name = this.lines[0].trim();
+    this.dimensionCode = this.lines[1].slice(20, 22).toUpperCase();
+    const counts = this.lines[3];
+    if (/V3000/i.test(counts)) this.readV3000();
+    else this.readV2000(counts);
+    return this.build();
+  }
+
+  private fail(index: number, reason: string): never {
+    throw new MolfileParseError(this.offset + index, reason);
+  }
+
+  private int(text: string, index: number, what: string) {
+    const trimmed = text.trim();
+    if (trimmed === "") return 0;
+    if (!/^[+-]?\d+$/.test(trimmed)) this.fail(index, `${what} '${trimmed}' is not a whole number`);
+    return Number(trimmed);
+  }
+
+  private float(text: string, index: number, what: string) {
+    const value = Number(text.trim());
+    if (text.trim() === "" || Number.isNaN(value)) this.fail(index, `${what} '${text.trim()}' is not a number`);
+    return value;
+  }
+
+  private element(symbol: string, index: number) {
+    if (ANY_ATOM.has(symbol)) return { element: "*", isotope: null };
+    if (symbol === "D") return { element: "H", isotope: 2 };
+    if (symbol === "T") return { element: "H", isotope: 3 };
+    if (symbol.startsWith("[") || symbol.includes(",")) this.fail(index, `Atom list '${symbol}' is a query, not a structure`);
+    if (!isElement(symbol)) this.fail(index, `Unknown element '${symbol}'`);
+    return { element: symbol, isotope: null };
+  }
+
+  private line(index: number) {
+    if (index >= this.lines.length) this.fail(this.lines.length - 1, "Molfile ends before M  END");
+    return this.lines[index];
+  }
+
+  private readV2000(counts: string) {
+    const atomCount = this.int(counts.slice(0, 3), 3, "Atom count");
+    const bondCount = this.int(counts.slice(3, 6), 3, "Bond count");
+    let k = 4;
+
+    for (let n = 0; n < atomCount; n++, k++) {
+      const text = this.line(k);
+      const { element, isotope } = this.element(text.slice(31, 34).trim(), k);
+      const massDifference = this.int(text.slice(34, 36), k, "Mass difference");
+      const chargeCode = this.int(text.slice(36, 39), k, "Charge code");
+      this.atoms.push({
+        element,
+        isotope: isotope ?? (massDifference && element !== "*" ? Math.round(averageMass(element)) + massDifference : null),
+        charge: CHARGE_CODES[chargeCode] ?? 0,
+        radical: chargeCode === 4 ? 2 : 0,
+        parity: this.int(text.slice(39, 42), k, "Stereo parity"),
+        valence: this.int(text.slice(48, 51), k, "Valence"),
+        atomClass: this.int(text.slice(60, 63), k, "Atom mapping") || null,
+        point: {
+          x: this.float(text.slice(0, 10), k, "X coordinate"),
+          y: this.float(text.slice(10, 20), k, "Y coordinate"),
+          z: this.float(text.slice(20, 30), k, "Z coordinate"),
+        },
+      });
+    }
+
+    for (let n = 0; n < bondCount; n++, k++) {
+      const text = this.line(k);
+      const type = this.int(text.slice(6, 9), k, "Bond type");
+      const stereo = this.int(text.slice(9, 12), k, "Bond stereo");
+      this.addBond(
+        this.int(text.slice(0, 3), k, "Bond atom") - 1,
+        this.int(text.slice(3, 6), k, "Bond atom") - 1,
+        type,
+        type === 1 ? (stereo === 1 ? "up" : stereo === 6 ? "down" : stereo === 4 ? "either" : null) : stereo === 3 ? "either" : null,
+        k
+      );
+    }
+
+    // M  CHG, M  RAD and M  ISO replace whatever the atom block said
+    let propertiesSeen = false;
+    for (; ; k++) {
+      const text = this.line(k);
+      if (text.startsWith("M  END")) break;
+      if (text.startsWith("A  ") || text.startsWith("V  ")) {
+        if (text.startsWith("A  ")) k++;
+        continue;
+      }
+      const tag = text.slice(0, 6);
+      if (tag !== "M  CHG" && tag !== "M  RAD" && tag !== "M  ISO") continue;
+      if (!propertiesSeen && tag !== "M  ISO") {
+        for (const atom of this.atoms) {
+          atom.charge = 0;
+          atom.radical = 0;
+        }
+        propertiesSeen = true;
+      }
+      const count = this.int(text.slice(6, 9), k, "Entry count");
+      for (let e = 0; e < count; e++) {
+        const at = 9 + e * 8;
+        const atom = this.atoms[this.int(text.slice(at, at + 4), k, "Atom number") - 1];
+        if (!atom) this.fail(k, `${tag} refers to an atom that does not exist`);
+        const value = this.int(text.slice(at + 4, at + 8), k, "Property value");
+        if (tag === "M  CHG") atom.charge = value;
+        else if (tag === "M  RAD") atom.radical = value;
+        else atom.isotope = value;
+      }
+    }
+  }
+
+  // V3000 lines without the "M  V30 " prefix, with "-" continuations joined
+  private v3000Lines() {
+    const joined: { text: string; index: number }[] = [];
+    let pending: { text: string; index: number } | null = null;
+    for (let k = 4; ; k++) {
+      const text = this.line(k);
+      if (text.startsWith("M  END")) break;
+      if (!text.startsWith("M  V30 ")) continue;
+      const body = text.slice(7);
+      const current = pending ? { text: pending.text + body, index: pending.index } : { text: body, index: k };
+      if (body.endsWith("-")) {
+        pending = { text: current.text.slice(0, -1), index: current.index };
+      } else {
+        joined.push(current);
+        pending = null;
+      }
+    }
+    return joined;
+  }
+
+  // Space-separated fields, keeping quoted strings and parenthesised lists whole
+  private fields(text: string) {
+    return text.match(/(?:[^\s"(]+|"[^"]*"|\([^)]*\))+/g) ?? [];
+  }
+
+  private keywords(fields: string[]) {
+    const result = new Map<string, string>();
+    for (const field of fields) {
+      const eq = field.indexOf("=");
+      if (eq > 0) result.set(field.slice(0, eq).toUpperCase(), field.slice(eq + 1));
+    }
+    return result;
+  }
+
+  private readV3000() {
+    const ids = new Map<string, number>();
+    let block = "";
+    for (const { text, index } of this.v3000Lines()) {
+      const fields = this.fields(text.trim());
+      if (fields[0] === "BEGIN" || fields[0] === "END") {
+        block = fields[0] === "BEGIN" ? fields[1] : "";
+        continue;
+      }
+      if (block === "ATOM") {
+        if (fields.length < 6) this.fail(index, "Atom line needs an index, type and three coordinates");
+        const { element, isotope } = this.element(fields[1], index);
+        const keys = this.keywords(fields.slice(6));
+        ids.set(fields[0], this.atoms.length);
+        this.atoms.push({
+          element,
+          isotope: keys.has("MASS") ? this.int(keys.get("MASS"), index, "Mass") : isotope,
+          charge: keys.has("CHG") ? this.int(keys.get("CHG"), index, "Charge") : 0,
+          radical: keys.has("RAD") ? this.int(keys.get("RAD"), index, "Radical") : 0,
+          parity: keys.has("CFG") ? this.int(keys.get("CFG"), index, "Stereo parity") : 0,
+          valence: keys.has("VAL") ? this.int(keys.get("VAL"), index, "Valence") : 0,
+          atomClass: this.int(fields[5], index, "Atom mapping") || null,
+          point: {
+            x: this.float(fields[2], index, "X coordinate"),
+            y: this.float(fields[3], index, "Y coordinate"),
+            z: this.float(fields[4], index, "Z coordinate"),
+          },
+        });
+      } else if (block === "BOND") {
+        if (fields.length < 4) this.fail(index, "Bond line needs an index, type and two atoms");
+        const type = this.int(fields[1], index, "Bond type");
+        const config = this.int(this.keywords(fields.slice(4)).get("CFG") ?? "", index, "Bond configuration");
+        const atom = (id: string) => ids.get(id) ?? this.fail(index, `Bond refers to atom ${id}, which does not exist`);
+        this.addBond(
+          atom(fields[2]),
+          atom(fields[3]),
+          type,
+          config === 2 ? "either" : type === 1 ? (config === 1 ? "up" : config === 3 ? "down" : null) : null,
+          index
+        );
+      }
+    }
+  }
+
+  private addBond(begin: number, end: number, type: number, wedge: Wedge, index: number) {
+    if (type < 1 || type > 4) this.fail(index, `Bond type ${type} is a query, not a structure`);
+    if (!this.atoms[begin] || !this.atoms[end]) this.fail(index, "Bond refers to an atom that does not exist");
+    if (begin === end) this.fail(index, "Bond joins an atom to itself");
+    this.bonds.push({ begin, end, type, wedge, line: index });
+  }
+
+  private build(): MolRecord {
+    const atoms: Atom[] = this.atoms.map((raw, index) => ({
+      index,
+      element: raw.element,
+      aromatic: false,
+      charge: raw.charge,
+      isotope: raw.isotope,
+      hCount: 0,
+      bracket: raw.valence !== 0,
+      chirality: null,
+      atomClass: raw.atomClass,
+    }));
+    const adjacency: number[][] = atoms.map(() => []);
+    const seen = new Set<string>();
+    const bonds: Bond[] = this.bonds.map(({ begin, end, type, line }, index) => {
+      const key = begin < end ? `${begin}-${end}` : `${end}-${begin}`;
+      if (seen.has(key)) this.fail(line, `Atoms ${begin + 1} and ${end + 1} are bonded twice`);
+      seen.add(key);
+      adjacency[begin].push(index);
+      adjacency[end].push(index);
+      if (type === 4) atoms[begin].aromatic = atoms[end].aromatic = true;
+      return { index, begin, end, order: type === 4 ? 1.5 : type, aromatic: type === 4, stereo: null };
+    });
+    const mol: Molecule = { atoms, bonds, adjacency, rings: [] };
+    mol.rings = findSSSR(mol);
+
+    // Aromatic bond types outside rings are treated as single bonds by perception below
+    const ringAtoms = new Set(mol.rings.flat());
+    for (const atom of atoms) {
+      if (!ringAtoms.has(atom.index)) atom.aromatic = false;
+    }
+
+    this.atoms.forEach((raw, i) => {
+      const atom = atoms[i];
+      let used = 0;
+      let hasDouble = false;
+      for (const b of adjacency[i]) {
+        used += bonds[b].aromatic ? 1 : bonds[b].order;
+        if (bonds[b].order === 2) hasDouble = true;
+      }
+      if (raw.valence === 15) atom.hCount = 0;
+      else if (raw.valence > 0) atom.hCount = Math.max(0, raw.valence - used);
+      else if (atom.element === "*" || (atom.aromatic && atom.element !== "C" && atom.element !== "B")) atom.hCount = 0;
+      else atom.hCount = impliedHydrogens(atom.element, atom.charge, used + (atom.aromatic && !hasDouble ? 1 : 0));
+      if (raw.radical && raw.valence === 0) {
+        atom.hCount = Math.max(0, atom.hCount - (RADICAL_HYDROGENS[raw.radical] ?? 0));
+        atom.bracket = true;
+      }
+    });
+    perceiveAromaticity(mol);
+
+    const coordinates = this.atoms.map((raw) => raw.point);
+    const flat = coordinates.every((p) => p.z === 0);
+    const dimension =
+      this.dimensionCode === "3D" || !flat ? 3 : coordinates.some((p) => p.x !== 0 || p.y !== 0) ? 2 : 0;
+    this.assignStereo(mol, coordinates, dimension);
+    return { molecule: mol, name: this.name, line: this.offset, coordinates, dimension, properties: {} };
+  }
+
+  private assignStereo(mol: Molecule, coordinates: Point3D[], dimension: number) {
+    const classes = symmetryClasses(mol);
+    const distinct = (items: number[]) =>
+      new Set(items.map((n) => (n === IMPLICIT_HYDROGEN ? -1 : classes.get(n)))).size === items.length;
+
+    mol.atoms.forEach((atom, i) => {
+      const order = stereoNeighbors(mol, i);
+      if (order.length !== 4 || atom.hCount > 1 || atom.aromatic) return;
+      // Wedges count only from the narrow end, which is the bond's first atom
+      const wedged = this.bonds.filter((bond) => bond.begin === i && (bond.wedge === "up" || bond.wedge === "down"));
+      // Every 3D centre has a handedness, so only those with four different substituents keep it
+      if (dimension === 3 && distinct(order)) {
+        atom.chirality = chiralityFromPoints(order, i, coordinates);
+      } else if (dimension === 2 && wedged.length > 0) {
+        const points = coordinates.map((p) => ({ ...p }));
+        for (const bond of wedged) {
+          const length = distance(coordinates[i], coordinates[bond.end]);
+          points[bond.end].z = bond.wedge === "up" ? length : -length;
+        }
+        atom.chirality = chiralityFromPoints(order, i, points);
+      }
+      // Parities are the only stereo a file without coordinates can carry
+      const parity = this.atoms[i].parity;
+      if (!atom.chirality && (parity === 1 || parity === 2)) atom.chirality = chiralityFromParity(order, parity);
+    });
+
+    for (const bond of mol.bonds) {
+      if (dimension === 0 || bond.order !== 2 || bond.aromatic) continue;
+      if (this.bonds[bond.index].wedge === "either") continue;
+      const inSmallRing = mol.rings.some(
+        (ring) => ring.length < 8 && ring.includes(bond.begin) && ring.includes(bond.end)
+      );
+      if (inSmallRing) continue;
+      const sides = [bond.begin, bond.end].map((centre) => {
+        const others = neighbors(mol, centre).filter((n) => n !== otherAtom(bond, centre));
+        if (others.length === 0 || others.length > 2) return null;
+        if (others.length === 2 && classes.get(others[0]) === classes.get(others[1])) return null;
+        return { centre, substituent: others[0] };
+      });
+      if (!sides[0] || !sides[1]) continue;
+      const [left, right] = sides;
+      const cis =
+        sideOfAxis(coordinates[left.centre], coordinates[right.centre], coordinates[left.substituent], coordinates[right.substituent]) > 0;
+      markDoubleBond(mol, left, right, cis);
+    }
+  }
+}
+
+// MDL parity numbers the neighbours by atom index, any hydrogen last; parity 1
+// means 1-2-3 run clockwise with 4 pointing away, which is @ when viewed from 4
+const parityReference = (order: number[]) => {
+  const sorted = [...order].sort((a, b) => (a === IMPLICIT_HYDROGEN ? 1 : b === IMPLICIT_HYDROGEN ? -1 : a - b));
+  return [sorted[3], sorted[0], sorted[1], sorted[2]];
+};
+
+const chiralityFromParity = (order: number[], parity: number): Chirality => {
+  const atReference: Chirality = parity === 1 ? "@" : "@@";
+  if (permutationParity(parityReference(order), order) === 0) return atReference;
+  return atReference === "@" ? "@@" : "@";
+};
+
+const parityOf = (mol: Molecule, atom: Atom) => {
+  const order = stereoNeighbors(mol, atom.index);
+  if (!atom.chirality || order.length !== 4) return 0;
+  const even = permutationParity(order, parityReference(order)) === 0;
+  return (atom.chirality === "@") === even ? 1 : 2;
+};
+
+// Positive when the two substituents lie on the same side of the double bond
+const sideOfAxis = (left: Point3D, right: Point3D, a: Point3D, b: Point3D) => {
+  const axis = subtract(right, left);
+  const length = Math.hypot(axis.x, axis.y, axis.z) || 1;
+  const unit = { x: axis.x / length, y: axis.y / length, z: axis.z / length };
+  const perpendicular = (p: Point3D, from: Point3D) => {
+    const d = subtract(p, from);
+    const along = d.x * unit.x + d.y * unit.y + d.z * unit.z;
+    return { x: d.x - along * unit.x, y: d.y - along * unit.y, z: d.z - along * unit.z };
+  };
+  const pa = perpendicular(a, left);
+  const pb = perpendicular(b, right);
+  return pa.x * pb.x + pa.y * pb.y + pa.z * pb.z;
+};
+
+const flip = (stereo: BondStereo): BondStereo => (stereo === "/" ? "\\" : "/");
+
+// Sets "/" and "\" on one single bond at each end, reusing a mark a conjugated neighbour already placed
+const markDoubleBond = (
+  mol: Molecule,
+  left: { centre: number; substituent: number },
+  right: { centre: number; substituent: number },
+  cis: boolean
+) => {
+  const single = (centre: number, substituent: number) =>
+    mol.bonds[mol.adjacency[centre].find((b) => otherAtom(mol.bonds[b], centre) === substituent)];
+  const leftBond = single(left.centre, left.substituent);
+  const rightBond = single(right.centre, right.substituent);
+  if (leftBond.order !== 1 || rightBond.order !== 1 || leftBond.aromatic || rightBond.aromatic) return;
+  // A mark as if the substituent were written before its double-bond atom
+  const side = (bond: Bond, centre: number, stereo: BondStereo) => (bond.begin !== centre ? stereo : flip(stereo));
+  if (leftBond.stereo && rightBond.stereo) return;
+  if (rightBond.stereo) {
+    const rightSide = side(rightBond, right.centre, rightBond.stereo);
+    leftBond.stereo = side(leftBond, left.centre, cis ? rightSide : flip(rightSide));
+  } else {
+    const leftSide = leftBond.stereo ? side(leftBond, left.centre, leftBond.stereo) : "/";
+    leftBond.stereo = side(leftBond, left.centre, leftSide);
+    rightBond.stereo = side(rightBond, right.centre, cis ? leftSide : flip(leftSide));
+  }
+};
+
+const splitLines = (text: string) => text.split(/\r?\n/);
+
+export const parseMolfile = (text: string): MolRecord => new MolfileParser(splitLines(text)).parse();
+
+export type MolfileParseResult =
+  | { record: MolRecord; error: null }
+  | { record: null; error: MolfileParseError };
+
+export const tryParseMolfile = (text: string): MolfileParseResult => {
+  try {
+    return { record: parseMolfile(text), error: null };
+  } catch (error) {
+    if (error instanceof MolfileParseError) return { record: null, error };
+    throw error;
+  }
+};
+
+// SD data items: a "> <NAME>" line, value lines, then a blank line
+const readDataItems = (lines: string[]) => {
+  const properties: Record<string, string> = {};
+  for (let k = 0; k < lines.length; k++) {
+    const header = lines[k].match(/^>.*<([^>]+)>/);
+    if (!header) continue;
+    const value: string[] = [];
+    for (k++; k < lines.length && lines[k].trim() !== ""; k++) value.push(lines[k]);
+    properties[header[1]] = value.join("\n");
+  }
+  return properties;
+};
+
+/**
+ * Reads every record of an SD file. A record that fails to parse is reported
+ * with the file line of the problem and skipped; the rest still load.
+ */
+export const parseSdf = (text: string) => {
+  const lines = splitLines(text);
+  const records: MolRecord[] = [];
+  const errors: SdfError[] = [];
+  let start = 0;
+  for (let k = 0; k <= lines.length; k++) {
+    if (k < lines.length && !lines[k].startsWith("$$$$")) continue;
+    const chunk = lines.slice(start, k);
+    const first = start;
+    start = k + 1;
+    if (chunk.every((line) => line.trim() === "")) continue;
+    const end = chunk.findIndex((line) => line.startsWith("M  END"));
+    try {
+      const record = new MolfileParser(end === -1 ? chunk : chunk.slice(0, end + 1), first + 1).parse();
+      record.properties = readDataItems(chunk.slice(end + 1));
+      records.push(record);
+    } catch (error) {
+      if (!(error instanceof MolfileParseError)) throw error;
+      errors.push({ line: error.line, reason: error.reason });
+    }
+  }
+  return { records, errors };
+};
+
+const pad = (value: string | number, width: number) => String(value).padStart(width);
+
+const coordinate = (value: number) => pad(value.toFixed(4), 10);
+
+// Explicit valence for atoms whose hydrogens a reader would not derive on its own; 0 otherwise
+const explicitValence = (mol: Molecule, atom: Atom, orders: number[] | null) => {
+  let used = 0;
+  let hasDouble = false;
+  for (const b of mol.adjacency[atom.index]) {
+    const order = orders ? orders[b] : mol.bonds[b].aromatic ? 1 : mol.bonds[b].order;
+    used += order;
+    if (order === 2) hasDouble = true;
+  }
+  const aromaticFallback = !orders && atom.aromatic;
+  const implied =
+    atom.element === "*" || (aromaticFallback && atom.element !== "C" && atom.element !== "B")
+      ? 0
+      : impliedHydrogens(atom.element, atom.charge, used + (aromaticFallback && !hasDouble ? 1 : 0));
+  if (implied === atom.hCount) return 0;
+  const valence = used + atom.hCount;
+  return valence === 0 ? 15 : valence;
+};
+
+const headerLines = (name: string, coordinates: Point3D[]) => {
+  const now = new Date();
+  const stamp = [now.getMonth() + 1, now.getDate(), now.getFullYear() % 100, now.getHours(), now.getMinutes()]
+    .map((n) => String(n).padStart(2, "0"))
+    .join("");
+  const dimension = coordinates.some((p) => p.z !== 0) ? "3D" : "2D";
+  return [name.slice(0, 80), `  AIDDP   ${stamp}${dimension}`, ""];
+};
+
+const bondType = (bond: Bond, orders: number[] | null) => (orders ? orders[bond.index] : bond.aromatic ? 4 : bond.order);
+
+const writeV2000 = (mol: Molecule, points: Point3D[], orders: number[] | null, wedges: Map<number, BondWedge>) => {
+  const lines = [`${pad(mol.atoms.length, 3)}${pad(mol.bonds.length, 3)}  0  0  0  0  0  0  0  0999 V2000`];
+  for (const atom of mol.atoms) {
+    const p = points[atom.index];
+    const symbol = atom.element === "*" ? "A" : atom.element;
+    lines.push(
+      `${coordinate(p.x)}${coordinate(p.y)}${coordinate(p.z)} ${symbol.padEnd(3)} 0  0${pad(parityOf(mol, atom), 3)}  0  0` +
+        `${pad(explicitValence(mol, atom, orders), 3)}  0  0  0${pad(atom.atomClass ?? 0, 3)}  0  0`
+    );
+  }
+  for (const bond of mol.bonds) {
+    // A wedge is written from its narrow end: 1 for solid, 6 for hashed
+    const wedge = wedges.get(bond.index);
+    const [first, second] = wedge?.narrow === bond.end ? [bond.end, bond.begin] : [bond.begin, bond.end];
+    const stereo = wedge ? (wedge.hashed ? 6 : 1) : 0;
+    lines.push(`${pad(first + 1, 3)}${pad(second + 1, 3)}${pad(bondType(bond, orders), 3)}${pad(stereo, 3)}`);
+  }
+  const propertyLines = (tag: string, entries: [number, number][]) => {
+    for (let k = 0; k < entries.length; k += 8) {
+      const chunk = entries.slice(k, k + 8);
+      lines.push(`M  ${tag}${pad(chunk.length, 3)}${chunk.map(([i, v]) => `${pad(i + 1, 4)}${pad(v, 4)}`).join("")}`);
+    }
+  };
+  propertyLines("CHG", mol.atoms.filter((atom) => atom.charge !== 0).map((atom) => [atom.index, atom.charge]));
+  propertyLines("ISO", mol.atoms.filter((atom) => atom.isotope !== null).map((atom) => [atom.index, atom.isotope]));
+  lines.push("M  END");
+  return lines;
+};
+
+const writeV3000 = (mol: Molecule, points: Point3D[], orders: number[] | null, wedges: Map<number, BondWedge>) => {
+  const lines = ["  0  0  0     0  0            999 V3000", "M  V30 BEGIN CTAB", `M  V30 COUNTS ${mol.atoms.length} ${mol.bonds.length} 0 0 0`];
+  lines.push("M  V30 BEGIN ATOM");
+  for (const atom of mol.atoms) {
+    const p = points[atom.index];
+    const parity = parityOf(mol, atom);
+    const valence = explicitValence(mol, atom, orders);
+    const extras = [
+      atom.charge !== 0 ? `CHG=${atom.charge}` : "",
+      atom.isotope !== null ? `MASS=${atom.isotope}` : "",
+      parity ? `CFG=${parity}` : "",
+      // V3000 writes a zero valence as -1 where V2000 uses 15
+      valence ? `VAL=${valence === 15 ? -1 : valence}` : "",
+    ].filter(Boolean);
+    const symbol = atom.element === "*" ? "A" : atom.element;
+    const fields = [atom.index + 1, symbol, p.x.toFixed(4), p.y.toFixed(4), p.z.toFixed(4), atom.atomClass ?? 0, ...extras];
+    lines.push(`M  V30 ${fields.join(" ")}`);
+  }
+  lines.push("M  V30 END ATOM", "M  V30 BEGIN BOND");
+  for (const bond of mol.bonds) {
+    const wedge = wedges.get(bond.index);
+    const [first, second] = wedge?.narrow === bond.end ? [bond.end, bond.begin] : [bond.begin, bond.end];
+    const config = wedge ? ` CFG=${wedge.hashed ? 3 : 1}` : "";
+    lines.push(`M  V30 ${bond.index + 1} ${bondType(bond, orders)} ${first + 1} ${second + 1}${config}`);
+  }
+  lines.push("M  V30 END BOND", "M  V30 END CTAB", "M  END");
+  return lines;
+};
+
+/**
+ * MDL molfile for a molecule. Aromatic bonds are written in a Kekulé form when
+ * one exists, tetrahedral centres as atom parities, and hydrogens that a reader
+ * would not add by the normal valence rules as an explicit valence. Without
+ * coordinates a 2D layout is generated, so wedges and double-bond geometry
+ * carry the stereo as well.
+ */
+export const writeMolfile = (mol: Molecule, overrides: Partial<MolfileOptions> = {}) => {
+  const { name, coordinates } = { ...DEFAULT_MOLFILE_OPTIONS, ...overrides };
+  // V2000 has three-digit counts, so bigger structures need V3000
+  const tooLarge = mol.atoms.length > 999 || mol.bonds.length > 999;
+  const version = tooLarge ? "V3000" : overrides.version ?? DEFAULT_MOLFILE_OPTIONS.version;
+  // Layouts are in bond lengths; 1.5 puts them on the usual ångström scale
+  const points = coordinates ?? computeLayout(mol).map((p) => ({ x: p.x * 1.5, y: p.y * 1.5, z: 0 }));
+  const wedges = points.every((p) => p.z === 0) ? wedgeBonds(mol, points) : new Map<number, BondWedge>();
+  const orders = mol.bonds.some((bond) => bond.aromatic) ? kekulize(mol) : null;
+  const body = version === "V3000" ? writeV3000(mol, points, orders, wedges) : writeV2000(mol, points, orders, wedges);
+  return [...headerLines(name, points), ...body].join("\n");
+};
+
+// SD data values may not contain blank lines, which would end the item early
+const dataValue = (value: string | number | boolean | null) =>
+  String(value ?? "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .join("\n");
+
+export const writeSdf = (entries: SdfEntry[], version: MolfileVersion = "V2000") =>
+  entries
+    .map(({ molecule, name = "", coordinates = null, properties = {} }) => {
+      const items = Object.entries(properties).map(([key, value]) => `> <${key}>\n${dataValue(value)}\n`);
+      return [writeMolfile(molecule, { version, name, coordinates }), ...items, "$$$$"].join("\n");
+    })
+    .join("\n") + "\n";
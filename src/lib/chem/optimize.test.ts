@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { minimize } from "./optimize";
+
+describe("minimize", () => {
+  it("finds the minimum of a badly scaled quadratic", () => {
+    const result = minimize((x, gradient) => {
+      gradient[0] = 2 * (x[0] - 3);
+      gradient[1] = 200 * (x[1] + 1);
+      return (x[0] - 3) ** 2 + 100 * (x[1] + 1) ** 2;
+    }, Float64Array.from([0, 0]));
+    expect(result.converged).toBe(true);
+    expect(result.x[0]).toBeCloseTo(3, 2);
+    expect(result.x[1]).toBeCloseTo(-1, 2);
+  });
+
+  it("walks the Rosenbrock valley to its minimum", () => {
+    const { x } = minimize(
+      (x, gradient) => {
+        gradient[0] = -2 * (1 - x[0]) - 400 * x[0] * (x[1] - x[0] ** 2);
+        gradient[1] = 200 * (x[1] - x[0] ** 2);
+        return (1 - x[0]) ** 2 + 100 * (x[1] - x[0] ** 2) ** 2;
+      },
+      Float64Array.from([-1.2, 1]),
+      { maxIterations: 5000, gradientTolerance: 1e-6 }
+    );
+    expect(x[0]).toBeCloseTo(1, 3);
+    expect(x[1]).toBeCloseTo(1, 3);
+  });
+
+  it("stops at the iteration limit without claiming convergence", () => {
+    const result = minimize(
+      (x, gradient) => {
+        gradient[0] = 2 * (x[0] - 100);
+        return (x[0] - 100) ** 2;
+      },
+      Float64Array.from([0]),
+      { maxIterations: 3 }
+    );
+    expect(result).toMatchObject({ iterations: 3, converged: false });
+  });
+});
@@ -0,0 +1,117 @@
+// Objective value at x, with its gradient written into `gradient`
+export type Objective = (x: Float64Array, gradient: Float64Array) => number;
+
+export interface MinimizeOptions {
+  maxIterations: number;
+  // Converged once the root-mean-square gradient falls below this
+  gradientTolerance: number;
+  // Correction pairs kept for the inverse Hessian estimate
+  history: number;
+  // Largest change to any single coordinate in one step
+  maxStep: number;
+}
+
+export interface MinimizeResult {
+  x: Float64Array;
+  value: number;
+  iterations: number;
+  converged: boolean;
+}
+
+export const DEFAULT_MINIMIZE_OPTIONS: MinimizeOptions = {
+  maxIterations: 1000,
+  gradientTolerance: 0.01,
+  history: 8,
+  maxStep: 0.3,
+};
+
+const dot = (a: Float64Array, b: Float64Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+/**
+ * Limited-memory BFGS with a backtracking line search. Steps are capped per
+ * coordinate so a poor starting geometry cannot throw atoms across the box.
+ */
+export const minimize = (objective: Objective, start: Float64Array, overrides: Partial<MinimizeOptions> = {}): MinimizeResult => {
+  const { maxIterations, gradientTolerance, history, maxStep } = { ...DEFAULT_MINIMIZE_OPTIONS, ...overrides };
+  const n = start.length;
+  let x = Float64Array.from(start);
+  let gradient = new Float64Array(n);
+  let value = objective(x, gradient);
+  const steps: Float64Array[] = [];
+  const changes: Float64Array[] = [];
+  const direction = new Float64Array(n);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    if (n === 0 || Math.sqrt(dot(gradient, gradient) / n) < gradientTolerance) {
+      return { x, value, iterations: iteration, converged: true };
+    }
+
+    // Two-loop recursion for the quasi-Newton direction
+    direction.set(gradient);
+    const alphas: number[] = [];
+    for (let k = steps.length - 1; k >= 0; k--) {
+      const alpha = dot(steps[k], direction) / dot(changes[k], steps[k]);
+      alphas[k] = alpha;
+      for (let i = 0; i < n; i++) direction[i] -= alpha * changes[k][i];
+    }
+    if (steps.length > 0) {
+      const last = steps.length - 1;
+      const scale = dot(steps[last], changes[last]) / dot(changes[last], changes[last]);
+      for (let i = 0; i < n; i++) direction[i] *= scale;
+    }
+    for (let k = 0; k < steps.length; k++) {
+      const beta = dot(changes[k], direction) / dot(changes[k], steps[k]);
+      for (let i = 0; i < n; i++) direction[i] += steps[k][i] * (alphas[k] - beta);
+    }
+    for (let i = 0; i < n; i++) direction[i] = -direction[i];
+    if (dot(direction, gradient) >= 0) {
+      // Not downhill: forget the curvature estimate and use steepest descent
+      steps.length = 0;
+      changes.length = 0;
+      for (let i = 0; i < n; i++) direction[i] = -gradient[i];
+    }
+
+    let largest = 0;
+    for (let i = 0; i < n; i++) largest = Math.max(largest, Math.abs(direction[i]));
+    let t = largest > maxStep ? maxStep / largest : 1;
+    const slope = dot(direction, gradient);
+    const next = new Float64Array(n);
+    const nextGradient = new Float64Array(n);
+    let nextValue = Infinity;
+    for (let attempt = 0; attempt < 30; attempt++) {
+      for (let i = 0; i < n; i++) next[i] = x[i] + t * direction[i];
+      nextValue = objective(next, nextGradient);
+      if (nextValue <= value + 1e-4 * t * slope) break;
+      t /= 2;
+    }
+    if (!(nextValue < value)) {
+      if (steps.length === 0) return { x, value, iterations: iteration, converged: false };
+      steps.length = 0;
+      changes.length = 0;
+      continue;
+    }
+
+    const step = new Float64Array(n);
+    const change = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      step[i] = next[i] - x[i];
+      change[i] = nextGradient[i] - gradient[i];
+    }
+    if (dot(step, change) > 1e-10) {
+      steps.push(step);
+      changes.push(change);
+      if (steps.length > history) {
+        steps.shift();
+        changes.shift();
+      }
+    }
+    x = next;
+    gradient = nextGradient;
+    value = nextValue;
+  }
+  return { x, value, iterations: maxIterations, converged: false };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { structuralAlerts } from "./alerts";
+import { computeDescriptors } from "./descriptors";
+import { desirability, qedProperties, quantitativeDrugLikeness } from "./qed";
+import { parseSmiles } from "./smiles";
+
+const qedOf = (smiles: string) => {
+  const mol = parseSmiles(smiles);
+  return quantitativeDrugLikeness(qedProperties(mol, computeDescriptors(mol)));
+};
+
+describe("quantitativeDrugLikeness", () => {
+  // RDKit's QED.qed, for molecules the reduced alert set counts the same way
+  it.each([
+    ["CCO", 0.4068],
+    ["c1ccccc1", 0.4426],
+    ["Cn1cnc2c1c(=O)n(C)c(=O)n2C", 0.5385],
+    ["CC(C)Cc1ccc(cc1)C(C)C(=O)O", 0.8216],
+  ])("matches RDKit for %s", (smiles, reference) => {
+    expect(qedOf(smiles)).toBeCloseTo(reference, 3);
+  });
+
+  it("counts amide N–H bonds out of the rotatable bonds", () => {
+    const mol = parseSmiles("CC(=O)Nc1ccc(O)cc1");
+    const d = computeDescriptors(mol);
+    expect(qedProperties(mol, d).rotb).toBe(d.rotatableBonds - 2);
+  });
+
+  it("scores lower with every alert", () => {
+    const mol = parseSmiles("CC(C)Cc1ccc(cc1)C(C)C(=O)O");
+    const properties = qedProperties(mol, computeDescriptors(mol));
+    const scores = [0, 1, 2].map((alerts) => quantitativeDrugLikeness({ ...properties, alerts }));
+    expect(scores[0]).toBeGreaterThan(scores[1]);
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+  });
+
+  it("keeps desirabilities between 0 and 1", () => {
+    for (const value of [-10, 0, 200, 1000]) {
+      const d = desirability("mw", value);
+      expect(d).toBeGreaterThanOrEqual(0);
+      expect(d).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe("structuralAlerts", () => {
+  it("names each alert a molecule matches", () => {
+    expect(structuralAlerts(parseSmiles("CC=O"))).toEqual(["Aldehyde"]);
+    expect(structuralAlerts(parseSmiles("CC(=O)Oc1ccccc1C(=O)O"))).toEqual(["Phenol ester"]);
+    expect(structuralAlerts(parseSmiles("CCSSCC"))).toContain("Disulfide");
+    expect(structuralAlerts(parseSmiles("CCO"))).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { structuralAlerts } from "./alerts";
+import { MolecularDescriptors } from "./descriptors";
+import { Molecule, bondBetween, bondKey, heavyDegree, neighbors, ringBondKeys, totalHydrogens } from "./molecule";
+
+export type QEDProperty = "mw" | "alogp" | "hba" | "hbd" | "psa" | "rotb" | "arom" | "alerts";
+
+interface DesirabilityFunction {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+  dmax: number;
+}
+
+// Bickerton et al. (2012) asymmetric double sigmoid parameters, as fitted on oral drugs
+const DESIRABILITY: Record<QEDProperty, DesirabilityFunction> = {
+  mw: { a: 2.817065973, b: 392.5754953, c: 290.7489764, d: 2.419764353, e: 49.22325677, f: 65.37051707, dmax: 104.9805561 },
+  alogp: { a: 3.172690585, b: 137.8624751, c: 2.534937431, d: 4.581497897, e: 0.822739154, f: 0.576295591, dmax: 131.3186604 },
+  hba: { a: 2.948620388, b: 160.4605972, c: 3.615294657, d: 4.435986202, e: 0.290141953, f: 1.300669958, dmax: 148.7763046 },
+  hbd: { a: 1.618662227, b: 1010.051101, c: 0.985094388, d: 0.000000001, e: 0.713820843, f: 0.920922555, dmax: 258.1632616 },
+  psa: { a: 1.876861559, b: 125.2232657, c: 62.90773554, d: 87.83366614, e: 12.01999824, f: 28.51324732, dmax: 104.5686167 },
+  rotb: { a: 0.01, b: 272.4121427, c: 2.558379970, d: 1.565547684, e: 1.271567166, f: 2.758063707, dmax: 105.4420403 },
+  arom: { a: 3.217788970, b: 957.7374108, c: 2.274627939, d: 0.000000001, e: 1.317690384, f: 0.375760881, dmax: 312.3372610 },
+  alerts: { a: 0.01, b: 1199.094025, c: -0.09002883, d: 0.000000001, e: 0.185904477, f: 0.875193782, dmax: 417.7253140 },
+};
+
+// Mean weights from the paper (QEDw,mo)
+const WEIGHTS: Record<QEDProperty, number> = {
+  mw: 0.66,
+  alogp: 0.46,
+  hba: 0.05,
+  hbd: 0.61,
+  psa: 0.06,
+  rotb: 0.65,
+  arom: 0.48,
+  alerts: 0.95,
+};
+
+export const desirability = (property: QEDProperty, x: number) => {
+  const { a, b, c, d, e, f, dmax } = DESIRABILITY[property];
+  const rise = 1 + Math.exp(-(x - c + d / 2) / e);
+  const fall = 1 - 1 / (1 + Math.exp(-(x - c - d / 2) / f));
+  return (a + (b / rise) * fall) / dmax;
+};
+
+const connections = (mol: Molecule, atom: number) => neighbors(mol, atom).length + mol.atoms[atom].hCount;
+
+const valence = (mol: Molecule, atom: number) =>
+  mol.adjacency[atom].reduce((sum, b) => sum + mol.bonds[b].order, 0) + mol.atoms[atom].hCount;
+
+const isAmideLike = (mol: Molecule, nitrogen: number) =>
+  neighbors(mol, nitrogen).some(
+    (n) =>
+      ["C", "S"].includes(mol.atoms[n].element) &&
+      bondBetween(mol, nitrogen, n)!.order === 1 &&
+      neighbors(mol, n).some((o) => mol.atoms[o].element === "O" && bondBetween(mol, n, o)!.order === 2)
+  );
+
+// The acceptor patterns of the QED paper: ether/hydroxyl/carbonyl O and S, pyridine-type n, nitrile and amine N
+const isQEDAcceptor = (mol: Molecule, index: number) => {
+  const atom = mol.atoms[index];
+  const h = totalHydrogens(mol, index);
+  const x = connections(mol, index);
+  const v = valence(mol, index);
+  if (atom.element === "O" || atom.element === "S") {
+    if (atom.aromatic) return atom.element === "O" && h === 0 && x === 2;
+    if (atom.charge === -1) return x === 1;
+    if (atom.charge !== 0 || v !== 2) return false;
+    return atom.element === "O" ? (x === 2 && h <= 1) || (x === 1 && h === 0) : h === 0 && x <= 2;
+  }
+  if (atom.element === "N") {
+    if (atom.aromatic) return h === 0 && x === 2 && atom.charge === 0;
+    if (atom.charge !== 0 || v !== 3) return false;
+    if (x === 1 && h === 0) return true;
+    return x === 3 && !isAmideLike(mol, index);
+  }
+  return false;
+};
+
+// Lipinski-style donor atoms: N or O/S carrying a hydrogen
+const isQEDDonor = (mol: Molecule, index: number) => {
+  const atom = mol.atoms[index];
+  const h = totalHydrogens(mol, index);
+  if (h === 0) return false;
+  if (atom.element === "N") return atom.aromatic ? atom.charge === 0 : atom.charge === 0 || atom.charge === 1;
+  return (atom.element === "O" || atom.element === "S") && atom.charge === 0 && h === 1;
+};
+
+// QED counts rotatable bonds strictly: nothing to or from a secondary amide nitrogen
+const isAmideNH = (mol: Molecule, atom: number) =>
+  mol.atoms[atom].element === "N" && totalHydrogens(mol, atom) === 1 && isAmideLike(mol, atom);
+
+const strictRotatableBonds = (mol: Molecule, rotatableBonds: number) =>
+  rotatableBonds -
+  mol.bonds.filter((bond) => {
+    if (bond.order !== 1 || ringBondKeys(mol).has(bondKey(bond.begin, bond.end))) return false;
+    if (!isAmideNH(mol, bond.begin) && !isAmideNH(mol, bond.end)) return false;
+    return heavyDegree(mol, bond.begin) > 1 && heavyDegree(mol, bond.end) > 1;
+  }).length;
+
+export const qedProperties = (
+  mol: Molecule,
+  d: Pick<MolecularDescriptors, "molecularWeight" | "logp" | "tpsa" | "rotatableBonds" | "aromaticRings">
+): Record<QEDProperty, number> => ({
+  mw: d.molecularWeight,
+  alogp: d.logp,
+  hba: mol.atoms.filter((atom) => isQEDAcceptor(mol, atom.index)).length,
+  hbd: mol.atoms.filter((atom) => isQEDDonor(mol, atom.index)).length,
+  psa: d.tpsa,
+  rotb: strictRotatableBonds(mol, d.rotatableBonds),
+  arom: d.aromaticRings,
+  alerts: structuralAlerts(mol).length,
+});
+
+// Shown wherever a QED value is, since the alert count behind it comes from a reduced set
+export const QED_CAVEAT =
+  "Approximate: structural alerts are counted against a reduced set, so scores can run higher than RDKit's";
+
+/**
+ * Quantitative estimate of drug-likeness (Bickerton et al. 2012): the weighted
+ * geometric mean of eight desirability functions, between 0 and 1. The alerts
+ * property comes from STRUCTURAL_ALERTS rather than the full list QED was fitted
+ * against, so molecules matching alerts missing from it score higher than in
+ * RDKit (aspirin matches one alert here and more there: 0.71 against 0.55).
+ */
+export const quantitativeDrugLikeness = (properties: Record<QEDProperty, number>) => {
+  const entries = Object.entries(properties) as [QEDProperty, number][];
+  const weightSum = entries.reduce((sum, [property]) => sum + WEIGHTS[property], 0);
+  const logSum = entries.reduce(
+    (sum, [property, value]) => sum + WEIGHTS[property] * Math.log(Math.max(desirability(property, value), 1e-12)),
+    0
+  );
+  return Math.exp(logSum / weightSum);
+};
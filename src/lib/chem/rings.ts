@@ -0,0 +1,231 @@
+import { CHARGED_VALENCES, DEFAULT_VALENCES } from "./elements";
+import { Molecule, bondKey, otherAtom } from "./molecule";
+
+// Shortest path from `from` to `to` that does not use bond `skip`, as atom indices
+const shortestPath = (mol: Molecule, from: number, to: number, skip: number): number[] | null => {
+  const previous = new Map<number, number>([[from, -1]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const atom = queue.shift()!;
+    if (atom === to) break;
+    for (const b of mol.adjacency[atom]) {
+      if (b === skip) continue;
+      const next = otherAtom(mol.bonds[b], atom);
+      if (previous.has(next)) continue;
+      previous.set(next, atom);
+      queue.push(next);
+    }
+  }
+  if (!previous.has(to)) return null;
+  const path: number[] = [];
+  for (let atom = to; atom !== -1; atom = previous.get(atom)!) path.unshift(atom);
+  return path;
+};
+
+const connectedComponents = (mol: Molecule) => {
+  const seen = new Set<number>();
+  let count = 0;
+  for (let start = 0; start < mol.atoms.length; start++) {
+    if (seen.has(start)) continue;
+    count++;
+    const stack = [start];
+    seen.add(start);
+    while (stack.length > 0) {
+      const atom = stack.pop()!;
+      for (const b of mol.adjacency[atom]) {
+        const next = otherAtom(mol.bonds[b], atom);
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      }
+    }
+  }
+  return count;
+};
+
+/**
+ * Smallest set of smallest rings. Candidate rings are the shortest cycle through
+ * each bond; they are taken smallest first and kept when linearly independent
+ * (over GF(2)) of the rings already chosen, until the cycle rank is reached.
+ */
+export const findSSSR = (mol: Molecule): number[][] => {
+  const cycleRank = mol.bonds.length - mol.atoms.length + connectedComponents(mol);
+  if (cycleRank <= 0) return [];
+
+  const bondIndex = new Map(mol.bonds.map((b) => [bondKey(b.begin, b.end), b.index]));
+  const candidates = new Map<string, number[]>();
+  for (const bond of mol.bonds) {
+    const path = shortestPath(mol, bond.begin, bond.end, bond.index);
+    if (!path) continue;
+    const key = [...path].sort((a, b) => a - b).join(",");
+    if (!candidates.has(key)) candidates.set(key, path);
+  }
+
+  const sorted = [...candidates.values()].sort((a, b) => a.length - b.length);
+  const basis: Uint8Array[] = [];
+  const pivots: number[] = [];
+  const rings: number[][] = [];
+
+  for (const ring of sorted) {
+    const vector = new Uint8Array(mol.bonds.length);
+    ring.forEach((atom, i) => {
+      vector[bondIndex.get(bondKey(atom, ring[(i + 1) % ring.length]))!] = 1;
+    });
+    basis.forEach((row, r) => {
+      if (vector[pivots[r]]) for (let k = 0; k < vector.length; k++) vector[k] ^= row[k];
+    });
+    const pivot = vector.indexOf(1);
+    if (pivot === -1) continue;
+    basis.push(vector);
+    pivots.push(pivot);
+    rings.push(ring);
+    if (rings.length === cycleRank) break;
+  }
+  return rings;
+};
+
+const LONE_PAIR_DONORS: Record<string, number> = { N: 3, P: 3, O: 2, S: 2, Se: 2, Te: 2 };
+
+// Pi electrons an atom donates to a ring, or null when it cannot be part of an aromatic system
+const piElectrons = (mol: Molecule, index: number, ringAtoms: Set<number>): number | null => {
+  const atom = mol.atoms[index];
+  if (atom.aromatic) return 1;
+
+  let valence = atom.hCount;
+  let doubleTo: number | null = null;
+  for (const b of mol.adjacency[index]) {
+    const bond = mol.bonds[b];
+    if (bond.order === 3) return null;
+    if (bond.order === 2) {
+      if (doubleTo !== null) return null;
+      doubleTo = otherAtom(bond, index);
+    }
+    valence += bond.order;
+  }
+
+  if (doubleTo !== null) {
+    if (ringAtoms.has(doubleTo)) return 1;
+    // Exocyclic C=O, C=N and C=S leave the carbon as an empty p-orbital (2-pyridone)
+    return atom.element === "C" && ["O", "N", "S"].includes(mol.atoms[doubleTo].element) ? 0 : null;
+  }
+
+  if (atom.element === "C") return atom.charge === -1 ? 2 : atom.charge === 1 ? 0 : null;
+  if (atom.element === "B") return atom.charge === 0 && valence === 3 ? 0 : null;
+  if (atom.element in LONE_PAIR_DONORS) {
+    return atom.charge === 0 && valence === LONE_PAIR_DONORS[atom.element] ? 2 : null;
+  }
+  return null;
+};
+
+const isHuckel = (mol: Molecule, atoms: number[], ringAtoms: Set<number>) => {
+  let electrons = 0;
+  for (const atom of atoms) {
+    const pi = piElectrons(mol, atom, ringAtoms);
+    if (pi === null) return false;
+    electrons += pi;
+  }
+  return electrons % 4 === 2;
+};
+
+const ringBonds = (ring: number[]) => ring.map((atom, i) => bondKey(atom, ring[(i + 1) % ring.length]));
+
+/**
+ * Marks Kekulé rings that satisfy Hückel's rule as aromatic, first ring by ring
+ * and then across pairs of fused rings (azulene-type systems). Rings written
+ * in lowercase are left as they are. Aromatic bonds outside any ring, such as
+ * the biaryl bond in `c1ccccc1c1ccccc1`, become single bonds.
+ */
+export const perceiveAromaticity = (mol: Molecule) => {
+  const ringAtoms = new Set(mol.rings.flat());
+  const aromaticRings = new Set<number>();
+
+  mol.rings.forEach((ring, r) => {
+    if (ring.every((atom) => mol.atoms[atom].aromatic) || isHuckel(mol, ring, ringAtoms)) {
+      aromaticRings.add(r);
+    }
+  });
+
+  for (let r1 = 0; r1 < mol.rings.length; r1++) {
+    for (let r2 = r1 + 1; r2 < mol.rings.length; r2++) {
+      if (aromaticRings.has(r1) || aromaticRings.has(r2)) continue;
+      const shared = ringBonds(mol.rings[r1]).filter((key) => ringBonds(mol.rings[r2]).includes(key));
+      if (shared.length === 0) continue;
+      const union = [...new Set([...mol.rings[r1], ...mol.rings[r2]])];
+      if (isHuckel(mol, union, ringAtoms)) {
+        aromaticRings.add(r1);
+        aromaticRings.add(r2);
+      }
+    }
+  }
+
+  const aromaticBondKeys = new Set<string>();
+  for (const r of aromaticRings) {
+    for (const atom of mol.rings[r]) mol.atoms[atom].aromatic = true;
+    ringBonds(mol.rings[r]).forEach((key) => aromaticBondKeys.add(key));
+  }
+
+  for (const bond of mol.bonds) {
+    const aromatic = aromaticBondKeys.has(bondKey(bond.begin, bond.end));
+    if (aromatic) {
+      bond.aromatic = true;
+      bond.order = 1.5;
+    } else if (bond.aromatic) {
+      bond.aromatic = false;
+      bond.order = 1;
+    }
+  }
+};
+
+export const aromaticRingCount = (mol: Molecule) =>
+  mol.rings.filter((ring) => ring.every((atom) => mol.atoms[atom].aromatic) &&
+    ringBonds(ring).every((key) => {
+      const [a, b] = key.split("-").map(Number);
+      return mol.adjacency[a].some((i) => mol.bonds[i].aromatic && otherAtom(mol.bonds[i], a) === b);
+    })
+  ).length;
+
+// Aromatic atoms whose bonds and hydrogens leave room for one more bond
+const needsDoubleBond = (mol: Molecule, atom: number) => {
+  const { element, charge, aromatic, hCount } = mol.atoms[atom];
+  if (!aromatic) return false;
+  const bonds = mol.adjacency[atom].map((b) => mol.bonds[b]);
+  // An exocyclic double bond, as in 2-pyridone, already fills the slot
+  if (bonds.some((bond) => !bond.aromatic && bond.order === 2)) return false;
+  const used = hCount + bonds.reduce((sum, bond) => sum + (bond.aromatic ? 1 : bond.order), 0);
+  const valences = charge === 0 ? DEFAULT_VALENCES[element] : CHARGED_VALENCES[element]?.[charge];
+  const target = valences?.find((v) => v >= used);
+  return target !== undefined && target > used;
+};
+
+/**
+ * A Kekulé structure for the aromatic bonds: bond orders by bond index, with
+ * each aromatic atom that needs a double bond paired to a neighbour by
+ * backtracking. Null when no such pairing exists.
+ */
+export const kekulize = (mol: Molecule): number[] | null => {
+  const orders = mol.bonds.map((bond) => (bond.aromatic ? 1 : bond.order));
+  const needed = mol.atoms.map((atom) => needsDoubleBond(mol, atom.index));
+  const partner = new Array<number>(mol.atoms.length).fill(-1);
+  const pending = mol.atoms.filter((atom) => needed[atom.index]).map((atom) => atom.index);
+
+  const pair = (k: number): boolean => {
+    if (k === pending.length) return true;
+    const atom = pending[k];
+    if (partner[atom] !== -1) return pair(k + 1);
+    for (const b of mol.adjacency[atom]) {
+      const other = otherAtom(mol.bonds[b], atom);
+      if (!mol.bonds[b].aromatic || !needed[other] || partner[other] !== -1) continue;
+      partner[atom] = other;
+      partner[other] = atom;
+      orders[b] = 2;
+      if (pair(k + 1)) return true;
+      partner[atom] = -1;
+      partner[other] = -1;
+      orders[b] = 1;
+    }
+    return false;
+  };
+
+  return pair(0) ? orders : null;
+};
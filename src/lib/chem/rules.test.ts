@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { computeDescriptors } from "./descriptors";
+import { RULE_IDS, evaluateRule, evaluateRules } from "./rules";
+import { parseSmiles } from "./smiles";
+
+const descriptorsOf = (smiles: string) => computeDescriptors(parseSmiles(smiles));
+
+describe("evaluateRules", () => {
+  it("evaluates every rule", () => {
+    const rules = evaluateRules(descriptorsOf("CC(C)Cc1ccc(cc1)C(C)C(=O)O"));
+    expect(Object.keys(rules).sort()).toEqual([...RULE_IDS].sort());
+    expect(Object.values(rules).every((rule) => rule.passed)).toBe(true);
+  });
+
+  it("lets a Lipinski violation through but not two", () => {
+    const d = descriptorsOf("CCO");
+    expect(evaluateRule("lipinski", { ...d, molecularWeight: 600 })).toMatchObject({ violations: 1, passed: true });
+    expect(evaluateRule("lipinski", { ...d, molecularWeight: 600, logp: 6 })).toMatchObject({
+      violations: 2,
+      passed: false,
+    });
+  });
+
+  it("fails range rules below their minimum", () => {
+    // Ethanol is far too small for Ghose's qualifying range
+    const ghose = evaluateRule("ghose", descriptorsOf("CCO"));
+    expect(ghose.passed).toBe(false);
+    expect(ghose.checks.find((check) => check.property === "mw")).toMatchObject({ passed: false, min: 160 });
+  });
+
+  it("reports the margin to the nearest limit", () => {
+    const d = descriptorsOf("CCO");
+    const [mw] = evaluateRule("ghose", { ...d, molecularWeight: 200 }).checks;
+    expect(mw.margin).toBeCloseTo(40);
+    const [tooHeavy] = evaluateRule("ghose", { ...d, molecularWeight: 500 }).checks;
+    expect(tooHeavy.margin).toBeCloseTo(-20);
+  });
+});
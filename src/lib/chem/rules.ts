@@ -0,0 +1,127 @@
+import { MolecularDescriptors } from "./descriptors";
+
+export type RuleId = "lipinski" | "veber" | "ghose" | "egan" | "muegge";
+
+export interface ThresholdCheck {
+  property: string;
+  label: string;
+  value: number;
+  min: number | null;
+  max: number | null;
+  passed: boolean;
+  // Distance to the nearest limit: headroom when positive, overshoot when negative
+  margin: number;
+}
+
+export interface RuleResult {
+  id: RuleId;
+  name: string;
+  checks: ThresholdCheck[];
+  violations: number;
+  // Violations a molecule may have and still pass the rule
+  allowedViolations: number;
+  passed: boolean;
+}
+
+export type DrugLikenessRules = Record<RuleId, RuleResult>;
+
+interface ThresholdSpec {
+  property: string;
+  label: string;
+  value: (d: MolecularDescriptors) => number;
+  min?: number;
+  max?: number;
+}
+
+interface RuleSpec {
+  name: string;
+  allowedViolations: number;
+  thresholds: ThresholdSpec[];
+}
+
+const RULES: Record<RuleId, RuleSpec> = {
+  // Lipinski et al. (1997): poor absorption is likely with more than one violation
+  lipinski: {
+    name: "Lipinski Rule of Five",
+    allowedViolations: 1,
+    thresholds: [
+      { property: "mw", label: "MW ≤ 500", value: (d) => d.molecularWeight, max: 500 },
+      { property: "logp", label: "LogP ≤ 5", value: (d) => d.logp, max: 5 },
+      { property: "hbd", label: "HBD ≤ 5", value: (d) => d.hbd, max: 5 },
+      { property: "hba", label: "HBA ≤ 10", value: (d) => d.hba, max: 10 },
+    ],
+  },
+  // Veber et al. (2002): oral bioavailability in rat
+  veber: {
+    name: "Veber",
+    allowedViolations: 0,
+    thresholds: [
+      { property: "rotatableBonds", label: "Rotatable bonds ≤ 10", value: (d) => d.rotatableBonds, max: 10 },
+      { property: "tpsa", label: "TPSA ≤ 140", value: (d) => d.tpsa, max: 140 },
+    ],
+  },
+  // Ghose et al. (1999): qualifying range covering 80% of drugs in CMC
+  ghose: {
+    name: "Ghose",
+    allowedViolations: 0,
+    thresholds: [
+      { property: "mw", label: "MW 160–480", value: (d) => d.molecularWeight, min: 160, max: 480 },
+      { property: "logp", label: "LogP -0.4–5.6", value: (d) => d.logp, min: -0.4, max: 5.6 },
+      { property: "molarRefractivity", label: "MR 40–130", value: (d) => d.molarRefractivity, min: 40, max: 130 },
+      { property: "totalAtomCount", label: "Atoms 20–70", value: (d) => d.totalAtomCount, min: 20, max: 70 },
+    ],
+  },
+  // Egan et al. (2000): passive intestinal absorption ellipse, as its bounding box
+  egan: {
+    name: "Egan",
+    allowedViolations: 0,
+    thresholds: [
+      { property: "logp", label: "LogP ≤ 5.88", value: (d) => d.logp, max: 5.88 },
+      { property: "tpsa", label: "TPSA ≤ 131.6", value: (d) => d.tpsa, max: 131.6 },
+    ],
+  },
+  // Muegge et al. (2001): pharmacophore-point filter for drug-like chemistry
+  muegge: {
+    name: "Muegge",
+    allowedViolations: 0,
+    thresholds: [
+      { property: "mw", label: "MW 200–600", value: (d) => d.molecularWeight, min: 200, max: 600 },
+      { property: "logp", label: "LogP -2–5", value: (d) => d.logp, min: -2, max: 5 },
+      { property: "tpsa", label: "TPSA ≤ 150", value: (d) => d.tpsa, max: 150 },
+      { property: "rings", label: "Rings ≤ 7", value: (d) => d.rings, max: 7 },
+      { property: "carbons", label: "Carbons > 4", value: (d) => d.carbons, min: 5 },
+      { property: "heteroatoms", label: "Heteroatoms > 1", value: (d) => d.heteroatoms, min: 2 },
+      { property: "rotatableBonds", label: "Rotatable bonds ≤ 15", value: (d) => d.rotatableBonds, max: 15 },
+      { property: "hbd", label: "HBD ≤ 5", value: (d) => d.hbd, max: 5 },
+      { property: "hba", label: "HBA ≤ 10", value: (d) => d.hba, max: 10 },
+    ],
+  },
+};
+
+export const RULE_IDS = Object.keys(RULES) as RuleId[];
+
+const checkThreshold = (spec: ThresholdSpec, d: MolecularDescriptors): ThresholdCheck => {
+  const value = spec.value(d);
+  const min = spec.min ?? null;
+  const max = spec.max ?? null;
+  const margins = [min !== null ? value - min : Infinity, max !== null ? max - value : Infinity];
+  const margin = Math.min(...margins);
+  return { property: spec.property, label: spec.label, value, min, max, passed: margin >= 0, margin };
+};
+
+export const evaluateRule = (id: RuleId, d: MolecularDescriptors): RuleResult => {
+  const spec = RULES[id];
+  const checks = spec.thresholds.map((threshold) => checkThreshold(threshold, d));
+  const violations = checks.filter((check) => !check.passed).length;
+  return {
+    id,
+    name: spec.name,
+    checks,
+    violations,
+    allowedViolations: spec.allowedViolations,
+    passed: violations <= spec.allowedViolations,
+  };
+};
+
+export const evaluateRules = (d: MolecularDescriptors): DrugLikenessRules =>
+  Object.fromEntries(RULE_IDS.map((id) => [id, evaluateRule(id, d)])) as DrugLikenessRules;
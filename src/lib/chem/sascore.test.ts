@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { syntheticAccessibility } from "./sascore";
+import { parseSmiles } from "./smiles";
+
+const saOf = (smiles: string) => syntheticAccessibility(parseSmiles(smiles));
+
+describe("syntheticAccessibility", () => {
+  // RDKit's sascorer; the compact fragment table here only tracks it approximately
+  it.each([
+    ["CC(=O)Oc1ccccc1C(=O)O", 1.58],
+    ["Cn1cnc2c1c(=O)n(C)c(=O)n2C", 2.3],
+    ["CC(C)Cc1ccc(cc1)C(C)C(=O)O", 2.19],
+  ])("stays close to RDKit for %s", (smiles, reference) => {
+    expect(Math.abs(saOf(smiles) - reference)).toBeLessThan(0.25);
+  });
+
+  it("scores benzene as easy as it gets", () => {
+    expect(saOf("c1ccccc1")).toBe(1);
+  });
+
+  it("scores fused, stereo-rich ring systems as harder", () => {
+    const methylprednisolone = saOf(
+      "C[C@H]1C[C@@H]2[C@H]3CC[C@](O)(C(=O)CO)[C@@]3(C)C[C@H](O)[C@@H]2[C@@]2(C)C=CC(=O)C=C12"
+    );
+    expect(methylprednisolone).toBeGreaterThan(saOf("CC(C)Cc1ccc(cc1)C(C)C(=O)O") + 1);
+    expect(methylprednisolone).toBeLessThanOrEqual(10);
+  });
+});
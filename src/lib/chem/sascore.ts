@@ -0,0 +1,164 @@
+import { Molecule, heavyAtoms, heavyDegree, isHeavy, neighbors, totalHydrogens } from "./molecule";
+
+const maxBondOrder = (mol: Molecule, atom: number) =>
+  mol.adjacency[atom].reduce((max, b) => Math.max(max, mol.bonds[b].order), 0);
+
+const heteroNeighbors = (mol: Molecule, atom: number) =>
+  neighbors(mol, atom).filter((n) => !["C", "H"].includes(mol.atoms[n].element)).length;
+
+/**
+ * Contribution of an atom's environment to synthetic ease. The original score
+ * uses ECFP4 fragment frequencies fitted on PubChem; this compact table keys
+ * on the atom's element, hybridisation, degree and hydrogens instead, scoring
+ * the environments that dominate drug-like chemistry highest.
+ */
+const fragmentContribution = (mol: Molecule, index: number): number => {
+  const atom = mol.atoms[index];
+  const degree = heavyDegree(mol, index);
+  const h = totalHydrogens(mol, index);
+  const order = maxBondOrder(mol, index);
+  const inRing = mol.rings.some((ring) => ring.includes(index));
+  // Carbons carrying three or more heteroatoms are rare outside CF3 groups
+  const crowded = atom.element === "C" && heteroNeighbors(mol, index) >= 3 ? -0.75 : 0;
+  const charged = atom.charge !== 0 ? -0.75 : 0;
+
+  const base = (() => {
+    switch (atom.element) {
+      case "C":
+        if (atom.aromatic) return h > 0 ? 2.2 : degree === 3 && mol.rings.filter((r) => r.includes(index)).length > 1 ? 1.3 : 1.8;
+        if (order === 3) return 0.4;
+        if (order === 2) return h === 0 ? 1.7 : 1.1;
+        if (degree === 4) return inRing ? -0.2 : 0.3;
+        if (degree === 3) return inRing ? 1.0 : 1.2;
+        if (h === 3) return 2.1;
+        return inRing ? 1.6 : 1.9;
+      case "N":
+        if (atom.aromatic) return h > 0 ? 1.4 : degree === 3 ? 1.0 : 1.6;
+        if (order === 3) return 1.2;
+        if (order === 2) return 0.5;
+        if (degree === 3) return inRing ? 1.4 : 1.3;
+        return h === 2 ? 1.6 : 1.7;
+      case "O":
+        if (atom.aromatic) return 0.9;
+        if (order === 2) return 2.0;
+        return h > 0 ? 1.8 : inRing ? 1.3 : 1.6;
+      case "S":
+        if (atom.aromatic) return 1.0;
+        return degree === 4 ? 1.2 : degree === 2 ? 0.6 : 0.0;
+      case "F":
+      case "Cl":
+        return 1.2;
+      case "Br":
+        return 0.8;
+      case "I":
+        return 0.0;
+      case "P":
+        return -0.5;
+      case "B":
+      case "Si":
+        return -1.0;
+      default:
+        return -2.0;
+    }
+  })();
+  return base + crowded + charged;
+};
+
+/**
+ * Symmetry classes from iterated neighbour refinement (Morgan 1965), kept per
+ * iteration so radius-0, 1 and 2 environments can be counted like ECFP4 bits.
+ */
+const environmentClasses = (mol: Molecule, radius: number) => {
+  const heavy = heavyAtoms(mol).map((atom) => atom.index);
+  let labels = new Map<number, string>(
+    heavy.map((i) => {
+      const atom = mol.atoms[i];
+      return [i, `${atom.element}${atom.aromatic ? "a" : ""}${heavyDegree(mol, i)}h${totalHydrogens(mol, i)}c${atom.charge}`];
+    })
+  );
+  const layers = [labels];
+  for (let r = 0; r < radius; r++) {
+    const current = labels;
+    labels = new Map(
+      heavy.map((i) => {
+        const around = mol.adjacency[i]
+          .map((b) => {
+            const bond = mol.bonds[b];
+            const n = bond.begin === i ? bond.end : bond.begin;
+            return isHeavy(mol.atoms[n]) ? `${bond.order}${current.get(n)}` : null;
+          })
+          .filter((label): label is string => label !== null)
+          .sort();
+        return [i, `${current.get(i)}(${around.join(",")})`];
+      })
+    );
+    layers.push(labels);
+  }
+  return layers;
+};
+
+// sp3 atoms whose four substituents (hydrogen included) are all different
+const stereocenterCount = (mol: Molecule, classes: Map<number, string>) =>
+  heavyAtoms(mol).filter((atom) => {
+    if (atom.chirality) return true;
+    if (atom.element !== "C" || atom.aromatic || maxBondOrder(mol, atom.index) !== 1) return false;
+    const h = totalHydrogens(mol, atom.index);
+    const branches = neighbors(mol, atom.index)
+      .filter((n) => isHeavy(mol.atoms[n]))
+      .map((n) => classes.get(n));
+    return h <= 1 && branches.length + h === 4 && new Set(branches).size === branches.length;
+  }).length;
+
+const sharedAtoms = (a: number[], b: number[]) => a.filter((atom) => b.includes(atom));
+
+const spiroAndBridgeheads = (mol: Molecule) => {
+  const spiro = new Set<number>();
+  const bridgeheads = new Set<number>();
+  for (let i = 0; i < mol.rings.length; i++) {
+    for (let j = i + 1; j < mol.rings.length; j++) {
+      const shared = sharedAtoms(mol.rings[i], mol.rings[j]);
+      if (shared.length === 1) spiro.add(shared[0]);
+      if (shared.length > 2) {
+        // Bridged rings share a path; its two ends are the bridgeheads
+        for (const atom of shared) {
+          const inPath = neighbors(mol, atom).filter((n) => shared.includes(n)).length;
+          if (inPath === 1) bridgeheads.add(atom);
+        }
+      }
+    }
+  }
+  return { spiro: spiro.size, bridgeheads: bridgeheads.size };
+};
+
+/**
+ * Synthetic accessibility after Ertl & Schuffenhauer (2009): fragment score
+ * minus size, stereo, spiro, bridgehead and macrocycle penalties, rescaled to
+ * 1 (easy) .. 10 (hard).
+ */
+export const syntheticAccessibility = (mol: Molecule) => {
+  const heavy = heavyAtoms(mol);
+  if (heavy.length === 0) return 10;
+
+  const fragmentScore = heavy.reduce((sum, atom) => sum + fragmentContribution(mol, atom.index), 0) / heavy.length;
+
+  const layers = environmentClasses(mol, 2);
+  const atomCount = heavy.length;
+  const { spiro, bridgeheads } = spiroAndBridgeheads(mol);
+  const sizePenalty = atomCount ** 1.005 - atomCount;
+  const stereoPenalty = Math.log10(stereocenterCount(mol, layers[2]) + 1);
+  const spiroPenalty = Math.log10(spiro + 1);
+  const bridgePenalty = Math.log10(bridgeheads + 1);
+  const macrocyclePenalty = mol.rings.some((ring) => ring.length > 8) ? Math.log10(2) : 0;
+  const complexityScore = -sizePenalty - stereoPenalty - spiroPenalty - bridgePenalty - macrocyclePenalty;
+
+  // Symmetric molecules have fewer distinct environments than atoms and are easier to make
+  const distinct = new Set(layers.flatMap((layer) => [...layer.values()])).size;
+  const symmetryScore = atomCount > distinct ? Math.log(atomCount / distinct) * 0.5 : 0;
+
+  const raw = fragmentScore + complexityScore + symmetryScore;
+  const min = -4.0;
+  const max = 2.5;
+  let score = 11 - ((raw - min + 1) / (max - min)) * 9;
+  if (score > 8) score = 8 + Math.log(score + 1 - 9);
+  return Math.min(10, Math.max(1, score));
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FINGERPRINT_OPTIONS, Fingerprint, fingerprintSmiles } from "./fingerprints";
+import { rankBySimilarity, similarity, tanimoto } from "./similarity";
+
+const fromCounts = (counts: number[], type: Fingerprint["type"] = "morgan"): Fingerprint => ({
+  type,
+  options: DEFAULT_FINGERPRINT_OPTIONS,
+  length: counts.length,
+  counts: Uint32Array.from(counts),
+});
+
+// Bits 0..3 against bits 2..5: two shared, four in each
+const a = fromCounts([1, 1, 1, 1, 0, 0]);
+const b = fromCounts([0, 0, 1, 1, 1, 1]);
+
+describe("similarity", () => {
+  it("computes each metric on bit vectors", () => {
+    expect(similarity(a, b, "tanimoto")).toBeCloseTo(2 / 6);
+    expect(similarity(a, b, "dice")).toBeCloseTo(4 / 8);
+    expect(similarity(a, b, "cosine")).toBeCloseTo(2 / 4);
+    expect(similarity(a, b, "tversky", { alpha: 1, beta: 1 })).toBeCloseTo(similarity(a, b, "tanimoto"));
+    expect(similarity(a, b, "tversky", { alpha: 0.5, beta: 0.5 })).toBeCloseTo(similarity(a, b, "dice"));
+  });
+
+  it("compares counts only when asked", () => {
+    const many = fromCounts([3, 1, 0, 0, 0, 0]);
+    const one = fromCounts([1, 1, 0, 0, 0, 0]);
+    expect(similarity(many, one)).toBe(1);
+    expect(similarity(many, one, "tanimoto", { useCounts: true })).toBeCloseTo(2 / 4);
+  });
+
+  it("scores identical molecules 1 and empty fingerprints 0", () => {
+    const aspirin = fingerprintSmiles("CC(=O)Oc1ccccc1C(=O)O", "morgan") as Fingerprint;
+    expect(tanimoto(aspirin, fingerprintSmiles("OC(=O)c1ccccc1OC(C)=O", "morgan") as Fingerprint)).toBe(1);
+    expect(tanimoto(fromCounts([0, 0, 0, 0, 0, 0]), a)).toBe(0);
+  });
+
+  it("refuses to compare fingerprints of different types or lengths", () => {
+    expect(() => similarity(a, fromCounts([1, 1, 1, 1, 0, 0], "rdkit"))).toThrow(/Cannot compare/);
+    expect(() => similarity(a, fromCounts([1, 1, 1, 1]))).toThrow(/Cannot compare/);
+  });
+});
+
+describe("rankBySimilarity", () => {
+  it("keeps candidates at or above the threshold, best first", () => {
+    const candidates = [
+      { item: "b", fingerprint: b },
+      { item: "a", fingerprint: a },
+      { item: "none", fingerprint: fromCounts([0, 0, 0, 0, 1, 1]) },
+    ];
+    expect(rankBySimilarity(a, candidates, "tanimoto", 0.3)).toEqual([
+      { item: "a", score: 1 },
+      { item: "b", score: 2 / 6 },
+    ]);
+  });
+});
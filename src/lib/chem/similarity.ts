@@ -0,0 +1,85 @@
+import { Fingerprint } from "./fingerprints";
+
+export type SimilarityMetric = "tanimoto" | "dice" | "cosine" | "tversky";
+
+export interface SimilarityOptions {
+  // Tversky weights for features only in the query (alpha) and only in the target (beta)
+  alpha: number;
+  beta: number;
+  // Compare count vectors instead of bit vectors
+  useCounts: boolean;
+}
+
+export interface SimilarityHit<T> {
+  item: T;
+  score: number;
+}
+
+export const SIMILARITY_METRIC_LABELS: Record<SimilarityMetric, string> = {
+  tanimoto: "Tanimoto",
+  dice: "Dice",
+  cosine: "Cosine",
+  tversky: "Tversky",
+};
+
+export const DEFAULT_SIMILARITY_OPTIONS: SimilarityOptions = { alpha: 0.7, beta: 0.3, useCounts: false };
+
+// Shared features, the two feature totals and the dot product (equal to shared for bits)
+const overlap = (a: Fingerprint, b: Fingerprint, useCounts: boolean) => {
+  if (a.type !== b.type || a.length !== b.length) {
+    throw new Error(`Cannot compare a ${a.length}-bit ${a.type} fingerprint with a ${b.length}-bit ${b.type} one`);
+  }
+  let shared = 0;
+  let totalA = 0;
+  let totalB = 0;
+  let dot = 0;
+  let squaresA = 0;
+  let squaresB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = useCounts ? a.counts[i] : a.counts[i] > 0 ? 1 : 0;
+    const y = useCounts ? b.counts[i] : b.counts[i] > 0 ? 1 : 0;
+    shared += Math.min(x, y);
+    totalA += x;
+    totalB += y;
+    dot += x * y;
+    squaresA += x * x;
+    squaresB += y * y;
+  }
+  return { shared, totalA, totalB, dot, squaresA, squaresB };
+};
+
+export const similarity = (
+  a: Fingerprint,
+  b: Fingerprint,
+  metric: SimilarityMetric = "tanimoto",
+  overrides: Partial<SimilarityOptions> = {}
+) => {
+  const { alpha, beta, useCounts } = { ...DEFAULT_SIMILARITY_OPTIONS, ...overrides };
+  const { shared, totalA, totalB, dot, squaresA, squaresB } = overlap(a, b, useCounts);
+  if (totalA === 0 || totalB === 0) return 0;
+  switch (metric) {
+    case "tanimoto":
+      return shared / (totalA + totalB - shared);
+    case "dice":
+      return (2 * shared) / (totalA + totalB);
+    case "cosine":
+      return dot / Math.sqrt(squaresA * squaresB);
+    case "tversky":
+      return shared / (alpha * (totalA - shared) + beta * (totalB - shared) + shared);
+  }
+};
+
+export const tanimoto = (a: Fingerprint, b: Fingerprint) => similarity(a, b, "tanimoto");
+
+// Candidates scoring at or above the threshold, best first
+export const rankBySimilarity = <T>(
+  query: Fingerprint,
+  candidates: { item: T; fingerprint: Fingerprint }[],
+  metric: SimilarityMetric,
+  threshold: number,
+  options: Partial<SimilarityOptions> = {}
+): SimilarityHit<T>[] =>
+  candidates
+    .map(({ item, fingerprint }) => ({ item, score: similarity(query, fingerprint, metric, options) }))
+    .filter((hit) => hit.score >= threshold)
+    .sort((a, b) => b.score - a.score);
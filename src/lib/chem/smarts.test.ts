@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  SmartsParseError,
+  hasSubstructure,
+  matchedAtoms,
+  parseSmarts,
+  substructureMatches,
+  tryParseSmarts,
+} from "./smarts";
+import { parseSmiles } from "./smiles";
+
+const matches = (smiles: string, smarts: string, options = {}) =>
+  substructureMatches(parseSmiles(smiles), parseSmarts(smarts), options);
+
+const ASPIRIN = "CC(=O)Oc1ccccc1C(=O)O";
+
+describe("substructureMatches", () => {
+  it("lists target atoms by query atom", () => {
+    expect(matches("Cc1ccccc1", "c1ccccc1")).toEqual([[1, 6, 5, 4, 3, 2]]);
+    expect(matches(ASPIRIN, "C(=O)[OH]")).toEqual([[10, 11, 12]]);
+  });
+
+  it("finds every distinct match", () => {
+    // The ester and the acid both have a carbonyl carbon on a divalent oxygen
+    expect(matches(ASPIRIN, "[CX3](=O)[OX2]")).toEqual([
+      [1, 2, 3],
+      [10, 11, 12],
+    ]);
+  });
+
+  it("reports each set of atoms once unless asked for every mapping", () => {
+    expect(matches("CCO", "*~*")).toHaveLength(2);
+    expect(matches("CCO", "*~*", { uniquify: false })).toHaveLength(4);
+    expect(matches("CCCC", "CC", { maxMatches: 2 })).toHaveLength(2);
+  });
+
+  it("matches atom primitives", () => {
+    expect(matches("CCO", "[OX2H]")).toEqual([[2]]);
+    expect(matches("CCO", "[!#6]")).toEqual([[2]]);
+    expect(matches("Nc1ccccc1", "[NX3;H2]")).toEqual([[0]]);
+    expect(matches("Cc1ccccc1", "[c;H0]")).toEqual([[1]]);
+    expect(matchedAtoms(matches("Cc1ccccc1", "[R]"))).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(matchedAtoms(matches("Cc1ccccc1", "A"))).toEqual([0]);
+  });
+
+  it("matches recursive SMARTS at the first atom only", () => {
+    expect(matches("CCO", "[$(CO)]")).toEqual([[1]]);
+  });
+
+  it("tells whether a molecule has a substructure", () => {
+    expect(hasSubstructure(parseSmiles(ASPIRIN), parseSmarts("c1ccccc1"))).toBe(true);
+    expect(hasSubstructure(parseSmiles("CCO"), parseSmarts("c1ccccc1"))).toBe(false);
+  });
+});
+
+describe("parseSmarts errors", () => {
+  it("reports where and why a SMARTS fails", () => {
+    expect(tryParseSmarts("C(").error).toMatchObject({ position: 1, reason: "Unclosed branch" });
+    expect(tryParseSmarts("[C").error).toMatchObject({ position: 0, reason: "Unclosed bracket atom" });
+    expect(tryParseSmarts("C=)").error?.reason).toBe("Unmatched closing parenthesis");
+    expect(() => parseSmarts("C1CC")).toThrow(SmartsParseError);
+  });
+});
@@ -0,0 +1,659 @@
+import { AROMATIC_SYMBOLS, DEFAULT_VALENCES, atomicNumber, isElement } from "./elements";
+import { Molecule, bondBetween, bondKey, neighbors, ringBondKeys, totalHydrogens } from "./molecule";
+
+export class SmartsParseError extends Error {
+  constructor(public position: number, public reason: string) {
+    super(`${reason} at character ${position + 1}`);
+    this.name = "SmartsParseError";
+  }
+}
+
+export type AtomPrimitive =
+  | { kind: "any" }
+  | { kind: "aromatic"; value: boolean }
+  // Atomic number; aromatic is null for #n, which matches either form
+  | { kind: "element"; value: number; aromatic: boolean | null }
+  // A null value means "at least one", as in a bare R, r, x or h
+  | {
+      kind:
+        | "degree"
+        | "connectivity"
+        | "hydrogens"
+        | "implicitHydrogens"
+        | "ringCount"
+        | "ringSize"
+        | "ringConnectivity"
+        | "valence"
+        | "charge"
+        | "isotope";
+      value: number | null;
+    }
+  // Parsed but not checked: the molecule model keeps chirality tags, not parity
+  | { kind: "chirality" }
+  | { kind: "recursive"; pattern: SmartsPattern };
+
+export type BondPrimitive = "single" | "double" | "triple" | "quadruple" | "aromatic" | "any" | "ring";
+
+export type Expression<T> =
+  | { op: "primitive"; primitive: T }
+  | { op: "not"; operand: Expression<T> }
+  | { op: "and" | "or"; operands: Expression<T>[] };
+
+export interface PatternBond {
+  begin: number;
+  end: number;
+  // null for an unwritten bond, which matches single or aromatic
+  expression: Expression<BondPrimitive> | null;
+}
+
+export interface SmartsPattern {
+  smarts: string;
+  atoms: Expression<AtomPrimitive>[];
+  bonds: PatternBond[];
+  adjacency: number[][];
+}
+
+interface OpenRing {
+  atom: number;
+  expression: Expression<BondPrimitive> | null;
+  position: number;
+}
+
+const BOND_CHARACTERS = new Set(["-", "=", "#", "$", ":", "~", "@", "/", "\\", "!", "&", ",", ";"]);
+
+const BOND_PRIMITIVES: Record<string, BondPrimitive> = {
+  "-": "single",
+  "=": "double",
+  "#": "triple",
+  $: "quadruple",
+  ":": "aromatic",
+  "~": "any",
+  "@": "ring",
+  // Directional bonds are single bonds; cis/trans is not checked
+  "/": "single",
+  "\\": "single",
+};
+
+// Organic-subset symbols allowed outside brackets, longest first
+const BARE_SYMBOLS = ["Cl", "Br", "B", "C", "N", "O", "P", "S", "F", "I", "b", "c", "n", "o", "p", "s", "*", "a", "A"];
+
+const isDigit = (c: string) => c >= "0" && c <= "9";
+
+const primitive = <T>(value: T): Expression<T> => ({ op: "primitive", primitive: value });
+
+const combine = <T>(op: "and" | "or", operands: Expression<T>[]): Expression<T> =>
+  operands.length === 1 ? operands[0] : { op, operands };
+
+const elementPrimitive = (symbol: string): Expression<AtomPrimitive> => {
+  if (symbol === "*") return primitive({ kind: "any" });
+  if (symbol === "a") return primitive({ kind: "aromatic", value: true });
+  if (symbol === "A") return primitive({ kind: "aromatic", value: false });
+  const aromatic = symbol[0] === symbol[0].toLowerCase();
+  const element = symbol[0].toUpperCase() + symbol.slice(1);
+  return primitive({ kind: "element", value: atomicNumber(element), aromatic });
+};
+
+/**
+ * Daylight SMARTS, without reaction syntax or component-level grouping.
+ * Bracket expressions use the usual precedence: ! binds tightest, then the
+ * implicit or explicit high-precedence &, then ",", then ";".
+ */
+class SmartsParser {
+  private i: number;
+  private atoms: Expression<AtomPrimitive>[] = [];
+  private bonds: PatternBond[] = [];
+  private previous: number | null = null;
+  private branches: { atom: number; position: number }[] = [];
+  private pending: { expression: Expression<BondPrimitive>; position: number } | null = null;
+  private openRings = new Map<number, OpenRing>();
+
+  // Recursive SMARTS parse a slice of the same string so error positions stay absolute
+  constructor(
+    private readonly smarts: string,
+    private readonly start = 0,
+    private readonly end = smarts.length
+  ) {
+    this.i = start;
+  }
+
+  parse(): SmartsPattern {
+    const s = this.smarts;
+    while (this.i < this.end) {
+      const c = s[this.i];
+      if (c === "(") this.openBranch();
+      else if (c === ")") this.closeBranch();
+      else if (BOND_CHARACTERS.has(c)) this.readBond();
+      else if (c === ".") this.readDot();
+      else if (isDigit(c) || c === "%") this.readRingClosure();
+      else if (c === "[") this.readBracketAtom();
+      else this.readBareAtom();
+    }
+
+    if (this.pending) this.fail(this.pending.position, "Bond has no atom after it");
+    if (this.branches.length > 0) this.fail(this.branches[this.branches.length - 1].position, "Unclosed branch");
+    for (const [label, ring] of this.openRings) this.fail(ring.position, `Ring bond ${label} is never closed`);
+    if (this.atoms.length === 0) this.fail(this.start, "SMARTS contains no atoms");
+
+    const adjacency: number[][] = this.atoms.map(() => []);
+    this.bonds.forEach((bond, index) => {
+      adjacency[bond.begin].push(index);
+      adjacency[bond.end].push(index);
+    });
+    return { smarts: s.slice(this.start, this.end), atoms: this.atoms, bonds: this.bonds, adjacency };
+  }
+
+  private fail(position: number, reason: string): never {
+    throw new SmartsParseError(position, reason);
+  }
+
+  private openBranch() {
+    if (this.previous === null) {
+      this.fail(this.i, this.atoms.length ? "Branch opened before any atom" : "Component-level grouping is not supported");
+    }
+    if (this.pending) this.fail(this.i, "Branch cannot follow a bond expression");
+    this.branches.push({ atom: this.previous, position: this.i });
+    this.i++;
+  }
+
+  private closeBranch() {
+    if (this.branches.length === 0) this.fail(this.i, "Unmatched closing parenthesis");
+    if (this.pending) this.fail(this.pending.position, "Bond has no atom after it");
+    this.previous = this.branches.pop()!.atom;
+    this.i++;
+  }
+
+  private readBond() {
+    const position = this.i;
+    if (this.previous === null) this.fail(position, "Bond has no atom before it");
+    if (this.pending) this.fail(position, "Two bond expressions in a row");
+    while (this.i < this.end && BOND_CHARACTERS.has(this.smarts[this.i])) this.i++;
+    this.pending = { expression: this.parseExpression(position, this.i, this.bondPrimitive), position };
+  }
+
+  private readDot() {
+    if (this.previous === null) this.fail(this.i, "Disconnection has no atom before it");
+    if (this.pending) this.fail(this.i, "Bond has no atom after it");
+    this.previous = null;
+    this.i++;
+  }
+
+  private readRingClosure() {
+    const s = this.smarts;
+    const position = this.i;
+    if (this.previous === null) this.fail(position, "Ring bond has no atom before it");
+    let label: number;
+    if (s[this.i] === "%") {
+      const digits = s.slice(this.i + 1, this.i + 3);
+      if (!/^\d\d$/.test(digits)) this.fail(position, "% must be followed by two digits");
+      label = Number(digits);
+      this.i += 3;
+    } else {
+      label = Number(s[this.i]);
+      this.i++;
+    }
+
+    const expression = this.pending?.expression ?? null;
+    this.pending = null;
+    const open = this.openRings.get(label);
+    if (!open) {
+      this.openRings.set(label, { atom: this.previous, expression, position });
+      return;
+    }
+    this.openRings.delete(label);
+    if (open.atom === this.previous) this.fail(position, `Ring bond ${label} closes on the atom that opened it`);
+    this.bonds.push({ begin: open.atom, end: this.previous, expression: expression ?? open.expression });
+  }
+
+  private readBareAtom() {
+    const symbol = BARE_SYMBOLS.find((candidate) => this.smarts.startsWith(candidate, this.i));
+    if (!symbol) {
+      const c = this.smarts[this.i];
+      if (/[A-Za-z]/.test(c)) this.fail(this.i, `'${c}' is not an organic-subset atom; write it in brackets`);
+      this.fail(this.i, `Unexpected character '${c}'`);
+    }
+    this.i += symbol.length;
+    this.addAtom(elementPrimitive(symbol));
+  }
+
+  private readBracketAtom() {
+    const position = this.i;
+    const close = this.matchingBracket(position);
+    if (close === -1) this.fail(position, "Unclosed bracket atom");
+    if (close === position + 1) this.fail(position, "Empty bracket atom");
+    const expression = this.parseExpression(position + 1, close, this.atomPrimitive);
+    this.i = close + 1;
+    this.addAtom(expression);
+  }
+
+  // The closing ] of a bracket atom, skipping any nested by recursive SMARTS
+  private matchingBracket(open: number) {
+    let depth = 0;
+    for (let j = open; j < this.end; j++) {
+      const c = this.smarts[j];
+      if (c === "[" || c === "(") depth++;
+      else if (c === ")") depth--;
+      else if (c === "]" && --depth === 0) return j;
+    }
+    return -1;
+  }
+
+  private addAtom(expression: Expression<AtomPrimitive>) {
+    const index = this.atoms.length;
+    this.atoms.push(expression);
+    if (this.previous !== null) {
+      this.bonds.push({ begin: this.previous, end: index, expression: this.pending?.expression ?? null });
+      this.pending = null;
+    }
+    this.previous = index;
+  }
+
+  // Logical expression over [from, to), reading primitives with the given reader
+  private parseExpression<T>(
+    from: number,
+    to: number,
+    read: (at: number, to: number, first: boolean) => { value: T; next: number }
+  ): Expression<T> {
+    let at = from;
+    const peek = () => (at < to ? this.smarts[at] : "");
+
+    const unary = (): Expression<T> => {
+      if (peek() === "!") {
+        at++;
+        return { op: "not", operand: unary() };
+      }
+      if (at >= to) this.fail(at, "Expression ends with an operator");
+      // Only an isotope may come before a primitive that is read as the atom itself
+      const first = /^\d*$/.test(this.smarts.slice(from, at));
+      const { value, next } = read.call(this, at, to, first);
+      at = next;
+      return primitive(value);
+    };
+    const highAnd = (): Expression<T> => {
+      const operands = [unary()];
+      while (at < to && peek() !== "," && peek() !== ";") {
+        if (peek() === "&") at++;
+        operands.push(unary());
+      }
+      return combine("and", operands);
+    };
+    const or = (): Expression<T> => {
+      const operands = [highAnd()];
+      while (peek() === ",") {
+        at++;
+        operands.push(highAnd());
+      }
+      return combine("or", operands);
+    };
+    const operands = [or()];
+    while (peek() === ";") {
+      at++;
+      operands.push(or());
+    }
+    return combine("and", operands);
+  }
+
+  private bondPrimitive(at: number): { value: BondPrimitive; next: number } {
+    const value = BOND_PRIMITIVES[this.smarts[at]];
+    if (!value) this.fail(at, `'${this.smarts[at]}' is not a bond primitive`);
+    return { value, next: at + 1 };
+  }
+
+  private atomPrimitive(at: number, to: number, first: boolean): { value: AtomPrimitive; next: number } {
+    const s = this.smarts;
+    const c = s[at];
+    const number = (from: number) => {
+      const digits = /^\d+/.exec(s.slice(from, to));
+      return digits ? { value: Number(digits[0]), next: from + digits[0].length } : { value: null, next: from };
+    };
+    const counted = (kind: Extract<AtomPrimitive, { value: number | null }>["kind"], fallback: number | null) => {
+      const { value, next } = number(at + 1);
+      return { value: { kind, value: value ?? fallback } as AtomPrimitive, next };
+    };
+
+    if (c === "$") {
+      if (s[at + 1] !== "(") this.fail(at, "Recursive SMARTS must be written $(...)");
+      let depth = 0;
+      let close = -1;
+      for (let j = at + 1; j < to; j++) {
+        if (s[j] === "(") depth++;
+        else if (s[j] === ")" && --depth === 0) {
+          close = j;
+          break;
+        }
+      }
+      if (close === -1) this.fail(at, "Unclosed recursive SMARTS");
+      const pattern = new SmartsParser(s, at + 2, close).parse();
+      return { value: { kind: "recursive", pattern }, next: close + 1 };
+    }
+    if (isDigit(c)) {
+      const { value, next } = number(at);
+      return { value: { kind: "isotope", value }, next };
+    }
+    if (c === "#") {
+      const { value, next } = number(at + 1);
+      if (value === null) this.fail(at, "# must be followed by an atomic number");
+      return { value: { kind: "element", value, aromatic: null }, next };
+    }
+    if (c === "+" || c === "-") {
+      const sign = c === "+" ? 1 : -1;
+      const { value, next } = number(at + 1);
+      if (value !== null) return { value: { kind: "charge", value: sign * value }, next };
+      let end = at + 1;
+      while (s[end] === c && end < to) end++;
+      return { value: { kind: "charge", value: sign * (end - at) }, next: end };
+    }
+    if (c === "@") {
+      let next = at + 1;
+      while (next < to && (s[next] === "@" || s[next] === "?")) next++;
+      return { value: { kind: "chirality" }, next };
+    }
+    if (c === "*") return { value: { kind: "any" }, next: at + 1 };
+    if (c === ":") {
+      // Atom map numbers label reaction atoms and do not constrain a match
+      const { next } = number(at + 1);
+      return { value: { kind: "any" }, next };
+    }
+
+    // A leading H followed by nothing, a charge or an operator is the hydrogen atom itself
+    if (c === "H" && first && (at + 1 === to || /[+\-;&,]/.test(s[at + 1]))) {
+      return { value: { kind: "element", value: 1, aromatic: false }, next: at + 1 };
+    }
+
+    const two = s.slice(at, at + 2);
+    if (/^[A-Z][a-z]$/.test(two) && isElement(two) && at + 2 <= to) {
+      return { value: { kind: "element", value: atomicNumber(two), aromatic: false }, next: at + 2 };
+    }
+    if (AROMATIC_SYMBOLS.has(two) && at + 2 <= to) {
+      return { value: { kind: "element", value: atomicNumber(two[0].toUpperCase() + two[1]), aromatic: true }, next: at + 2 };
+    }
+
+    switch (c) {
+      case "D":
+        return counted("degree", 1);
+      case "X":
+        return counted("connectivity", 1);
+      case "H":
+        return counted("hydrogens", 1);
+      case "h":
+        return counted("implicitHydrogens", null);
+      case "R":
+        return counted("ringCount", null);
+      case "r":
+        return counted("ringSize", null);
+      case "x":
+        return counted("ringConnectivity", null);
+      case "v":
+        return counted("valence", 1);
+      case "a":
+        return { value: { kind: "aromatic", value: true }, next: at + 1 };
+      case "A":
+        return { value: { kind: "aromatic", value: false }, next: at + 1 };
+    }
+    if (AROMATIC_SYMBOLS.has(c)) {
+      return { value: { kind: "element", value: atomicNumber(c.toUpperCase()), aromatic: true }, next: at + 1 };
+    }
+    if (/[A-Z]/.test(c) && isElement(c)) {
+      return { value: { kind: "element", value: atomicNumber(c), aromatic: false }, next: at + 1 };
+    }
+    this.fail(at, `Unknown atom primitive '${c}'`);
+  }
+}
+
+export const parseSmarts = (smarts: string): SmartsPattern => new SmartsParser(smarts.trim()).parse();
+
+export type SmartsParseResult =
+  | { pattern: SmartsPattern; error: null }
+  | { pattern: null; error: SmartsParseError };
+
+export const tryParseSmarts = (smarts: string): SmartsParseResult => {
+  try {
+    return { pattern: parseSmarts(smarts), error: null };
+  } catch (error) {
+    if (error instanceof SmartsParseError) return { pattern: null, error };
+    throw error;
+  }
+};
+
+interface MatchContext {
+  mol: Molecule;
+  ringCounts: number[];
+  smallestRings: number[];
+  ringConnectivity: number[];
+  ringBonds: Set<string>;
+  // Atoms each recursive pattern can be rooted at, filled in on first use
+  recursive: Map<SmartsPattern, Set<number>>;
+}
+
+const contexts = new WeakMap<Molecule, MatchContext>();
+
+const matchContext = (mol: Molecule): MatchContext => {
+  const cached = contexts.get(mol);
+  if (cached) return cached;
+  const ringBonds = ringBondKeys(mol);
+  const ctx: MatchContext = {
+    mol,
+    ringCounts: mol.atoms.map((atom) => mol.rings.filter((ring) => ring.includes(atom.index)).length),
+    smallestRings: mol.atoms.map((atom) =>
+      Math.min(Infinity, ...mol.rings.filter((ring) => ring.includes(atom.index)).map((ring) => ring.length))
+    ),
+    ringConnectivity: mol.atoms.map(
+      (atom) => neighbors(mol, atom.index).filter((n) => ringBonds.has(bondKey(atom.index, n))).length
+    ),
+    ringBonds,
+    recursive: new Map(),
+  };
+  contexts.set(mol, ctx);
+  return ctx;
+};
+
+// Total bond order plus hydrogens, counting Kekulé double bonds in aromatic rings
+const totalValence = (mol: Molecule, index: number) => {
+  const atom = mol.atoms[index];
+  let valence = atom.hCount;
+  for (const b of mol.adjacency[index]) {
+    const bond = mol.bonds[b];
+    valence += bond.aromatic ? 1 : bond.order;
+  }
+  if (atom.aromatic) {
+    const neutral = DEFAULT_VALENCES[atom.element]?.[0] ?? valence;
+    const expected = neutral + (atom.charge > 0 && atom.element !== "C" ? 1 : atom.charge !== 0 ? -1 : 0);
+    // Pyridine-like atoms and ring carbons carry one double bond; pyrrole-like atoms do not
+    if (valence < expected) valence++;
+  }
+  return valence;
+};
+
+const atomPrimitiveMatches = (ctx: MatchContext, p: AtomPrimitive, index: number): boolean => {
+  const atom = ctx.mol.atoms[index];
+  const atLeastOne = (actual: number, value: number | null) => (value === null ? actual > 0 : actual === value);
+  switch (p.kind) {
+    case "any":
+    case "chirality":
+      return true;
+    case "aromatic":
+      return atom.aromatic === p.value;
+    case "element":
+      return (
+        (atom.element === "*" ? 0 : atomicNumber(atom.element)) === p.value &&
+        (p.aromatic === null || atom.aromatic === p.aromatic)
+      );
+    case "degree":
+      return ctx.mol.adjacency[index].length === p.value;
+    case "connectivity":
+      return ctx.mol.adjacency[index].length + atom.hCount === p.value;
+    case "hydrogens":
+      return totalHydrogens(ctx.mol, index) === p.value;
+    case "implicitHydrogens":
+      return atLeastOne(atom.hCount, p.value);
+    case "ringCount":
+      return atLeastOne(ctx.ringCounts[index], p.value);
+    case "ringSize":
+      return p.value === null ? ctx.ringCounts[index] > 0 : ctx.smallestRings[index] === p.value;
+    case "ringConnectivity":
+      return atLeastOne(ctx.ringConnectivity[index], p.value);
+    case "valence":
+      return totalValence(ctx.mol, index) === p.value;
+    case "charge":
+      return atom.charge === p.value;
+    case "isotope":
+      return atom.isotope === p.value;
+    case "recursive":
+      return recursiveRoots(ctx, p.pattern).has(index);
+  }
+};
+
+const bondPrimitiveMatches = (ctx: MatchContext, p: BondPrimitive, begin: number, end: number): boolean => {
+  const bond = bondBetween(ctx.mol, begin, end);
+  switch (p) {
+    case "single":
+      return bond.order === 1 && !bond.aromatic;
+    case "double":
+      return bond.order === 2 && !bond.aromatic;
+    case "triple":
+      return bond.order === 3;
+    case "quadruple":
+      return bond.order === 4;
+    case "aromatic":
+      return bond.aromatic;
+    case "any":
+      return true;
+    case "ring":
+      return ctx.ringBonds.has(bondKey(begin, end));
+  }
+};
+
+const evaluate = <T>(expression: Expression<T>, test: (primitive: T) => boolean): boolean => {
+  switch (expression.op) {
+    case "primitive":
+      return test(expression.primitive);
+    case "not":
+      return !evaluate(expression.operand, test);
+    case "and":
+      return expression.operands.every((operand) => evaluate(operand, test));
+    case "or":
+      return expression.operands.some((operand) => evaluate(operand, test));
+  }
+};
+
+const atomMatches = (ctx: MatchContext, expression: Expression<AtomPrimitive>, index: number) =>
+  evaluate(expression, (p) => atomPrimitiveMatches(ctx, p, index));
+
+const bondMatches = (ctx: MatchContext, expression: Expression<BondPrimitive> | null, begin: number, end: number) => {
+  if (expression === null) {
+    const bond = bondBetween(ctx.mol, begin, end);
+    return bond.aromatic || bond.order === 1;
+  }
+  return evaluate(expression, (p) => bondPrimitiveMatches(ctx, p, begin, end));
+};
+
+// Query atoms in breadth-first order per component, each with an already placed neighbour
+const searchOrder = (pattern: SmartsPattern) => {
+  const order: { atom: number; parent: number | null }[] = [];
+  const placed = new Set<number>();
+  for (let root = 0; root < pattern.atoms.length; root++) {
+    if (placed.has(root)) continue;
+    placed.add(root);
+    order.push({ atom: root, parent: null });
+    for (let q = order.length - 1; q < order.length; q++) {
+      const current = order[q].atom;
+      for (const b of pattern.adjacency[current]) {
+        const bond = pattern.bonds[b];
+        const next = bond.begin === current ? bond.end : bond.begin;
+        if (placed.has(next)) continue;
+        placed.add(next);
+        order.push({ atom: next, parent: current });
+      }
+    }
+  }
+  return order;
+};
+
+export interface MatchOptions {
+  // Report each set of matched atoms once, as RDKit does by default
+  uniquify: boolean;
+  maxMatches: number;
+  // Target atom the first query atom must map to
+  root: number | null;
+}
+
+const DEFAULT_MATCH_OPTIONS: MatchOptions = { uniquify: true, maxMatches: Infinity, root: null };
+
+/**
+ * Subgraph monomorphism in the style of VF2 (Cordella et al. 2004): query atoms
+ * are placed in connected order, candidates come from the neighbours of the
+ * already mapped parent, and every query bond back to a mapped atom is checked
+ * before descending. Each match lists target atoms by query atom index.
+ */
+const findMatches = (ctx: MatchContext, pattern: SmartsPattern, overrides: Partial<MatchOptions> = {}) => {
+  const { uniquify, maxMatches, root } = { ...DEFAULT_MATCH_OPTIONS, ...overrides };
+  const { mol } = ctx;
+  const order = searchOrder(pattern);
+  const mapping = new Array<number>(pattern.atoms.length).fill(-1);
+  const used = new Set<number>();
+  const matches: number[][] = [];
+  const seen = new Set<string>();
+  const allAtoms = mol.atoms.map((atom) => atom.index);
+
+  const feasible = (queryAtom: number, target: number) => {
+    if (used.has(target)) return false;
+    if (mol.adjacency[target].length < pattern.adjacency[queryAtom].length) return false;
+    if (!atomMatches(ctx, pattern.atoms[queryAtom], target)) return false;
+    for (const b of pattern.adjacency[queryAtom]) {
+      const bond = pattern.bonds[b];
+      const other = bond.begin === queryAtom ? bond.end : bond.begin;
+      const mapped = mapping[other];
+      if (mapped === -1) continue;
+      if (!bondBetween(mol, target, mapped) || !bondMatches(ctx, bond.expression, target, mapped)) return false;
+    }
+    return true;
+  };
+
+  const search = (depth: number): boolean => {
+    if (depth === order.length) {
+      const key = uniquify ? [...mapping].sort((a, b) => a - b).join(",") : mapping.join(",");
+      if (!seen.has(key)) {
+        seen.add(key);
+        matches.push([...mapping]);
+      }
+      return matches.length >= maxMatches;
+    }
+    const { atom, parent } = order[depth];
+    const candidates =
+      parent !== null ? neighbors(mol, mapping[parent]) : depth === 0 && root !== null ? [root] : allAtoms;
+    for (const target of candidates) {
+      if (!feasible(atom, target)) continue;
+      mapping[atom] = target;
+      used.add(target);
+      const done = search(depth + 1);
+      used.delete(target);
+      mapping[atom] = -1;
+      if (done) return true;
+    }
+    return false;
+  };
+
+  search(0);
+  return matches;
+};
+
+const recursiveRoots = (ctx: MatchContext, pattern: SmartsPattern) => {
+  let roots = ctx.recursive.get(pattern);
+  if (!roots) {
+    roots = new Set(
+      ctx.mol.atoms
+        .filter((atom) => findMatches(ctx, pattern, { root: atom.index, maxMatches: 1 }).length > 0)
+        .map((atom) => atom.index)
+    );
+    ctx.recursive.set(pattern, roots);
+  }
+  return roots;
+};
+
+export const substructureMatches = (mol: Molecule, pattern: SmartsPattern, options: Partial<MatchOptions> = {}) =>
+  findMatches(matchContext(mol), pattern, options);
+
+export const hasSubstructure = (mol: Molecule, pattern: SmartsPattern) =>
+  substructureMatches(mol, pattern, { maxMatches: 1 }).length > 0;
+
+// Every target atom covered by at least one match, for highlighting
+export const matchedAtoms = (matches: number[][]) => [...new Set(matches.flat())].sort((a, b) => a - b);
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { parseSmiFile } from "./smifile";
+
+describe("parseSmiFile", () => {
+  it("reads a SMILES and an optional name per line", () => {
+    const text = "# solvents\nCCO ethanol\r\n\nCC(=O)C\nc1ccccc1 benzene ring\nC1CC broken\n";
+    expect(parseSmiFile(text)).toEqual({
+      entries: [
+        { smiles: "CCO", name: "ethanol" },
+        { smiles: "CC(=O)C", name: null },
+        { smiles: "c1ccccc1", name: "benzene ring" },
+      ],
+      skipped: 1,
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { tryParseSmiles } from "./smiles";
+
+export interface SmiEntry {
+  smiles: string;
+  name: string | null;
+}
+
+// One molecule per line: SMILES, then an optional name; blank lines and # comments are skipped
+export const parseSmiFile = (text: string) => {
+  const entries: SmiEntry[] = [];
+  let skipped = 0;
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const [smiles, ...rest] = trimmed.split(/\s+/);
+    if (tryParseSmiles(smiles).error) {
+      skipped++;
+      continue;
+    }
+    entries.push({ smiles, name: rest.join(" ") || null });
+  }
+  return { entries, skipped };
+};
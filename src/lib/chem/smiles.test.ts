@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { canonicalSmiles } from "./canonical";
+import { SmilesParseError, parseSmiles, tryParseSmiles } from "./smiles";
+
+const parses = (smiles: string) => tryParseSmiles(smiles).molecule !== null;
+
+describe("parseSmiles valences", () => {
+  it("limits organic-subset halogens to a single bond", () => {
+    for (const smiles of ["CClC", "BrCBrC", "CCClCClCNC#N", "CI(C)(C)(C)(C)(C)C"]) {
+      expect(parses(smiles), smiles).toBe(false);
+    }
+    expect(parses("CCl")).toBe(true);
+    expect(parses("ClCBr")).toBe(true);
+  });
+
+  it("allows hypervalent halogens in brackets", () => {
+    expect(parses("[O-][Cl](=O)(=O)=O")).toBe(true);
+    expect(parses("C[I](C)C")).toBe(true);
+  });
+
+  it("keeps hypervalent halogens bracketed in canonical SMILES", () => {
+    const canonical = canonicalSmiles(parseSmiles("[O-][Cl](=O)(=O)=O"));
+    expect(canonical).toContain("[Cl]");
+    expect(parses(canonical)).toBe(true);
+  });
+});
+
+describe("parseSmiles aromaticity", () => {
+  it("accepts aromatic rings with a Kekulé structure", () => {
+    for (const smiles of ["c1ccccc1", "c1ccncc1", "c1cc[nH]c1", "c1ccsc1", "O=c1cccc[nH]1"]) {
+      expect(parses(smiles), smiles).toBe(true);
+    }
+  });
+
+  it("rejects aromatic rings that cannot be kekulized", () => {
+    expect(tryParseSmiles("c1cccc1").error?.reason).toMatch(/Kekulé/);
+    expect(parses("c1ccnc1")).toBe(false);
+  });
+});
+
+describe("parseSmiles structure", () => {
+  it("closes rings, including two-digit ring numbers", () => {
+    const cyclohexane = parseSmiles("C1CCCCC1");
+    expect(cyclohexane.bonds).toHaveLength(6);
+    expect(cyclohexane.rings).toHaveLength(1);
+    expect(cyclohexane.rings[0]).toHaveLength(6);
+    expect(parseSmiles("C%10CC%10").rings[0]).toHaveLength(3);
+  });
+
+  it("takes a ring bond's order from either end", () => {
+    const mol = parseSmiles("C=1CC1");
+    expect(mol.bonds.find((bond) => bond.begin === 0 && bond.end === 2)?.order).toBe(2);
+  });
+
+  it("branches from the atom before the parenthesis", () => {
+    const mol = parseSmiles("CC(=O)O");
+    expect(mol.bonds.map((bond) => [bond.begin, bond.end, bond.order])).toEqual([
+      [0, 1, 1],
+      [1, 2, 2],
+      [1, 3, 1],
+    ]);
+    expect(mol.atoms.map((atom) => atom.hCount)).toEqual([3, 0, 0, 1]);
+  });
+
+  it("reads charges, isotopes, hydrogens and chirality from brackets", () => {
+    const [ammonium] = parseSmiles("[NH4+]").atoms;
+    expect(ammonium).toMatchObject({ element: "N", charge: 1, hCount: 4, bracket: true });
+    expect(parseSmiles("[13CH4]").atoms[0]).toMatchObject({ isotope: 13, hCount: 4 });
+    expect(parseSmiles("[O-]C=O").atoms[0].charge).toBe(-1);
+    expect(parseSmiles("N[C@@H](C)C(=O)O").atoms[1].chirality).toBe("@@");
+  });
+
+  it("keeps disconnected components in one molecule", () => {
+    const salt = parseSmiles("[Na+].[Cl-]");
+    expect(salt.atoms.map((atom) => [atom.element, atom.charge])).toEqual([
+      ["Na", 1],
+      ["Cl", -1],
+    ]);
+    expect(salt.bonds).toHaveLength(0);
+  });
+
+  it("perceives aromatic bonds", () => {
+    const benzene = parseSmiles("c1ccccc1");
+    expect(benzene.atoms.every((atom) => atom.aromatic && atom.hCount === 1)).toBe(true);
+    expect(benzene.bonds.every((bond) => bond.aromatic && bond.order === 1.5)).toBe(true);
+  });
+});
+
+describe("parseSmiles errors", () => {
+  it("reports where and why a SMILES fails", () => {
+    const cases: [string, number, RegExp][] = [
+      ["CC(C", 2, /Unclosed branch/],
+      ["C1CC", 1, /Ring bond 1 is never closed/],
+      ["C)C", 1, /Unmatched closing parenthesis/],
+      ["CC=", 2, /no atom after it/],
+      ["[Xx]", 1, /Unknown element/],
+      ["Xx", 0, /organic-subset/],
+    ];
+    for (const [smiles, position, reason] of cases) {
+      const { error } = tryParseSmiles(smiles);
+      expect(error?.position, smiles).toBe(position);
+      expect(error?.reason, smiles).toMatch(reason);
+    }
+  });
+
+  it("throws SmilesParseError from parseSmiles", () => {
+    expect(() => parseSmiles("C1CC")).toThrow(SmilesParseError);
+  });
+});
@@ -0,0 +1,380 @@
+import { AROMATIC_SYMBOLS, CHARGED_VALENCES, DEFAULT_VALENCES, ORGANIC_SUBSET, isElement } from "./elements";
+import { Atom, Bond, BondStereo, Chirality, Molecule, bondBetween } from "./molecule";
+import { findSSSR, kekulize, perceiveAromaticity } from "./rings";
+
+export class SmilesParseError extends Error {
+  constructor(public position: number, public reason: string) {
+    super(`${reason} at character ${position + 1}`);
+    this.name = "SmilesParseError";
+  }
+}
+
+interface PendingBond {
+  order: number;
+  aromatic: boolean;
+  stereo: BondStereo;
+  position: number;
+}
+
+interface OpenRing {
+  atom: number;
+  bond: PendingBond | null;
+  position: number;
+  // Where the ring bond goes in the opening atom's written neighbour order
+  slot: number;
+}
+
+const BOND_SYMBOLS: Record<string, Omit<PendingBond, "position">> = {
+  "-": { order: 1, aromatic: false, stereo: null },
+  "=": { order: 2, aromatic: false, stereo: null },
+  "#": { order: 3, aromatic: false, stereo: null },
+  "$": { order: 4, aromatic: false, stereo: null },
+  ":": { order: 1.5, aromatic: true, stereo: null },
+  "/": { order: 1, aromatic: false, stereo: "/" },
+  "\\": { order: 1, aromatic: false, stereo: "\\" },
+};
+
+// Bracket halogens may be hypervalent, as in perchlorate or periodinane; written
+// without brackets they take their single normal valence
+const BRACKET_MAX_VALENCE: Record<string, number> = { Cl: 7, Br: 7, I: 7 };
+
+const isDigit = (c: string) => c >= "0" && c <= "9";
+
+class SmilesParser {
+  private i = 0;
+  private atoms: Atom[] = [];
+  private bonds: Bond[] = [];
+  private positions: number[] = [];
+  // Bond indices per atom in written order; -1 holds the place of a ring bond not yet closed
+  private written: number[][] = [];
+  private previous: number | null = null;
+  private branches: { atom: number; position: number }[] = [];
+  private pending: PendingBond | null = null;
+  private openRings = new Map<number, OpenRing>();
+
+  constructor(private readonly smiles: string) {}
+
+  parse(): Molecule {
+    const s = this.smiles;
+    while (s[this.i] === " " || s[this.i] === "\t") this.i++;
+    while (this.i < s.length) {
+      const c = s[this.i];
+      if (c === " " || c === "\t") break;
+      if (c === "(") this.openBranch();
+      else if (c === ")") this.closeBranch();
+      else if (c in BOND_SYMBOLS) this.readBond();
+      else if (c === ".") this.readDot();
+      else if (isDigit(c) || c === "%") this.readRingClosure();
+      else if (c === "[") this.readBracketAtom();
+      else this.readOrganicAtom();
+    }
+
+    if (this.pending) this.fail(this.pending.position, "Bond has no atom after it");
+    if (this.branches.length > 0) this.fail(this.branches[this.branches.length - 1].position, "Unclosed branch");
+    for (const [label, ring] of this.openRings) this.fail(ring.position, `Ring bond ${label} is never closed`);
+    if (this.atoms.length === 0) this.fail(0, "SMILES contains no atoms");
+
+    return this.finish();
+  }
+
+  private fail(position: number, reason: string): never {
+    throw new SmilesParseError(position, reason);
+  }
+
+  private openBranch() {
+    if (this.previous === null) this.fail(this.i, "Branch opened before any atom");
+    if (this.pending) this.fail(this.i, "Branch cannot follow a bond symbol");
+    if (this.smiles[this.i + 1] === ")") this.fail(this.i, "Empty branch");
+    this.branches.push({ atom: this.previous, position: this.i });
+    this.i++;
+  }
+
+  private closeBranch() {
+    if (this.branches.length === 0) this.fail(this.i, "Unmatched closing parenthesis");
+    if (this.pending) this.fail(this.pending.position, "Bond has no atom after it");
+    this.previous = this.branches.pop()!.atom;
+    this.i++;
+  }
+
+  private readBond() {
+    if (this.previous === null) this.fail(this.i, "Bond has no atom before it");
+    if (this.pending) this.fail(this.i, "Two bond symbols in a row");
+    this.pending = { ...BOND_SYMBOLS[this.smiles[this.i]], position: this.i };
+    this.i++;
+  }
+
+  private readDot() {
+    if (this.previous === null) this.fail(this.i, "Disconnection has no atom before it");
+    if (this.pending) this.fail(this.i, "Bond has no atom after it");
+    this.previous = null;
+    this.i++;
+  }
+
+  private readRingClosure() {
+    const position = this.i;
+    if (this.previous === null) this.fail(position, "Ring bond has no atom before it");
+    let label: number;
+    if (this.smiles[this.i] === "%") {
+      this.i++;
+      if (this.smiles[this.i] === "(") {
+        const end = this.smiles.indexOf(")", this.i);
+        const digits = end === -1 ? "" : this.smiles.slice(this.i + 1, end);
+        if (!/^\d+$/.test(digits)) this.fail(position, "Malformed %(n) ring bond number");
+        label = Number(digits);
+        this.i = end + 1;
+      } else {
+        const digits = this.smiles.slice(this.i, this.i + 2);
+        if (!/^\d\d$/.test(digits)) this.fail(position, "% must be followed by two digits");
+        label = Number(digits);
+        this.i += 2;
+      }
+    } else {
+      label = Number(this.smiles[this.i]);
+      this.i++;
+    }
+
+    const open = this.openRings.get(label);
+    if (!open) {
+      const slot = this.written[this.previous].push(-1) - 1;
+      this.openRings.set(label, { atom: this.previous, bond: this.pending, position, slot });
+      this.pending = null;
+      return;
+    }
+
+    this.openRings.delete(label);
+    const closing = this.pending;
+    this.pending = null;
+    if (open.atom === this.previous) this.fail(position, `Ring bond ${label} closes on the atom that opened it`);
+    if (bondBetween(this.view(), open.atom, this.previous)) {
+      this.fail(position, `Ring bond ${label} duplicates an existing bond`);
+    }
+    if (open.bond && closing && !open.bond.stereo && !closing.stereo && open.bond.order !== closing.order) {
+      this.fail(position, `Ring bond ${label} has conflicting bond orders`);
+    }
+    this.addBond(open.atom, this.previous, closing ?? open.bond, open.slot);
+  }
+
+  private readOrganicAtom() {
+    const s = this.smiles;
+    const position = this.i;
+    const two = s.slice(this.i, this.i + 2);
+    let symbol: string;
+    if (two === "Cl" || two === "Br") symbol = two;
+    else symbol = s[this.i];
+
+    const aromatic = AROMATIC_SYMBOLS.has(symbol) && symbol.length === 1;
+    if (symbol !== "*" && !ORGANIC_SUBSET.has(symbol) && !aromatic) {
+      if (/[A-Za-z]/.test(symbol)) {
+        this.fail(position, `'${symbol}' is not an organic-subset atom; write it in brackets`);
+      }
+      this.fail(position, `Unexpected character '${symbol}'`);
+    }
+    this.i += symbol.length;
+    this.addAtom(
+      {
+        element: aromatic ? symbol.toUpperCase() : symbol,
+        aromatic,
+        charge: 0,
+        isotope: null,
+        hCount: 0,
+        bracket: false,
+        chirality: null,
+        atomClass: null,
+      },
+      position
+    );
+  }
+
+  private readBracketAtom() {
+    const s = this.smiles;
+    const position = this.i;
+    const close = s.indexOf("]", this.i);
+    if (close === -1) this.fail(position, "Unclosed bracket atom");
+    this.i++;
+
+    let isotope: number | null = null;
+    const isotopeDigits = /^\d+/.exec(s.slice(this.i, close));
+    if (isotopeDigits) {
+      isotope = Number(isotopeDigits[0]);
+      this.i += isotopeDigits[0].length;
+    }
+
+    let element: string;
+    let aromatic = false;
+    const rest = s.slice(this.i, close);
+    if (rest.startsWith("*")) {
+      element = "*";
+    } else if (/^[a-z]/.test(rest)) {
+      const symbol = AROMATIC_SYMBOLS.has(rest.slice(0, 2)) ? rest.slice(0, 2) : rest[0];
+      if (!AROMATIC_SYMBOLS.has(symbol)) this.fail(this.i, `'${symbol}' cannot be aromatic`);
+      element = symbol[0].toUpperCase() + symbol.slice(1);
+      aromatic = true;
+    } else if (/^[A-Z][a-z]/.test(rest) && isElement(rest.slice(0, 2))) {
+      element = rest.slice(0, 2);
+    } else if (/^[A-Z]/.test(rest) && isElement(rest[0])) {
+      element = rest[0];
+    } else {
+      this.fail(this.i, `Unknown element '${/^[A-Z]?[a-z]?/.exec(rest)?.[0] || rest[0] || "]"}'`);
+    }
+    this.i += element.length;
+
+    let chirality: Chirality = null;
+    if (s[this.i] === "@") {
+      if (s[this.i + 1] === "@") {
+        chirality = "@@";
+        this.i += 2;
+      } else {
+        chirality = "@";
+        this.i++;
+        const extended = /^(TH|AL|SP|TB|OH)(\d{1,2})/.exec(s.slice(this.i, close));
+        if (extended) {
+          if (extended[1] === "TH" || extended[1] === "AL") chirality = extended[2] === "2" ? "@@" : "@";
+          else chirality = null;
+          this.i += extended[0].length;
+        }
+      }
+    }
+
+    let hCount = 0;
+    if (s[this.i] === "H") {
+      this.i++;
+      const digits = /^\d+/.exec(s.slice(this.i, close));
+      hCount = digits ? Number(digits[0]) : 1;
+      if (digits) this.i += digits[0].length;
+    }
+
+    let charge = 0;
+    if (s[this.i] === "+" || s[this.i] === "-") {
+      const sign = s[this.i] === "+" ? 1 : -1;
+      this.i++;
+      const digits = /^\d+/.exec(s.slice(this.i, close));
+      if (digits) {
+        charge = sign * Number(digits[0]);
+        this.i += digits[0].length;
+      } else {
+        charge = sign;
+        while (s[this.i] === (sign > 0 ? "+" : "-")) {
+          charge += sign;
+          this.i++;
+        }
+      }
+    }
+
+    let atomClass: number | null = null;
+    if (s[this.i] === ":") {
+      const digits = /^\d+/.exec(s.slice(this.i + 1, close));
+      if (!digits) this.fail(this.i, "Atom class must be a number");
+      atomClass = Number(digits[0]);
+      this.i += 1 + digits[0].length;
+    }
+
+    if (this.i !== close) this.fail(this.i, `Unexpected '${s[this.i]}' inside bracket atom`);
+    this.i = close + 1;
+
+    this.addAtom({ element, aromatic, charge, isotope, hCount, bracket: true, chirality, atomClass }, position);
+  }
+
+  private addAtom(data: Omit<Atom, "index">, position: number) {
+    const index = this.atoms.length;
+    this.atoms.push({ index, ...data });
+    this.positions.push(position);
+    this.written.push([]);
+    if (this.previous !== null) {
+      this.addBond(this.previous, index, this.pending);
+      this.pending = null;
+    }
+    this.previous = index;
+  }
+
+  private addBond(begin: number, end: number, pending: PendingBond | null, slot: number | null = null) {
+    const bothAromatic = this.atoms[begin].aromatic && this.atoms[end].aromatic;
+    const order = pending ? pending.order : bothAromatic ? 1.5 : 1;
+    const index = this.bonds.length;
+    if (slot === null) this.written[begin].push(index);
+    else this.written[begin][slot] = index;
+    this.written[end].push(index);
+    this.bonds.push({
+      index,
+      begin,
+      end,
+      order,
+      aromatic: order === 1.5,
+      stereo: pending?.stereo ?? null,
+    });
+  }
+
+  private view(): Molecule {
+    const adjacency = this.written.map((bonds) => bonds.filter((b) => b !== -1));
+    return { atoms: this.atoms, bonds: this.bonds, adjacency, rings: [] };
+  }
+
+  private finish(): Molecule {
+    const mol = this.view();
+    mol.rings = findSSSR(mol);
+
+    const ringAtoms = new Set(mol.rings.flat());
+    for (const atom of this.atoms) {
+      if (atom.aromatic && !ringAtoms.has(atom.index)) {
+        this.fail(this.positions[atom.index], `Aromatic atom '${atom.element.toLowerCase()}' is not in a ring`);
+      }
+    }
+
+    for (const atom of this.atoms) this.assignHydrogens(mol, atom);
+    // Lowercase atoms must pair up into alternating double bonds, which rules out c1cccc1
+    const aromatic = this.atoms.find((atom) => atom.aromatic);
+    if (aromatic && !kekulize(mol)) {
+      this.fail(this.positions[aromatic.index], "Aromatic system has no valid Kekulé structure");
+    }
+    perceiveAromaticity(mol);
+    return mol;
+  }
+
+  private assignHydrogens(mol: Molecule, atom: Atom) {
+    let used = atom.bracket ? atom.hCount : 0;
+    let hasDouble = false;
+    for (const b of mol.adjacency[atom.index]) {
+      const bond = mol.bonds[b];
+      used += bond.aromatic ? 1 : bond.order;
+      if (bond.order === 2) hasDouble = true;
+    }
+    const position = this.positions[atom.index];
+    const valences = atom.charge === 0 ? DEFAULT_VALENCES[atom.element] : CHARGED_VALENCES[atom.element]?.[atom.charge];
+
+    if (atom.aromatic && (atom.element === "C" || atom.element === "B") && !hasDouble) used += 1;
+
+    if (atom.bracket) {
+      if (valences && atom.element !== "S" && atom.element !== "P") {
+        const max = Math.max(BRACKET_MAX_VALENCE[atom.element] ?? 0, ...valences);
+        if (used > max) this.fail(position, `Valence of ${atom.element} is ${used}, more than the allowed ${max}`);
+      }
+      return;
+    }
+    if (atom.element === "*") return;
+
+    const max = Math.max(...valences);
+    if (used > max) this.fail(position, `Valence of ${atom.element} is ${used}, more than the allowed ${max}`);
+
+    // Heteroatoms in aromatic rings donate a lone pair or sit in a pyridine-like
+    // position; either way they carry no implicit hydrogen
+    if (atom.aromatic && atom.element !== "C" && atom.element !== "B") return;
+
+    const target = valences.find((v) => v >= used);
+    atom.hCount = target === undefined ? 0 : target - used;
+  }
+}
+
+// Parsing stops at the first space or tab after the SMILES, so "CCO ethanol" reads as ethanol
+export const parseSmiles = (smiles: string): Molecule => new SmilesParser(smiles).parse();
+
+export type SmilesParseResult =
+  | { molecule: Molecule; error: null }
+  | { molecule: null; error: SmilesParseError };
+
+export const tryParseSmiles = (smiles: string): SmilesParseResult => {
+  try {
+    return { molecule: parseSmiles(smiles), error: null };
+  } catch (error) {
+    if (error instanceof SmilesParseError) return { molecule: null, error };
+    throw error;
+  }
+};
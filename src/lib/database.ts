@@ -0,0 +1,48 @@
+export const MOLECULES = "molecules";
+export const PROJECTS = "projects";
+
+// Each entry upgrades the database by one version, so older databases replay the ones they missed
+const UPGRADES: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  (db) => {
+    const molecules = db.createObjectStore(MOLECULES, { keyPath: "canonicalSmiles" });
+    molecules.createIndex("sources", "sources", { multiEntry: true });
+    molecules.createIndex("tags", "tags", { multiEntry: true });
+  },
+  (db, transaction) => {
+    db.createObjectStore(PROJECTS, { keyPath: "id" });
+    transaction.objectStore(MOLECULES).createIndex("projects", "projects", { multiEntry: true });
+  },
+];
+
+export const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Database transaction aborted"));
+  });
+
+let connection: Promise<IDBDatabase> | null = null;
+
+// One shared connection to the browser-local database behind the library and projects
+export const openDatabase = () => {
+  connection ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open("molecule-library", UPGRADES.length);
+    request.onupgradeneeded = (event) => {
+      for (let version = event.oldVersion; version < UPGRADES.length; version++) {
+        UPGRADES[version](request.result, request.transaction);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      connection = null;
+      reject(request.error);
+    };
+  });
+  return connection;
+};
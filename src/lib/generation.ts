@@ -0,0 +1,37 @@
+// Simulated GAN generation shared by the module and the local API: it draws from
+// a fixed pool of known drugs and follows a recorded training curve. The VAE
+// trains and samples for real; see ml/vae and ml/sampling
+
+export type GenerativeModel = "vae" | "gan";
+
+export interface GANTrainingMetrics {
+  epoch: number;
+  generatorLoss: number;
+  discriminatorLoss: number;
+  fid: number;
+  validity: number;
+  diversity?: number;
+  uniqueness?: number;
+}
+
+export const GAN_SAMPLE_POOL = [
+  "CC(=O)Nc1ccc(O)cc1",
+  "CC(C)Cc1ccc(cc1)C(C)C(=O)O",
+  "CN1C=NC2=C1C(=O)N(C(=O)N2C)C",
+  "OC(=O)c1ccccc1O",
+  "CCN(CC)C(=O)c1ccccc1",
+  "COc1ccc2[nH]cc(CCN)c2c1",
+  "NC(=O)c1ccc(Cl)cc1",
+  "CC(C)NCC(O)c1ccc(O)c(O)c1",
+];
+
+export const GAN_TRAINING_SCHEDULE: GANTrainingMetrics[] = [
+  { epoch: 1, generatorLoss: 2.45, discriminatorLoss: 1.23, fid: 45.2, validity: 0.67, diversity: 0.45, uniqueness: 0.82 },
+  { epoch: 50, generatorLoss: 1.82, discriminatorLoss: 0.95, fid: 32.1, validity: 0.78, diversity: 0.62, uniqueness: 0.89 },
+  { epoch: 100, generatorLoss: 1.34, discriminatorLoss: 0.87, fid: 24.5, validity: 0.85, diversity: 0.71, uniqueness: 0.91 },
+  { epoch: 150, generatorLoss: 0.95, discriminatorLoss: 0.92, fid: 18.7, validity: 0.91, diversity: 0.76, uniqueness: 0.94 },
+  { epoch: 200, generatorLoss: 0.73, discriminatorLoss: 0.88, fid: 15.2, validity: 0.94, diversity: 0.81, uniqueness: 0.96 },
+];
+
+// The generator emits more valid structures as validity improves
+export const ganSamples = (validity: number) => GAN_SAMPLE_POOL.slice(0, Math.round(validity * GAN_SAMPLE_POOL.length));
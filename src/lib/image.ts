@@ -0,0 +1,49 @@
+interface SvgExportOptions {
+  width: number;
+  height: number;
+  // Stands in for currentColor, which has no theme to inherit outside the page
+  ink: string;
+  // Null keeps the background transparent
+  background: string | null;
+}
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+
+// Standalone markup for an on-screen <svg>, redrawn at the requested size
+export const svgMarkup = (svg: SVGSVGElement, { width, height, ink, background }: SvgExportOptions) => {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const { x, y, width: viewWidth, height: viewHeight } = svg.viewBox.baseVal;
+  copy.removeAttribute("class");
+  copy.setAttribute("xmlns", SVG_NAMESPACE);
+  copy.setAttribute("width", String(width));
+  copy.setAttribute("height", String(height));
+  copy.setAttribute("color", ink);
+  if (background) {
+    const rect = document.createElementNS(SVG_NAMESPACE, "rect");
+    for (const [name, value] of Object.entries({ x, y, width: viewWidth, height: viewHeight, fill: background })) {
+      rect.setAttribute(name, String(value));
+    }
+    copy.insertBefore(rect, copy.firstChild);
+  }
+  return new XMLSerializer().serializeToString(copy);
+};
+
+// Rasterize SVG markup through a canvas
+export const svgToPng = (markup: string, width: number, height: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml" }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext("2d")?.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The SVG could not be rendered"));
+    };
+    image.src = url;
+  });
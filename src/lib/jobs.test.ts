@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { JobRequestError, JobView, isActiveJob, isJobRejection } from "./jobs";
+
+describe("isJobRejection", () => {
+  it("holds for client errors from the server only", () => {
+    expect(isJobRejection(new JobRequestError(400, "Invalid request"))).toBe(true);
+    expect(isJobRejection(new JobRequestError(409, "Cannot pause a completed job"))).toBe(true);
+    expect(isJobRejection(new JobRequestError(502, "Job server answered 502"))).toBe(false);
+    expect(isJobRejection(new TypeError("Failed to fetch"))).toBe(false);
+  });
+});
+
+describe("isActiveJob", () => {
+  it.each([
+    ["queued", true],
+    ["running", true],
+    ["paused", true],
+    ["cancelled", false],
+    ["failed", false],
+    ["completed", false],
+  ] as const)("%s is %s", (status, active) => {
+    expect(isActiveJob({ status } as JobView)).toBe(active);
+  });
+});
@@ -0,0 +1,100 @@
+import { SMILESAnalysis } from "./chem/analysis";
+import { BatchEntry } from "./chem/batch";
+import { GANTrainingMetrics, GenerativeModel } from "./generation";
+import { LibrarySource } from "./library";
+import { TrainedVAE, VAEEpochMetrics } from "./ml/vae";
+
+// Batch analyses, VAE training and simulated GAN runs, queued and run by the local server
+export type JobKind = "batch" | GenerativeModel;
+
+export type JobStatus = "queued" | "running" | "paused" | "cancelled" | "failed" | "completed";
+
+export type JobAction = "pause" | "resume" | "cancel";
+
+export type JobParameters = Record<string, string | number | boolean>;
+
+export type JobMetrics = VAEEpochMetrics | GANTrainingMetrics;
+
+export interface JobView {
+  // Doubles as the run id in library provenance
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  project: string | null;
+  parameters: JobParameters;
+  // Molecules for batches, training batches for VAE runs, simulated steps for GAN runs
+  progress: { done: number; total: number };
+  // Metrics per finished epoch or step and the latest molecules; null for batches, whose results are fetched separately
+  output: { metrics: JobMetrics[]; molecules: string[] } | null;
+  error: string | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export type JobSpec =
+  | { kind: "batch"; entries: BatchEntry[]; conformers: number; parameters: JobParameters; project: string | null }
+  // The VAE trains on the given SMILES; the GAN run is simulated
+  | { kind: "vae"; smiles: string[]; parameters: Record<string, number>; save: boolean; project: string | null }
+  | { kind: "gan"; parameters: Record<string, number>; save: boolean; project: string | null };
+
+export const JOB_KIND_LABELS: Record<JobKind, string> = {
+  batch: "Batch Analysis",
+  vae: "VAE Training",
+  gan: "GAN Training",
+};
+
+export const JOB_KIND_SOURCES: Record<JobKind, LibrarySource> = { batch: "smiles", vae: "vae", gan: "gan" };
+
+export const isActiveJob = (job: JobView) => job.status === "queued" || job.status === "running" || job.status === "paused";
+
+export class JobRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "JobRequestError";
+  }
+}
+
+// The server was reached and turned the request down; anything else means it is out of reach
+export const isJobRejection = (error: unknown): error is JobRequestError =>
+  error instanceof JobRequestError && error.status >= 400 && error.status < 500;
+
+const JOBS_URL = "/api/v1/jobs";
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) throw new JobRequestError(response.status, body?.error ?? `Job server answered ${response.status}`);
+  return body as T;
+};
+
+const jobUrl = (id: string, suffix = "") => `${JOBS_URL}/${encodeURIComponent(id)}${suffix}`;
+
+export const submitJob = (spec: JobSpec) =>
+  request<JobView>(JOBS_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(spec),
+  });
+
+export const listJobs = () => request<JobView[]>(JOBS_URL);
+
+export const getJob = (id: string) => request<JobView>(jobUrl(id));
+
+export const jobResults = (id: string) => request<SMILESAnalysis[]>(jobUrl(id, "/results"));
+
+// The trained model of a completed VAE run
+export const jobModel = (id: string) => request<TrainedVAE>(jobUrl(id, "/model"));
+
+export const controlJob = (id: string, action: JobAction) => request<JobView>(jobUrl(id, `/${action}`), { method: "POST" });
+
+/**
+ * Follow one job, or every job when no id is given, over Server-Sent Events.
+ * The current state arrives first; EventSource reconnects by itself after a
+ * dropped connection. Returns the function that stops listening.
+ */
+export const watchJobs = (onUpdate: (job: JobView) => void, id?: string) => {
+  const source = new EventSource(id ? jobUrl(id, "/events") : `${JOBS_URL}/events`);
+  source.addEventListener("job", (event) => onUpdate(JSON.parse((event as MessageEvent<string>).data)));
+  return () => source.close();
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { FilterCriteria } from "./chem/filter";
+import {
+  EMPTY_LIBRARY_QUERY,
+  LibraryMolecule,
+  Provenance,
+  describeLibraryEntry,
+  describeSave,
+  matchLibraryQuery,
+  mergeLibraryRecord,
+  newRunId,
+  retagRecord,
+} from "./library";
+
+const stamp = (source: Provenance["source"], project: string | null, savedAt: number): Provenance => ({
+  source,
+  run: `${source}-${savedAt}`,
+  project,
+  parameters: {},
+  savedAt,
+});
+
+const record = (smiles: string, provenance: Provenance, name: string | null = null) =>
+  mergeLibraryRecord(undefined, describeLibraryEntry({ smiles, name }), provenance);
+
+describe("describeSave", () => {
+  it("mentions skipped entries only when there were any", () => {
+    expect(describeSave({ added: 2, updated: 1, skipped: 0 })).toBe("2 added, 1 already in the library");
+    expect(describeSave({ added: 0, updated: 0, skipped: 3 })).toBe(
+      "0 added, 0 already in the library, 3 unparseable skipped"
+    );
+  });
+});
+
+describe("newRunId", () => {
+  it("starts with the source", () => {
+    expect(newRunId("vae")).toMatch(/^vae-[0-9a-z]+$/);
+  });
+});
+
+describe("describeLibraryEntry", () => {
+  it("keys the record by canonical SMILES and keeps the input as given", () => {
+    const entry = describeLibraryEntry({ smiles: "OCC", name: "ethanol" });
+    expect(entry).toMatchObject({ canonicalSmiles: "CCO", smiles: "OCC", name: "ethanol" });
+    expect(entry.descriptors.formula).toBe("C2H6O");
+    expect(entry.rules.lipinski.passed).toBe(true);
+    expect(entry.fingerprint).toMatchObject({ type: "morgan", length: 2048 });
+  });
+
+  it("returns null for SMILES that do not parse", () => {
+    expect(describeLibraryEntry({ smiles: "C1CC" })).toBeNull();
+  });
+});
+
+describe("mergeLibraryRecord", () => {
+  it("starts a record with its first provenance", () => {
+    expect(record("CCO", stamp("vae", "p", 100))).toMatchObject({
+      provenance: [stamp("vae", "p", 100)],
+      sources: ["vae"],
+      projects: ["p"],
+      tags: [],
+      addedAt: 100,
+    });
+  });
+
+  it("adds provenance to an existing record without duplicating sources or projects", () => {
+    const first = record("CCO", stamp("vae", "p", 100));
+    const merged = mergeLibraryRecord(
+      mergeLibraryRecord(first, describeLibraryEntry({ smiles: "OCC", name: "ethanol" }), stamp("gan", null, 200)),
+      describeLibraryEntry({ smiles: "C(O)C", name: "alcohol" }),
+      stamp("vae", "p", 300)
+    );
+    expect(merged.provenance).toHaveLength(3);
+    expect(merged.sources).toEqual(["vae", "gan"]);
+    expect(merged.projects).toEqual(["p"]);
+    expect(merged.smiles).toBe("CCO");
+    expect(merged.name).toBe("ethanol");
+    expect(merged.addedAt).toBe(100);
+  });
+});
+
+describe("matchLibraryQuery", () => {
+  const library: LibraryMolecule[] = [
+    retagRecord(record("c1ccccc1O", stamp("vae", "p", 100), "phenol"), ["aromatic"], []),
+    retagRecord(record("c1ccccc1C", stamp("gan", null, 200)), ["aromatic", "hit"], []),
+    record("CCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC", stamp("smiles", "p", 300), "dotetracontane"),
+  ];
+  const names = (query: Partial<typeof EMPTY_LIBRARY_QUERY>) =>
+    matchLibraryQuery(library, { ...EMPTY_LIBRARY_QUERY, ...query }).map((molecule) => molecule.canonicalSmiles);
+
+  it("lists everything newest first for the empty query", () => {
+    expect(names({})).toEqual([library[2], library[1], library[0]].map((molecule) => molecule.canonicalSmiles));
+  });
+
+  it("matches text case-insensitively against SMILES and names", () => {
+    expect(names({ text: " PHENOL " })).toEqual([library[0].canonicalSmiles]);
+    expect(names({ text: "c1ccccc1c" })).toEqual([library[1].canonicalSmiles]);
+  });
+
+  it("narrows by source, project and every tag", () => {
+    expect(names({ source: "gan" })).toEqual([library[1].canonicalSmiles]);
+    expect(names({ project: "p" })).toEqual([library[2], library[0]].map((molecule) => molecule.canonicalSmiles));
+    expect(names({ tags: ["aromatic", "hit"] })).toEqual([library[1].canonicalSmiles]);
+  });
+
+  it("applies the property filter", () => {
+    const filter: FilterCriteria = {
+      mwRange: [0, 500],
+      logpRange: [-10, 10],
+      hbdMax: 20,
+      hbaMax: 20,
+      tpsaRange: [0, 300],
+      lipinskiCompliant: false,
+      qedMin: 0,
+      sasMax: 10,
+    };
+    expect(names({ filter })).toEqual([library[1], library[0]].map((molecule) => molecule.canonicalSmiles));
+  });
+
+  it("orders similarity hits most similar first and drops those under the threshold", () => {
+    expect(names({ similarTo: { smiles: "Oc1ccccc1", threshold: 0 } })[0]).toBe(library[0].canonicalSmiles);
+    expect(names({ similarTo: { smiles: "Oc1ccccc1", threshold: 1 } })).toEqual([library[0].canonicalSmiles]);
+    expect(names({ similarTo: { smiles: "C1CC", threshold: 0 } })).toEqual([]);
+  });
+});
+
+describe("retagRecord", () => {
+  it("adds tags once and removes the ones asked", () => {
+    const molecule = retagRecord(record("CCO", stamp("vae", null, 1)), ["a", "b"], []);
+    expect(retagRecord(molecule, ["b", "c"], ["a"]).tags).toEqual(["b", "c"]);
+  });
+});
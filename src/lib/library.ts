@@ -0,0 +1,248 @@
+import { canonicalSmiles } from "./chem/canonical";
+import { MolecularDescriptors, computeDescriptors, toMoleculeProperties } from "./chem/descriptors";
+import { FilterCriteria, evaluateFilter } from "./chem/filter";
+import { SparseFingerprint, computeFingerprint, fromSparse, toSparse } from "./chem/fingerprints";
+import { DrugLikenessRules, evaluateRules } from "./chem/rules";
+import { tanimoto } from "./chem/similarity";
+import { tryParseSmiles } from "./chem/smiles";
+import { MOLECULES, completion, openDatabase, settle } from "./database";
+
+export type LibrarySource = "vae" | "gan" | "smiles";
+
+export const LIBRARY_SOURCE_LABELS: Record<LibrarySource, string> = {
+  vae: "VAE Generator",
+  gan: "GAN Training",
+  smiles: "SMILES Analyzer",
+};
+
+export interface Provenance {
+  source: LibrarySource;
+  // Shared by every molecule saved from the same generation or analysis run
+  run: string;
+  // Project the molecules were saved into, null outside any project
+  project: string | null;
+  parameters: Record<string, string | number | boolean>;
+  savedAt: number;
+}
+
+export interface LibraryMolecule {
+  // One record per structure; saving it again adds provenance instead of a copy
+  canonicalSmiles: string;
+  smiles: string;
+  name: string | null;
+  descriptors: MolecularDescriptors;
+  rules: DrugLikenessRules;
+  // Morgan radius 2, 2048 bits
+  fingerprint: SparseFingerprint;
+  provenance: Provenance[];
+  // The provenance sources again, flat for the multi-entry index
+  sources: LibrarySource[];
+  projects: string[];
+  tags: string[];
+  addedAt: number;
+}
+
+export interface LibraryEntry {
+  smiles: string;
+  name?: string | null;
+}
+
+export interface LibraryQuery {
+  // Case-insensitive substring of the SMILES, canonical SMILES or name
+  text: string;
+  source: LibrarySource | null;
+  project: string | null;
+  // Molecules must carry every one of these
+  tags: string[];
+  filter: FilterCriteria | null;
+  // Morgan Tanimoto neighbours, most similar first
+  similarTo: { smiles: string; threshold: number } | null;
+}
+
+export interface SaveSummary {
+  added: number;
+  updated: number;
+  // Entries whose SMILES did not parse
+  skipped: number;
+}
+
+export const EMPTY_LIBRARY_QUERY: LibraryQuery = {
+  text: "",
+  source: null,
+  project: null,
+  tags: [],
+  filter: null,
+  similarTo: null,
+};
+
+// Run identifiers sort by time and say where they came from
+export const newRunId = (source: LibrarySource) => `${source}-${Date.now().toString(36)}`;
+
+export type DescribedEntry = Pick<
+  LibraryMolecule,
+  "canonicalSmiles" | "smiles" | "name" | "descriptors" | "rules" | "fingerprint"
+>;
+
+// Everything a record needs that is computed from the structure; null when the SMILES does not parse
+export const describeLibraryEntry = ({ smiles, name = null }: LibraryEntry): DescribedEntry | null => {
+  const { molecule } = tryParseSmiles(smiles);
+  if (!molecule) return null;
+  const descriptors = computeDescriptors(molecule);
+  return {
+    canonicalSmiles: canonicalSmiles(molecule),
+    smiles,
+    name,
+    descriptors,
+    rules: evaluateRules(descriptors),
+    fingerprint: toSparse(computeFingerprint(molecule, "morgan")),
+  };
+};
+
+/**
+ * The record for a described entry saved with this provenance. A structure
+ * already in the library keeps its record and gains the provenance; its name
+ * is only filled in when it had none.
+ */
+export const mergeLibraryRecord = (
+  existing: LibraryMolecule | undefined,
+  entry: DescribedEntry,
+  stamp: Provenance
+): LibraryMolecule =>
+  existing
+    ? {
+        ...existing,
+        name: existing.name ?? entry.name,
+        provenance: [...existing.provenance, stamp],
+        sources: [...new Set([...existing.sources, stamp.source])],
+        projects: [...new Set([...(existing.projects ?? []), ...(stamp.project ? [stamp.project] : [])])],
+      }
+    : {
+        ...entry,
+        provenance: [stamp],
+        sources: [stamp.source],
+        projects: stamp.project ? [stamp.project] : [],
+        tags: [],
+        addedAt: stamp.savedAt,
+      };
+
+// Candidates matching every condition of the query, newest first or most similar first
+export const matchLibraryQuery = (candidates: LibraryMolecule[], query: LibraryQuery): LibraryMolecule[] => {
+  const text = query.text.trim().toLowerCase();
+  const matches = candidates.filter(
+    (molecule) =>
+      (!query.source || molecule.sources.includes(query.source)) &&
+      (!query.project || (molecule.projects ?? []).includes(query.project)) &&
+      (!text ||
+        [molecule.smiles, molecule.canonicalSmiles, molecule.name ?? ""].some((field) =>
+          field.toLowerCase().includes(text)
+        )) &&
+      query.tags.every((tag) => molecule.tags.includes(tag)) &&
+      (!query.filter ||
+        evaluateFilter(query.filter, { properties: toMoleculeProperties(molecule.descriptors), rules: molecule.rules })
+          .passed)
+  );
+
+  if (!query.similarTo) return matches.sort((a, b) => b.addedAt - a.addedAt);
+  const { molecule } = tryParseSmiles(query.similarTo.smiles);
+  if (!molecule) return [];
+  const reference = computeFingerprint(molecule, "morgan");
+  return matches
+    .map((match) => ({ match, score: tanimoto(reference, fromSparse(match.fingerprint)) }))
+    .filter(({ score }) => score >= query.similarTo.threshold)
+    .sort((a, b) => b.score - a.score)
+    .map(({ match }) => match);
+};
+
+export const retagRecord = (molecule: LibraryMolecule, add: string[], remove: string[]): LibraryMolecule => ({
+  ...molecule,
+  tags: [...new Set([...molecule.tags, ...add])].filter((tag) => !remove.includes(tag)),
+});
+
+// Store molecules under their canonical SMILES, merging into records already saved
+export const saveToLibrary = async (
+  entries: LibraryEntry[],
+  provenance: Omit<Provenance, "savedAt">
+): Promise<SaveSummary> => {
+  // Descriptors are computed before the transaction opens, which would otherwise commit while waiting
+  const described = entries.map(describeLibraryEntry);
+  const stamp: Provenance = { ...provenance, savedAt: Date.now() };
+  const db = await openDatabase();
+  const transaction = db.transaction(MOLECULES, "readwrite");
+  const store = transaction.objectStore(MOLECULES);
+  const done = completion(transaction);
+  const summary: SaveSummary = { added: 0, updated: 0, skipped: 0 };
+
+  for (const entry of described) {
+    if (!entry) {
+      summary.skipped++;
+      continue;
+    }
+    const existing: LibraryMolecule | undefined = await settle(store.get(entry.canonicalSmiles));
+    if (existing) summary.updated++;
+    else summary.added++;
+    store.put(mergeLibraryRecord(existing, entry, stamp));
+  }
+
+  await done;
+  return summary;
+};
+
+export const queryLibrary = async (query: LibraryQuery): Promise<LibraryMolecule[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(MOLECULES, "readonly").objectStore(MOLECULES);
+  // The narrower of the two indexed conditions picks the candidates; the other is checked below
+  const candidates: LibraryMolecule[] = await settle(
+    query.project
+      ? store.index("projects").getAll(query.project)
+      : query.source
+        ? store.index("sources").getAll(query.source)
+        : store.getAll()
+  );
+  return matchLibraryQuery(candidates, query);
+};
+
+export const getLibraryMolecule = async (canonical: string): Promise<LibraryMolecule | undefined> => {
+  const db = await openDatabase();
+  return settle(db.transaction(MOLECULES, "readonly").objectStore(MOLECULES).get(canonical));
+};
+
+// Add and remove tags on several molecules at once
+export const retagLibrary = async (keys: string[], add: string[], remove: string[] = []) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MOLECULES, "readwrite");
+  const store = transaction.objectStore(MOLECULES);
+  const done = completion(transaction);
+  for (const key of keys) {
+    const molecule: LibraryMolecule | undefined = await settle(store.get(key));
+    if (!molecule) continue;
+    store.put(retagRecord(molecule, add, remove));
+  }
+  await done;
+};
+
+export const removeFromLibrary = async (keys: string[]) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MOLECULES, "readwrite");
+  const store = transaction.objectStore(MOLECULES);
+  const done = completion(transaction);
+  for (const key of keys) store.delete(key);
+  await done;
+};
+
+// Every tag in use, read as the distinct keys of the tag index
+export const libraryTags = async () => {
+  const db = await openDatabase();
+  const cursor = db.transaction(MOLECULES, "readonly").objectStore(MOLECULES).index("tags").openKeyCursor(null, "nextunique");
+  return new Promise<string[]>((resolve, reject) => {
+    const tags: string[] = [];
+    cursor.onsuccess = () => {
+      if (!cursor.result) return resolve(tags);
+      tags.push(String(cursor.result.key));
+      cursor.result.continue();
+    };
+    cursor.onerror = () => reject(cursor.error);
+  });
+};
+
+export const describeSave = ({ added, updated, skipped }: SaveSummary) =>
+  [`${added} added`, `${updated} already in the library`, ...(skipped ? [`${skipped} unparseable skipped`] : [])].join(", ");
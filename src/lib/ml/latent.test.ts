@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { MAX_TSNE_POINTS, exploreLatentSpace, lerp, pca, slerp, tsne } from "./latent";
+import { Random } from "./tensor";
+import { prepareTrainingSet, startVAETraining } from "./vae";
+
+const vector = (...values: number[]) => Float32Array.from(values);
+
+const norm = (values: Float32Array) => Math.hypot(...values);
+
+describe("interpolation", () => {
+  const a = vector(1, 0, 0);
+  const b = vector(0, 1, 0);
+
+  it("starts and ends at the two vectors", () => {
+    for (const step of [lerp, slerp]) {
+      expect(Array.from(step(a, b, 0))).toEqual([1, 0, 0]);
+      expect(Array.from(step(a, b, 1)).map((value) => Math.round(value * 1e6) / 1e6)).toEqual([0, 1, 0]);
+    }
+  });
+
+  it("cuts through the middle linearly and keeps the norm spherically", () => {
+    expect(norm(lerp(a, b, 0.5))).toBeCloseTo(Math.SQRT1_2, 5);
+    expect(norm(slerp(a, b, 0.5))).toBeCloseTo(1, 5);
+    expect(norm(slerp(a, b, 0.25))).toBeCloseTo(1, 5);
+  });
+
+  it("falls back to linear for parallel vectors", () => {
+    expect(slerp(a, vector(3, 0, 0), 0.5)).toEqual(lerp(a, vector(3, 0, 0), 0.5));
+  });
+});
+
+describe("pca", () => {
+  it("puts the direction of most variance first", () => {
+    // Spread along (1, 1, 0), with a little noise along (1, -1, 0)
+    const points = [-3, -1, 0, 1, 3].map((t, k) => vector(t + 0.1 * (k % 2), t - 0.1 * (k % 2), 5));
+    const coordinates = pca(points, new Random(1));
+    const first = coordinates.map(([x]) => Math.abs(x));
+    expect(first[0]).toBeCloseTo(3 * Math.SQRT2, 1);
+    expect(first[2]).toBeCloseTo(0, 1);
+    for (const [, y] of coordinates) expect(Math.abs(y)).toBeLessThan(0.15);
+  });
+});
+
+describe("tsne", () => {
+  it("keeps two separate clusters apart", () => {
+    const random = new Random(2);
+    const cluster = (center: number) =>
+      Array.from({ length: 10 }, () => vector(center + random.gaussian() * 0.1, center + random.gaussian() * 0.1));
+    const map = tsne([...cluster(0), ...cluster(10)], new Random(3));
+    const distance = (i: number, j: number) => Math.hypot(map[i][0] - map[j][0], map[i][1] - map[j][1]);
+    for (let i = 0; i < 20; i++) {
+      const nearest = map
+        .map((_, j) => j)
+        .filter((j) => j !== i)
+        .sort((j, k) => distance(i, j) - distance(i, k))[0];
+      expect(nearest < 10).toBe(i < 10);
+    }
+  });
+
+  it("lays out fewer than three points on a line and refuses too many", () => {
+    expect(tsne([vector(0), vector(1)], new Random(1))).toEqual([
+      [0, 0],
+      [1, 0],
+    ]);
+    const many = Array.from({ length: MAX_TSNE_POINTS + 1 }, () => vector(0));
+    expect(() => tsne(many, new Random(1))).toThrow("use PCA");
+  });
+});
+
+describe("exploreLatentSpace", () => {
+  const { molecules } = prepareTrainingSet(["CCO", "CCN", "c1ccccc1", "CC(=O)O", "CCCl"]);
+  const { model } = startVAETraining(
+    molecules,
+    { latentDimensions: 4, encoderLayers: 1, decoderLayers: 1, hiddenSize: 8, dropout: 0, maxTokens: 12 },
+    { learningRate: 0.01, betaKL: 1, epochs: 1 },
+    5
+  );
+
+  it("decodes evenly spaced points along a path", () => {
+    const result = exploreLatentSpace(
+      model,
+      { kind: "interpolate", from: "CCO", to: "c1ccccc1", steps: 5, mode: "spherical" },
+      new Random(1)
+    );
+    if (result.kind !== "interpolate") throw new Error(result.kind);
+    expect(result.path.map((point) => point.position)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+  });
+
+  it("keeps each neighbour once, nearest first", () => {
+    const task = { kind: "neighborhood" as const, seed: "CCO", count: 40, radius: 2 };
+    const result = exploreLatentSpace(model, task, new Random(1));
+    if (result.kind !== "neighborhood") throw new Error(result.kind);
+    expect(result.sampled).toBe(40);
+    const positions = result.neighbors.map((point) => point.position);
+    expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    expect(new Set(result.neighbors.map((point) => point.smiles)).size).toBe(result.neighbors.length);
+  });
+
+  it("maps the molecules it can encode and leaves the rest out", () => {
+    const task = { kind: "project" as const, smiles: ["CCO", "CCBr", "CCN"], method: "pca" as const };
+    const result = exploreLatentSpace(model, task, new Random(1));
+    if (result.kind !== "project") throw new Error(result.kind);
+    expect(result.points.map((point) => point && point.length)).toEqual([2, null, 2]);
+    expect(() =>
+      exploreLatentSpace(model, { kind: "project", smiles: ["CCBr"], method: "pca" }, new Random(1))
+    ).toThrow("None of the molecules");
+    expect(() =>
+      exploreLatentSpace(model, { kind: "neighborhood", seed: "C1CC", count: 1, radius: 1 }, new Random(1))
+    ).toThrow("C1CC cannot be encoded");
+  });
+});
@@ -0,0 +1,275 @@
+import { validateDecoded } from "./sampling";
+import { Random, Tensor } from "./tensor";
+import { SmilesVAE, decodeLatents, encodeMolecules } from "./vae";
+
+// Walks through a trained VAE's latent space: paths between two molecules,
+// the neighbourhood of one, and a 2D map of many
+
+export type InterpolationMode = "linear" | "spherical";
+
+export type ProjectionMethod = "pca" | "tsne";
+
+export const INTERPOLATION_LABELS: Record<InterpolationMode, string> = {
+  linear: "Linear (lerp)",
+  spherical: "Spherical (slerp)",
+};
+
+export const PROJECTION_LABELS: Record<ProjectionMethod, string> = {
+  pca: "PCA",
+  tsne: "t-SNE",
+};
+
+// t-SNE compares every pair of points, so it stops being interactive past this many
+export const MAX_TSNE_POINTS = 2000;
+
+export type LatentTask =
+  | { kind: "interpolate"; from: string; to: string; steps: number; mode: InterpolationMode }
+  | { kind: "neighborhood"; seed: string; count: number; radius: number }
+  | { kind: "project"; smiles: string[]; method: ProjectionMethod };
+
+export interface DecodedPoint {
+  // Canonical SMILES of the decoded structure, null when it did not parse even after repair
+  smiles: string | null;
+  decoded: string;
+  // Position along an interpolation path from 0 to 1, or Euclidean distance from a neighbourhood's seed
+  position: number;
+}
+
+export type LatentResult =
+  | { kind: "interpolate"; path: DecodedPoint[] }
+  | { kind: "neighborhood"; neighbors: DecodedPoint[]; sampled: number }
+  // One point per input SMILES, null for those the model cannot encode
+  | { kind: "project"; points: ([number, number] | null)[] };
+
+export const lerp = (a: Float32Array, b: Float32Array, t: number) => a.map((value, k) => value + t * (b[k] - value));
+
+/**
+ * Spherical interpolation, which keeps intermediate points at a norm typical
+ * of the Gaussian prior instead of cutting through the low-density middle.
+ * Falls back to linear when the two vectors are nearly parallel.
+ */
+export const slerp = (a: Float32Array, b: Float32Array, t: number) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let k = 0; k < a.length; k++) {
+    dot += a[k] * b[k];
+    normA += a[k] * a[k];
+    normB += b[k] * b[k];
+  }
+  const omega = Math.acos(Math.min(1, Math.max(-1, dot / Math.sqrt(normA * normB || 1))));
+  if (Math.sin(omega) < 1e-6) return lerp(a, b, t);
+  const wa = Math.sin((1 - t) * omega) / Math.sin(omega);
+  const wb = Math.sin(t * omega) / Math.sin(omega);
+  return a.map((value, k) => wa * value + wb * b[k]);
+};
+
+const stack = (rows: Float32Array[]) => {
+  const latents = new Tensor(rows.length, rows[0].length);
+  rows.forEach((row, k) => latents.data.set(row, k * row.length));
+  return latents;
+};
+
+const encodeOne = (model: SmilesVAE, smiles: string) => {
+  const [latent] = encodeMolecules(model, [smiles]);
+  if (!latent) throw new Error(`${smiles} cannot be encoded: it does not parse, is too long or uses a token the model never saw`);
+  return latent;
+};
+
+// Greedy decoding, so each point of the latent space reads as the one structure the decoder prefers there
+const decodePoints = (model: SmilesVAE, latents: Float32Array[], positions: number[], random: Random): DecodedPoint[] =>
+  decodeLatents(model, stack(latents), 0, random).map((sequence, k) => {
+    const decoded = sequence.tokens.join("");
+    return { smiles: (sequence.finished && validateDecoded(decoded)?.smiles) || null, decoded, position: positions[k] };
+  });
+
+const interpolate = (model: SmilesVAE, task: Extract<LatentTask, { kind: "interpolate" }>, random: Random) => {
+  const from = encodeOne(model, task.from);
+  const to = encodeOne(model, task.to);
+  const positions = Array.from({ length: task.steps }, (_, k) => k / Math.max(1, task.steps - 1));
+  const step = task.mode === "spherical" ? slerp : lerp;
+  return decodePoints(model, positions.map((t) => step(from, to, t)), positions, random);
+};
+
+// Gaussian draws around the seed's latent mean, decoded; each distinct structure is kept once, at its nearest draw
+const neighborhood = (model: SmilesVAE, task: Extract<LatentTask, { kind: "neighborhood" }>, random: Random) => {
+  const seed = encodeOne(model, task.seed);
+  const latents = Array.from({ length: task.count }, () => seed.map((value) => value + task.radius * random.gaussian()));
+  const distances = latents.map((latent) => Math.hypot(...latent.map((value, k) => value - seed[k])));
+  const nearest = new Map<string, DecodedPoint>();
+  for (const point of decodePoints(model, latents, distances, random)) {
+    if (!point.smiles) continue;
+    const known = nearest.get(point.smiles);
+    if (!known || point.position < known.position) nearest.set(point.smiles, point);
+  }
+  return [...nearest.values()].sort((a, b) => a.position - b.position);
+};
+
+/**
+ * The two leading principal components by power iteration on the covariance
+ * matrix, deflating after the first.
+ */
+export const pca = (points: Float32Array[], random: Random): [number, number][] => {
+  const dimensions = points[0].length;
+  const mean = new Float64Array(dimensions);
+  for (const point of points) point.forEach((value, k) => (mean[k] += value / points.length));
+  const centered = points.map((point) => Float64Array.from(point, (value, k) => value - mean[k]));
+  const covariance = Array.from({ length: dimensions }, () => new Float64Array(dimensions));
+  for (const point of centered) {
+    for (let i = 0; i < dimensions; i++) for (let j = 0; j < dimensions; j++) covariance[i][j] += point[i] * point[j];
+  }
+
+  const components: Float64Array[] = [];
+  for (let c = 0; c < 2; c++) {
+    let vector = Float64Array.from({ length: dimensions }, () => random.gaussian());
+    for (let iteration = 0; iteration < 100; iteration++) {
+      const next = Float64Array.from(covariance, (row) => row.reduce((sum, value, k) => sum + value * vector[k], 0));
+      for (const previous of components) {
+        const overlap = next.reduce((sum, value, k) => sum + value * previous[k], 0);
+        previous.forEach((value, k) => (next[k] -= overlap * value));
+      }
+      const norm = Math.hypot(...next) || 1;
+      vector = next.map((value) => value / norm);
+    }
+    components.push(vector);
+  }
+  return centered.map((point) => {
+    const [x, y] = components.map((component) => point.reduce((sum, value, k) => sum + value * component[k], 0));
+    return [x, y];
+  });
+};
+
+const TSNE_ITERATIONS = 500;
+const EXAGGERATION_ITERATIONS = 100;
+
+// Row-normalized Gaussian affinities, each row's width found by bisection to match the perplexity
+const affinities = (points: Float32Array[], perplexity: number) => {
+  const n = points.length;
+  const distances = new Float32Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      let sum = 0;
+      for (let k = 0; k < points[i].length; k++) sum += (points[i][k] - points[j][k]) ** 2;
+      distances[i * n + j] = distances[j * n + i] = sum;
+    }
+  }
+  const target = Math.log(perplexity);
+  const p = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    let beta = 1;
+    let low = 0;
+    let high = Infinity;
+    for (let attempt = 0; attempt < 50; attempt++) {
+      let sum = 0;
+      let weighted = 0;
+      for (let j = 0; j < n; j++) {
+        if (j === i) continue;
+        const value = Math.exp(-beta * distances[i * n + j]);
+        p[i * n + j] = value;
+        sum += value;
+        weighted += value * distances[i * n + j];
+      }
+      sum ||= 1e-12;
+      const entropy = Math.log(sum) + (beta * weighted) / sum;
+      for (let j = 0; j < n; j++) p[i * n + j] /= sum;
+      if (Math.abs(entropy - target) < 1e-5) break;
+      if (entropy > target) {
+        low = beta;
+        beta = high === Infinity ? beta * 2 : (beta + high) / 2;
+      } else {
+        high = beta;
+        beta = (beta + low) / 2;
+      }
+    }
+  }
+  // Symmetrized joint probabilities
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const joint = Math.max((p[i * n + j] + p[j * n + i]) / (2 * n), 1e-12);
+      p[i * n + j] = p[j * n + i] = joint;
+    }
+  }
+  return p;
+};
+
+/**
+ * Exact t-SNE (van der Maaten and Hinton) with early exaggeration, momentum
+ * and per-coordinate gains. Quadratic in the number of points.
+ */
+export const tsne = (
+  points: Float32Array[],
+  random: Random,
+  onProgress?: (done: number, total: number) => void
+): [number, number][] => {
+  const n = points.length;
+  if (n > MAX_TSNE_POINTS) throw new Error(`t-SNE maps up to ${MAX_TSNE_POINTS} molecules; use PCA for ${n}`);
+  if (n < 3) return points.map((_, k) => [k, 0]);
+  const p = affinities(points, Math.min(30, (n - 1) / 3));
+  const y = Float64Array.from({ length: 2 * n }, () => random.gaussian() * 1e-4);
+  const velocity = new Float64Array(2 * n);
+  const gains = new Float64Array(2 * n).fill(1);
+  const q = new Float32Array(n * n);
+  const learningRate = Math.max(n / 12, 50);
+
+  for (let iteration = 0; iteration < TSNE_ITERATIONS; iteration++) {
+    const exaggeration = iteration < EXAGGERATION_ITERATIONS ? 12 : 1;
+    const momentum = iteration < EXAGGERATION_ITERATIONS ? 0.5 : 0.8;
+    // Student-t kernel between the current map positions
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = y[2 * i] - y[2 * j];
+        const dy = y[2 * i + 1] - y[2 * j + 1];
+        const kernel = 1 / (1 + dx * dx + dy * dy);
+        q[i * n + j] = q[j * n + i] = kernel;
+        total += 2 * kernel;
+      }
+    }
+    for (let i = 0; i < n; i++) {
+      let gx = 0;
+      let gy = 0;
+      for (let j = 0; j < n; j++) {
+        if (j === i) continue;
+        const kernel = q[i * n + j];
+        const force = (exaggeration * p[i * n + j] - kernel / total) * kernel;
+        gx += 4 * force * (y[2 * i] - y[2 * j]);
+        gy += 4 * force * (y[2 * i + 1] - y[2 * j + 1]);
+      }
+      [gx, gy].forEach((gradient, axis) => {
+        const k = 2 * i + axis;
+        gains[k] = Math.max(0.01, Math.sign(gradient) !== Math.sign(velocity[k]) ? gains[k] + 0.2 : gains[k] * 0.8);
+        velocity[k] = momentum * velocity[k] - learningRate * gains[k] * gradient;
+      });
+    }
+    for (let k = 0; k < 2 * n; k++) y[k] += velocity[k];
+    if (iteration % 25 === 24) onProgress?.(iteration + 1, TSNE_ITERATIONS);
+  }
+  return points.map((_, i) => [y[2 * i], y[2 * i + 1]]);
+};
+
+const project = (
+  model: SmilesVAE,
+  task: Extract<LatentTask, { kind: "project" }>,
+  random: Random,
+  onProgress?: (done: number, total: number) => void
+) => {
+  const latents = encodeMolecules(model, task.smiles);
+  const encoded = latents.filter((latent): latent is Float32Array => latent !== null);
+  if (encoded.length === 0) throw new Error("None of the molecules can be encoded by this model");
+  const coordinates = task.method === "tsne" ? tsne(encoded, random, onProgress) : pca(encoded, random);
+  let next = 0;
+  return latents.map((latent) => (latent ? coordinates[next++] : null));
+};
+
+export const exploreLatentSpace = (
+  model: SmilesVAE,
+  task: LatentTask,
+  random: Random,
+  onProgress?: (done: number, total: number) => void
+): LatentResult => {
+  if (task.kind === "interpolate") return { kind: "interpolate", path: interpolate(model, task, random) };
+  if (task.kind === "neighborhood") {
+    return { kind: "neighborhood", neighbors: neighborhood(model, task, random), sampled: task.count };
+  }
+  return { kind: "project", points: project(model, task, random, onProgress) };
+};
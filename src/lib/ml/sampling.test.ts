@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  GenerationOptions,
+  MAX_GENERATION_BATCH,
+  generateMolecules,
+  generationRates,
+  generationSettings,
+  repairSmiles,
+  validateDecoded,
+} from "./sampling";
+import { Random } from "./tensor";
+import { prepareTrainingSet, startVAETraining, trainVAEBatch } from "./vae";
+
+describe("validateDecoded", () => {
+  it("returns canonical SMILES for valid and repairable strings", () => {
+    expect(validateDecoded("OCC")).toEqual({ smiles: "CCO", repaired: false });
+    expect(validateDecoded("CCO(")?.repaired).toBe(true);
+  });
+
+  it("rejects over-valent and unkekulizable structures", () => {
+    for (const decoded of ["CCClCClCNC#N", "CClC", "c1cccc1"]) {
+      expect(validateDecoded(decoded), decoded).toBeNull();
+    }
+  });
+});
+
+describe("repairSmiles", () => {
+  it("drops unclosed rings, dangling bonds and empty branches", () => {
+    expect(repairSmiles("C1CC=")).toBe("CCC");
+    expect(repairSmiles("CC()O")).toBe("CCO");
+    expect(repairSmiles("CC(C")).toBe("CC(C)");
+  });
+});
+
+describe("generationSettings", () => {
+  it("clamps the batch size and diversity weight and fills in defaults", () => {
+    expect(generationSettings({})).toEqual(DEFAULT_GENERATION_OPTIONS);
+    expect(generationSettings({ batchSize: 1000, diversityWeight: 2, temperature: -1 })).toMatchObject({
+      batchSize: MAX_GENERATION_BATCH,
+      diversityWeight: 1,
+      temperature: 0,
+    });
+    expect(generationSettings({ batchSize: 0.2 }).batchSize).toBe(1);
+  });
+});
+
+describe("generationRates", () => {
+  it("divides each count by the one before it", () => {
+    expect(generationRates({ sampled: 40, valid: 20, repaired: 3, unique: 10, novel: 5, accepted: 4 })).toEqual({
+      validity: 0.5,
+      uniqueness: 0.5,
+      novelty: 0.5,
+    });
+    expect(generationRates({ sampled: 0, valid: 0, repaired: 0, unique: 0, novel: 0, accepted: 0 })).toEqual({
+      validity: 0,
+      uniqueness: 0,
+      novelty: 0,
+    });
+  });
+});
+
+describe("generateMolecules", () => {
+  const { molecules: training } = prepareTrainingSet(
+    (
+      "C CC CCC CCO CCN CCCl CC(=O)O CC(C)O c1ccccc1 c1ccccc1O c1ccccc1N c1ccccc1C c1ccncc1 C1CCCCC1 C1CCNCC1 " +
+      "CC(=O)N OCCO NCCN CC#N C=CC CCOC COC CCCC CCCCO CC(C)C c1ccc(Cl)cc1 O=C(O)c1ccccc1 CCOC(C)=O CN(C)C C1CCOC1"
+    ).split(" ")
+  );
+  const run = startVAETraining(
+    training,
+    { latentDimensions: 4, encoderLayers: 1, decoderLayers: 1, hiddenSize: 16, dropout: 0, maxTokens: 20 },
+    { learningRate: 0.01, betaKL: 0.1, epochs: 30 },
+    7
+  );
+  while (run.epoch < 30) trainVAEBatch(run);
+
+  const options: GenerationOptions = { temperature: 1, batchSize: 5, diversityWeight: 0.5, noveltyThreshold: 0.7 };
+
+  it("returns novel, distinct molecules and counts what it threw away", () => {
+    const progress: number[] = [];
+    const { molecules, stats } = generateMolecules(run.model, training, options, new Random(1), (sampled) =>
+      progress.push(sampled)
+    );
+    expect(molecules.length).toBeGreaterThan(0);
+    expect(molecules.length).toBeLessThanOrEqual(options.batchSize);
+    expect(new Set(molecules.map((molecule) => molecule.smiles)).size).toBe(molecules.length);
+    for (const molecule of molecules) {
+      expect(training).not.toContain(molecule.smiles);
+      expect(validateDecoded(molecule.smiles)).toEqual({ smiles: molecule.smiles, repaired: false });
+      expect(molecule.trainingSimilarity).toBeLessThan(options.noveltyThreshold);
+    }
+    expect(stats.sampled).toBeLessThanOrEqual(options.batchSize * 20);
+    expect(stats.valid).toBeLessThanOrEqual(stats.sampled);
+    expect(stats.unique).toBeLessThanOrEqual(stats.valid);
+    expect(stats.novel).toBeLessThanOrEqual(stats.unique);
+    expect(stats.accepted).toBeLessThanOrEqual(stats.novel);
+    expect(progress[progress.length - 1]).toBe(stats.sampled);
+  });
+
+  it("repeats a batch from the same seed", () => {
+    expect(generateMolecules(run.model, training, options, new Random(2))).toEqual(
+      generateMolecules(run.model, training, options, new Random(2))
+    );
+  });
+});
@@ -0,0 +1,249 @@
+import { canonicalSmiles } from "../chem/canonical";
+import { computeFingerprint, onBits } from "../chem/fingerprints";
+import { tryParseSmiles } from "../chem/smiles";
+import { Random, Tensor } from "./tensor";
+import { tokenizeSmiles } from "./tokens";
+import { SmilesVAE, decodeLatents } from "./vae";
+
+// Molecule generation from a trained VAE: latent vectors drawn from the prior
+// are decoded, checked with the SMILES parser, compared with the training set
+// and narrowed down to a batch
+
+export interface GenerationOptions {
+  // Softmax temperature of the decoder's token choices
+  temperature: number;
+  // Molecules wanted
+  batchSize: number;
+  // 0 picks the molecules the decoder finds likeliest, 1 the ones least alike
+  diversityWeight: number;
+  // Molecules at least this Tanimoto-similar to a training molecule are rejected as near copies
+  noveltyThreshold: number;
+}
+
+export interface GeneratedSample {
+  // Canonical form of the decoded structure
+  smiles: string;
+  // What the decoder wrote, before any repair
+  decoded: string;
+  repaired: boolean;
+  // Mean log-probability per token under the decoder
+  logLikelihood: number;
+  // Morgan Tanimoto similarity to the closest training molecule
+  trainingSimilarity: number;
+}
+
+export interface GenerationStats {
+  sampled: number;
+  // Parsed as written or after repair
+  valid: number;
+  repaired: number;
+  // Distinct structures among the valid ones
+  unique: number;
+  // Distinct structures not in the training set
+  novel: number;
+  // Novel structures under the novelty threshold, the pool the batch is chosen from
+  accepted: number;
+}
+
+export interface GenerationResult {
+  molecules: GeneratedSample[];
+  stats: GenerationStats;
+}
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  temperature: 0.8,
+  batchSize: 10,
+  diversityWeight: 0.5,
+  noveltyThreshold: 0.7,
+};
+
+export const MAX_GENERATION_BATCH = 100;
+
+// Generation settings out of a flat parameter record, such as a job's, with defaults for anything missing
+export const generationSettings = (parameters: Partial<Record<string, number>>): GenerationOptions => ({
+  temperature: Math.max(0, parameters.temperature ?? DEFAULT_GENERATION_OPTIONS.temperature),
+  batchSize: Math.min(
+    MAX_GENERATION_BATCH,
+    Math.max(1, Math.round(parameters.batchSize ?? DEFAULT_GENERATION_OPTIONS.batchSize))
+  ),
+  diversityWeight: Math.min(1, Math.max(0, parameters.diversityWeight ?? DEFAULT_GENERATION_OPTIONS.diversityWeight)),
+  noveltyThreshold: parameters.noveltyThreshold ?? DEFAULT_GENERATION_OPTIONS.noveltyThreshold,
+});
+
+// Latent vectors decoded at a time
+const ROUND_SIZE = 32;
+// The pool holds this many times the batch before choosing, so the diversity weight has room to act
+const POOL_FACTOR = 3;
+// Sampling gives up after this many draws per molecule wanted
+const SAMPLE_LIMIT_FACTOR = 20;
+
+// Validity over everything sampled, uniqueness over the valid molecules and novelty over the unique ones
+export const generationRates = ({ sampled, valid, unique, novel }: GenerationStats) => ({
+  validity: sampled ? valid / sampled : 0,
+  uniqueness: valid ? unique / valid : 0,
+  novelty: unique ? novel / unique : 0,
+});
+
+const BOND = /^[=#\-\\/:~$.]$/;
+const RING_LABEL = /^(\d|%\d{2})$/;
+
+/**
+ * Mend the usual ways a decoded SMILES goes wrong: a dangling bond or branch
+ * at the end, ring closures that are never closed, and unbalanced or empty
+ * parentheses. The result still has to pass the parser.
+ */
+export const repairSmiles = (smiles: string) => {
+  const tokens = tokenizeSmiles(smiles) ?? [];
+  while (tokens.length > 0 && (BOND.test(tokens[tokens.length - 1]) || tokens[tokens.length - 1] === "(")) tokens.pop();
+
+  // A ring label seen an odd number of times leaves its last opening unmatched
+  const open = new Map<string, number>();
+  tokens.forEach((token, position) => {
+    if (!RING_LABEL.test(token)) return;
+    if (open.has(token)) open.delete(token);
+    else open.set(token, position);
+  });
+  const dropped = new Set<number>();
+  for (const position of open.values()) {
+    dropped.add(position);
+    if (position > 0 && BOND.test(tokens[position - 1])) dropped.add(position - 1);
+  }
+
+  const repaired: string[] = [];
+  let depth = 0;
+  tokens.forEach((token, position) => {
+    if (dropped.has(position)) return;
+    if (token === ")") {
+      if (depth === 0) return;
+      depth--;
+      // Empty branches and branches ending on a bond lose what they opened with
+      while (BOND.test(repaired[repaired.length - 1])) repaired.pop();
+      if (repaired[repaired.length - 1] === "(") {
+        repaired.pop();
+        return;
+      }
+    }
+    if (token === "(") depth++;
+    repaired.push(token);
+  });
+  return repaired.join("") + ")".repeat(depth);
+};
+
+// Morgan on-bits, sorted, for fast pairwise Tanimoto
+const fingerprintBits = (smiles: string) => {
+  const { molecule } = tryParseSmiles(smiles);
+  return molecule ? onBits(computeFingerprint(molecule, "morgan")) : [];
+};
+
+const tanimotoBits = (a: number[], b: number[]) => {
+  let shared = 0;
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      shared++;
+      i++;
+      j++;
+    } else if (a[i] < b[j]) i++;
+    else j++;
+  }
+  const union = a.length + b.length - shared;
+  return union ? shared / union : 0;
+};
+
+/**
+ * Canonical SMILES of a decoded string, repaired if it does not parse as
+ * written; null when neither parses. The canonical form has to parse back too,
+ * so nothing is counted or saved that the rest of the app would reject.
+ */
+export const validateDecoded = (decoded: string) => {
+  for (const candidate of [decoded, repairSmiles(decoded)]) {
+    if (!candidate) continue;
+    const { molecule } = tryParseSmiles(candidate);
+    if (!molecule) continue;
+    const smiles = canonicalSmiles(molecule);
+    if (tryParseSmiles(smiles).molecule) return { smiles, repaired: candidate !== decoded };
+  }
+  return null;
+};
+
+const sampleLatents = (count: number, dimensions: number, random: Random) => {
+  const latents = new Tensor(count, dimensions);
+  for (let k = 0; k < latents.data.length; k++) latents.data[k] = random.gaussian();
+  return latents;
+};
+
+/**
+ * Greedy choice balancing likelihood against spread: each pick maximizes a
+ * mix of the candidate's likelihood rank and its distance from the molecules
+ * already picked.
+ */
+const chooseBatch = (pool: (GeneratedSample & { bits: number[] })[], count: number, diversityWeight: number) => {
+  const ranked = [...pool].sort((a, b) => b.logLikelihood - a.logLikelihood);
+  const quality = ranked.map((_, rank) => 1 - rank / Math.max(1, ranked.length - 1));
+  const nearest = ranked.map(() => 0);
+  const chosen: number[] = [];
+  while (chosen.length < Math.min(count, ranked.length)) {
+    let best = -1;
+    let bestScore = -Infinity;
+    ranked.forEach((_, k) => {
+      if (chosen.includes(k)) return;
+      const score = (1 - diversityWeight) * quality[k] + diversityWeight * (1 - nearest[k]);
+      if (score > bestScore) {
+        best = k;
+        bestScore = score;
+      }
+    });
+    chosen.push(best);
+    ranked.forEach((candidate, k) => (nearest[k] = Math.max(nearest[k], tanimotoBits(candidate.bits, ranked[best].bits))));
+  }
+  return chosen.map((k) => {
+    const { bits, ...sample } = ranked[k];
+    return sample;
+  });
+};
+
+/**
+ * Sample a batch of molecules. Draws continue until the pool of valid,
+ * distinct, novel structures is large enough to choose from, or the sampling
+ * budget is spent; the batch can come out smaller than asked for when the
+ * model rarely writes anything acceptable.
+ */
+export const generateMolecules = (
+  model: SmilesVAE,
+  trainingMolecules: string[],
+  options: GenerationOptions,
+  random: Random,
+  onProgress?: (sampled: number, limit: number) => void
+): GenerationResult => {
+  const training = new Set(trainingMolecules);
+  const trainingBits = trainingMolecules.map(fingerprintBits);
+  const stats: GenerationStats = { sampled: 0, valid: 0, repaired: 0, unique: 0, novel: 0, accepted: 0 };
+  const seen = new Set<string>();
+  const pool: (GeneratedSample & { bits: number[] })[] = [];
+  const limit = options.batchSize * SAMPLE_LIMIT_FACTOR;
+
+  while (pool.length < options.batchSize * POOL_FACTOR && stats.sampled < limit) {
+    const count = Math.min(ROUND_SIZE, limit - stats.sampled);
+    const latents = sampleLatents(count, model.config.latentDimensions, random);
+    for (const sequence of decodeLatents(model, latents, options.temperature, random)) {
+      stats.sampled++;
+      const decoded = sequence.tokens.join("");
+      const valid = sequence.finished ? validateDecoded(decoded) : null;
+      if (!valid) continue;
+      stats.valid++;
+      if (valid.repaired) stats.repaired++;
+      if (seen.has(valid.smiles)) continue;
+      seen.add(valid.smiles);
+      stats.unique++;
+      if (training.has(valid.smiles)) continue;
+      stats.novel++;
+      const bits = fingerprintBits(valid.smiles);
+      const trainingSimilarity = trainingBits.reduce((best, other) => Math.max(best, tanimotoBits(bits, other)), 0);
+      if (trainingSimilarity >= options.noveltyThreshold) continue;
+      pool.push({ ...valid, decoded, logLikelihood: sequence.logLikelihood, trainingSimilarity, bits });
+    }
+    onProgress?.(stats.sampled, limit);
+  }
+
+  stats.accepted = pool.length;
+  return { molecules: chooseBatch(pool, options.batchSize, options.diversityWeight), stats };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { Adam, Graph, Random, Tensor, parameter } from "./tensor";
+
+describe("Random", () => {
+  it("repeats its stream from the same state", () => {
+    const a = new Random(42);
+    const draws = Array.from({ length: 5 }, () => a.next());
+    const b = new Random(42);
+    expect(Array.from({ length: 5 }, () => b.next())).toEqual(draws);
+    const resumed = new Random(new Random(42).state);
+    expect(resumed.next()).toBe(draws[0]);
+    expect(draws.every((draw) => draw >= 0 && draw < 1)).toBe(true);
+  });
+
+  it("draws standard normal values", () => {
+    const random = new Random(1);
+    const draws = Array.from({ length: 20000 }, () => random.gaussian());
+    const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+    const variance = draws.reduce((sum, x) => sum + (x - mean) ** 2, 0) / draws.length;
+    expect(mean).toBeCloseTo(0, 1);
+    expect(variance).toBeCloseTo(1, 1);
+  });
+
+  it("shuffles into a permutation", () => {
+    const shuffled = new Random(3).shuffle(Array.from({ length: 50 }, (_, k) => k));
+    expect(shuffled).not.toEqual(Array.from({ length: 50 }, (_, k) => k));
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(Array.from({ length: 50 }, (_, k) => k));
+  });
+});
+
+describe("Graph", () => {
+  const targets = [2, 0, -1];
+
+  // Cross-entropy of tanh(x·w + b) and KL of the same activations, as the VAE combines them
+  const loss = (g: Graph, x: Tensor, w: Tensor, b: Tensor) => {
+    const hidden = g.tanh(g.bias(g.matmul(x, w), b));
+    return g.combine([
+      [g.crossEntropy(hidden, targets).loss, 1],
+      [g.klDivergence(hidden, g.sigmoid(hidden)), 0.5],
+    ]);
+  };
+
+  it("matches finite differences", () => {
+    const random = new Random(5);
+    const x = parameter(3, 4, random);
+    const w = parameter(4, 3, random);
+    const b = parameter(1, 3, random);
+    const g = new Graph(true, random);
+    g.backward(loss(g, x, w, b));
+
+    const epsilon = 1e-2;
+    for (const tensor of [x, w, b]) {
+      for (let k = 0; k < tensor.data.length; k++) {
+        const value = tensor.data[k];
+        tensor.data[k] = value + epsilon;
+        const up = loss(new Graph(false, random), x, w, b).data[0];
+        tensor.data[k] = value - epsilon;
+        const down = loss(new Graph(false, random), x, w, b).data[0];
+        tensor.data[k] = value;
+        expect(tensor.grad[k]).toBeCloseTo((up - down) / (2 * epsilon), 2);
+      }
+    }
+  });
+
+  it("records nothing for inference", () => {
+    const random = new Random(5);
+    const x = parameter(3, 4, random);
+    const result = loss(new Graph(false, random), x, parameter(4, 3, random), parameter(1, 3, null));
+    expect(result.grad).toBeNull();
+    expect(x.grad.every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe("Adam", () => {
+  it("lowers the loss and clears gradients after each step", () => {
+    const random = new Random(9);
+    const logits = parameter(2, 4, random);
+    const optimizer = new Adam([logits], 0.1);
+    const step = () => {
+      const g = new Graph(true, random);
+      const { loss } = g.crossEntropy(logits, [1, 3]);
+      g.backward(loss);
+      optimizer.step();
+      return loss.data[0];
+    };
+    const first = step();
+    for (let k = 0; k < 50; k++) step();
+    expect(step()).toBeLessThan(first / 10);
+    expect(logits.grad.every((value) => value === 0)).toBe(true);
+  });
+});
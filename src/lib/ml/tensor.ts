@@ -0,0 +1,381 @@
+// Row-major float32 matrices with reverse-mode gradients: the small CPU backend
+// the SMILES VAE trains on, in the browser and in the local server alike
+
+export class Tensor {
+  // Null for values that need no gradient, such as everything in an inference pass
+  grad: Float32Array | null = null;
+
+  constructor(
+    readonly rows: number,
+    readonly cols: number,
+    readonly data: Float32Array = new Float32Array(rows * cols)
+  ) {}
+}
+
+/**
+ * Seeded generator (mulberry32). Its whole state is one integer, so a
+ * training run can be checkpointed and resumed with the same random stream.
+ */
+export class Random {
+  constructor(public state: number) {}
+
+  next() {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = Math.imul(this.state ^ (this.state >>> 15), 1 | this.state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Standard normal draw by Box-Muller
+  gaussian() {
+    return Math.sqrt(-2 * Math.log(1 - this.next())) * Math.cos(2 * Math.PI * this.next());
+  }
+
+  // Fisher-Yates, in place
+  shuffle<T>(items: T[]) {
+    for (let k = items.length - 1; k > 0; k--) {
+      const j = Math.floor(this.next() * (k + 1));
+      [items[k], items[j]] = [items[j], items[k]];
+    }
+    return items;
+  }
+}
+
+// A trainable matrix with Glorot-uniform values, or zeros for biases
+export const parameter = (rows: number, cols: number, random: Random | null) => {
+  const tensor = new Tensor(rows, cols);
+  if (random) {
+    const scale = Math.sqrt(6 / (rows + cols));
+    for (let k = 0; k < tensor.data.length; k++) tensor.data[k] = (random.next() * 2 - 1) * scale;
+  }
+  tensor.grad = new Float32Array(tensor.data.length);
+  return tensor;
+};
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Records operations as they run and replays their gradients in reverse. A
+ * graph built for inference records nothing and skips dropout, so the same
+ * model code serves training, validation and sampling.
+ */
+export class Graph {
+  private readonly tape: (() => void)[] = [];
+
+  constructor(
+    readonly training: boolean,
+    readonly random: Random
+  ) {}
+
+  private output(rows: number, cols: number, inputs: Tensor[], backward: (out: Tensor) => void) {
+    const out = new Tensor(rows, cols);
+    if (this.training && inputs.some((input) => input.grad)) {
+      out.grad = new Float32Array(rows * cols);
+      this.tape.push(() => backward(out));
+    }
+    return out;
+  }
+
+  // a (m×k) times b (k×n)
+  matmul(a: Tensor, b: Tensor) {
+    const { rows: m, cols: k } = a;
+    const n = b.cols;
+    const x = a.data;
+    const w = b.data;
+    const out = this.output(m, n, [a, b], (result) => {
+      const dy = result.grad!;
+      const dx = a.grad;
+      const dw = b.grad;
+      for (let i = 0; i < m; i++) {
+        const row = i * n;
+        for (let p = 0; p < k; p++) {
+          const column = p * n;
+          if (dx) {
+            let sum = 0;
+            for (let j = 0; j < n; j++) sum += dy[row + j] * w[column + j];
+            dx[i * k + p] += sum;
+          }
+          const value = x[i * k + p];
+          if (dw && value !== 0) for (let j = 0; j < n; j++) dw[column + j] += value * dy[row + j];
+        }
+      }
+    });
+    const y = out.data;
+    for (let i = 0; i < m; i++) {
+      const row = i * n;
+      for (let p = 0; p < k; p++) {
+        const value = x[i * k + p];
+        if (value === 0) continue;
+        const column = p * n;
+        for (let j = 0; j < n; j++) y[row + j] += value * w[column + j];
+      }
+    }
+    return out;
+  }
+
+  // Adds a 1×n row to every row of a
+  bias(a: Tensor, b: Tensor) {
+    const { rows, cols } = a;
+    const out = this.output(rows, cols, [a, b], (result) => {
+      const dy = result.grad!;
+      for (let k = 0; k < dy.length; k++) {
+        if (a.grad) a.grad[k] += dy[k];
+        if (b.grad) b.grad[k % cols] += dy[k];
+      }
+    });
+    for (let k = 0; k < out.data.length; k++) out.data[k] = a.data[k] + b.data[k % cols];
+    return out;
+  }
+
+  add(a: Tensor, b: Tensor) {
+    const out = this.output(a.rows, a.cols, [a, b], (result) => {
+      const dy = result.grad!;
+      for (let k = 0; k < dy.length; k++) {
+        if (a.grad) a.grad[k] += dy[k];
+        if (b.grad) b.grad[k] += dy[k];
+      }
+    });
+    for (let k = 0; k < out.data.length; k++) out.data[k] = a.data[k] + b.data[k];
+    return out;
+  }
+
+  mul(a: Tensor, b: Tensor) {
+    const out = this.output(a.rows, a.cols, [a, b], (result) => {
+      const dy = result.grad!;
+      for (let k = 0; k < dy.length; k++) {
+        if (a.grad) a.grad[k] += dy[k] * b.data[k];
+        if (b.grad) b.grad[k] += dy[k] * a.data[k];
+      }
+    });
+    for (let k = 0; k < out.data.length; k++) out.data[k] = a.data[k] * b.data[k];
+    return out;
+  }
+
+  // (1 - z) * a + z * b, the GRU state update
+  mix(z: Tensor, a: Tensor, b: Tensor) {
+    const out = this.output(a.rows, a.cols, [z, a, b], (result) => {
+      const dy = result.grad!;
+      for (let k = 0; k < dy.length; k++) {
+        if (z.grad) z.grad[k] += dy[k] * (b.data[k] - a.data[k]);
+        if (a.grad) a.grad[k] += dy[k] * (1 - z.data[k]);
+        if (b.grad) b.grad[k] += dy[k] * z.data[k];
+      }
+    });
+    for (let k = 0; k < out.data.length; k++) out.data[k] = a.data[k] + z.data[k] * (b.data[k] - a.data[k]);
+    return out;
+  }
+
+  sigmoid(a: Tensor) {
+    const out = this.output(a.rows, a.cols, [a], (result) => {
+      const dy = result.grad!;
+      for (let k = 0; k < dy.length; k++) a.grad![k] += dy[k] * result.data[k] * (1 - result.data[k]);
+    });
+    for (let k = 0; k < out.data.length; k++) out.data[k] = sigmoid(a.data[k]);
+    return out;
+  }
+
+  tanh(a: Tensor) {
+    const out = this.output(a.rows, a.cols, [a], (result) => {
+      const dy = result.grad!;
+      for (let k = 0; k < dy.length; k++) a.grad![k] += dy[k] * (1 - result.data[k] * result.data[k]);
+    });
+    for (let k = 0; k < out.data.length; k++) out.data[k] = Math.tanh(a.data[k]);
+    return out;
+  }
+
+  relu(a: Tensor) {
+    const out = this.output(a.rows, a.cols, [a], (result) => {
+      const dy = result.grad!;
+      for (let k = 0; k < dy.length; k++) if (a.data[k] > 0) a.grad![k] += dy[k];
+    });
+    for (let k = 0; k < out.data.length; k++) out.data[k] = Math.max(0, a.data[k]);
+    return out;
+  }
+
+  // Inverted dropout: kept values are scaled up during training, so inference needs no correction
+  dropout(a: Tensor, rate: number) {
+    if (!this.training || rate <= 0) return a;
+    const mask = new Float32Array(a.data.length);
+    for (let k = 0; k < mask.length; k++) mask[k] = this.random.next() < rate ? 0 : 1 / (1 - rate);
+    const out = this.output(a.rows, a.cols, [a], (result) => {
+      const dy = result.grad!;
+      for (let k = 0; k < dy.length; k++) a.grad![k] += dy[k] * mask[k];
+    });
+    for (let k = 0; k < out.data.length; k++) out.data[k] = a.data[k] * mask[k];
+    return out;
+  }
+
+  // Columns from..from+count of a
+  columns(a: Tensor, from: number, count: number) {
+    const out = this.output(a.rows, count, [a], (result) => {
+      const dy = result.grad!;
+      for (let i = 0; i < a.rows; i++) {
+        for (let j = 0; j < count; j++) a.grad![i * a.cols + from + j] += dy[i * count + j];
+      }
+    });
+    for (let i = 0; i < a.rows; i++) {
+      out.data.set(a.data.subarray(i * a.cols + from, i * a.cols + from + count), i * count);
+    }
+    return out;
+  }
+
+  /**
+   * Row i is the sum of the table rows listed in ids[i]: an embedding lookup
+   * for one id per row, or a dense layer over a sparse one-hot input for many.
+   */
+  gather(table: Tensor, ids: ArrayLike<number>[]) {
+    const width = table.cols;
+    const out = this.output(ids.length, width, [table], (result) => {
+      const dy = result.grad!;
+      ids.forEach((row, i) => {
+        for (let k = 0; k < row.length; k++) {
+          const offset = row[k] * width;
+          for (let j = 0; j < width; j++) table.grad![offset + j] += dy[i * width + j];
+        }
+      });
+    });
+    ids.forEach((row, i) => {
+      for (let k = 0; k < row.length; k++) {
+        const offset = row[k] * width;
+        for (let j = 0; j < width; j++) out.data[i * width + j] += table.data[offset + j];
+      }
+    });
+    return out;
+  }
+
+  // z = mu + exp(logvar / 2) * eps with eps ~ N(0, 1); inference graphs return mu itself
+  reparameterize(mu: Tensor, logvar: Tensor) {
+    if (!this.training) return mu;
+    const eps = new Float32Array(mu.data.length);
+    for (let k = 0; k < eps.length; k++) eps[k] = this.random.gaussian();
+    const out = this.output(mu.rows, mu.cols, [mu, logvar], (result) => {
+      const dy = result.grad!;
+      for (let k = 0; k < dy.length; k++) {
+        if (mu.grad) mu.grad[k] += dy[k];
+        if (logvar.grad) logvar.grad[k] += dy[k] * 0.5 * (result.data[k] - mu.data[k]);
+      }
+    });
+    for (let k = 0; k < eps.length; k++) out.data[k] = mu.data[k] + Math.exp(0.5 * logvar.data[k]) * eps[k];
+    return out;
+  }
+
+  /**
+   * Summed softmax cross-entropy of each row's logits against its target
+   * index, as a 1×1 tensor. Rows targeting -1 are padding and ignored.
+   * Also counts the rows whose most likely index is the target.
+   */
+  crossEntropy(logits: Tensor, targets: ArrayLike<number>) {
+    const { rows, cols } = logits;
+    const probabilities = new Float32Array(rows * cols);
+    let total = 0;
+    let correct = 0;
+    let count = 0;
+    for (let i = 0; i < rows; i++) {
+      if (targets[i] < 0) continue;
+      const row = logits.data.subarray(i * cols, (i + 1) * cols);
+      let max = -Infinity;
+      let best = 0;
+      for (let j = 0; j < cols; j++) {
+        if (row[j] > max) {
+          max = row[j];
+          best = j;
+        }
+      }
+      let sum = 0;
+      for (let j = 0; j < cols; j++) sum += probabilities[i * cols + j] = Math.exp(row[j] - max);
+      for (let j = 0; j < cols; j++) probabilities[i * cols + j] /= sum;
+      total -= Math.log(Math.max(probabilities[i * cols + targets[i]], 1e-12));
+      if (best === targets[i]) correct++;
+      count++;
+    }
+    const loss = this.output(1, 1, [logits], (result) => {
+      const dy = result.grad![0];
+      for (let i = 0; i < rows; i++) {
+        if (targets[i] < 0) continue;
+        for (let j = 0; j < cols; j++) {
+          logits.grad![i * cols + j] += dy * (probabilities[i * cols + j] - (j === targets[i] ? 1 : 0));
+        }
+      }
+    });
+    loss.data[0] = total;
+    return { loss, correct, count };
+  }
+
+  // KL divergence of N(mu, exp(logvar)) from N(0, 1), summed over rows and dimensions, as a 1×1 tensor
+  klDivergence(mu: Tensor, logvar: Tensor) {
+    const out = this.output(1, 1, [mu, logvar], (result) => {
+      const dy = result.grad![0];
+      for (let k = 0; k < mu.data.length; k++) {
+        if (mu.grad) mu.grad[k] += dy * mu.data[k];
+        if (logvar.grad) logvar.grad[k] += dy * 0.5 * (Math.exp(logvar.data[k]) - 1);
+      }
+    });
+    for (let k = 0; k < mu.data.length; k++) {
+      out.data[0] += -0.5 * (1 + logvar.data[k] - mu.data[k] * mu.data[k] - Math.exp(logvar.data[k]));
+    }
+    return out;
+  }
+
+  // Weighted sum of 1×1 tensors
+  combine(terms: [Tensor, number][]) {
+    const out = this.output(
+      1,
+      1,
+      terms.map(([term]) => term),
+      (result) => terms.forEach(([term, weight]) => term.grad && (term.grad[0] += result.grad![0] * weight))
+    );
+    for (const [term, weight] of terms) out.data[0] += term.data[0] * weight;
+    return out;
+  }
+
+  // Gradients of a 1×1 result with respect to everything recorded on the way to it
+  backward(loss: Tensor) {
+    if (!loss.grad) return;
+    loss.grad[0] = 1;
+    for (let k = this.tape.length - 1; k >= 0; k--) this.tape[k]();
+    this.tape.length = 0;
+  }
+}
+
+/**
+ * Adam with the gradient clipped to a maximum global norm, which keeps the
+ * recurrent decoder from blowing up early in training. Gradients are cleared
+ * after every step.
+ */
+export class Adam {
+  private readonly moments: Float32Array[];
+  private readonly squares: Float32Array[];
+  private steps = 0;
+
+  constructor(
+    private readonly parameters: Tensor[],
+    public learningRate: number,
+    private readonly maxNorm = 5,
+    private readonly beta1 = 0.9,
+    private readonly beta2 = 0.999
+  ) {
+    this.moments = parameters.map((parameter) => new Float32Array(parameter.data.length));
+    this.squares = parameters.map((parameter) => new Float32Array(parameter.data.length));
+  }
+
+  step() {
+    let norm = 0;
+    for (const { grad } of this.parameters) for (let k = 0; k < grad!.length; k++) norm += grad![k] * grad![k];
+    const clip = Math.min(1, this.maxNorm / (Math.sqrt(norm) + 1e-8));
+    this.steps++;
+    const correction1 = 1 - this.beta1 ** this.steps;
+    const correction2 = 1 - this.beta2 ** this.steps;
+
+    this.parameters.forEach(({ data, grad }, index) => {
+      const m = this.moments[index];
+      const v = this.squares[index];
+      for (let k = 0; k < data.length; k++) {
+        const g = grad![k] * clip;
+        m[k] = this.beta1 * m[k] + (1 - this.beta1) * g;
+        v[k] = this.beta2 * v[k] + (1 - this.beta2) * g * g;
+        data[k] -= (this.learningRate * (m[k] / correction1)) / (Math.sqrt(v[k] / correction2) + 1e-8);
+      }
+      grad!.fill(0);
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { END, START, buildVocabulary, decodeTokens, encodeTokens, tokenizeSmiles } from "./tokens";
+
+describe("tokenizeSmiles", () => {
+  it("keeps bracket atoms, two-letter halogens and two-digit ring closures whole", () => {
+    expect(tokenizeSmiles("ClC1=CC=C([NH3+])C%10Br").join(" ")).toBe("Cl C 1 = C C = C ( [NH3+] ) C %10 Br");
+  });
+
+  it("returns null when a character belongs to no token", () => {
+    expect(tokenizeSmiles("CC O")).toBeNull();
+    expect(tokenizeSmiles("C[NH3")).toBeNull();
+  });
+});
+
+describe("vocabulary", () => {
+  const vocabulary = buildVocabulary([tokenizeSmiles("CCO"), tokenizeSmiles("c1ccccc1Cl")]);
+
+  it("puts the markers first and the tokens after, sorted once each", () => {
+    expect(vocabulary).toEqual([START, END, "1", "C", "Cl", "O", "c"]);
+  });
+
+  it("encodes and decodes back to the same SMILES", () => {
+    const ids = encodeTokens(tokenizeSmiles("ClCc1ccccc1"), vocabulary);
+    expect(Array.from(ids)).toEqual([4, 3, 6, 2, 6, 6, 6, 6, 6, 2]);
+    expect(decodeTokens(ids, vocabulary)).toBe("ClCc1ccccc1");
+  });
+
+  it("does not encode tokens it has never seen", () => {
+    expect(encodeTokens(tokenizeSmiles("CCN"), vocabulary)).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+// SMILES as token sequences for the VAE: bracket atoms, two-letter halogens
+// and two-digit ring closures are single tokens, everything else one character
+
+const TOKEN = /\[[^\]]+\]|Br|Cl|%\d{2}|[A-Za-z]|\d|[=#\-+\\/():.~@*$]/g;
+
+export const START = "<start>";
+export const END = "<end>";
+
+// Null when some character does not belong to any token
+export const tokenizeSmiles = (smiles: string) => {
+  const tokens = smiles.match(TOKEN) ?? [];
+  return tokens.join("") === smiles ? tokens : null;
+};
+
+// Start and end markers first, then every token seen, in a stable order
+export const buildVocabulary = (sequences: string[][]) => [
+  START,
+  END,
+  ...[...new Set(sequences.flat())].sort(),
+];
+
+// Token indices in the vocabulary, or null when a token is missing from it
+export const encodeTokens = (tokens: string[], vocabulary: string[]) => {
+  const ids = tokens.map((token) => vocabulary.indexOf(token));
+  return ids.includes(-1) ? null : Int32Array.from(ids);
+};
+
+export const decodeTokens = (ids: ArrayLike<number>, vocabulary: string[]) =>
+  Array.from(ids, (id) => vocabulary[id]).join("");
@@ -0,0 +1,78 @@
+import { LatentResult, LatentTask } from "./latent";
+import { GenerationOptions, GenerationResult } from "./sampling";
+import { SerializedVAE, TrainedVAE, VAEEpochMetrics } from "./vae";
+
+// VAE training, generation and latent-space exploration in a worker in this tab, off the main thread
+
+export interface VAETrainingRequest {
+  // As typed or imported; the worker canonicalizes them and drops what it cannot model
+  smiles: string[];
+  parameters: Record<string, number>;
+}
+
+export type VAEWorkerRequest =
+  | ({ kind: "train" } & VAETrainingRequest)
+  | { kind: "generate"; trained: TrainedVAE; options: GenerationOptions }
+  | { kind: "explore"; model: SerializedVAE; task: LatentTask };
+
+export type VAEWorkerResponse =
+  | { kind: "progress"; done: number; total: number; metrics: VAEEpochMetrics | null }
+  | { kind: "trained"; trained: TrainedVAE }
+  | { kind: "generated"; result: GenerationResult }
+  | { kind: "explored"; result: LatentResult }
+  | { kind: "error"; error: string };
+
+export interface VAEWorkerControl {
+  // Training calls it after every batch, with metrics on the batch that finishes an epoch;
+  // generation after every round of samples, and projection as t-SNE iterates
+  onProgress?: (done: number, total: number, metrics: VAEEpochMetrics | null) => void;
+  // Aborting stops the worker and resolves with null
+  signal?: AbortSignal;
+}
+
+const runWorker = <T>(
+  request: VAEWorkerRequest,
+  { onProgress, signal }: VAEWorkerControl,
+  settle: (response: VAEWorkerResponse) => T
+) =>
+  new Promise<T | null>((resolve, reject) => {
+    const worker = new Worker(new URL("./vae.worker.ts", import.meta.url), { type: "module" });
+    const stop = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+    };
+    const abort = () => {
+      stop();
+      resolve(null);
+    };
+    if (signal?.aborted) return abort();
+    signal?.addEventListener("abort", abort);
+
+    worker.onmessage = (event: MessageEvent<VAEWorkerResponse>) => {
+      const response = event.data;
+      if (response.kind === "progress") return onProgress?.(response.done, response.total, response.metrics);
+      stop();
+      if (response.kind === "error") reject(new Error(response.error));
+      else resolve(settle(response));
+    };
+    worker.onerror = (event) => {
+      stop();
+      reject(new Error(event.message || "The VAE worker failed to start"));
+    };
+    worker.postMessage(request);
+  });
+
+/**
+ * Train a VAE in a worker in this tab, for when the job server is out of
+ * reach. Unlike a job it ends with the page and cannot be paused.
+ */
+export const trainInWorker = (request: VAETrainingRequest, control: VAEWorkerControl = {}) =>
+  runWorker({ kind: "train", ...request }, control, (response) => (response.kind === "trained" ? response.trained : null));
+
+export const generateInWorker = (trained: TrainedVAE, options: GenerationOptions, control: VAEWorkerControl = {}) =>
+  runWorker({ kind: "generate", trained, options }, control, (response) =>
+    response.kind === "generated" ? response.result : null
+  );
+
+export const exploreInWorker = (model: SerializedVAE, task: LatentTask, control: VAEWorkerControl = {}) =>
+  runWorker({ kind: "explore", model, task }, control, (response) => (response.kind === "explored" ? response.result : null));
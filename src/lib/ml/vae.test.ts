@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_VAE_CONFIG,
+  VAEConfig,
+  VAEEpochMetrics,
+  VAETraining,
+  VAETrainingOptions,
+  countParameters,
+  deserializeVAE,
+  encodeMolecules,
+  prepareTrainingSet,
+  resumeVAETraining,
+  serializeVAE,
+  startVAETraining,
+  trainVAEBatch,
+  trainingSetProblem,
+  vaeSettings,
+  vaeTrainingCheckpoint,
+} from "./vae";
+
+const SMILES = (
+  "C CC CCC CCO CCN CCCl CC(=O)O CC(C)O c1ccccc1 c1ccccc1O c1ccccc1N c1ccccc1C c1ccncc1 C1CCCCC1 C1CCNCC1 " +
+  "CC(=O)N OCCO NCCN CC#N C=CC CCOC COC CCCC CCCCO CC(C)C c1ccc(Cl)cc1 O=C(O)c1ccccc1 CCOC(C)=O CN(C)C C1CCOC1"
+).split(" ");
+
+// Small enough that a whole run takes about a second
+const CONFIG: VAEConfig = {
+  latentDimensions: 4,
+  encoderLayers: 1,
+  decoderLayers: 1,
+  hiddenSize: 16,
+  dropout: 0,
+  maxTokens: 20,
+};
+const OPTIONS: VAETrainingOptions = { learningRate: 0.01, betaKL: 0.1, epochs: 30 };
+
+const molecules = prepareTrainingSet(SMILES).molecules;
+
+const epoch = (training: VAETraining) => {
+  let metrics: VAEEpochMetrics | null = null;
+  while (!metrics) metrics = trainVAEBatch(training);
+  return metrics;
+};
+
+describe("prepareTrainingSet", () => {
+  it("keeps one canonical SMILES per parseable structure short enough to model", () => {
+    expect(prepareTrainingSet(["OCC", "CCO", " C(C)O ", "C1CC", "CCCCCCCCC", "c1ccccc1"], 8)).toEqual({
+      molecules: ["CCO", "c1ccccc1"],
+      skipped: 4,
+    });
+  });
+
+  it("says how many molecules were missing", () => {
+    expect(trainingSetProblem({ molecules: ["CCO"], skipped: 0 })).toContain("1 given");
+    expect(trainingSetProblem({ molecules, skipped: 0 })).toBeNull();
+  });
+});
+
+describe("vaeSettings", () => {
+  it("rounds layer counts and falls back to the defaults", () => {
+    const { config, options } = vaeSettings({ latentDimensions: 7.6, epochs: 3, learningRate: 0.01 });
+    expect(config).toEqual({ ...DEFAULT_VAE_CONFIG, latentDimensions: 8 });
+    expect(options).toEqual({ learningRate: 0.01, betaKL: 1, epochs: 3 });
+  });
+});
+
+describe("VAE training", () => {
+  it("lowers the loss and warms the KL weight up over the first quarter of the run", () => {
+    const training = startVAETraining(molecules, CONFIG, OPTIONS, 7);
+    const metrics = Array.from({ length: OPTIONS.epochs }, () => epoch(training));
+    expect(metrics.map((m) => m.epoch)).toEqual(Array.from({ length: OPTIONS.epochs }, (_, k) => k + 1));
+    expect(metrics[0].beta).toBe(0);
+    expect(metrics[OPTIONS.epochs - 1].beta).toBe(OPTIONS.betaKL);
+    expect(metrics[OPTIONS.epochs - 1].loss).toBeLessThan(metrics[0].loss * 0.7);
+    expect(metrics[OPTIONS.epochs - 1].accuracy).toBeGreaterThan(metrics[0].accuracy);
+    // Every tenth molecule is held out
+    expect(metrics[0].validationLoss).not.toBeNull();
+  });
+
+  it("repeats a run from the same seed", () => {
+    expect(epoch(startVAETraining(molecules, CONFIG, OPTIONS, 7))).toEqual(
+      epoch(startVAETraining(molecules, CONFIG, OPTIONS, 7))
+    );
+  });
+
+  it("picks a run up from a checkpoint saved as JSON", () => {
+    const training = startVAETraining(molecules, CONFIG, OPTIONS, 7);
+    for (let k = 0; k < 3; k++) epoch(training);
+    const checkpoint = JSON.parse(JSON.stringify(vaeTrainingCheckpoint(training)));
+    const resumed = resumeVAETraining(checkpoint, molecules, OPTIONS);
+    expect(resumed).toMatchObject({ epoch: 3, batch: 0, order: training.order });
+    expect(resumed.random.state).toBe(training.random.state);
+    expect(serializeVAE(resumed.model)).toEqual(serializeVAE(training.model));
+    expect(epoch(resumed).epoch).toBe(4);
+  });
+});
+
+describe("serializeVAE", () => {
+  it("round-trips the weights through JSON", () => {
+    const { model } = startVAETraining(molecules, CONFIG, OPTIONS, 11);
+    const restored = deserializeVAE(JSON.parse(JSON.stringify(serializeVAE(model))));
+    expect(countParameters(restored)).toBe(countParameters(model));
+    expect(encodeMolecules(restored, ["CCO", "c1ccccc1"])).toEqual(encodeMolecules(model, ["CCO", "c1ccccc1"]));
+  });
+});
+
+describe("encodeMolecules", () => {
+  it("skips SMILES that do not parse or use tokens outside the vocabulary", () => {
+    const { model } = startVAETraining(molecules, CONFIG, OPTIONS, 11);
+    const latents = encodeMolecules(model, ["OCC", "C1CC", "CCBr"]);
+    expect(latents[0]).toHaveLength(CONFIG.latentDimensions);
+    expect(latents[0]).toEqual(encodeMolecules(model, ["CCO"])[0]);
+    expect(latents.slice(1)).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,514 @@
+import { canonicalizeSmiles } from "../chem/canonical";
+import { Adam, Graph, Random, Tensor, parameter } from "./tensor";
+import { buildVocabulary, encodeTokens, tokenizeSmiles } from "./tokens";
+
+// A character-level SMILES VAE: a dense encoder over one-hot token positions
+// and a GRU decoder conditioned on the latent vector at every step
+
+export interface VAEConfig {
+  latentDimensions: number;
+  // Dense layers in the encoder, the first of them reading the one-hot tokens
+  encoderLayers: number;
+  // Stacked GRU layers in the decoder
+  decoderLayers: number;
+  hiddenSize: number;
+  dropout: number;
+  // Longest SMILES, in tokens, the model reads and writes
+  maxTokens: number;
+}
+
+export interface VAETrainingOptions {
+  learningRate: number;
+  // Final weight of the KL term, reached after the warm-up
+  betaKL: number;
+  epochs: number;
+}
+
+export interface VAEEpochMetrics {
+  epoch: number;
+  // Per molecule, averaged over the epoch's training batches
+  loss: number;
+  reconstructionLoss: number;
+  klDivergence: number;
+  // KL weight the epoch ended with
+  beta: number;
+  // Share of tokens the decoder ranks first given the true preceding ones
+  accuracy: number;
+  // Reconstruction plus weighted KL on held-out molecules, decoded from their latent means
+  validationLoss: number | null;
+}
+
+export interface SmilesVAE {
+  config: VAEConfig;
+  // Token strings by index; the start and end markers come first
+  vocabulary: string[];
+  weights: Record<string, Tensor>;
+}
+
+// Weights as base64 float32, so a trained model fits in JSON
+export interface SerializedVAE {
+  config: VAEConfig;
+  vocabulary: string[];
+  weights: Record<string, { rows: number; cols: number; data: string }>;
+}
+
+// A trained model with the molecules it learned from, which generation measures novelty against
+export interface TrainedVAE {
+  model: SerializedVAE;
+  molecules: string[];
+}
+
+export interface TrainingSet {
+  // Canonical, distinct and short enough to model
+  molecules: string[];
+  // Inputs that did not parse, repeated a structure or were too long
+  skipped: number;
+}
+
+export const DEFAULT_VAE_CONFIG: VAEConfig = {
+  latentDimensions: 64,
+  encoderLayers: 2,
+  decoderLayers: 1,
+  hiddenSize: 128,
+  dropout: 0.1,
+  maxTokens: 100,
+};
+
+export const DEFAULT_VAE_TRAINING: VAETrainingOptions = { learningRate: 0.001, betaKL: 1, epochs: 20 };
+
+export const MIN_TRAINING_MOLECULES = 20;
+
+// Model and training settings out of a flat parameter record, such as a job's, with defaults for anything missing
+export const vaeSettings = (parameters: Partial<Record<string, number>>) => {
+  const config: VAEConfig = {
+    latentDimensions: Math.round(parameters.latentDimensions ?? DEFAULT_VAE_CONFIG.latentDimensions),
+    encoderLayers: Math.round(parameters.encoderLayers ?? DEFAULT_VAE_CONFIG.encoderLayers),
+    decoderLayers: Math.round(parameters.decoderLayers ?? DEFAULT_VAE_CONFIG.decoderLayers),
+    hiddenSize: Math.round(parameters.hiddenSize ?? DEFAULT_VAE_CONFIG.hiddenSize),
+    dropout: parameters.dropout ?? DEFAULT_VAE_CONFIG.dropout,
+    maxTokens: DEFAULT_VAE_CONFIG.maxTokens,
+  };
+  const options: VAETrainingOptions = {
+    learningRate: parameters.learningRate ?? DEFAULT_VAE_TRAINING.learningRate,
+    betaKL: parameters.betaKL ?? DEFAULT_VAE_TRAINING.betaKL,
+    epochs: Math.round(parameters.epochs ?? DEFAULT_VAE_TRAINING.epochs),
+  };
+  return { config, options };
+};
+
+const START_ID = 0;
+const END_ID = 1;
+const EMBEDDING_SIZE = 32;
+const BATCH_SIZE = 32;
+// Every tenth molecule is held out to measure validation loss
+const VALIDATION_STRIDE = 10;
+
+export const prepareTrainingSet = (smiles: string[], maxTokens = DEFAULT_VAE_CONFIG.maxTokens): TrainingSet => {
+  const molecules = new Set<string>();
+  for (const input of smiles) {
+    const canonical = canonicalizeSmiles(input.trim());
+    const tokens = canonical ? tokenizeSmiles(canonical) : null;
+    if (canonical && tokens && tokens.length <= maxTokens) molecules.add(canonical);
+  }
+  return { molecules: [...molecules], skipped: smiles.length - molecules.size };
+};
+
+// Why a prepared set is too small to train on, or null when it will do
+export const trainingSetProblem = ({ molecules }: TrainingSet, maxTokens = DEFAULT_VAE_CONFIG.maxTokens) =>
+  molecules.length < MIN_TRAINING_MOLECULES
+    ? `VAE training needs at least ${MIN_TRAINING_MOLECULES} distinct, parseable SMILES of up to ${maxTokens} tokens; ${molecules.length} given`
+    : null;
+
+export const createVAE = (config: VAEConfig, vocabulary: string[], random: Random): SmilesVAE => {
+  const { latentDimensions: latent, hiddenSize: hidden, maxTokens } = config;
+  const size = vocabulary.length;
+  const weights: Record<string, Tensor> = {
+    // One row per (position, token) pair, including the end marker after the last token
+    "encoder.input": parameter((maxTokens + 1) * size, hidden, random),
+    "encoder.input.bias": parameter(1, hidden, null),
+    "encoder.mu": parameter(hidden, latent, random),
+    "encoder.mu.bias": parameter(1, latent, null),
+    "encoder.logvar": parameter(hidden, latent, random),
+    "encoder.logvar.bias": parameter(1, latent, null),
+    "decoder.embedding": parameter(size, EMBEDDING_SIZE, random),
+    "decoder.latent": parameter(latent, 3 * hidden, random),
+    "decoder.output": parameter(hidden, size, random),
+    "decoder.output.bias": parameter(1, size, null),
+  };
+  for (let k = 1; k < config.encoderLayers; k++) {
+    weights[`encoder.hidden.${k}`] = parameter(hidden, hidden, random);
+    weights[`encoder.hidden.${k}.bias`] = parameter(1, hidden, null);
+  }
+  for (let layer = 0; layer < config.decoderLayers; layer++) {
+    weights[`decoder.init.${layer}`] = parameter(latent, hidden, random);
+    weights[`decoder.init.${layer}.bias`] = parameter(1, hidden, null);
+    weights[`decoder.gru.${layer}.input`] = parameter(layer === 0 ? EMBEDDING_SIZE : hidden, 3 * hidden, random);
+    weights[`decoder.gru.${layer}.state`] = parameter(hidden, 3 * hidden, random);
+    weights[`decoder.gru.${layer}.bias`] = parameter(1, 3 * hidden, null);
+    weights[`decoder.gru.${layer}.state.bias`] = parameter(1, 3 * hidden, null);
+  }
+  return { config, vocabulary, weights };
+};
+
+export const countParameters = (model: SmilesVAE) =>
+  Object.values(model.weights).reduce((sum, tensor) => sum + tensor.data.length, 0);
+
+const dense = (g: Graph, input: Tensor, model: SmilesVAE, name: string) =>
+  g.bias(g.matmul(input, model.weights[name]), model.weights[`${name}.bias`]);
+
+// Latent mean and log-variance for each token sequence
+const encode = (g: Graph, model: SmilesVAE, sequences: Int32Array[]) => {
+  const { config, vocabulary } = model;
+  const ids = sequences.map((sequence) => {
+    const row = new Int32Array(sequence.length + 1);
+    sequence.forEach((token, position) => (row[position] = position * vocabulary.length + token));
+    row[sequence.length] = sequence.length * vocabulary.length + END_ID;
+    return row;
+  });
+  let hidden = g.relu(g.bias(g.gather(model.weights["encoder.input"], ids), model.weights["encoder.input.bias"]));
+  for (let k = 1; k < config.encoderLayers; k++) {
+    hidden = g.relu(dense(g, g.dropout(hidden, config.dropout), model, `encoder.hidden.${k}`));
+  }
+  hidden = g.dropout(hidden, config.dropout);
+  return { mu: dense(g, hidden, model, "encoder.mu"), logvar: dense(g, hidden, model, "encoder.logvar") };
+};
+
+interface DecoderState {
+  // Hidden state of each GRU layer
+  states: Tensor[];
+  // The latent vector's contribution to the first layer's gates, the same at every step
+  latent: Tensor;
+}
+
+const startDecoder = (g: Graph, model: SmilesVAE, z: Tensor): DecoderState => ({
+  states: Array.from({ length: model.config.decoderLayers }, (_, layer) =>
+    g.tanh(dense(g, z, model, `decoder.init.${layer}`))
+  ),
+  latent: g.matmul(z, model.weights["decoder.latent"]),
+});
+
+// Logits for the next token after each of the given ones, and the state to continue from
+const stepDecoder = (g: Graph, model: SmilesVAE, state: DecoderState, tokens: number[]) => {
+  const { hiddenSize: size, dropout } = model.config;
+  const w = model.weights;
+  let input = g.dropout(g.gather(w["decoder.embedding"], tokens.map((token) => [token])), dropout);
+  const states = state.states.map((previous, layer) => {
+    let gates = g.matmul(input, w[`decoder.gru.${layer}.input`]);
+    if (layer === 0) gates = g.add(gates, state.latent);
+    gates = g.bias(gates, w[`decoder.gru.${layer}.bias`]);
+    const recurrent = dense(g, previous, model, `decoder.gru.${layer}.state`);
+    const reset = g.sigmoid(g.add(g.columns(gates, 0, size), g.columns(recurrent, 0, size)));
+    const update = g.sigmoid(g.add(g.columns(gates, size, size), g.columns(recurrent, size, size)));
+    const candidate = g.tanh(
+      g.add(g.columns(gates, 2 * size, size), g.mul(reset, g.columns(recurrent, 2 * size, size)))
+    );
+    const next = g.mix(update, candidate, previous);
+    input = g.dropout(next, dropout);
+    return next;
+  });
+  return { logits: dense(g, input, model, "decoder.output"), state: { ...state, states } };
+};
+
+/**
+ * Summed reconstruction cross-entropy and KL divergence of a batch, with the
+ * decoder fed the true previous token at every step (teacher forcing).
+ */
+const evaluate = (g: Graph, model: SmilesVAE, sequences: Int32Array[]) => {
+  const { mu, logvar } = encode(g, model, sequences);
+  let state = startDecoder(g, model, g.reparameterize(mu, logvar));
+  const steps = Math.max(...sequences.map((sequence) => sequence.length)) + 1;
+  const terms: [Tensor, number][] = [];
+  let correct = 0;
+  let count = 0;
+  for (let t = 0; t < steps; t++) {
+    const inputs = sequences.map((sequence) => (t === 0 ? START_ID : t <= sequence.length ? sequence[t - 1] : END_ID));
+    const targets = sequences.map((sequence) => (t < sequence.length ? sequence[t] : t === sequence.length ? END_ID : -1));
+    const step = stepDecoder(g, model, state, inputs);
+    state = step.state;
+    const scored = g.crossEntropy(step.logits, targets);
+    terms.push([scored.loss, 1]);
+    correct += scored.correct;
+    count += scored.count;
+  }
+  return { reconstruction: g.combine(terms), kl: g.klDivergence(mu, logvar), correct, count };
+};
+
+/**
+ * Latent means of the given SMILES, null for any that does not parse, is
+ * longer than the model reads or uses a token it never saw in training.
+ */
+export const encodeMolecules = (model: SmilesVAE, smiles: string[]) => {
+  const sequences = smiles.map((input) => {
+    const canonical = canonicalizeSmiles(input.trim());
+    const tokens = canonical ? tokenizeSmiles(canonical) : null;
+    return tokens && tokens.length <= model.config.maxTokens ? encodeTokens(tokens, model.vocabulary) : null;
+  });
+  const latents: (Float32Array | null)[] = sequences.map(() => null);
+  const indices = sequences.flatMap((sequence, k) => (sequence ? [k] : []));
+  const g = new Graph(false, new Random(0));
+  const dimensions = model.config.latentDimensions;
+  for (let start = 0; start < indices.length; start += BATCH_SIZE) {
+    const batch = indices.slice(start, start + BATCH_SIZE);
+    const { mu } = encode(g, model, batch.map((k) => sequences[k]!));
+    batch.forEach((k, row) => (latents[k] = mu.data.slice(row * dimensions, (row + 1) * dimensions)));
+  }
+  return latents;
+};
+
+export interface DecodedSequence {
+  tokens: string[];
+  // Mean log-probability per token the untempered decoder gives the tokens chosen, end marker included
+  logLikelihood: number;
+  // False when the decoder ran out of room before writing the end marker
+  finished: boolean;
+}
+
+// A token index drawn from softmax(logits / temperature), or the top-scoring one at temperature zero
+const sampleToken = (logits: Float32Array, temperature: number, random: Random) => {
+  let best = 0;
+  for (let k = 1; k < logits.length; k++) if (logits[k] > logits[best]) best = k;
+  if (temperature <= 0) return best;
+  const weights = logits.map((logit) => Math.exp((logit - logits[best]) / temperature));
+  let threshold = random.next() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let k = 0; k < weights.length; k++) {
+    threshold -= weights[k];
+    if (threshold <= 0) return k;
+  }
+  return best;
+};
+
+/**
+ * Decode each row of a latent matrix into tokens, one step at a time, feeding
+ * the decoder the token it just sampled. Lower temperatures keep closer to
+ * the tokens the decoder ranks first.
+ */
+export const decodeLatents = (
+  model: SmilesVAE,
+  latents: Tensor,
+  temperature: number,
+  random: Random
+): DecodedSequence[] => {
+  const g = new Graph(false, random);
+  const size = model.vocabulary.length;
+  const decoded = Array.from({ length: latents.rows }, (): DecodedSequence => ({
+    tokens: [],
+    logLikelihood: 0,
+    finished: false,
+  }));
+  let state = startDecoder(g, model, latents);
+  let previous = decoded.map(() => START_ID);
+  for (let t = 0; t <= model.config.maxTokens && decoded.some((sequence) => !sequence.finished); t++) {
+    const step = stepDecoder(g, model, state, previous);
+    state = step.state;
+    previous = decoded.map((sequence, row) => {
+      if (sequence.finished) return END_ID;
+      const logits = step.logits.data.subarray(row * size, (row + 1) * size);
+      const token = sampleToken(logits, temperature, random);
+      let total = 0;
+      for (const logit of logits) total += Math.exp(logit - logits[token]);
+      sequence.logLikelihood -= Math.log(total);
+      if (token === END_ID) sequence.finished = true;
+      else sequence.tokens.push(model.vocabulary[token]);
+      return token;
+    });
+  }
+  for (const sequence of decoded) sequence.logLikelihood /= sequence.tokens.length + (sequence.finished ? 1 : 0);
+  return decoded;
+};
+
+interface EpochTotals {
+  reconstruction: number;
+  kl: number;
+  correct: number;
+  tokens: number;
+  molecules: number;
+}
+
+const EMPTY_TOTALS: EpochTotals = { reconstruction: 0, kl: 0, correct: 0, tokens: 0, molecules: 0 };
+
+export interface VAETraining {
+  model: SmilesVAE;
+  options: VAETrainingOptions;
+  optimizer: Adam;
+  random: Random;
+  train: Int32Array[];
+  validation: Int32Array[];
+  // Epochs finished, and batches finished in the current one
+  epoch: number;
+  batch: number;
+  // Training molecules by position in this epoch's shuffled order
+  order: number[];
+  totals: EpochTotals;
+}
+
+// Everything needed to pick a run up again except the optimizer's moment estimates, which restart
+export interface VAECheckpoint {
+  model: SerializedVAE;
+  epoch: number;
+  batch: number;
+  order: number[];
+  totals: EpochTotals;
+  random: number;
+}
+
+const encodeSet = (molecules: string[], vocabulary: string[]) =>
+  molecules.map((smiles) => encodeTokens(tokenizeSmiles(smiles)!, vocabulary)!);
+
+const split = (sequences: Int32Array[]) => ({
+  train: sequences.filter((_, k) => k % VALIDATION_STRIDE !== VALIDATION_STRIDE - 1),
+  validation: sequences.filter((_, k) => k % VALIDATION_STRIDE === VALIDATION_STRIDE - 1),
+});
+
+const ordered = (count: number, random: Random) => random.shuffle(Array.from({ length: count }, (_, k) => k));
+
+// Molecules from prepareTrainingSet; the seed fixes initial weights, batch order and dropout
+export const startVAETraining = (
+  molecules: string[],
+  config: VAEConfig,
+  options: VAETrainingOptions,
+  seed = Date.now()
+): VAETraining => {
+  const random = new Random(seed);
+  const vocabulary = buildVocabulary(molecules.map((smiles) => tokenizeSmiles(smiles)!));
+  const model = createVAE(config, vocabulary, random);
+  const { train, validation } = split(encodeSet(molecules, vocabulary));
+  return {
+    model,
+    options,
+    optimizer: new Adam(Object.values(model.weights), options.learningRate),
+    random,
+    train,
+    validation,
+    epoch: 0,
+    batch: 0,
+    order: ordered(train.length, random),
+    totals: { ...EMPTY_TOTALS },
+  };
+};
+
+// The same molecules must be passed again; they are re-encoded with the saved vocabulary
+export const resumeVAETraining = (
+  checkpoint: VAECheckpoint,
+  molecules: string[],
+  options: VAETrainingOptions
+): VAETraining => {
+  const model = deserializeVAE(checkpoint.model);
+  const { train, validation } = split(encodeSet(molecules, model.vocabulary));
+  return {
+    model,
+    options,
+    optimizer: new Adam(Object.values(model.weights), options.learningRate),
+    random: new Random(checkpoint.random),
+    train,
+    validation,
+    epoch: checkpoint.epoch,
+    batch: checkpoint.batch,
+    order: checkpoint.order,
+    totals: checkpoint.totals,
+  };
+};
+
+export const vaeTrainingCheckpoint = (training: VAETraining): VAECheckpoint => ({
+  model: serializeVAE(training.model),
+  epoch: training.epoch,
+  batch: training.batch,
+  order: training.order,
+  totals: training.totals,
+  random: training.random.state,
+});
+
+export const batchesPerEpoch = (trainingMolecules: number) => Math.ceil(trainingMolecules / BATCH_SIZE);
+
+// Training molecules out of a prepared set, for sizing a run before it starts
+export const trainingShare = (molecules: number) => molecules - Math.floor(molecules / VALIDATION_STRIDE);
+
+// The KL weight rises linearly over the first quarter of the run, so the decoder learns to use the latent code first
+const klWeight = ({ betaKL, epochs }: VAETrainingOptions, progress: number) =>
+  betaKL * Math.min(1, progress / Math.max(1, epochs / 4));
+
+const validationLoss = (training: VAETraining, beta: number) => {
+  if (training.validation.length === 0) return null;
+  const g = new Graph(false, training.random);
+  let total = 0;
+  for (let start = 0; start < training.validation.length; start += BATCH_SIZE) {
+    const { reconstruction, kl } = evaluate(g, training.model, training.validation.slice(start, start + BATCH_SIZE));
+    total += reconstruction.data[0] + beta * kl.data[0];
+  }
+  return total / training.validation.length;
+};
+
+/**
+ * One optimizer step on the next batch of the epoch. Returns the epoch's
+ * metrics when the step finished an epoch, and null otherwise.
+ */
+export const trainVAEBatch = (training: VAETraining): VAEEpochMetrics | null => {
+  const { model, options, optimizer, totals } = training;
+  const batches = batchesPerEpoch(training.train.length);
+  const beta = klWeight(options, training.epoch + training.batch / batches);
+  const sequences = training.order
+    .slice(training.batch * BATCH_SIZE, (training.batch + 1) * BATCH_SIZE)
+    .map((index) => training.train[index]);
+
+  const g = new Graph(true, training.random);
+  const { reconstruction, kl, correct, count } = evaluate(g, model, sequences);
+  g.backward(g.combine([[reconstruction, 1 / sequences.length], [kl, beta / sequences.length]]));
+  optimizer.learningRate = options.learningRate;
+  optimizer.step();
+
+  totals.reconstruction += reconstruction.data[0];
+  totals.kl += kl.data[0];
+  totals.correct += correct;
+  totals.tokens += count;
+  totals.molecules += sequences.length;
+  training.batch++;
+  if (training.batch < batches) return null;
+
+  const metrics: VAEEpochMetrics = {
+    epoch: training.epoch + 1,
+    loss: (totals.reconstruction + beta * totals.kl) / totals.molecules,
+    reconstructionLoss: totals.reconstruction / totals.molecules,
+    klDivergence: totals.kl / totals.molecules,
+    beta,
+    accuracy: totals.correct / totals.tokens,
+    validationLoss: validationLoss(training, beta),
+  };
+  training.epoch++;
+  training.batch = 0;
+  training.order = ordered(training.train.length, training.random);
+  training.totals = { ...EMPTY_TOTALS };
+  return metrics;
+};
+
+const toBase64 = (values: Float32Array) => {
+  const bytes = new Uint8Array(values.buffer, values.byteOffset, values.byteLength);
+  let binary = "";
+  for (let k = 0; k < bytes.length; k += 0x8000) binary += String.fromCharCode(...bytes.subarray(k, k + 0x8000));
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let k = 0; k < binary.length; k++) bytes[k] = binary.charCodeAt(k);
+  return new Float32Array(bytes.buffer);
+};
+
+export const serializeVAE = ({ config, vocabulary, weights }: SmilesVAE): SerializedVAE => ({
+  config,
+  vocabulary,
+  weights: Object.fromEntries(
+    Object.entries(weights).map(([name, { rows, cols, data }]) => [name, { rows, cols, data: toBase64(data) }])
+  ),
+});
+
+export const deserializeVAE = ({ config, vocabulary, weights }: SerializedVAE): SmilesVAE => ({
+  config,
+  vocabulary,
+  weights: Object.fromEntries(
+    Object.entries(weights).map(([name, { rows, cols, data }]) => {
+      const tensor = new Tensor(rows, cols, fromBase64(data));
+      tensor.grad = new Float32Array(rows * cols);
+      return [name, tensor];
+    })
+  ),
+});
@@ -0,0 +1,53 @@
+import { exploreLatentSpace } from "./latent";
+import { generateMolecules } from "./sampling";
+import { Random } from "./tensor";
+import { VAEWorkerRequest, VAEWorkerResponse } from "./training";
+import {
+  batchesPerEpoch,
+  deserializeVAE,
+  prepareTrainingSet,
+  serializeVAE,
+  startVAETraining,
+  trainVAEBatch,
+  trainingSetProblem,
+  vaeSettings,
+} from "./vae";
+
+// Entry point of an in-tab VAE worker: a training set in, a message per batch and the model out,
+// or a model in and a generated batch or a walk through its latent space out
+self.onmessage = (event: MessageEvent<VAEWorkerRequest>) => {
+  const post = (response: VAEWorkerResponse) => self.postMessage(response);
+  const request = event.data;
+  try {
+    const progress = (done: number, total: number) => post({ kind: "progress", done, total, metrics: null });
+    if (request.kind === "explore") {
+      const result = exploreLatentSpace(deserializeVAE(request.model), request.task, new Random(Date.now()), progress);
+      post({ kind: "explored", result });
+      return;
+    }
+    if (request.kind === "generate") {
+      const result = generateMolecules(
+        deserializeVAE(request.trained.model),
+        request.trained.molecules,
+        request.options,
+        new Random(Date.now()),
+        progress
+      );
+      post({ kind: "generated", result });
+      return;
+    }
+
+    const { config, options } = vaeSettings(request.parameters);
+    const prepared = prepareTrainingSet(request.smiles, config.maxTokens);
+    const problem = trainingSetProblem(prepared, config.maxTokens);
+    if (problem) throw new Error(problem);
+    const training = startVAETraining(prepared.molecules, config, options);
+    const total = options.epochs * batchesPerEpoch(training.train.length);
+    for (let done = 1; done <= total; done++) {
+      post({ kind: "progress", done, total, metrics: trainVAEBatch(training) });
+    }
+    post({ kind: "trained", trained: { model: serializeVAE(training.model), molecules: prepared.molecules } });
+  } catch (error) {
+    post({ kind: "error", error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { LibraryMolecule, Provenance } from "./library";
+import { projectRuns } from "./projects";
+
+const stamp = (run: string, project: string | null, savedAt: number): Provenance => ({
+  source: "vae",
+  run,
+  project,
+  parameters: { temperature: 1 },
+  savedAt,
+});
+
+// Only the fields projectRuns reads
+const molecule = (canonicalSmiles: string, provenance: Provenance[]) =>
+  ({ canonicalSmiles, provenance }) as LibraryMolecule;
+
+describe("projectRuns", () => {
+  const molecules = [
+    molecule("CCO", [stamp("vae-1", "p", 300), stamp("vae-2", "p", 500)]),
+    molecule("CCN", [stamp("vae-1", "p", 200), stamp("vae-1", "p", 250)]),
+    molecule("CCC", [stamp("vae-3", "q", 900), stamp("vae-4", null, 1000)]),
+  ];
+
+  it("groups the project's molecules by run, newest run first", () => {
+    expect(projectRuns("p", molecules)).toEqual([
+      { run: "vae-2", source: "vae", parameters: { temperature: 1 }, savedAt: 500, molecules: ["CCO"] },
+      { run: "vae-1", source: "vae", parameters: { temperature: 1 }, savedAt: 200, molecules: ["CCO", "CCN"] },
+    ]);
+  });
+
+  it("ignores runs saved into other projects or none", () => {
+    expect(projectRuns("q", molecules).map((run) => run.run)).toEqual(["vae-3"]);
+    expect(projectRuns("r", molecules)).toEqual([]);
+  });
+});
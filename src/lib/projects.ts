@@ -0,0 +1,85 @@
+import { LibraryMolecule, LibrarySource, EMPTY_LIBRARY_QUERY, queryLibrary } from "./library";
+import { PROJECTS, completion, openDatabase, settle } from "./database";
+
+export interface Project {
+  // Readable slug plus a time suffix, used in URLs
+  id: string;
+  name: string;
+  description: string;
+  createdAt: number;
+}
+
+export interface ProjectRun {
+  run: string;
+  source: LibrarySource;
+  parameters: Record<string, string | number | boolean>;
+  // When the first molecules of the run were saved
+  savedAt: number;
+  // Canonical SMILES of the molecules saved from the run
+  molecules: string[];
+}
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40) || "project";
+
+export const createProject = async (name: string, description = ""): Promise<Project> => {
+  const project: Project = {
+    id: `${slugify(name)}-${Date.now().toString(36)}`,
+    name: name.trim(),
+    description: description.trim(),
+    createdAt: Date.now(),
+  };
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS, "readwrite");
+  const done = completion(transaction);
+  transaction.objectStore(PROJECTS).add(project);
+  await done;
+  return project;
+};
+
+// Newest first
+export const listProjects = async (): Promise<Project[]> => {
+  const db = await openDatabase();
+  const projects: Project[] = await settle(db.transaction(PROJECTS, "readonly").objectStore(PROJECTS).getAll());
+  return projects.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+  const db = await openDatabase();
+  const project: Project | undefined = await settle(db.transaction(PROJECTS, "readonly").objectStore(PROJECTS).get(id));
+  return project ?? null;
+};
+
+export const projectMolecules = (id: string): Promise<LibraryMolecule[]> =>
+  queryLibrary({ ...EMPTY_LIBRARY_QUERY, project: id });
+
+/**
+ * Runs are not stored on their own: they are rebuilt from the provenance of
+ * the project's molecules, grouped by run id, newest first.
+ */
+export const projectRuns = (id: string, molecules: LibraryMolecule[]): ProjectRun[] => {
+  const runs = new Map<string, ProjectRun>();
+  for (const molecule of molecules) {
+    for (const entry of molecule.provenance) {
+      if (entry.project !== id) continue;
+      const run = runs.get(entry.run);
+      if (!run) {
+        runs.set(entry.run, {
+          run: entry.run,
+          source: entry.source,
+          parameters: entry.parameters,
+          savedAt: entry.savedAt,
+          molecules: [molecule.canonicalSmiles],
+        });
+      } else {
+        run.savedAt = Math.min(run.savedAt, entry.savedAt);
+        if (!run.molecules.includes(molecule.canonicalSmiles)) run.molecules.push(molecule.canonicalSmiles);
+      }
+    }
+  }
+  return [...runs.values()].sort((a, b) => b.savedAt - a.savedAt);
+};
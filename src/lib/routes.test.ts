@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { moleculePath, projectPath, runPath } from "./routes";
+
+describe("routes", () => {
+  it("builds project pages with an optional section", () => {
+    expect(projectPath("kinase-lead-m1x2")).toBe("/projects/kinase-lead-m1x2");
+    expect(projectPath("kinase-lead-m1x2", "runs")).toBe("/projects/kinase-lead-m1x2/runs");
+  });
+
+  it("puts the run in the query string", () => {
+    expect(runPath("p", "vae-m1x2")).toBe("/projects/p/runs?run=vae-m1x2");
+  });
+
+  it("encodes the characters SMILES share with URLs", () => {
+    const smiles = "C/C=C/C#N.[Na+]%10";
+    const path = moleculePath(smiles);
+    expect(path).toBe("/molecule/C%2FC%3DC%2FC%23N.%5BNa%2B%5D%2510");
+    expect(decodeURIComponent(path.slice("/molecule/".length))).toBe(smiles);
+  });
+});
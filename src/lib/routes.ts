@@ -0,0 +1,12 @@
+// Paths for the shareable pages; SMILES are encoded since they can contain "/", "#" and "%"
+
+export type ModuleTab = "vae" | "gan" | "smiles";
+
+export const MODULE_TABS: ModuleTab[] = ["vae", "gan", "smiles"];
+
+export const projectPath = (id: string, section?: "molecules" | "runs") =>
+  `/projects/${encodeURIComponent(id)}${section ? `/${section}` : ""}`;
+
+export const runPath = (project: string, run: string) => `${projectPath(project, "runs")}?run=${encodeURIComponent(run)}`;
+
+export const moleculePath = (canonical: string) => `/molecule/${encodeURIComponent(canonical)}`;
@@ -0,0 +1,125 @@
+import { useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+import { MolecularVisualizer } from "@/components/MolecularVisualizer";
+import { RuleEvaluation } from "@/components/RuleEvaluation";
+import { canonicalSmiles } from "@/lib/chem/canonical";
+import { MolecularDescriptors, describeSmiles } from "@/lib/chem/descriptors";
+import { evaluateRules } from "@/lib/chem/rules";
+import { tryParseSmiles } from "@/lib/chem/smiles";
+import { LIBRARY_SOURCE_LABELS, getLibraryMolecule } from "@/lib/library";
+import { listProjects } from "@/lib/projects";
+import { runPath } from "@/lib/routes";
+
+const DESCRIPTOR_ROWS: { label: string; value: (d: MolecularDescriptors) => string }[] = [
+  { label: "Formula", value: (d) => d.formula },
+  { label: "Molecular Weight", value: (d) => d.molecularWeight.toFixed(2) },
+  { label: "LogP", value: (d) => d.logp.toFixed(2) },
+  { label: "TPSA", value: (d) => d.tpsa.toFixed(1) },
+  { label: "H-Bond Donors", value: (d) => String(d.hbd) },
+  { label: "H-Bond Acceptors", value: (d) => String(d.hba) },
+  { label: "Rotatable Bonds", value: (d) => String(d.rotatableBonds) },
+  { label: "QED", value: (d) => d.qed.toFixed(2) },
+  { label: "Synthetic Accessibility", value: (d) => d.sas.toFixed(2) },
+];
+
+// Any SMILES can be opened; library records add their name, tags and provenance
+const MoleculePage = () => {
+  const { canonicalSmiles: param = "" } = useParams();
+  // Hand-typed URLs may use another spelling of the structure; the library is keyed by the canonical one
+  const canonical = useMemo(() => {
+    const { molecule } = tryParseSmiles(param);
+    return molecule ? canonicalSmiles(molecule) : param;
+  }, [param]);
+  const { data: record, isLoading } = useQuery({
+    queryKey: ["molecule", canonical],
+    queryFn: async () => (await getLibraryMolecule(canonical)) ?? null,
+  });
+  const { data: projects = [] } = useQuery({ queryKey: ["projects"], queryFn: listProjects });
+
+  const descriptors = useMemo(
+    () => record?.descriptors ?? describeSmiles(canonical),
+    [record, canonical]
+  );
+  const projectName = (id: string) => projects.find((project) => project.id === id)?.name ?? id;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <div className="container mx-auto px-6 lg:px-8 py-12 space-y-6">
+        <div>
+          <Link to="/projects" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Projects
+          </Link>
+          <h1 className="text-3xl font-bold text-foreground break-all">{record?.name ?? canonical}</h1>
+          <code className="text-sm font-mono text-muted-foreground break-all">{canonical}</code>
+          {record && record.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {record.tags.map((tag) => (
+                <Badge key={tag} variant="secondary">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {!descriptors ? (
+          <p className="text-destructive">This SMILES could not be parsed.</p>
+        ) : (
+          <>
+            <MolecularVisualizer smiles={record?.smiles ?? canonical} />
+
+            <div className="grid lg:grid-cols-2 gap-6">
+              <Card className="p-6 bg-card border shadow-molecular">
+                <h2 className="text-xl font-bold text-card-foreground mb-4">Descriptors</h2>
+                <Table>
+                  <TableBody>
+                    {DESCRIPTOR_ROWS.map((row) => (
+                      <TableRow key={row.label}>
+                        <TableCell>{row.label}</TableCell>
+                        <TableCell className="font-mono text-right">{row.value(descriptors)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+              <RuleEvaluation rules={record?.rules ?? evaluateRules(descriptors)} />
+            </div>
+
+            <Card className="p-6 bg-card border shadow-molecular">
+              <h2 className="text-xl font-bold text-card-foreground mb-4">Provenance</h2>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading…</p>
+              ) : !record ? (
+                <p className="text-sm text-muted-foreground">This molecule is not in the library.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {record.provenance.map((entry, k) => (
+                    <li key={k} className="flex flex-wrap items-center gap-2 text-sm">
+                      <Badge variant="outline">{LIBRARY_SOURCE_LABELS[entry.source]}</Badge>
+                      {entry.project ? (
+                        <Link to={runPath(entry.project, entry.run)} className="font-mono text-primary underline">
+                          {projectName(entry.project)} / {entry.run}
+                        </Link>
+                      ) : (
+                        <span className="font-mono">{entry.run}</span>
+                      )}
+                      <span className="text-muted-foreground">{new Date(entry.savedAt).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MoleculePage;
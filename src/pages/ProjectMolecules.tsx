@@ -0,0 +1,90 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LibraryMoleculeGrid } from "@/components/MoleculeLibrary";
+import { ProjectLayout } from "@/components/ProjectLayout";
+import { projectMolecules } from "@/lib/projects";
+import { moleculePath } from "@/lib/routes";
+
+const ANY = "any";
+
+const ProjectMolecules = () => {
+  const { id = "" } = useParams();
+  const navigate = useNavigate();
+  // ?q= and ?tag= keep the search in the URL so it can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const text = searchParams.get("q") ?? "";
+  const tag = searchParams.get("tag") ?? ANY;
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const { data: molecules = [], isLoading } = useQuery({
+    queryKey: ["project-molecules", id],
+    queryFn: () => projectMolecules(id),
+  });
+
+  const updateSearch = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value && value !== ANY) next.set(key, value);
+    else next.delete(key);
+    setSearchParams(next, { replace: true });
+  };
+
+  const tags = useMemo(() => [...new Set(molecules.flatMap((molecule) => molecule.tags))].sort(), [molecules]);
+
+  const shown = useMemo(() => {
+    const needle = text.trim().toLowerCase();
+    return molecules.filter(
+      (molecule) =>
+        (tag === ANY || molecule.tags.includes(tag)) &&
+        (!needle ||
+          [molecule.smiles, molecule.canonicalSmiles, molecule.name ?? ""].some((field) =>
+            field.toLowerCase().includes(needle)
+          ))
+    );
+  }, [molecules, text, tag]);
+
+  return (
+    <ProjectLayout projectId={id}>
+      <Card className="p-6 bg-card border shadow-molecular space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-card-foreground">Molecules</h2>
+          <span className="text-sm text-muted-foreground">
+            {shown.length} of {molecules.length}
+          </span>
+        </div>
+        <div className="grid md:grid-cols-2 gap-4">
+          <Input value={text} onChange={(event) => updateSearch("q", event.target.value)} placeholder="Search SMILES or name" />
+          <Select value={tag} onValueChange={(value) => updateSearch("tag", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any tag</SelectItem>
+              {tags.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {shown.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? "Loading molecules…" : "No molecules match. Save results from the workspace to add them here."}
+          </p>
+        ) : (
+          <LibraryMoleculeGrid
+            molecules={shown}
+            selected={selected}
+            onSelectedChange={setSelected}
+            onOpen={(key) => navigate(moleculePath(key))}
+          />
+        )}
+      </Card>
+    </ProjectLayout>
+  );
+};
+
+export default ProjectMolecules;
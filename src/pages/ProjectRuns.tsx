@@ -0,0 +1,107 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LibraryMoleculeGrid } from "@/components/MoleculeLibrary";
+import { ProjectLayout } from "@/components/ProjectLayout";
+import { LIBRARY_SOURCE_LABELS } from "@/lib/library";
+import { projectMolecules, projectRuns } from "@/lib/projects";
+import { moleculePath, runPath } from "@/lib/routes";
+
+const ProjectRuns = () => {
+  const { id = "" } = useParams();
+  const navigate = useNavigate();
+  // ?run= opens one run, so a link can point at the molecules a run produced
+  const [searchParams] = useSearchParams();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const { data: molecules = [], isLoading } = useQuery({
+    queryKey: ["project-molecules", id],
+    queryFn: () => projectMolecules(id),
+  });
+
+  const runs = useMemo(() => projectRuns(id, molecules), [id, molecules]);
+  const run = runs.find((entry) => entry.run === searchParams.get("run")) ?? null;
+  const runMolecules = useMemo(
+    () => (run ? molecules.filter((molecule) => run.molecules.includes(molecule.canonicalSmiles)) : []),
+    [run, molecules]
+  );
+
+  return (
+    <ProjectLayout projectId={id}>
+      <div className="grid lg:grid-cols-3 gap-6">
+        <Card className="p-6 bg-card border shadow-molecular space-y-2">
+          <h2 className="text-xl font-bold text-card-foreground mb-2">Runs</h2>
+          {runs.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {isLoading ? "Loading runs…" : "No runs yet. Save generated or analyzed molecules from the workspace."}
+            </p>
+          )}
+          {runs.map((entry) => (
+            <Link
+              key={entry.run}
+              to={runPath(id, entry.run)}
+              className={`block rounded-lg border p-3 ${
+                entry.run === run?.run ? "border-primary bg-muted" : "border-border hover:bg-muted/50"
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-mono text-sm">{entry.run}</span>
+                <Badge variant="secondary">{entry.molecules.length}</Badge>
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">
+                {LIBRARY_SOURCE_LABELS[entry.source]} · {new Date(entry.savedAt).toLocaleString()}
+              </div>
+            </Link>
+          ))}
+        </Card>
+
+        <Card className="p-6 bg-card border shadow-molecular space-y-4 lg:col-span-2">
+          {!run ? (
+            <p className="text-sm text-muted-foreground">
+              {searchParams.get("run") && !isLoading
+                ? `Run "${searchParams.get("run")}" has no molecules in this project.`
+                : "Select a run to see its parameters and molecules."}
+            </p>
+          ) : (
+            <>
+              <div>
+                <h2 className="text-xl font-bold text-card-foreground font-mono">{run.run}</h2>
+                <p className="text-sm text-muted-foreground">
+                  {LIBRARY_SOURCE_LABELS[run.source]} · {new Date(run.savedAt).toLocaleString()}
+                </p>
+              </div>
+              {Object.keys(run.parameters).length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Parameter</TableHead>
+                      <TableHead>Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(run.parameters).map(([key, value]) => (
+                      <TableRow key={key}>
+                        <TableCell>{key}</TableCell>
+                        <TableCell className="font-mono">{String(value)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              <LibraryMoleculeGrid
+                molecules={runMolecules}
+                selected={selected}
+                onSelectedChange={setSelected}
+                onOpen={(key) => navigate(moleculePath(key))}
+              />
+            </>
+          )}
+        </Card>
+      </div>
+    </ProjectLayout>
+  );
+};
+
+export default ProjectRuns;
@@ -0,0 +1,21 @@
+import { useParams, useSearchParams } from "react-router-dom";
+import { ModuleTabs } from "@/components/ModuleTabs";
+import { ProjectLayout } from "@/components/ProjectLayout";
+import { MODULE_TABS, ModuleTab } from "@/lib/routes";
+
+const ProjectWorkspace = () => {
+  const { id = "" } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // ?module= picks the open module, so a link can land on the SMILES analyzer directly
+  const requested = searchParams.get("module") as ModuleTab | null;
+  const tab = requested && MODULE_TABS.includes(requested) ? requested : "vae";
+
+  return (
+    <ProjectLayout projectId={id}>
+      {/* Keyed by project so switching projects reattaches the modules to that project's jobs */}
+      <ModuleTabs key={id} value={tab} onValueChange={(next) => setSearchParams({ module: next }, { replace: true })} />
+    </ProjectLayout>
+  );
+};
+
+export default ProjectWorkspace;
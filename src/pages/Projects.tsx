@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, FolderPlus } from "lucide-react";
+import { createProject, listProjects } from "@/lib/projects";
+import { projectPath } from "@/lib/routes";
+
+const Projects = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const { data: projects = [], isLoading } = useQuery({ queryKey: ["projects"], queryFn: listProjects });
+
+  const create = async () => {
+    if (!name.trim()) return;
+    try {
+      const project = await createProject(name, description);
+      await queryClient.invalidateQueries({ queryKey: ["projects"] });
+      navigate(projectPath(project.id));
+    } catch (error) {
+      toast({
+        title: "Project Not Created",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <div className="container mx-auto px-6 lg:px-8 py-12 space-y-8">
+        <div>
+          <Link to="/" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Home
+          </Link>
+          <h1 className="text-3xl lg:text-4xl font-bold text-foreground">Projects</h1>
+          <p className="text-muted-foreground mt-2">
+            Each project keeps its own generation runs and saved molecules, stored in this browser.
+          </p>
+        </div>
+
+        <Card className="p-6 bg-card border shadow-molecular space-y-4">
+          <h2 className="text-xl font-bold text-card-foreground">New Project</h2>
+          <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="Project name" />
+          <Textarea
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            placeholder="Description (optional)"
+            rows={2}
+          />
+          <Button onClick={create} disabled={!name.trim()}>
+            <FolderPlus className="w-4 h-4 mr-2" />
+            Create Project
+          </Button>
+        </Card>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading projects…</p>
+        ) : projects.length === 0 ? (
+          <p className="text-muted-foreground">No projects yet.</p>
+        ) : (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {projects.map((project) => (
+              <Link key={project.id} to={projectPath(project.id)}>
+                <Card className="p-6 h-full bg-card border hover:border-primary transition-colors">
+                  <h3 className="text-lg font-semibold text-card-foreground">{project.name}</h3>
+                  {project.description && <p className="text-sm text-muted-foreground mt-1">{project.description}</p>}
+                  <p className="text-xs text-muted-foreground mt-4">
+                    Created {new Date(project.createdAt).toLocaleDateString()}
+                  </p>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Projects;
@@ -0,0 +1,14 @@
+import { parentPort } from "node:worker_threads";
+import { analyzeSmiles } from "@/lib/chem/analysis";
+import { AnalysisRequest, AnalysisResponse } from "./jobs";
+
+// Entry point of a batch job's analysis thread: one SMILES in, its analysis out
+parentPort?.on("message", ({ smiles, conformers }: AnalysisRequest) => {
+  let response: AnalysisResponse;
+  try {
+    response = { analysis: analyzeSmiles(smiles, { conformers }) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
@@ -0,0 +1,85 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiRequest, handleApiRequest } from "./api";
+
+const request = (method: string, requestPath: string, body: unknown = null, query = {}): ApiRequest => ({
+  method,
+  path: requestPath,
+  query,
+  body,
+});
+
+describe("handleApiRequest", () => {
+  it("answers a malformed percent-escape in a path parameter with 400", async () => {
+    const response = await handleApiRequest({ method: "GET", path: "/library/%E0%A4%A", query: {}, body: null });
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: expect.stringContaining("smiles") });
+  });
+
+  it("answers unknown paths with 404", async () => {
+    const response = await handleApiRequest({ method: "GET", path: "/nowhere", query: {}, body: null });
+    expect(response.status).toBe(404);
+  });
+
+  it("answers a known path with the wrong method with 405", async () => {
+    const response = await handleApiRequest(request("GET", "/analyze"));
+    expect(response).toEqual({ status: 405, body: { error: "GET not allowed; use POST" } });
+  });
+
+  it("lists the fields that failed validation", async () => {
+    const response = await handleApiRequest(request("POST", "/analyze", { smiles: "" }));
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ error: "Invalid request", issues: [{ path: ["smiles"] }] });
+  });
+
+  it("analyzes a molecule", async () => {
+    const response = await handleApiRequest(request("POST", "/analyze", { smiles: "CCO", conformers: 0 }));
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ smiles: "CCO", isValid: true, formula: "C2H6O", conformers: null });
+  });
+
+  it("ranks the candidates it is sent and counts those that do not parse", async () => {
+    const response = await handleApiRequest(
+      request("POST", "/similarity", { query: "CCO", candidates: ["CCCO", "CCO", "C1CC"], limit: 1 })
+    );
+    expect(response.body).toEqual({ skipped: 1, hits: [{ smiles: "CCO", score: 1 }] });
+  });
+});
+
+describe("library endpoints", () => {
+  let directory: string;
+  let api: typeof import("./api");
+
+  // The store reads LIBRARY_FILE when it is imported, so each test gets a fresh library
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "api-"));
+    vi.stubEnv("LIBRARY_FILE", path.join(directory, "library.json"));
+    vi.resetModules();
+    api = await import("./api");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("saves, finds, retags and removes a molecule under any spelling of it", async () => {
+    const entries = [{ smiles: "OCC", name: "ethanol" }, { smiles: "C1CC" }];
+    const saved = await api.handleApiRequest(request("POST", "/library", { entries, source: "smiles" }));
+    expect(saved).toEqual({ status: 201, body: { added: 1, updated: 0, skipped: 1 } });
+
+    const found = await api.handleApiRequest(request("GET", `/library/${encodeURIComponent("C(O)C")}`));
+    expect(found.body).toMatchObject({ canonicalSmiles: "CCO", name: "ethanol", sources: ["smiles"] });
+
+    const retagged = await api.handleApiRequest(request("PATCH", "/library/OCC", { add: ["solvent"] }));
+    expect(retagged.body).toMatchObject({ tags: ["solvent"] });
+    const tagged = await api.handleApiRequest(request("GET", "/library", null, { tag: "solvent" }));
+    expect(tagged.body).toHaveLength(1);
+
+    expect((await api.handleApiRequest(request("DELETE", "/library/CCO"))).body).toEqual({ removed: 1 });
+    expect((await api.handleApiRequest(request("GET", "/library/CCO"))).status).toBe(404);
+    expect((await api.handleApiRequest(request("DELETE", "/library/CCO"))).status).toBe(404);
+  });
+});
@@ -0,0 +1,316 @@
+import { ZodError, z } from "zod";
+import { analyzeSmiles } from "@/lib/chem/analysis";
+import { FingerprintType, fingerprintSmiles } from "@/lib/chem/fingerprints";
+import { SimilarityMetric, rankBySimilarity } from "@/lib/chem/similarity";
+import { tryParseSmiles } from "@/lib/chem/smiles";
+import { canonicalSmiles } from "@/lib/chem/canonical";
+import { BatchEntry } from "@/lib/chem/batch";
+import { EMPTY_LIBRARY_QUERY, LibraryEntry, LibrarySource } from "@/lib/library";
+import { JobAction } from "@/lib/jobs";
+import { ApiError } from "./errors";
+import { controlJob, getJob, jobModel, jobResults, listJobs, submitJob, watchJobs } from "./jobs";
+import { cancelBatch, getBatch, getRun, listBatches, listRuns, startBatch, startRun, stopRun } from "./legacy";
+import { getRecord, queryRecords, removeRecords, retagRecords, saveRecords } from "./store";
+
+// Returned by handlers that stream Server-Sent Events instead of answering once
+export class EventStream {
+  constructor(public subscribe: (send: (event: string, data: unknown) => void) => Promise<() => void>) {}
+}
+
+export interface ApiRequest {
+  method: string;
+  // Relative to the /api/v1 mount point, still percent-encoded
+  path: string;
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+  // Set for event streams; resolves to the function that ends the subscription
+  stream?: EventStream["subscribe"];
+}
+
+type Handler = (params: Record<string, string>, request: ApiRequest) => unknown;
+
+interface Route {
+  method: string;
+  pattern: string;
+  matcher: RegExp;
+  status: number;
+  handler: Handler;
+}
+
+// Patterns like "/library/:smiles"; each parameter matches one path segment
+const route = (method: string, pattern: string, handler: Handler, status = 200): Route => ({
+  method,
+  pattern,
+  matcher: new RegExp(`^${pattern.replace(/:(\w+)/g, "(?<$1>[^/]+)")}/?$`),
+  status,
+  handler,
+});
+
+const SOURCES: [LibrarySource, ...LibrarySource[]] = ["vae", "gan", "smiles"];
+const FINGERPRINTS: [FingerprintType, ...FingerprintType[]] = ["morgan", "maccs", "rdkit", "atompair"];
+const METRICS: [SimilarityMetric, ...SimilarityMetric[]] = ["tanimoto", "dice", "cosine", "tversky"];
+// Conformer embedding dominates the cost of an analysis
+const MAX_CONFORMERS = 50;
+const MAX_BATCH = 100_000;
+
+const conformers = z.number().int().min(0).max(MAX_CONFORMERS).optional();
+
+const AnalyzeBody = z.object({ smiles: z.string().min(1), conformers });
+
+const parameters = z.record(z.union([z.string(), z.number(), z.boolean()])).default({});
+
+const JobBody = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("batch"),
+    entries: z
+      .array(
+        z.object({ smiles: z.string(), id: z.string().nullable().optional(), extras: z.record(z.string()).optional() })
+      )
+      .min(1)
+      .max(MAX_BATCH),
+    conformers,
+    parameters,
+    project: z.string().nullable().default(null),
+  }),
+  z.object({
+    kind: z.literal("vae"),
+    // Training molecules, one SMILES each
+    smiles: z.array(z.string()).min(1).max(MAX_BATCH),
+    parameters: z.record(z.number()).default({}),
+    project: z.string().nullable().default(null),
+    save: z.boolean().default(false),
+  }),
+  z.object({
+    kind: z.literal("gan"),
+    parameters: z.record(z.number()).default({}),
+    project: z.string().nullable().default(null),
+    save: z.boolean().default(false),
+  }),
+]);
+
+const BatchBody = z.object({
+  entries: z
+    .array(z.object({ smiles: z.string(), id: z.string().optional(), extras: z.record(z.string()).optional() }))
+    .min(1)
+    .max(MAX_BATCH),
+  conformers,
+});
+
+const RunBody = z.object({
+  model: z.enum(["vae", "gan"]),
+  parameters: z.record(z.number()).default({}),
+  project: z.string().nullable().default(null),
+  save: z.boolean().default(false),
+  // VAE training molecules; the API library when omitted
+  smiles: z.array(z.string()).min(1).max(MAX_BATCH).optional(),
+});
+
+const ResultsParams = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+const SimilarityBody = z.object({
+  query: z.string().min(1),
+  // Omitted candidates mean the molecules in the API library
+  candidates: z.array(z.string()).max(MAX_BATCH).optional(),
+  fingerprint: z.enum(FINGERPRINTS).default("morgan"),
+  metric: z.enum(METRICS).default("tanimoto"),
+  threshold: z.number().min(0).max(1).default(0),
+  limit: z.number().int().positive().optional(),
+});
+
+// Query strings arrive as text, and repeated keys as arrays
+const list = z.union([z.string(), z.array(z.string())]).transform((value) => (Array.isArray(value) ? value : [value]));
+
+const LibraryQueryParams = z.object({
+  text: z.string().default(""),
+  source: z.enum(SOURCES).optional(),
+  project: z.string().optional(),
+  tag: list.default([]),
+  similarTo: z.string().optional(),
+  threshold: z.coerce.number().min(0).max(1).default(0.5),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+const LibraryBody = z.object({
+  entries: z.array(z.object({ smiles: z.string(), name: z.string().nullable().optional() })).min(1).max(MAX_BATCH),
+  source: z.enum(SOURCES),
+  run: z.string().min(1).optional(),
+  project: z.string().nullable().default(null),
+  parameters,
+});
+
+const RetagBody = z.object({ add: z.array(z.string().min(1)).default([]), remove: z.array(z.string()).default([]) });
+
+const JOB_ACTIONS: JobAction[] = ["pause", "resume", "cancel"];
+
+// Library keys may be sent in any spelling of the structure
+const libraryKey = (smiles: string) => {
+  const { molecule } = tryParseSmiles(smiles);
+  return molecule ? canonicalSmiles(molecule) : smiles;
+};
+
+const found = <T>(value: T | null, what: string): T => {
+  if (value === null) throw new ApiError(404, `${what} not found`);
+  return value;
+};
+
+const ROUTES: Route[] = [
+  route("GET", "/", () => ({
+    version: "v1",
+    endpoints: ROUTES.map(({ method, pattern }) => `${method} /api/v1${pattern === "/" ? "" : pattern}`),
+  })),
+
+  route("POST", "/analyze", (_, { body }) => {
+    const { smiles, conformers } = AnalyzeBody.parse(body);
+    return analyzeSmiles(smiles, conformers === undefined ? {} : { conformers });
+  }),
+
+  route(
+    "POST",
+    "/batches",
+    (_, { body }) => {
+      const { entries, conformers } = BatchBody.parse(body);
+      const batch = entries.map(({ smiles, id, extras }): BatchEntry => ({ smiles, id: id ?? null, extras: extras ?? {} }));
+      return startBatch(batch, conformers ?? 0);
+    },
+    202
+  ),
+  route("GET", "/batches", () => listBatches()),
+  route("GET", "/batches/:id", ({ id }) => getBatch(id)),
+  route("POST", "/batches/:id/cancel", ({ id }) => cancelBatch(id)),
+
+  route("POST", "/similarity", async (_, { body }) => {
+    const { query, candidates, fingerprint, metric, threshold, limit } = SimilarityBody.parse(body);
+    const reference = fingerprintSmiles(query, fingerprint);
+    if (!reference) throw new ApiError(400, `Query SMILES does not parse: ${query}`);
+    const smiles = candidates ?? (await queryRecords(EMPTY_LIBRARY_QUERY)).map((record) => record.smiles);
+    const fingerprinted = smiles
+      .map((item) => ({ item, fingerprint: fingerprintSmiles(item, fingerprint) }))
+      .filter((candidate) => candidate.fingerprint);
+    const hits = rankBySimilarity(reference, fingerprinted, metric, threshold).map(({ item, score }) => ({
+      smiles: item,
+      score,
+    }));
+    return { skipped: smiles.length - fingerprinted.length, hits: limit ? hits.slice(0, limit) : hits };
+  }),
+
+  route("GET", "/library", async (_, { query }) => {
+    const params = LibraryQueryParams.parse(query);
+    const records = await queryRecords({
+      ...EMPTY_LIBRARY_QUERY,
+      text: params.text,
+      source: params.source ?? null,
+      project: params.project ?? null,
+      tags: params.tag,
+      similarTo: params.similarTo ? { smiles: params.similarTo, threshold: params.threshold } : null,
+    });
+    return params.limit ? records.slice(0, params.limit) : records;
+  }),
+  route(
+    "POST",
+    "/library",
+    (_, { body }) => {
+      const { entries, source, run, project, parameters } = LibraryBody.parse(body);
+      const records = entries.map(({ smiles, name }): LibraryEntry => ({ smiles, name: name ?? null }));
+      return saveRecords(records, { source, run: run ?? `${source}-api-${Date.now().toString(36)}`, project, parameters });
+    },
+    201
+  ),
+  route("GET", "/library/:smiles", async ({ smiles }) => found(await getRecord(libraryKey(smiles)), "Molecule")),
+  route("PATCH", "/library/:smiles", async ({ smiles }, { body }) => {
+    const { add, remove } = RetagBody.parse(body);
+    const key = libraryKey(smiles);
+    if ((await retagRecords([key], add, remove)) === 0) throw new ApiError(404, "Molecule not found");
+    return getRecord(key);
+  }),
+  route("DELETE", "/library/:smiles", async ({ smiles }) => {
+    if ((await removeRecords([libraryKey(smiles)])) === 0) throw new ApiError(404, "Molecule not found");
+    return { removed: 1 };
+  }),
+
+  route(
+    "POST",
+    "/runs",
+    (_, { body }) => {
+      const { model, parameters, project, save, smiles } = RunBody.parse(body);
+      return startRun(model, parameters, project, save, smiles);
+    },
+    202
+  ),
+  route("GET", "/runs", () => listRuns()),
+  route("GET", "/runs/:id", ({ id }) => getRun(id)),
+  route("POST", "/runs/:id/stop", ({ id }) => stopRun(id)),
+
+  route(
+    "POST",
+    "/jobs",
+    (_, { body }) => {
+      const spec = JobBody.parse(body);
+      const { project } = spec;
+      if (spec.kind === "vae") {
+        return submitJob({ kind: "vae", smiles: spec.smiles, parameters: spec.parameters, project, save: spec.save });
+      }
+      if (spec.kind === "gan") return submitJob({ kind: "gan", parameters: spec.parameters, project, save: spec.save });
+      const entries = spec.entries.map(({ smiles, id, extras }): BatchEntry => ({ smiles, id: id ?? null, extras: extras ?? {} }));
+      // Batches skip 3D unless asked, as the batch analyzer does
+      return submitJob({ kind: "batch", entries, conformers: spec.conformers ?? 0, parameters: spec.parameters, project });
+    },
+    202
+  ),
+  route("GET", "/jobs", () => listJobs()),
+  // Listed before /jobs/:id, which would otherwise take "events" for an id
+  route("GET", "/jobs/events", () => new EventStream((send) => watchJobs((job) => send("job", job)))),
+  route("GET", "/jobs/:id", ({ id }) => getJob(id)),
+  route("GET", "/jobs/:id/results", ({ id }, { query }) => {
+    const { offset, limit } = ResultsParams.parse(query);
+    return jobResults(id, offset, limit);
+  }),
+  route("GET", "/jobs/:id/model", ({ id }) => jobModel(id)),
+  route("GET", "/jobs/:id/events", async ({ id }) => {
+    // An unknown id is a 404 before the stream opens
+    await getJob(id);
+    return new EventStream((send) => watchJobs((job) => send("job", job), id));
+  }),
+  ...JOB_ACTIONS.map((action) => route("POST", `/jobs/:id/${action}`, ({ id }) => controlJob(id, action))),
+];
+
+const decodeParam = (name: string, value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new ApiError(400, `Malformed percent-encoding in ${name}: ${value}`);
+  }
+};
+
+/**
+ * Route a request to its handler. Errors become JSON bodies: validation
+ * failures are 400s listing the offending fields, ApiErrors carry their own
+ * status and anything else is a 500.
+ */
+export const handleApiRequest = async (request: ApiRequest): Promise<ApiResponse> => {
+  try {
+    const matching = ROUTES.filter((candidate) => candidate.matcher.test(request.path));
+    if (matching.length === 0) throw new ApiError(404, `No endpoint at ${request.method} /api/v1${request.path}`);
+    const target = matching.find((candidate) => candidate.method === request.method);
+    if (!target) {
+      throw new ApiError(405, `${request.method} not allowed; use ${matching.map((candidate) => candidate.method).join(", ")}`);
+    }
+    const groups = target.matcher.exec(request.path).groups ?? {};
+    const params = Object.fromEntries(Object.entries(groups).map(([key, value]) => [key, decodeParam(key, value)]));
+    const body = await target.handler(params, request);
+    return body instanceof EventStream
+      ? { status: 200, body: null, stream: body.subscribe }
+      : { status: target.status, body };
+  } catch (error) {
+    if (error instanceof ZodError) return { status: 400, body: { error: "Invalid request", issues: error.issues } };
+    if (error instanceof ApiError) return { status: error.status, body: { error: error.message } };
+    return { status: 500, body: { error: error instanceof Error ? error.message : String(error) } };
+  }
+};
@@ -0,0 +1,130 @@
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { JobView } from "@/lib/jobs";
+
+let directory: string;
+
+// The queue reads JOBS_DIR when it is imported, so a fresh import is a server restart
+const importJobs = async () => {
+  vi.stubEnv("JOBS_DIR", directory);
+  vi.stubEnv("LIBRARY_FILE", path.join(directory, "library.json"));
+  vi.resetModules();
+  return import("./jobs");
+};
+
+const until = async <T>(check: () => Promise<T>, timeout = 10000) => {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const value = await check();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error("Timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+};
+
+const savedRecord = async (id: string): Promise<JobView | null> =>
+  JSON.parse(await readFile(path.join(directory, id, "job.json"), "utf8").catch(() => "null"));
+
+const gan = { kind: "gan" as const, parameters: {}, project: null, save: false };
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "jobs-"));
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  // Retried, since a cancelled job may still be writing its record
+  await rm(directory, { recursive: true, force: true, maxRetries: 5 });
+});
+
+describe("job queue", () => {
+  it("keeps a paused run's progress across a restart and finishes it on resume", async () => {
+    const before = await importJobs();
+    const { id } = await before.submitJob(gan);
+    await until(async () => (await before.getJob(id)).progress.done >= 1);
+    const paused = await before.controlJob(id, "pause");
+    expect(paused.status).toBe("paused");
+    await expect(before.controlJob(id, "pause")).rejects.toMatchObject({ status: 409 });
+    await until(async () => (await savedRecord(id))?.status === "paused");
+
+    const after = await importJobs();
+    const restored = await after.getJob(id);
+    expect(restored).toMatchObject({ status: "paused", progress: paused.progress });
+    expect(restored.output.metrics).toHaveLength(paused.progress.done);
+
+    await after.controlJob(id, "resume");
+    const finished = await until(async () => {
+      const job = await after.getJob(id);
+      return job.status === "completed" && job;
+    });
+    expect(finished.progress).toEqual({ done: 5, total: 5 });
+    expect(finished.output.metrics.map((metrics) => metrics.epoch)).toEqual([1, 50, 100, 150, 200]);
+    expect(finished.startedAt).toBe(paused.startedAt);
+  }, 20000);
+
+  it("stops a cancelled run where it was", async () => {
+    const jobs = await importJobs();
+    const { id } = await jobs.submitJob(gan);
+    const cancelled = await jobs.controlJob(id, "cancel");
+    expect(cancelled).toMatchObject({ status: "cancelled", progress: { done: 0 } });
+    expect(cancelled.finishedAt).not.toBeNull();
+    await expect(jobs.controlJob(id, "resume")).rejects.toMatchObject({ status: 409 });
+    await until(async () => (await savedRecord(id))?.status === "cancelled");
+  });
+
+  it("turns down what it cannot run or answer", async () => {
+    const jobs = await importJobs();
+    await expect(
+      jobs.submitJob({ kind: "vae", smiles: ["CCO", "CCN"], parameters: {}, project: null, save: false })
+    ).rejects.toMatchObject({ status: 400, message: expect.stringContaining("2 given") });
+    await expect(jobs.getJob("nowhere")).rejects.toMatchObject({ status: 404 });
+    const { id } = await jobs.controlJob((await jobs.submitJob(gan)).id, "cancel");
+    await expect(jobs.jobResults(id)).rejects.toMatchObject({ status: 400 });
+    await expect(jobs.jobModel(id)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("moves a single-file job into a directory and sets an unreadable one aside", async () => {
+    const legacy = {
+      id: "gan-old",
+      kind: "gan",
+      status: "completed",
+      project: null,
+      parameters: {},
+      progress: { done: 5, total: 5 },
+      output: { metrics: [], molecules: ["CCO"] },
+      error: null,
+      createdAt: 1,
+      startedAt: 1,
+      finishedAt: 2,
+      entries: [],
+      results: [],
+      save: false,
+      trainingSet: [],
+      checkpoint: null,
+    };
+    await writeFile(path.join(directory, "gan-old.json"), JSON.stringify(legacy));
+    await mkdir(path.join(directory, "gan-broken"));
+    await writeFile(path.join(directory, "gan-broken", "job.json"), "{");
+
+    const jobs = await importJobs();
+    expect((await jobs.listJobs()).map((job) => job.id)).toEqual(["gan-old"]);
+    expect((await readdir(directory)).sort()).toEqual(["gan-broken.corrupt", "gan-old"]);
+    expect(await savedRecord("gan-old")).toMatchObject({ status: "completed", output: { molecules: ["CCO"] } });
+  });
+});
+
+describe("legacy views", () => {
+  it("shows runs as the jobs behind them and hides other kinds", async () => {
+    await importJobs();
+    const legacy = await import("./legacy");
+    const run = await legacy.startRun("gan", {}, "p", false);
+    expect(run).toMatchObject({ model: "gan", status: "running", project: "p", step: 0, steps: 5 });
+    await expect(legacy.getBatch(run.id)).rejects.toMatchObject({ status: 404, message: "Batch not found" });
+    expect(await legacy.stopRun(run.id)).toMatchObject({ status: "stopped" });
+    await expect(legacy.stopRun(run.id)).rejects.toMatchObject({ status: 409, message: "Run already stopped" });
+  });
+});
@@ -0,0 +1,493 @@
+import { appendFile, mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { Worker } from "node:worker_threads";
+import { SMILESAnalysis } from "@/lib/chem/analysis";
+import { BatchEntry } from "@/lib/chem/batch";
+import { GAN_TRAINING_SCHEDULE, GenerativeModel, ganSamples } from "@/lib/generation";
+import { JOB_KIND_SOURCES, JobAction, JobKind, JobSpec, JobStatus, JobView, isActiveJob } from "@/lib/jobs";
+import { newRunId } from "@/lib/library";
+import { DEFAULT_GENERATION_OPTIONS, generateMolecules, generationSettings } from "@/lib/ml/sampling";
+import { Random } from "@/lib/ml/tensor";
+import {
+  DEFAULT_VAE_CONFIG,
+  DEFAULT_VAE_TRAINING,
+  TrainedVAE,
+  VAECheckpoint,
+  VAETraining,
+  batchesPerEpoch,
+  prepareTrainingSet,
+  resumeVAETraining,
+  startVAETraining,
+  trainVAEBatch,
+  trainingSetProblem,
+  trainingShare,
+  vaeSettings,
+  vaeTrainingCheckpoint,
+} from "@/lib/ml/vae";
+import { ApiError } from "./errors";
+import { saveRecords } from "./store";
+
+// The job record plus what the API does not send with it
+interface StoredJob extends JobView {
+  // Batch input and the analyses finished so far, which are also the checkpoint to resume from
+  entries: BatchEntry[];
+  results: SMILESAnalysis[];
+  // Save the final molecules of a model run to the API library
+  save: boolean;
+  // VAE training molecules, canonical, and the latest saved state of the run; the final one holds the trained model
+  trainingSet: string[];
+  checkpoint: VAECheckpoint | null;
+}
+
+interface Executor {
+  // Pause before each step: a simulated training step, or a yield to the event loop between batch and training steps
+  delay: number;
+  // Performs the next step and records it on the job
+  advance: (job: StoredJob) => void | Promise<void>;
+  // Brings state kept outside the record up to date before it is saved
+  checkpoint?: (job: StoredJob) => void;
+  // Brings a job read back after a restart in line with the state saved for it
+  restore?: (job: StoredJob) => void;
+  complete?: (job: StoredJob) => Promise<void>;
+}
+
+// Every job is a directory in here, holding the record, rewritten as it progresses, the input, written once,
+// batch results, appended as they come, and the latest VAE checkpoint
+const JOBS_DIR = path.resolve(process.env.JOBS_DIR ?? "data/jobs");
+const RECORD_FILE = "job.json";
+const INPUT_FILE = "input.json";
+const RESULTS_FILE = "results.jsonl";
+const CHECKPOINT_FILE = "checkpoint.json";
+// Appended to the name of a job that could not be read
+const QUARANTINE_SUFFIX = ".corrupt";
+const CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY ?? 2));
+// Progress is streamed and saved at most this often per job; status changes go out at once
+const STREAM_MS = 250;
+const CHECKPOINT_MS = 2000;
+// VAE weights are most of what a run saves, so they are saved less often while it runs
+const MODEL_CHECKPOINT_MS = 30000;
+// Wall-clock time per simulated GAN step
+const RUN_STEP_MS = 1000;
+
+// The same defaults as the module sliders
+export const DEFAULT_RUN_PARAMETERS: Record<GenerativeModel, Record<string, number>> = {
+  vae: {
+    latentDimensions: DEFAULT_VAE_CONFIG.latentDimensions,
+    encoderLayers: DEFAULT_VAE_CONFIG.encoderLayers,
+    decoderLayers: DEFAULT_VAE_CONFIG.decoderLayers,
+    hiddenSize: DEFAULT_VAE_CONFIG.hiddenSize,
+    learningRate: DEFAULT_VAE_TRAINING.learningRate,
+    betaKL: DEFAULT_VAE_TRAINING.betaKL,
+    epochs: DEFAULT_VAE_TRAINING.epochs,
+    dropout: DEFAULT_VAE_CONFIG.dropout,
+    ...DEFAULT_GENERATION_OPTIONS,
+  },
+  gan: {
+    generatorLayers: 4,
+    discriminatorLayers: 3,
+    latentDim: 100,
+    learningRate: 0.0002,
+    batchSize: 64,
+    discriminatorSteps: 1,
+    generatorSteps: 1,
+    weightClipping: 0.01,
+  },
+};
+
+const saveRunMolecules = async (job: StoredJob) => {
+  if (!job.save || job.output.molecules.length === 0) return;
+  await saveRecords(
+    job.output.molecules.map((smiles) => ({ smiles })),
+    { source: JOB_KIND_SOURCES[job.kind], run: job.id, project: job.project, parameters: job.parameters }
+  );
+};
+
+// Live VAE runs by job id; a run missing here is rebuilt from its checkpoint, or started
+const trainers = new Map<string, VAETraining>();
+
+const trainer = (job: StoredJob) => {
+  let training = trainers.get(job.id);
+  if (!training) {
+    const { config, options } = vaeSettings(job.parameters as Record<string, number>);
+    training = job.checkpoint
+      ? resumeVAETraining(job.checkpoint, job.trainingSet, options)
+      : startVAETraining(job.trainingSet, config, options);
+    trainers.set(job.id, training);
+  }
+  return training;
+};
+
+export interface AnalysisRequest {
+  smiles: string;
+  conformers: number;
+}
+
+export type AnalysisResponse = { analysis: SMILESAnalysis } | { error: string };
+
+// Analysis threads of executing batch jobs by job id; conformer embedding would otherwise hold up every request
+const analyzers = new Map<string, Worker>();
+
+const stopAnalyzer = (id: string) => {
+  void analyzers.get(id)?.terminate();
+  analyzers.delete(id);
+};
+
+// Rejects if the thread fails or is stopped, as it is when the job is paused or cancelled
+const analyze = (job: StoredJob, request: AnalysisRequest) =>
+  new Promise<SMILESAnalysis>((resolve, reject) => {
+    let worker = analyzers.get(job.id);
+    if (!worker) {
+      worker = new Worker(new URL("./analysis.worker.js", import.meta.url));
+      analyzers.set(job.id, worker);
+    }
+    const settle = () => {
+      worker.off("message", message);
+      worker.off("error", fail);
+      worker.off("exit", exit);
+    };
+    const message = (response: AnalysisResponse) => {
+      settle();
+      if ("error" in response) reject(new Error(response.error));
+      else resolve(response.analysis);
+    };
+    const fail = (error: Error) => {
+      settle();
+      stopAnalyzer(job.id);
+      reject(error);
+    };
+    const exit = () => fail(new Error("The analysis thread stopped"));
+    worker.on("message", message);
+    worker.on("error", fail);
+    worker.on("exit", exit);
+    worker.postMessage(request);
+  });
+
+const EXECUTORS: Record<JobKind, Executor> = {
+  batch: {
+    delay: 0,
+    restore: (job) => {
+      job.progress.done = job.results.length;
+    },
+    // One molecule per step, analyzed off the event loop
+    advance: async (job) => {
+      const { smiles, id, extras } = job.entries[job.results.length];
+      const analysis = await analyze(job, { smiles, conformers: Number(job.parameters.conformers) });
+      if (job.status !== "running") return;
+      job.results.push({ ...analysis, id, extras });
+      job.progress.done = job.results.length;
+    },
+  },
+  vae: {
+    delay: 0,
+    // One optimizer step per advance, so the server answers requests between batches
+    advance: (job) => {
+      const metrics = trainVAEBatch(trainer(job));
+      if (metrics) job.output.metrics.push(metrics);
+      job.progress.done++;
+    },
+    checkpoint: (job) => {
+      const training = trainers.get(job.id);
+      if (training) job.checkpoint = vaeTrainingCheckpoint(training);
+    },
+    // The record can be ahead of the checkpoint, and training resumes from the checkpoint
+    restore: (job) => {
+      const { epoch, batch } = job.checkpoint ?? { epoch: 0, batch: 0 };
+      job.progress.done = Math.min(job.progress.total, epoch * batchesPerEpoch(trainingShare(job.trainingSet.length)) + batch);
+      job.output.metrics = job.output.metrics.slice(0, epoch);
+    },
+    // The finished run generates one batch with the job's generation settings
+    complete: async (job) => {
+      const { molecules } = generateMolecules(
+        trainer(job).model,
+        job.trainingSet,
+        generationSettings(job.parameters as Record<string, number>),
+        new Random(Date.now())
+      );
+      job.output.molecules = molecules.map((molecule) => molecule.smiles);
+      await saveRunMolecules(job);
+    },
+  },
+  gan: {
+    delay: RUN_STEP_MS,
+    advance: (job) => {
+      const metrics = GAN_TRAINING_SCHEDULE[job.progress.done];
+      job.output.metrics.push(metrics);
+      job.output.molecules = ganSamples(metrics.validity);
+      job.progress.done++;
+    },
+    complete: saveRunMolecules,
+  },
+};
+
+const jobs = new Map<string, StoredJob>();
+const listeners = new Set<(job: JobView) => void>();
+// Jobs whose execution loop has not returned yet, possibly still waiting out a delay after a pause
+const executing = new Set<string>();
+const streamTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const checkpointTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const writes = new Map<string, Promise<void>>();
+// What is on disk for each job, so a save writes only what changed
+const saved = new Map<string, { input: boolean; results: number; checkpoint: VAECheckpoint | null; checkpointAt: number }>();
+let loading: Promise<void> | null = null;
+
+const toView = ({ entries, results, save, trainingSet, checkpoint, ...view }: StoredJob): JobView => view;
+
+const toRecord = ({ entries, results, trainingSet, checkpoint, ...record }: StoredJob) => record;
+
+// Written to a temporary file and renamed, so the file always holds a whole version
+const replaceFile = async (file: string, text: string) => {
+  await writeFile(`${file}.tmp`, text);
+  await rename(`${file}.tmp`, file);
+};
+
+// Chained per job, so its files are written in order
+const persist = (job: StoredJob) => {
+  clearTimeout(checkpointTimers.get(job.id));
+  checkpointTimers.delete(job.id);
+  const state = saved.get(job.id) ?? { input: false, results: 0, checkpoint: null, checkpointAt: 0 };
+  saved.set(job.id, state);
+  // Taken now, while a run that has just stopped still has its state
+  if (job.status !== "running" || Date.now() - state.checkpointAt >= MODEL_CHECKPOINT_MS) {
+    EXECUTORS[job.kind].checkpoint?.(job);
+    state.checkpointAt = Date.now();
+  }
+  const directory = path.join(JOBS_DIR, job.id);
+  const write = (writes.get(job.id) ?? Promise.resolve()).then(async () => {
+    await mkdir(directory, { recursive: true });
+    if (!state.input) {
+      await replaceFile(path.join(directory, INPUT_FILE), JSON.stringify({ entries: job.entries, trainingSet: job.trainingSet }));
+      state.input = true;
+    }
+    const results = job.results.slice(state.results);
+    if (results.length > 0) {
+      await appendFile(path.join(directory, RESULTS_FILE), results.map((result) => `${JSON.stringify(result)}\n`).join(""));
+      state.results += results.length;
+    }
+    const checkpoint = job.checkpoint;
+    if (checkpoint !== state.checkpoint) {
+      await replaceFile(path.join(directory, CHECKPOINT_FILE), JSON.stringify(checkpoint));
+      state.checkpoint = checkpoint;
+    }
+    await replaceFile(path.join(directory, RECORD_FILE), JSON.stringify(toRecord(job)));
+  });
+  writes.set(job.id, write.catch((error) => console.error(`Could not save job ${job.id}:`, error)));
+  return write;
+};
+
+const stream = (job: StoredJob) => {
+  clearTimeout(streamTimers.get(job.id));
+  streamTimers.delete(job.id);
+  const view = toView(job);
+  for (const listener of listeners) listener(view);
+};
+
+const progressed = (job: StoredJob) => {
+  if (!streamTimers.has(job.id)) streamTimers.set(job.id, setTimeout(() => stream(job), STREAM_MS));
+  if (!checkpointTimers.has(job.id)) checkpointTimers.set(job.id, setTimeout(() => persist(job), CHECKPOINT_MS));
+};
+
+const transition = (job: StoredJob, status: JobStatus, error: string | null = null) => {
+  job.status = status;
+  job.error = error;
+  if (status === "running") job.startedAt ??= Date.now();
+  if (!isActiveJob(job)) job.finishedAt = Date.now();
+  stream(job);
+  void persist(job);
+  // A finished run's state is in its record now
+  if (!isActiveJob(job)) trainers.delete(job.id);
+  // An analysis under way is dropped and done again on resume
+  if (status !== "running") stopAnalyzer(job.id);
+  schedule();
+};
+
+const execute = async (job: StoredJob) => {
+  const executor = EXECUTORS[job.kind];
+  executing.add(job.id);
+  try {
+    while (job.progress.done < job.progress.total) {
+      await new Promise((resolve) => (executor.delay ? setTimeout(resolve, executor.delay) : setImmediate(resolve)));
+      // Paused or cancelled meanwhile; the record keeps everything finished so far
+      if (job.status !== "running") return;
+      await executor.advance(job);
+      progressed(job);
+    }
+    await executor.complete?.(job);
+    if (job.status === "running") transition(job, "completed");
+  } catch (error) {
+    // A step cut short by a pause or cancel is not a failure
+    if (job.status === "running") transition(job, "failed", error instanceof Error ? error.message : String(error));
+  } finally {
+    stopAnalyzer(job.id);
+    executing.delete(job.id);
+    schedule();
+  }
+};
+
+// Start queued jobs, oldest first, while fewer than CONCURRENCY are executing
+const schedule = () => {
+  const queued = [...jobs.values()]
+    .filter((job) => job.status === "queued" && !executing.has(job.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+  for (const job of queued.slice(0, Math.max(0, CONCURRENCY - executing.size))) {
+    transition(job, "running");
+    void execute(job);
+  }
+};
+
+const readOptional = (file: string) =>
+  readFile(file, "utf8").catch((error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  });
+
+const readJob = async (directory: string): Promise<StoredJob> => {
+  const record = JSON.parse(await readFile(path.join(directory, RECORD_FILE), "utf8"));
+  const input = JSON.parse(await readFile(path.join(directory, INPUT_FILE), "utf8"));
+  // Every append ends with a newline, so whatever follows the last one is a line cut short by a crash
+  const lines = ((await readOptional(path.join(directory, RESULTS_FILE))) ?? "").split("\n").slice(0, -1);
+  const checkpoint = await readOptional(path.join(directory, CHECKPOINT_FILE));
+  const job: StoredJob = {
+    ...record,
+    entries: input.entries,
+    trainingSet: input.trainingSet,
+    results: lines.map((line) => JSON.parse(line)),
+    checkpoint: checkpoint && JSON.parse(checkpoint),
+  };
+  saved.set(job.id, { input: true, results: job.results.length, checkpoint: job.checkpoint, checkpointAt: Date.now() });
+  EXECUTORS[job.kind].restore?.(job);
+  return job;
+};
+
+// Jobs running when the server stopped go back in the queue and resume from their last checkpoint
+const load = () => {
+  loading ??= (async () => {
+    const entries = await readdir(JOBS_DIR, { withFileTypes: true }).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    });
+    for (const entry of entries) {
+      const file = path.join(JOBS_DIR, entry.name);
+      // A job that cannot be read is set aside under a new name, where it is kept for inspection
+      try {
+        if (entry.isDirectory() && !entry.name.endsWith(QUARANTINE_SUFFIX)) {
+          const job = await readJob(file);
+          if (job.status === "running") job.status = "queued";
+          jobs.set(job.id, job);
+        } else if (entry.name.endsWith(".json")) {
+          // A whole job in one file, as saved before jobs had directories, moves into one
+          const job: StoredJob = JSON.parse(await readFile(file, "utf8"));
+          if (job.status === "running") job.status = "queued";
+          jobs.set(job.id, job);
+          await persist(job);
+          await rm(file);
+        }
+      } catch (error) {
+        console.error(`Could not read job ${entry.name}; moved aside to ${entry.name}${QUARANTINE_SUFFIX}:`, error);
+        await rename(file, `${file}${QUARANTINE_SUFFIX}`).catch(() => undefined);
+      }
+    }
+    schedule();
+  })().catch((error) => {
+    // Tried again on the next request rather than failing every one from now on
+    loading = null;
+    throw error;
+  });
+  return loading;
+};
+
+const uniqueId = (kind: JobKind) => {
+  let id = newRunId(JOB_KIND_SOURCES[kind]);
+  for (let k = 2; jobs.has(id); k++) id = `${newRunId(JOB_KIND_SOURCES[kind])}-${k}`;
+  return id;
+};
+
+const stored = async (id: string) => {
+  await load();
+  const job = jobs.get(id);
+  if (!job) throw new ApiError(404, `Job ${id} not found`);
+  return job;
+};
+
+// Batches for a VAE run, simulated steps for a GAN run
+const stepCount = (kind: GenerativeModel, parameters: Record<string, number>, molecules: number) =>
+  kind === "vae" ? vaeSettings(parameters).options.epochs * batchesPerEpoch(trainingShare(molecules)) : GAN_TRAINING_SCHEDULE.length;
+
+export const submitJob = async (spec: JobSpec): Promise<JobView> => {
+  await load();
+  const batch = spec.kind === "batch" ? spec : null;
+  const run = spec.kind === "batch" ? null : spec;
+  const prepared = spec.kind === "vae" ? prepareTrainingSet(spec.smiles) : { molecules: [], skipped: 0 };
+  const problem = spec.kind === "vae" && trainingSetProblem(prepared);
+  if (problem) throw new ApiError(400, problem);
+  const parameters = run && { ...DEFAULT_RUN_PARAMETERS[run.kind], ...run.parameters };
+  const job: StoredJob = {
+    id: uniqueId(spec.kind),
+    kind: spec.kind,
+    status: "queued",
+    project: spec.project,
+    parameters: batch
+      ? { ...batch.parameters, conformers: batch.conformers }
+      : run.kind === "vae"
+        ? { ...parameters, trainingMolecules: prepared.molecules.length, skipped: prepared.skipped }
+        : parameters,
+    progress: { done: 0, total: batch ? batch.entries.length : stepCount(run.kind, parameters, prepared.molecules.length) },
+    output: run ? { metrics: [], molecules: [] } : null,
+    error: null,
+    createdAt: Date.now(),
+    startedAt: null,
+    finishedAt: null,
+    entries: batch?.entries ?? [],
+    results: [],
+    save: run?.save ?? false,
+    trainingSet: prepared.molecules,
+    checkpoint: null,
+  };
+  jobs.set(job.id, job);
+  transition(job, "queued");
+  return toView(job);
+};
+
+// Newest first
+export const listJobs = async () => {
+  await load();
+  return [...jobs.values()].sort((a, b) => b.createdAt - a.createdAt).map(toView);
+};
+
+export const getJob = async (id: string) => toView(await stored(id));
+
+export const jobResults = async (id: string, offset = 0, limit?: number) => {
+  const job = await stored(id);
+  if (job.kind !== "batch") throw new ApiError(400, `Job ${id} is a model run; its molecules are in the job itself`);
+  return job.results.slice(offset, limit === undefined ? undefined : offset + limit);
+};
+
+export const jobModel = async (id: string): Promise<TrainedVAE> => {
+  const job = await stored(id);
+  if (job.kind !== "vae") throw new ApiError(400, `Job ${id} is not a VAE run`);
+  if (job.status !== "completed" || !job.checkpoint) throw new ApiError(409, `Job ${id} has no trained model yet`);
+  return { model: job.checkpoint.model, molecules: job.trainingSet };
+};
+
+const ALLOWED: Record<JobAction, JobStatus[]> = {
+  pause: ["queued", "running"],
+  resume: ["paused"],
+  cancel: ["queued", "running", "paused"],
+};
+
+const TARGET: Record<JobAction, JobStatus> = { pause: "paused", resume: "queued", cancel: "cancelled" };
+
+export const controlJob = async (id: string, action: JobAction) => {
+  const job = await stored(id);
+  if (!ALLOWED[action].includes(job.status)) throw new ApiError(409, `Cannot ${action} a ${job.status} job`);
+  transition(job, TARGET[action]);
+  return toView(job);
+};
+
+// Sends the current state of the watched jobs, then every change; returns the function that stops watching
+export const watchJobs = async (listener: (job: JobView) => void, id?: string) => {
+  if (id) listener(toView(await stored(id)));
+  else for (const job of await listJobs()) listener(job);
+  const filtered = (job: JobView) => (!id || job.id === id) && listener(job);
+  listeners.add(filtered);
+  return () => listeners.delete(filtered);
+};
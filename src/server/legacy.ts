@@ -0,0 +1,93 @@
+import { BatchEntry } from "@/lib/chem/batch";
+import { GenerativeModel } from "@/lib/generation";
+import { JobKind, JobView, isActiveJob } from "@/lib/jobs";
+import { EMPTY_LIBRARY_QUERY } from "@/lib/library";
+import { ApiError } from "./errors";
+import { controlJob, getJob, jobResults, listJobs, submitJob } from "./jobs";
+import { queryRecords } from "./store";
+
+// The batch and run endpoints from before the job queue, kept as views of the jobs behind them
+
+export type BatchStatus = "running" | "completed" | "cancelled" | "failed";
+
+export type RunStatus = "running" | "completed" | "stopped" | "failed";
+
+// Queued and paused jobs still count as running to clients of the old endpoints
+const legacyStatus = (job: JobView) => (isActiveJob(job) ? "running" : job.status);
+
+const batchSummary = (job: JobView) => ({
+  id: job.id,
+  status: legacyStatus(job) as BatchStatus,
+  options: { conformers: Number(job.parameters.conformers) },
+  total: job.progress.total,
+  done: job.progress.done,
+  error: job.error,
+  createdAt: job.createdAt,
+  finishedAt: job.finishedAt,
+});
+
+const toRun = (job: JobView) => ({
+  id: job.id,
+  model: job.kind as GenerativeModel,
+  status: (job.status === "cancelled" ? "stopped" : legacyStatus(job)) as RunStatus,
+  parameters: job.parameters,
+  project: job.project,
+  step: job.progress.done,
+  steps: job.progress.total,
+  metrics: job.output?.metrics ?? [],
+  molecules: job.output?.molecules ?? [],
+  error: job.error,
+  startedAt: job.startedAt ?? job.createdAt,
+  finishedAt: job.finishedAt,
+});
+
+// A job of another kind is as unknown to these endpoints as a missing one
+const jobOf = async (id: string, kinds: JobKind[], what: string) => {
+  const job = await getJob(id).catch((error) => {
+    if (error instanceof ApiError && error.status === 404) return null;
+    throw error;
+  });
+  if (!job || !kinds.includes(job.kind)) throw new ApiError(404, `${what} not found`);
+  return job;
+};
+
+export const startBatch = async (entries: BatchEntry[], conformers: number) =>
+  batchSummary(await submitJob({ kind: "batch", entries, conformers, parameters: {}, project: null }));
+
+export const listBatches = async () => (await listJobs()).filter((job) => job.kind === "batch").map(batchSummary);
+
+// With every result so far, in input order
+export const getBatch = async (id: string) => {
+  const job = await jobOf(id, ["batch"], "Batch");
+  return { ...batchSummary(job), results: await jobResults(id) };
+};
+
+export const cancelBatch = async (id: string) => {
+  const job = await jobOf(id, ["batch"], "Batch");
+  if (!isActiveJob(job)) throw new ApiError(409, `Batch already ${job.status}`);
+  return batchSummary(await controlJob(id, "cancel"));
+};
+
+// VAE runs used to be simulated; without SMILES of its own one trains on the API library
+export const startRun = async (
+  model: GenerativeModel,
+  parameters: Record<string, number>,
+  project: string | null,
+  save: boolean,
+  smiles?: string[]
+) => {
+  if (model === "gan") return toRun(await submitJob({ kind: "gan", parameters, project, save }));
+  const training = smiles ?? (await queryRecords(EMPTY_LIBRARY_QUERY)).map((record) => record.smiles);
+  return toRun(await submitJob({ kind: "vae", smiles: training, parameters, project, save }));
+};
+
+export const listRuns = async () => (await listJobs()).filter((job) => job.kind !== "batch").map(toRun);
+
+export const getRun = async (id: string) => toRun(await jobOf(id, ["vae", "gan"], "Run"));
+
+// A stopped run keeps the metrics and molecules of the steps it finished
+export const stopRun = async (id: string) => {
+  const job = await jobOf(id, ["vae", "gan"], "Run");
+  if (!isActiveJob(job)) throw new ApiError(409, `Run already ${job.status === "cancelled" ? "stopped" : job.status}`);
+  return toRun(await controlJob(id, "cancel"));
+};
@@ -0,0 +1,53 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EMPTY_LIBRARY_QUERY } from "@/lib/library";
+
+let directory: string;
+
+// The store reads LIBRARY_FILE when it is imported, so each test gets a fresh copy
+const importStore = async (file: string) => {
+  vi.stubEnv("LIBRARY_FILE", file);
+  vi.resetModules();
+  return import("./store");
+};
+
+const provenance = { source: "smiles" as const, run: "test", project: null, parameters: {} };
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "store-"));
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("API library store", () => {
+  it("reads the library again after a failed load", async () => {
+    const file = path.join(directory, "library.json");
+    await writeFile(file, "not json");
+    const store = await importStore(file);
+    await expect(store.queryRecords(EMPTY_LIBRARY_QUERY)).rejects.toThrow();
+    await writeFile(file, "[]");
+    await expect(store.queryRecords(EMPTY_LIBRARY_QUERY)).resolves.toEqual([]);
+  });
+
+  it("keeps saving after a failed write", async () => {
+    const parent = path.join(directory, "data");
+    const store = await importStore(path.join(parent, "library.json"));
+    await store.queryRecords(EMPTY_LIBRARY_QUERY);
+    // A file where the directory should be makes the write fail
+    await writeFile(parent, "");
+    await expect(store.saveRecords([{ smiles: "CCO" }], provenance)).rejects.toThrow();
+    await rm(parent);
+    await expect(store.saveRecords([{ smiles: "c1ccccc1" }], provenance)).resolves.toMatchObject({ added: 1 });
+    expect((await store.queryRecords(EMPTY_LIBRARY_QUERY)).map((record) => record.canonicalSmiles).sort()).toEqual([
+      "CCO",
+      "c1ccccc1",
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  LibraryEntry,
+  LibraryMolecule,
+  LibraryQuery,
+  Provenance,
+  SaveSummary,
+  describeLibraryEntry,
+  matchLibraryQuery,
+  mergeLibraryRecord,
+  retagRecord,
+} from "@/lib/library";
+
+// The API keeps its own library in a JSON file; the browser's library lives in IndexedDB
+const LIBRARY_FILE = path.resolve(process.env.LIBRARY_FILE ?? "data/library.json");
+
+let records: Promise<Map<string, LibraryMolecule>> | null = null;
+// Writes are chained so a slow write never lands after a newer one
+let writing: Promise<void> = Promise.resolve();
+
+const load = () => {
+  records ??= readFile(LIBRARY_FILE, "utf8").then(
+    (text) => new Map((JSON.parse(text) as LibraryMolecule[]).map((record) => [record.canonicalSmiles, record])),
+    (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return new Map<string, LibraryMolecule>();
+      throw error;
+    }
+  );
+  // Tried again on the next request rather than failing every one from now on
+  records.catch(() => (records = null));
+  return records;
+};
+
+// Written to a temporary file and renamed, so a crash never leaves half a library. A failed write
+// rejects for its caller only; the next one still runs
+const persist = (library: Map<string, LibraryMolecule>) => {
+  const text = JSON.stringify([...library.values()]);
+  const write = writing.then(async () => {
+    await mkdir(path.dirname(LIBRARY_FILE), { recursive: true });
+    await writeFile(`${LIBRARY_FILE}.tmp`, text);
+    await rename(`${LIBRARY_FILE}.tmp`, LIBRARY_FILE);
+  });
+  writing = write.catch((error) => console.error("Could not save the API library:", error));
+  return write;
+};
+
+export const saveRecords = async (
+  entries: LibraryEntry[],
+  provenance: Omit<Provenance, "savedAt">
+): Promise<SaveSummary> => {
+  const library = await load();
+  const stamp: Provenance = { ...provenance, savedAt: Date.now() };
+  const summary: SaveSummary = { added: 0, updated: 0, skipped: 0 };
+  for (const entry of entries.map(describeLibraryEntry)) {
+    if (!entry) {
+      summary.skipped++;
+      continue;
+    }
+    const existing = library.get(entry.canonicalSmiles);
+    if (existing) summary.updated++;
+    else summary.added++;
+    library.set(entry.canonicalSmiles, mergeLibraryRecord(existing, entry, stamp));
+  }
+  await persist(library);
+  return summary;
+};
+
+export const queryRecords = async (query: LibraryQuery) => matchLibraryQuery([...(await load()).values()], query);
+
+export const getRecord = async (key: string) => (await load()).get(key) ?? null;
+
+// Number of records found and changed
+export const retagRecords = async (keys: string[], add: string[], remove: string[]) => {
+  const library = await load();
+  const found = keys.filter((key) => library.has(key));
+  for (const key of found) library.set(key, retagRecord(library.get(key), add, remove));
+  if (found.length > 0) await persist(library);
+  return found.length;
+};
+
+export const removeRecords = async (keys: string[]) => {
+  const library = await load();
+  const removed = keys.filter((key) => library.delete(key));
+  if (removed.length > 0) await persist(library);
+  return removed.length;
+};
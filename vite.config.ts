@@ -4,10 +4,22 @@ import path from "path";
 import { componentTagger } from "lovable-tagger";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
+export default defineConfig(({ mode, isSsrBuild }) => ({
   server: {
     host: "::",
     port: 8080,
+    // The API and job queue come from server.js ("npm run build:api && npm start")
+    proxy: {
+      "/api": `http://localhost:${process.env.API_PORT ?? 3000}`,
+    },
+  },
+  // The SSR build is the API bundle for server.js, which needs no static assets, and the
+  // thread batch jobs analyze in
+  build: {
+    copyPublicDir: !isSsrBuild,
+    rollupOptions: isSsrBuild
+      ? { input: { api: "src/server/api.ts", "analysis.worker": "src/server/analysis.worker.ts" } }
+      : undefined,
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {